@@ -25,6 +25,7 @@ export default tseslint.config(
       'dist/**',
       'node_modules/**',
       '**/*.test.ts',
+      '**/__tests__/**',
       '**/*.d.ts',
     ],
   }
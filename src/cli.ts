@@ -56,6 +56,7 @@ import {
   createPlansCommand,
   createMonitorCommand,
   createServeCommand,
+  createProbeCommand,
 } from './commands/index.js';
 import { createHelpCommand, generateGuideHelp } from './help/index.js';
 
@@ -214,11 +215,14 @@ program.addCommand(catCmd);
 program.addCommand(createRegistryCommand(getConfigPath));
 
 // runners (Phase 7.x: Package runners)
-program.addCommand(createRunnersCommand());
+program.addCommand(createRunnersCommand(getConfigPath));
 
 // plans (Phase 5.2: Validation plans)
 program.addCommand(createPlansCommand(getConfigPath));
 
+// probe (protocol version compatibility)
+program.addCommand(createProbeCommand(getConfigPath));
+
 // monitor (Web Monitor)
 program.addCommand(createMonitorCommand(getConfigPath));
 
@@ -245,7 +249,7 @@ function hasHelpFlag(): boolean {
 const KNOWN_COMMANDS = new Set([
   'view', 'v', 'tree', 't', 'status', 'st',
   'scan', 's', 'archive', 'a', 'config', 'c',
-  'connectors', 'connector', 'sessions', 'rpc', 'task', 'summary', 'analyze', 'record', 'doctor', 'shell', 'secrets', 'secret', 'tool', 'proxy', 'log', 'popl', 'catalog', 'cat', 'registry', 'runners', 'plans', 'monitor', 'i18n', 'help', 'agent', 'serve'
+  'connectors', 'connector', 'sessions', 'rpc', 'task', 'summary', 'analyze', 'record', 'doctor', 'shell', 'secrets', 'secret', 'tool', 'proxy', 'log', 'popl', 'catalog', 'cat', 'registry', 'runners', 'plans', 'probe', 'monitor', 'i18n', 'help', 'agent', 'serve'
 ]);
 
 // Shell-only commands (not available as CLI commands)
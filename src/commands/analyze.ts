@@ -36,6 +36,8 @@ import {
   getSessionDateRange,
   getLatestToolsForConnector,
   getSessionsForConnector,
+  getInjectedFaults,
+  type InjectedFaultSummary,
 } from '../db/tool-analysis.js';
 import { t } from '../i18n/index.js';
 
@@ -71,6 +73,8 @@ export interface OverallAnalysisData {
     category: OperationCategory;
   }>;
   by_category: Record<OperationCategory, number>;
+  /** Faults injected by `pfscan proxy` (not backend errors) */
+  injected_faults: InjectedFaultSummary[];
 }
 
 /** Connector analysis data */
@@ -89,6 +93,8 @@ export interface ConnectorAnalysisData {
     category: OperationCategory;
   }>;
   by_category: Record<OperationCategory, number>;
+  /** Faults injected by `pfscan proxy` (not backend errors) */
+  injected_faults: Array<Omit<InjectedFaultSummary, 'connector_id'>>;
 }
 
 /** Session analysis data (replaces permissions) */
@@ -154,6 +160,7 @@ function generateOverallAnalysis(configDir: string): OverallAnalysisData {
       .sort((a, b) => b.count - a.count),
     tools_called: toolUsage,
     by_category: byCategory,
+    injected_faults: getInjectedFaults(configDir),
   };
 }
 
@@ -199,6 +206,7 @@ function generateConnectorAnalysis(
       category: t.category,
     })),
     by_category: byCategory,
+    injected_faults: getInjectedFaults(configDir, targetId).map(({ tool, kind, count }) => ({ tool, kind, count })),
   };
 }
 
@@ -348,6 +356,23 @@ function renderOverallAnalysis(data: OverallAnalysisData): void {
       }
     }
   }
+
+  renderInjectedFaults(data.injected_faults);
+}
+
+/**
+ * Render faults injected by the proxy, apart from real tool usage
+ */
+function renderInjectedFaults(faults: Array<{ tool: string; kind: string; count: number; connector_id?: string }>): void {
+  if (faults.length === 0) return;
+
+  console.log();
+  console.log('Injected Faults (pfscan proxy, not backend errors):');
+  for (const fault of faults) {
+    const countStr = fault.count === 1 ? '1 time' : `${fault.count} times`;
+    const connector = fault.connector_id ? `  (${fault.connector_id})` : '';
+    console.log(`  ${fault.tool.padEnd(20)} ${fault.kind.padEnd(9)} ${countStr}${connector}`);
+  }
 }
 
 /**
@@ -398,6 +423,8 @@ function renderConnectorAnalysis(data: ConnectorAnalysisData): void {
       }
     }
   }
+
+  renderInjectedFaults(data.injected_faults);
 }
 
 /**
@@ -31,9 +31,9 @@ describe('catalog install stdio', () => {
       expect(validRunners).toContain('uvx');
     });
 
-    it('should have exactly two runners', () => {
+    it('should have package and container runners', () => {
       const runners = listRunnerNames();
-      expect(runners).toHaveLength(2);
+      expect(runners).toEqual(['npx', 'uvx', 'bunx', 'pnpm', 'pipx', 'deno', 'docker', 'podman']);
     });
   });
 
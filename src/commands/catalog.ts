@@ -49,6 +49,10 @@ import type { Connector, HttpTransport, StdioTransport } from '../types/index.js
 import {
   getRunner,
   findAvailableRunner,
+  findAvailableContainerRunner,
+  isContainerRunner,
+  isRunnerName,
+  listRunnerNames,
   parsePackageRef,
   sanitizeEnv,
   type RunnerName,
@@ -543,18 +547,11 @@ function deriveConnectorId(serverName: string): string {
 /**
  * Valid runner names for --runner option
  */
-const VALID_RUNNER_NAMES = ['npx', 'uvx'] as const;
-
-/**
- * Check if a runner name is valid
- */
-function isValidRunnerName(name: string): name is RunnerName {
-  return (VALID_RUNNER_NAMES as readonly string[]).includes(name.toLowerCase());
-}
+const VALID_RUNNER_NAMES = listRunnerNames();
 
 /**
  * Extract PackageRef from server's packages[] array
- * Priority: npm > pypi (npx is more common)
+ * Priority: npm > pypi > oci (npx is more common)
  * @returns PackageRef and the source package info, or null if not found
  */
 function extractPackageRefFromPackages(
@@ -583,6 +580,21 @@ function extractPackageRefFromPackages(
     };
   }
 
+  // OCI images ('docker' in older registry data); declared env vars are passed through
+  const oci = packages.find(p => p.registryType === 'oci' || p.registryType === 'docker');
+  if (oci) {
+    const envNames = oci.environmentVariables?.map(v => v.name) ?? [];
+    return {
+      ref: {
+        package: oci.identifier,
+        version: oci.version,
+        ...(envNames.length > 0 && { envNames }),
+      },
+      pkg: oci,
+      runnerHint: 'docker',
+    };
+  }
+
   // No supported package type found
   return null;
 }
@@ -1204,7 +1216,7 @@ export function createCatalogCommand(getConfigPath: () => string): Command {
     .option('--source <name>', 'Use specific catalog source')
     .option('--dry-run', 'Show what would be added without modifying config')
     .option('--name <id>', 'Override connector ID')
-    .option('--runner <name>', 'Package runner to use for stdio servers (npx, uvx)')
+    .option('--runner <name>', `Package runner to use for stdio servers (${VALID_RUNNER_NAMES.join(', ')})`)
     .option('--version <version>', 'Package version to install (default: latest from npm/pypi)')
     .option('--allow-untrusted', 'Allow installation of untrusted servers')
     .option('--spinner', 'Show spinner')
@@ -1350,6 +1362,10 @@ export function createCatalogCommand(getConfigPath: () => string): Command {
           // Fallback: try parsing from transport.command/args
           if (!pkgRef && transport) {
             pkgRef = parsePackageRef(transport);
+            const command = transport.command?.toLowerCase();
+            if (pkgRef && command && isRunnerName(command)) {
+              runnerHint = command;
+            }
           }
 
           if (!pkgRef) {
@@ -1393,10 +1409,12 @@ export function createCatalogCommand(getConfigPath: () => string): Command {
 
           // Determine runner to use
           let runner;
+          const ecosystem = runnerHint ? getRunner(runnerHint).ecosystem : undefined;
 
           if (options.runner) {
             // --runner specified: validate and use that runner
-            if (!isValidRunnerName(options.runner)) {
+            const runnerName = options.runner.toLowerCase();
+            if (!isRunnerName(runnerName)) {
               if (opts.json) {
                 output({
                   error: `Invalid runner: ${options.runner}`,
@@ -1409,7 +1427,19 @@ export function createCatalogCommand(getConfigPath: () => string): Command {
               process.exit(1);
             }
 
-            runner = getRunner(options.runner as RunnerName);
+            runner = getRunner(runnerName);
+            if (ecosystem && runner.ecosystem !== ecosystem) {
+              if (opts.json) {
+                output({
+                  error: `Runner '${runnerName}' cannot run ${ecosystem} packages`,
+                  validRunners: VALID_RUNNER_NAMES.filter((n) => getRunner(n).ecosystem === ecosystem),
+                });
+              } else {
+                outputError(`Runner '${runnerName}' cannot run ${ecosystem} packages.`);
+                console.error(`Use one of: ${VALID_RUNNER_NAMES.filter((n) => getRunner(n).ecosystem === ecosystem).join(', ')}`);
+              }
+              process.exit(1);
+            }
             const status = await runner.detect();
 
             if (!status.available) {
@@ -1429,29 +1459,55 @@ export function createCatalogCommand(getConfigPath: () => string): Command {
               }
               process.exit(1);
             }
-          } else if (runnerHint) {
-            // Use runner hint from packages[] (npm -> npx, pypi -> uvx)
-            runner = getRunner(runnerHint);
-            const status = await runner.detect();
+          } else if (runnerHint && isContainerRunner(runnerHint)) {
+            // OCI image: only a container engine can run it (docker > podman)
+            runner = await findAvailableContainerRunner();
 
-            if (!status.available) {
-              // Fallback to auto-select if hinted runner is not available
-              runner = await findAvailableRunner();
+            if (!runner) {
+              if (opts.json) {
+                output({
+                  error: 'No container runtime available',
+                  suggestion: 'Install docker or podman',
+                });
+              } else {
+                outputError('No container runtime available.');
+                console.error();
+                console.error('This server is published as an OCI image.');
+                console.error('Install one of the following:');
+                console.error('  - Docker: https://docs.docker.com/get-docker/');
+                console.error('  - Podman: https://podman.io/docs/installation');
+                console.error();
+                console.error('Then run diagnostics:');
+                console.error('  pfscan runners doctor');
+              }
+              process.exit(1);
             }
+          } else if (ecosystem === 'npm' || ecosystem === 'pypi') {
+            // Configured default for the ecosystem, then the first available runner for it
+            runner = await findAvailableRunner(ecosystem, config.runners?.[ecosystem]);
 
             if (!runner) {
               if (opts.json) {
                 output({
                   error: 'No package runner available',
-                  suggestion: `Install ${runnerHint === 'npx' ? 'npm' : 'uv'} or an alternative runner`,
+                  suggestion: ecosystem === 'npm'
+                    ? 'Install npm (for npx), bun (for bunx), pnpm or deno'
+                    : 'Install uv (for uvx) or pipx',
                 });
               } else {
                 outputError('No package runner available.');
                 console.error();
-                console.error(`This package requires ${runnerHint}, but it's not installed.`);
+                console.error(`This is a ${ecosystem} package, but no runner for it is installed.`);
                 console.error('Install one of the following:');
-                console.error('  - npm (provides npx): https://nodejs.org');
-                console.error('  - uv (provides uvx): https://github.com/astral-sh/uv');
+                if (ecosystem === 'npm') {
+                  console.error('  - npm (provides npx): https://nodejs.org');
+                  console.error('  - bun (provides bunx): https://bun.sh');
+                  console.error('  - pnpm: https://pnpm.io/installation');
+                  console.error('  - deno: https://deno.com');
+                } else {
+                  console.error('  - uv (provides uvx): https://github.com/astral-sh/uv');
+                  console.error('  - pipx: https://pipx.pypa.io');
+                }
                 console.error();
                 console.error('Then run diagnostics:');
                 console.error('  pfscan runners doctor');
@@ -1459,8 +1515,8 @@ export function createCatalogCommand(getConfigPath: () => string): Command {
               process.exit(1);
             }
           } else {
-            // No --runner specified and no hint: auto-select (npx > uvx)
-            runner = await findAvailableRunner();
+            // No --runner specified and no hint: auto-select (npx > uvx > ...)
+            runner = await findAvailableRunner(undefined, config.runners?.npm);
 
             if (!runner) {
               if (opts.json) {
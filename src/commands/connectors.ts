@@ -17,6 +17,7 @@ import {
   SHORT_ID_LENGTH,
   toRpcStatus,
   createPayloadData,
+  createServerOutputLines,
   getConnectorHtmlFilename,
   getSpillFilename,
   generateConnectorHtml,
@@ -282,6 +283,10 @@ function buildSessionReport(
       total_latency_ms: rpcs.length > 0 ? totalLatencyMs : null,
     },
     rpcs,
+    server_output: createServerOutputLines(
+      new EventsStore(configDir).getServerOutputEvents(session.session_id),
+      options.redact
+    ),
   };
 
   return { report, spillCount };
@@ -421,6 +426,38 @@ async function exportConnectorHtml(
   }
 }
 
+// ============================================================================
+// Header Options
+// ============================================================================
+
+/**
+ * Collect multiple --header values into an array
+ */
+function collectHeaders(value: string, previous: string[]): string[] {
+  return previous.concat([value]);
+}
+
+/**
+ * Parse "Name: value" header options into a record
+ * Returns null if any entry is malformed.
+ */
+export function parseHeaderOptions(values: string[] | undefined): Record<string, string> | null {
+  const headers: Record<string, string> = {};
+  for (const entry of values ?? []) {
+    const colonIndex = entry.indexOf(':');
+    if (colonIndex <= 0) {
+      return null;
+    }
+    const name = entry.slice(0, colonIndex).trim();
+    const value = entry.slice(colonIndex + 1).trim();
+    if (!name) {
+      return null;
+    }
+    headers[name] = value;
+  }
+  return headers;
+}
+
 // ============================================================================
 // Connectors Command
 // ============================================================================
@@ -539,6 +576,10 @@ export function createConnectorsCommand(getConfigPath: () => string): Command {
     .argument('[id]', 'Connector ID')
     .option('--id <id>', 'Connector ID (alternative to positional argument)')
     .option('--stdio <cmdline>', 'Command line (command and args as single string)')
+    .option('--http <url>', 'Streamable HTTP endpoint URL')
+    .option('--sse <url>', 'Legacy HTTP+SSE endpoint URL (GET /sse)')
+    .option('--ws <url>', 'WebSocket endpoint URL (ws:// or wss://)')
+    .option('--header <name:value>', 'HTTP header for --http/--sse/--ws (can be specified multiple times)', collectHeaders, [])
     .option('--from-mcp-json <json>', 'MCP server JSON (use "-" for stdin)')
     .option('--from-mcp-file <path>', 'Path to MCP config file (e.g., claude_desktop_config.json)')
     .option('--clip', 'Read MCP server JSON from clipboard')
@@ -715,8 +756,42 @@ export function createConnectorsCommand(getConfigPath: () => string): Command {
           return;
         }
 
+        // --http (Streamable HTTP), --sse (legacy HTTP+SSE) or --ws (WebSocket) mode
+        if (options.http || options.sse || options.ws) {
+          const urlModes = [options.http, options.sse, options.ws].filter(Boolean);
+          if (urlModes.length > 1) {
+            outputError('Cannot use more than one of --http, --sse, --ws');
+            process.exit(1);
+          }
+          const urlFlag = options.http ? '--http' : options.sse ? '--sse' : '--ws';
+          if (!id) {
+            outputError(`Connector ID is required. Usage: connectors add <id> ${urlFlag} <url>`);
+            process.exit(1);
+          }
+
+          const headers = parseHeaderOptions(options.header);
+          if (!headers) {
+            outputError('Invalid --header format. Expected: --header \'Name: value\'');
+            process.exit(1);
+          }
+
+          const connector: Connector = {
+            id,
+            enabled: true,
+            transport: {
+              type: options.http ? 'rpc-http' : options.sse ? 'rpc-sse' : 'ws',
+              url: options.http || options.sse || options.ws,
+              ...(Object.keys(headers).length > 0 && { headers }),
+            },
+          };
+
+          await manager.addConnector(connector);
+          outputSuccess(`Connector '${id}' added`);
+          return;
+        }
+
         // No mode specified
-        outputError('One of --stdio, --from-mcp-json, --from-mcp-file, or --clip is required');
+        outputError('One of --stdio, --http, --sse, --ws, --from-mcp-json, --from-mcp-file, or --clip is required');
         console.error('\nExamples:');
         console.error('  # From clipboard (copy JSON from mcp.so, then run)');
         console.error('  pfscan connectors add inscribe --clip');
@@ -724,6 +799,15 @@ export function createConnectorsCommand(getConfigPath: () => string): Command {
         console.error('  # From command line');
         console.error('  pfscan connectors add inscribe --stdio \'npx -y inscribe-mcp\'');
         console.error('');
+        console.error('  # Remote server (Streamable HTTP)');
+        console.error('  pfscan connectors add remote --http https://example.com/mcp --header \'Authorization: Bearer <token>\'');
+        console.error('');
+        console.error('  # Remote server (legacy HTTP+SSE)');
+        console.error('  pfscan connectors add legacy --sse https://example.com/sse');
+        console.error('');
+        console.error('  # Remote server (WebSocket)');
+        console.error('  pfscan connectors add socket --ws wss://example.com/mcp');
+        console.error('');
         console.error('  # From MCP JSON (README format)');
         console.error('  pfscan connectors add inscribe --from-mcp-json \'{"command":"npx","args":["-y","inscribe-mcp"]}\'');
         console.error('');
@@ -58,3 +58,6 @@ export * from './monitor.js';
 
 // Phase 8: Protocol Gateway
 export * from './serve.js';
+
+// Protocol version probe
+export * from './probe.js';
@@ -0,0 +1,79 @@
+/**
+ * Probe commands
+ *
+ * pfscan probe versions <connector> [--versions <list>] [--timeout <seconds>]
+ *
+ * Runs initialize once per MCP protocol version and stores the
+ * compatibility matrix shown by summary, the monitor and POPL entries.
+ */
+
+import { Command } from 'commander';
+import { ConfigManager } from '../config/index.js';
+import { probeProtocolVersions, toProtocolMatrix, formatProbeOutcome } from '../scanner/version-probe.js';
+import { MCP_PROTOCOL_VERSIONS, isProtocolVersion } from '../transports/protocol-versions.js';
+import { output, outputError } from '../utils/output.js';
+
+/**
+ * Parse a comma-separated --versions value
+ */
+function parseVersions(value: string | undefined): string[] {
+  if (!value) {
+    return [...MCP_PROTOCOL_VERSIONS];
+  }
+  const versions = value.split(',').map((v) => v.trim()).filter(Boolean);
+  const invalid = versions.filter((v) => !isProtocolVersion(v));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid protocol version: ${invalid.join(', ')} (expected YYYY-MM-DD)`);
+  }
+  return versions;
+}
+
+export function createProbeCommand(getConfigPath: () => string): Command {
+  const cmd = new Command('probe')
+    .description('Probe MCP server behavior');
+
+  cmd
+    .command('versions')
+    .description('Run initialize with each protocol version and store the compatibility matrix')
+    .argument('<connector>', 'Connector ID')
+    .option('--versions <list>', `Comma-separated versions (default: ${MCP_PROTOCOL_VERSIONS.join(',')})`)
+    .option('--timeout <seconds>', 'Timeout per version in seconds', '30')
+    .action(async (connectorId: string, options) => {
+      try {
+        const versions = parseVersions(options.versions);
+        const manager = new ConfigManager(getConfigPath());
+        const connector = await manager.getConnector(connectorId);
+
+        if (!connector) {
+          outputError(`Connector not found: ${connectorId}`);
+          process.exit(1);
+        }
+
+        const result = await probeProtocolVersions(connector, manager.getConfigDir(), {
+          versions,
+          timeout: parseInt(options.timeout, 10),
+        });
+        const matrix = toProtocolMatrix(result.results);
+
+        const lines = [`Protocol versions for ${connectorId}:`, ''];
+        for (const row of matrix) {
+          lines.push(`  ${row.requested_version}  ${formatProbeOutcome(row)}`);
+          if (row.status !== 'failed') {
+            lines.push(`      capabilities: ${row.capabilities.join(', ') || '(none)'}`);
+            lines.push(`      fields: ${row.fields.join(', ')}`);
+          }
+        }
+
+        output({ connector_id: connectorId, versions: matrix }, lines.join('\n'));
+
+        if (matrix.every((row) => row.status === 'failed')) {
+          process.exit(1);
+        }
+      } catch (error) {
+        outputError(error instanceof Error ? error.message : String(error));
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
@@ -0,0 +1,54 @@
+/**
+ * Tests for proxy command - replay sources
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { resolveReplaySource } from './proxy.js';
+import { closeAllDbs } from '../db/connection.js';
+import { EventsStore } from '../db/events-store.js';
+import type { Connector } from '../types/index.js';
+
+describe('resolveReplaySource', () => {
+  let configDir: string;
+  let eventsStore: EventsStore;
+
+  const connectors: Connector[] = [
+    { id: 'retired', enabled: false, transport: { type: 'stdio', command: 'retired-server' } },
+  ];
+
+  beforeEach(() => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+    eventsStore = new EventsStore(configDir);
+  });
+
+  afterEach(() => {
+    closeAllDbs();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('should serve a disabled connector from its recordings', () => {
+    expect(resolveReplaySource('retired', connectors, eventsStore)).toEqual({
+      connector: { ...connectors[0], enabled: true },
+    });
+  });
+
+  it('should resolve a session prefix to its enabled connector', () => {
+    const session = eventsStore.createSession('retired');
+
+    expect(resolveReplaySource(session.session_id.slice(0, 8), connectors, eventsStore)).toEqual({
+      connector: { ...connectors[0], enabled: true },
+      session: session.session_id,
+    });
+    expect(connectors[0].enabled).toBe(false);
+  });
+
+  it('should refuse unknown sources', () => {
+    expect(resolveReplaySource('missing', connectors, eventsStore)).toEqual({
+      error: 'Not a connector or recorded session: missing',
+    });
+  });
+});
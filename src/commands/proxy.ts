@@ -2,23 +2,43 @@
  * Proxy Command (Phase 5.0+)
  *
  * pfscan proxy start [options]
+ * pfscan proxy start --replay <connector|session> [--replay-fallback nearest|error]
+ * pfscan proxy start --lazy-tools
  * pfscan proxy status [--json]
+ * pfscan proxy approve [id] [allow|deny|always] [--list]
+ * pfscan proxy faults [connector] [--add <kind> ... | --off | --clear]
+ * pfscan proxy connector enable|disable|restart <connector>
+ * pfscan proxy connector stats [connector]
+ * pfscan proxy connector watch [connector]
  *
  * Starts an MCP proxy server that aggregates tools from multiple
- * backend connectors, and provides status display.
+ * backend connectors (over stdio, or over Streamable HTTP with --listen),
+ * and provides status display.
  */
 
 import { Command } from 'commander';
+import { createInterface } from 'readline';
 import { ConfigManager } from '../config/index.js';
-import type { Connector } from '../types/index.js';
+import type { Connector, FaultKind, ProxyFaultRule, ProxyReplayConfig, ReplayFallback } from '../types/index.js';
+import { EventsStore } from '../db/events-store.js';
 import {
   McpProxyServer,
+  HttpListener,
+  parseListenAddress,
   setVerbose,
   logger,
   RuntimeStateManager,
 } from '../proxy/index.js';
+import { buildAuthConfig, type AuthConfig } from '../gateway/auth.js';
 import { IpcClient } from '../proxy/ipc-client.js';
-import { getSocketPath } from '../proxy/ipc-types.js';
+import {
+  getSocketPath,
+  type ApprovalDecision,
+  type FaultRuleSet,
+  type PendingApproval,
+  type ProxyCallEvent,
+} from '../proxy/ipc-types.js';
+import type { ConnectorSummary } from '../proxy/runtime-state.js';
 import { output, getOutputOptions } from '../utils/output.js';
 import { formatRelativeTime } from '../utils/time.js';
 
@@ -28,14 +48,28 @@ export function createProxyCommand(getConfigPath: () => string): Command {
 
   cmd
     .command('start')
-    .description('Start MCP proxy server (stdio)')
+    .description('Start MCP proxy server (stdio, or Streamable HTTP with --listen)')
     .option('--connectors <ids>', 'Connector IDs to expose (comma-separated)')
     .option('--all', 'Expose all enabled connectors')
     .option('--timeout <seconds>', 'Timeout for backend calls in seconds (default: 30)', '30')
+    .option('--idle-timeout <seconds>', 'Close idle backend connections after N seconds, 0 = never (default: 300)', '300')
+    .option('--listen <host:port>', 'Serve Streamable HTTP at http://<host:port>/mcp instead of stdio')
+    .option('--auth-mode <mode>', 'HTTP authentication mode (none, bearer)', 'none')
+    .option('--token-hash <hash>', 'Token hash in sha256:xxx or name:sha256:xxx format (can be specified multiple times)', collectTokenHashes, [])
+    .option('--replay <connector|session>', 'Answer a connector from recorded sessions instead of launching it; a session ID replays only that session (can be specified multiple times)', collectReplaySources, [])
+    .option('--replay-fallback <mode>', 'Replayed tools/call without a recording with the same arguments: nearest or error (default: error)')
+    .option('--lazy-tools', 'List only search_tools, describe_tool and invoke_tool instead of every proxied tool')
     .action(async (options: {
       connectors?: string;
       all?: boolean;
       timeout: string;
+      idleTimeout: string;
+      listen?: string;
+      authMode: string;
+      tokenHash: string[];
+      replay: string[];
+      replayFallback?: string;
+      lazyTools?: boolean;
     }) => {
       // Set up logging - use global verbose option from CLI
       const globalOpts = getOutputOptions();
@@ -49,8 +83,14 @@ export function createProxyCommand(getConfigPath: () => string): Command {
         process.exit(1);
       }
 
-      if (!options.connectors && !options.all) {
-        logger.error('Must specify --connectors <ids> or --all');
+      if (!options.connectors && !options.all && options.replay.length === 0) {
+        logger.error('Must specify --connectors <ids>, --all or --replay <connector|session>');
+        process.exit(1);
+      }
+
+      const replayFallback = options.replayFallback;
+      if (replayFallback !== undefined && !isReplayFallback(replayFallback)) {
+        logger.error(`Invalid replay fallback: ${replayFallback}. Must be 'nearest' or 'error'.`);
         process.exit(1);
       }
 
@@ -69,7 +109,7 @@ export function createProxyCommand(getConfigPath: () => string): Command {
       }
 
       // Resolve connectors
-      let connectors: Connector[];
+      let connectors: Connector[] = [];
 
       if (options.all) {
         // All enabled connectors
@@ -81,9 +121,9 @@ export function createProxyCommand(getConfigPath: () => string): Command {
         }
 
         logger.info(`Using ${connectors.length} enabled connector(s)`);
-      } else {
+      } else if (options.connectors) {
         // Specific connectors
-        const ids = options.connectors!.split(',').map((id) => id.trim());
+        const ids = options.connectors.split(',').map((id) => id.trim());
         connectors = [];
 
         for (const id of ids) {
@@ -110,6 +150,28 @@ export function createProxyCommand(getConfigPath: () => string): Command {
         logger.info(`Using ${connectors.length} connector(s): ${connectors.map(c => c.id).join(', ')}`);
       }
 
+      // Resolve replay sources (exposed in addition to --connectors / --all)
+      const replay: Record<string, ProxyReplayConfig> = {};
+      if (options.replay.length > 0) {
+        const eventsStore = new EventsStore(configDir);
+        for (const source of options.replay) {
+          const resolved = resolveReplaySource(source, config.connectors, eventsStore);
+          if ('error' in resolved) {
+            logger.error(resolved.error);
+            process.exit(1);
+          }
+
+          const { connector, session } = resolved;
+          const fallback = replayFallback ?? connector.proxy?.replay?.fallback;
+          replay[connector.id] = { ...(session && { session }), ...(fallback && { fallback }) };
+          if (!connectors.some((c) => c.id === connector.id)) {
+            connectors.push(connector);
+          }
+        }
+
+        logger.info(`Replaying from recorded sessions: ${Object.keys(replay).join(', ')}`);
+      }
+
       // Parse timeout
       const timeout = parseInt(options.timeout, 10);
       if (isNaN(timeout) || timeout < 1 || timeout > 300) {
@@ -117,19 +179,56 @@ export function createProxyCommand(getConfigPath: () => string): Command {
         process.exit(1);
       }
 
+      // Parse idle timeout
+      const idleTimeout = parseInt(options.idleTimeout, 10);
+      if (isNaN(idleTimeout) || idleTimeout < 0) {
+        logger.error('Invalid idle timeout: must be 0 or more seconds');
+        process.exit(1);
+      }
+
+      // Parse HTTP listener options
+      let listen: { host: string; port: number } | undefined;
+      let auth: AuthConfig | undefined;
+      if (options.listen) {
+        if (options.authMode !== 'none' && options.authMode !== 'bearer') {
+          logger.error(`Invalid auth mode: ${options.authMode}. Must be 'none' or 'bearer'.`);
+          process.exit(1);
+        }
+
+        try {
+          listen = parseListenAddress(options.listen);
+          auth = buildAuthConfig(options.authMode, options.tokenHash);
+        } catch (error) {
+          logger.error(error instanceof Error ? error.message : String(error));
+          process.exit(1);
+        }
+
+        if (auth.mode === 'bearer' && auth.tokens.length === 0) {
+          logger.error('Bearer auth mode requires at least one --token-hash');
+          process.exit(1);
+        }
+      } else if (options.authMode !== 'none' || options.tokenHash.length > 0) {
+        logger.error('--auth-mode and --token-hash require --listen');
+        process.exit(1);
+      }
+
       // Create and start server
       const server = new McpProxyServer({
         connectors,
         configDir,
         verbose: globalOpts.verbose,
         timeout,
+        idleTimeout,
+        replay,
+        lazyTools: options.lazyTools,
       }, configPath);
 
+      const listener = listen ? new HttpListener(server, { ...listen, auth }) : null;
+
       // Handle signals for graceful shutdown
       const shutdown = () => {
         logger.info('Received shutdown signal');
         server.stop();
-        process.exit(0);
       };
 
       process.on('SIGINT', shutdown);
@@ -137,11 +236,18 @@ export function createProxyCommand(getConfigPath: () => string): Command {
 
       // Handle server stop
       server.on('stopped', () => {
-        process.exit(0);
+        if (!listener) {
+          process.exit(0);
+        }
+        listener.stop().finally(() => process.exit(0));
       });
 
       try {
-        await server.start();
+        await server.start({ stdio: !listener });
+        if (listener) {
+          const url = await listener.start();
+          console.log(`MCP proxy listening at ${url}`);
+        }
       } catch (error) {
         const msg = error instanceof Error ? error.message : String(error);
         logger.error(`Failed to start server: ${msg}`);
@@ -206,9 +312,15 @@ export function createProxyCommand(getConfigPath: () => string): Command {
       } else {
         for (const conn of state.connectors) {
           const status = conn.healthy ? '●' : '○';
-          const tools = conn.toolCount > 0 ? `${conn.toolCount} tools` : 'pending';
+          const tools = conn.disabled ? 'disabled' : conn.toolCount > 0 ? `${conn.toolCount} tools` : 'pending';
           const error = conn.error ? ` (${conn.error})` : '';
           console.log(`  ${status} ${conn.id}: ${tools}${error}`);
+          if (conn.cache) {
+            console.log(`      Cache: ${conn.cache.hits} hits, ${conn.cache.misses} misses, ${conn.cache.entries} entries`);
+          }
+          if (conn.calls) {
+            console.log(`      Calls: ${formatCallStats(conn)}`);
+          }
         }
       }
 
@@ -323,9 +435,389 @@ export function createProxyCommand(getConfigPath: () => string): Command {
       }
     });
 
+  // Approve subcommand
+  cmd
+    .command('approve')
+    .description('Allow or deny tool calls the proxy holds for approval')
+    .argument('[id]', 'Approval ID (omit to answer calls as they arrive)')
+    .argument('[decision]', 'allow, deny or always', 'allow')
+    .option('--list', 'List the calls waiting for approval and exit')
+    .action(async (id: string | undefined, decision: string, options: { list?: boolean }) => {
+      const configPath = getConfigPath();
+      const manager = new ConfigManager(configPath);
+      const configDir = manager.getConfigDir();
+
+      const client = new IpcClient(getSocketPath(configDir));
+
+      if (!(await client.isRunning())) {
+        if (getOutputOptions().json) {
+          output({ success: false, error: 'Proxy is not running' });
+        } else {
+          console.error('Error: Proxy is not running');
+        }
+        process.exit(1);
+      }
+
+      if (options.list) {
+        const result = await client.approvals();
+        if (getOutputOptions().json) {
+          output(result.data ?? []);
+          return;
+        }
+        if (!result.data || result.data.length === 0) {
+          console.log('No tool calls waiting for approval');
+        }
+        for (const approval of result.data ?? []) {
+          printApproval(approval);
+        }
+        return;
+      }
+
+      if (id) {
+        if (!isApprovalDecision(decision)) {
+          console.error(`Error: Invalid decision: ${decision} (expected allow, deny or always)`);
+          process.exit(1);
+        }
+        const result = await client.approve(id, decision, APPROVER);
+        if (getOutputOptions().json) {
+          output(result);
+          process.exit(result.success ? 0 : 1);
+        }
+        if (!result.success) {
+          console.error(`Error: ${result.error}`);
+          process.exit(1);
+        }
+        console.log(`${decision}: ${id}`);
+        return;
+      }
+
+      await answerApprovals(client);
+    });
+
+  // Faults subcommand
+  cmd
+    .command('faults')
+    .description('Show or change the faults the proxy injects into tool calls (chaos testing)')
+    .argument('[connector]', 'Connector ID (omit to list every connector)')
+    .option('--add <kind>', 'Add a rule: latency, drop, error, corrupt, oversize or kill')
+    .option('--tool <pattern>', 'Tools the added rule applies to (can be specified multiple times; default: all)', collectToolPatterns, [])
+    .option('--rate <rate>', 'Share of matching calls that get the fault, 0-1 (default: 1)')
+    .option('--latency-ms <ms>', 'Delay for latency faults (default: 1000)')
+    .option('--error-code <code>', 'JSON-RPC error code for error faults (default: -32603)')
+    .option('--message <text>', 'Error message for error faults')
+    .option('--size-bytes <bytes>', 'Padding added by oversize faults (default: 1048576)')
+    .option('--off', 'Inject no faults into the connector (until --clear)')
+    .option('--clear', "Drop the rules set with this command (the connector's proxy.faults applies again)")
+    .action(async (connectorId: string | undefined, options: {
+      add?: string;
+      tool: string[];
+      rate?: string;
+      latencyMs?: string;
+      errorCode?: string;
+      message?: string;
+      sizeBytes?: string;
+      off?: boolean;
+      clear?: boolean;
+    }) => {
+      const configPath = getConfigPath();
+      const manager = new ConfigManager(configPath);
+      const configDir = manager.getConfigDir();
+
+      const changes = [options.add, options.off, options.clear].filter(Boolean).length;
+      if (changes > 1) {
+        console.error('Error: Use only one of --add, --off and --clear');
+        process.exit(1);
+      }
+      if (changes > 0 && !connectorId) {
+        console.error('Error: A connector ID is required with --add, --off or --clear');
+        process.exit(1);
+      }
+      if (options.add && !isFaultKind(options.add)) {
+        console.error(`Error: Invalid fault kind: ${options.add} (expected ${FAULT_KINDS.join(', ')})`);
+        process.exit(1);
+      }
+
+      const client = new IpcClient(getSocketPath(configDir));
+
+      if (!(await client.isRunning())) {
+        if (getOutputOptions().json) {
+          output({ success: false, error: 'Proxy is not running' });
+        } else {
+          console.error('Error: Proxy is not running');
+        }
+        process.exit(1);
+      }
+
+      const listed = await client.faults();
+      if (!listed.success) {
+        console.error(`Error: ${listed.error}`);
+        process.exit(1);
+      }
+      const sets = (listed.data ?? []).filter((set) => !connectorId || set.connectorId === connectorId);
+
+      if (changes === 0) {
+        if (getOutputOptions().json) {
+          output(sets);
+          return;
+        }
+        if (sets.length === 0) {
+          console.log('No faults are injected');
+        }
+        for (const set of sets) {
+          printFaultRuleSet(set);
+        }
+        return;
+      }
+
+      let rules: ProxyFaultRule[] | null = null;
+      if (options.off) {
+        rules = [];
+      } else if (options.add) {
+        const rule: ProxyFaultRule = {
+          kind: options.add as FaultKind,
+          ...(options.tool.length > 0 && { tools: options.tool }),
+          ...(options.rate !== undefined && { rate: Number(options.rate) }),
+          ...(options.latencyMs !== undefined && { latency_ms: Number(options.latencyMs) }),
+          ...(options.errorCode !== undefined && { error_code: Number(options.errorCode) }),
+          ...(options.message !== undefined && { message: options.message }),
+          ...(options.sizeBytes !== undefined && { size_bytes: Number(options.sizeBytes) }),
+        };
+        rules = [...(sets[0]?.rules ?? []), rule];
+      }
+
+      const result = await client.setFaults(connectorId!, rules);
+      if (getOutputOptions().json) {
+        output(result);
+        process.exit(result.success ? 0 : 1);
+      }
+      if (!result.success) {
+        console.error(`Error: ${result.error}`);
+        process.exit(1);
+      }
+      if (rules === null) {
+        console.log(`Fault rules for ${connectorId} reset to config`);
+      } else {
+        console.log(`${rules.length} fault rule(s) set for ${connectorId}`);
+      }
+    });
+
+  // Connector subcommands (control one connector without a reload)
+  const connectorCmd = cmd
+    .command('connector')
+    .description('Enable, disable, restart or watch a single connector of the running proxy');
+
+  const controls = [
+    { name: 'enable', description: 'Route tool calls to a disabled connector again', done: 'Enabled' },
+    { name: 'disable', description: 'Stop exposing a connector and shut its backend down (until enabled or reloaded)', done: 'Disabled' },
+    { name: 'restart', description: "Restart a connector's backend with a fresh session", done: 'Restarted' },
+  ] as const;
+
+  for (const control of controls) {
+    connectorCmd
+      .command(control.name)
+      .description(control.description)
+      .argument('<connector>', 'Connector ID')
+      .action(async (connectorId: string) => {
+        const client = await connectRunningProxy(getConfigPath);
+
+        const result = control.name === 'enable'
+          ? await client.enableConnector(connectorId)
+          : control.name === 'disable'
+            ? await client.disableConnector(connectorId)
+            : await client.restartConnector(connectorId);
+
+        if (getOutputOptions().json) {
+          output(result);
+          process.exit(result.success ? 0 : 1);
+        }
+        if (!result.success) {
+          console.error(`Error: ${result.error}`);
+          process.exit(1);
+        }
+        console.log(`${control.done} ${connectorId}`);
+      });
+  }
+
+  connectorCmd
+    .command('stats')
+    .description('Show tool call counters per connector (calls, errors, latency, last error)')
+    .argument('[connector]', 'Connector ID (omit to show every connector)')
+    .action(async (connectorId: string | undefined) => {
+      const client = await connectRunningProxy(getConfigPath);
+
+      const result = await client.status();
+      if (!result.success) {
+        console.error(`Error: ${result.error}`);
+        process.exit(1);
+      }
+      const connectors = result.data!.connectors.filter((c) => !connectorId || c.id === connectorId);
+      if (connectorId && connectors.length === 0) {
+        console.error(`Error: Connector not found: ${connectorId}`);
+        process.exit(1);
+      }
+
+      if (getOutputOptions().json) {
+        output(connectors.map((c) => ({ id: c.id, disabled: c.disabled ?? false, calls: c.calls ?? null })));
+        return;
+      }
+
+      for (const conn of connectors) {
+        const state = conn.disabled ? 'disabled' : conn.healthy ? 'healthy' : 'unhealthy';
+        console.log(`${conn.id} (${state})`);
+        console.log(`  Calls:      ${conn.calls ? formatCallStats(conn) : '(none yet)'}`);
+        if (conn.calls?.lastError) {
+          console.log(`  Last error: ${conn.calls.lastError.message} (${formatRelativeTime(conn.calls.lastError.at)})`);
+        }
+      }
+    });
+
+  connectorCmd
+    .command('watch')
+    .description('Print tool calls as the proxy routes them (Ctrl+C to quit)')
+    .argument('[connector]', 'Connector ID (omit to watch every connector)')
+    .action(async (connectorId: string | undefined) => {
+      const client = await connectRunningProxy(getConfigPath);
+      const json = getOutputOptions().json;
+
+      const subscription = await client.subscribe((event) => {
+        if (connectorId && event.connectorId !== connectorId) {
+          return;
+        }
+        console.log(json ? JSON.stringify(event) : formatCallEvent(event));
+      }).catch((err: Error) => {
+        console.error(`Error: ${err.message}`);
+        process.exit(1);
+      });
+
+      if (!json) {
+        console.log(`Watching tool calls${connectorId ? ` to ${connectorId}` : ''} (Ctrl+C to quit)...`);
+      }
+      process.once('SIGINT', () => subscription.close());
+      await subscription.closed;
+    });
+
   return cmd;
 }
 
+/**
+ * IPC client for the running proxy (exits if none is running)
+ */
+async function connectRunningProxy(getConfigPath: () => string): Promise<IpcClient> {
+  const manager = new ConfigManager(getConfigPath());
+  const client = new IpcClient(getSocketPath(manager.getConfigDir()));
+
+  if (!(await client.isRunning())) {
+    if (getOutputOptions().json) {
+      output({ success: false, error: 'Proxy is not running' });
+    } else {
+      console.error('Error: Proxy is not running');
+    }
+    process.exit(1);
+  }
+  return client;
+}
+
+/**
+ * One-line call counters of a connector
+ */
+function formatCallStats(conn: ConnectorSummary): string {
+  const calls = conn.calls!;
+  return `${calls.calls} calls, ${calls.errors} errors, p50 ${calls.p50Ms}ms, p95 ${calls.p95Ms}ms`;
+}
+
+/**
+ * One line per streamed tool call
+ */
+function formatCallEvent(event: ProxyCallEvent): string {
+  const time = new Date(event.ts).toLocaleTimeString(undefined, { hour12: false });
+  const client = event.client ? ` [${event.client}]` : '';
+  const error = event.error ? `: ${event.error}` : '';
+  return `${time} ${event.connectorId}/${event.tool} ${event.outcome} ${event.durationMs}ms${client}${error}`;
+}
+
+const FAULT_KINDS: FaultKind[] = ['latency', 'drop', 'error', 'corrupt', 'oversize', 'kill'];
+
+function isFaultKind(value: string): value is FaultKind {
+  return (FAULT_KINDS as string[]).includes(value);
+}
+
+/**
+ * Print the fault rules in effect for a connector
+ */
+function printFaultRuleSet(set: FaultRuleSet): void {
+  console.log(`${set.connectorId} (${set.source === 'ipc' ? 'set with pfscan proxy faults' : 'proxy.faults'}):`);
+  if (set.rules.length === 0) {
+    console.log('  (no faults)');
+  }
+  for (const rule of set.rules) {
+    const details = [
+      `tools=${rule.tools?.join(',') ?? '*'}`,
+      `rate=${rule.rate ?? 1}`,
+      ...(['latency_ms', 'error_code', 'message', 'size_bytes'] as const)
+        .filter((key) => rule[key] !== undefined)
+        .map((key) => `${key}=${rule[key]}`),
+    ];
+    console.log(`  ${rule.kind.padEnd(9)} ${details.join('  ')}`);
+  }
+}
+
+/** Recorded as the decider of approvals given with this command */
+const APPROVER = 'pfscan proxy approve';
+
+/** How often the interactive prompt checks for new calls */
+const APPROVAL_POLL_MS = 1000;
+
+function isApprovalDecision(value: string): value is ApprovalDecision {
+  return value === 'allow' || value === 'deny' || value === 'always';
+}
+
+/**
+ * Print a held tool call
+ */
+function printApproval(approval: PendingApproval): void {
+  console.log(`[${approval.id}] ${approval.connectorId}/${approval.tool} (${approval.reason})`);
+  console.log(`    Arguments: ${JSON.stringify(approval.arguments)}`);
+  console.log(`    Expires:   ${approval.expiresAt}`);
+}
+
+/**
+ * Ask about each held call as it arrives, until Ctrl+C
+ *
+ * Anything other than yes or always denies the call.
+ */
+async function answerApprovals(client: IpcClient): Promise<void> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const ask = (question: string) => new Promise<string>((resolve) => rl.question(question, resolve));
+  const asked = new Set<string>();
+
+  console.log('Waiting for tool calls to approve (Ctrl+C to quit)...');
+
+  for (;;) {
+    const result = await client.approvals().catch((err: Error) => ({ success: false, error: err.message, data: undefined }));
+    if (!result.success) {
+      console.error(`Error: ${result.error}`);
+      rl.close();
+      process.exit(1);
+    }
+
+    const approval = result.data?.find((a) => !asked.has(a.id));
+    if (!approval) {
+      await new Promise((resolve) => setTimeout(resolve, APPROVAL_POLL_MS));
+      continue;
+    }
+
+    asked.add(approval.id);
+    console.log();
+    printApproval(approval);
+    const answer = (await ask('Allow? [y]es / [n]o / [a]lways: ')).trim().toLowerCase();
+    const decision: ApprovalDecision =
+      answer === 'y' || answer === 'yes' ? 'allow' : answer === 'a' || answer === 'always' ? 'always' : 'deny';
+
+    const outcome = await client.approve(approval.id, decision, APPROVER);
+    console.log(outcome.success ? `  → ${decision}` : `  ✗ ${outcome.error}`);
+  }
+}
+
 /**
  * Format uptime from startedAt timestamp
  */
@@ -349,3 +841,57 @@ function formatUptime(startedAt: string): string {
 
   return parts.join(' ');
 }
+
+function isReplayFallback(value: string): value is ReplayFallback {
+  return value === 'nearest' || value === 'error';
+}
+
+/**
+ * Resolve a --replay value: a connector ID, or a recorded session ID (or prefix)
+ *
+ * The connector is returned enabled: replaying never starts its server, so
+ * a disabled connector (e.g. one whose server is no longer installed) can
+ * still be served from its recordings.
+ */
+export function resolveReplaySource(
+  source: string,
+  connectors: Connector[],
+  eventsStore: EventsStore
+): { connector: Connector; session?: string } | { error: string } {
+  const connector = connectors.find((c) => c.id === source);
+  if (connector) {
+    return { connector: { ...connector, enabled: true } };
+  }
+
+  const session = eventsStore.getSessionByPrefix(source);
+  if (!session) {
+    return { error: `Not a connector or recorded session: ${source}` };
+  }
+
+  const owner = connectors.find((c) => c.id === session.target_id);
+  if (!owner) {
+    return { error: `Session ${source} belongs to connector ${session.target_id}, which is not configured` };
+  }
+  return { connector: { ...owner, enabled: true }, session: session.session_id };
+}
+
+/**
+ * Collect multiple --token-hash values into an array
+ */
+function collectTokenHashes(value: string, previous: string[]): string[] {
+  return previous.concat([value]);
+}
+
+/**
+ * Collect multiple --replay values into an array
+ */
+function collectReplaySources(value: string, previous: string[]): string[] {
+  return previous.concat([value]);
+}
+
+/**
+ * Collect multiple --tool values into an array
+ */
+function collectToolPatterns(value: string, previous: string[]): string[] {
+  return previous.concat([value]);
+}
@@ -14,6 +14,8 @@ import { Command } from 'commander';
 import * as path from 'path';
 import { ConfigManager } from '../config/index.js';
 import { getEventsDb } from '../db/connection.js';
+import { EventsStore } from '../db/events-store.js';
+import { parseServerOutput, describeServerOutput } from '../transports/stderr.js';
 import {
   formatTimestamp,
   formatBytes,
@@ -56,6 +58,27 @@ interface RpcListItem {
   error_code: number | null;
 }
 
+/** Notification linked to an RPC (notifications/progress, notifications/cancelled) */
+interface RpcTimelineEntry {
+  ts: string;
+  /** Milliseconds since the request */
+  offset_ms: number;
+  direction: Event['direction'];
+  method: string;
+  progress?: number;
+  total?: number;
+  message?: string;
+  reason?: string;
+}
+
+/** Server stderr line (or exit status) shown with an RPC */
+interface RpcServerOutputEntry {
+  ts: string;
+  /** Milliseconds since the request (negative: before it) */
+  offset_ms: number;
+  text: string;
+}
+
 interface RpcDetail {
   rpc_id: string;
   session_id: string;
@@ -70,6 +93,8 @@ interface RpcDetail {
   response_ts: string | null;
   request_json: unknown | null;
   response_json: unknown | null;
+  timeline: RpcTimelineEntry[];
+  server_output: RpcServerOutputEntry[];
   // Raw JSON strings for HTML export (needed for size calculation and spill)
   request_raw?: string | null;
   response_raw?: string | null;
@@ -152,6 +177,28 @@ function getRpcDetail(configDir: string, sessionId: string, rpcId: string): RpcD
     WHERE session_id = ? AND rpc_id = ? AND kind = 'response'
   `).get(session.session_id, rpcId) as Event | undefined;
 
+  // Progress and cancellation notifications recorded against this RPC
+  const notificationEvents = db.prepare(`
+    SELECT * FROM events
+    WHERE session_id = ? AND rpc_id = ? AND kind = 'notification'
+    ORDER BY ts, rowid
+  `).all(session.session_id, rpcId) as Event[];
+  const requestTime = new Date(rpc.request_ts).getTime();
+  const timeline = notificationEvents.map((e) => toTimelineEntry(e, requestTime));
+
+  // Server stderr while the call was outstanding; a call that never got a
+  // response shows everything the server wrote, which usually says why
+  const responseTime = rpc.response_ts ? new Date(rpc.response_ts).getTime() : null;
+  const serverOutput: RpcServerOutputEntry[] = [];
+  for (const e of new EventsStore(configDir).getServerOutputEvents(session.session_id)) {
+    const record = parseServerOutput(e.raw_json);
+    const ts = new Date(e.ts).getTime();
+    if (!record || (responseTime !== null && (ts < requestTime || ts > responseTime))) {
+      continue;
+    }
+    serverOutput.push({ ts: e.ts, offset_ms: ts - requestTime, text: describeServerOutput(record) });
+  }
+
   // Parse JSON
   let requestJson: unknown = null;
   let responseJson: unknown = null;
@@ -206,11 +253,41 @@ function getRpcDetail(configDir: string, sessionId: string, rpcId: string): RpcD
     response_ts: rpc.response_ts,
     request_json: requestJson,
     response_json: responseJson,
+    timeline,
+    server_output: serverOutput,
     request_raw: requestEvent?.raw_json ?? null,
     response_raw: responseEvent?.raw_json ?? null,
   };
 }
 
+/**
+ * Build a timeline entry from a notification event
+ */
+function toTimelineEntry(event: Event, requestTime: number): RpcTimelineEntry {
+  let method = event.summary ?? 'notification';
+  let params: Record<string, unknown> = {};
+  if (event.raw_json) {
+    try {
+      const msg = JSON.parse(event.raw_json) as { method?: string; params?: Record<string, unknown> };
+      method = msg.method ?? method;
+      params = msg.params ?? {};
+    } catch {
+      // Keep the summary
+    }
+  }
+
+  return {
+    ts: event.ts,
+    offset_ms: new Date(event.ts).getTime() - requestTime,
+    direction: event.direction,
+    method,
+    ...(typeof params.progress === 'number' && { progress: params.progress }),
+    ...(typeof params.total === 'number' && { total: params.total }),
+    ...(typeof params.message === 'string' && { message: params.message }),
+    ...(typeof params.reason === 'string' && { reason: params.reason }),
+  };
+}
+
 /**
  * Render RPC list item for terminal
  */
@@ -266,6 +343,36 @@ function renderRpcDetail(detail: RpcDetail): void {
   }
   console.log();
 
+  // Progress / cancellation timeline
+  if (detail.timeline.length > 0) {
+    console.log('Timeline:');
+    for (const entry of detail.timeline) {
+      const arrow = entry.direction === 'client_to_server' ? '→' : '←';
+      const parts = [`  +${entry.offset_ms}ms`.padEnd(13), arrow, entry.method];
+      if (entry.progress !== undefined) {
+        parts.push(entry.total !== undefined ? `${entry.progress}/${entry.total}` : String(entry.progress));
+      }
+      if (entry.message) {
+        parts.push(entry.message);
+      }
+      if (entry.reason) {
+        parts.push(`(${entry.reason})`);
+      }
+      console.log(parts.join(' '));
+    }
+    console.log();
+  }
+
+  // Server stderr
+  if (detail.server_output.length > 0) {
+    console.log('Server stderr:');
+    for (const entry of detail.server_output) {
+      const offset = entry.offset_ms >= 0 ? `+${entry.offset_ms}ms` : `${entry.offset_ms}ms`;
+      console.log(`  ${offset.padEnd(11)} ${entry.text}`);
+    }
+    console.log();
+  }
+
   // Size
   console.log('Size:');
   if (detail.request_size !== null) {
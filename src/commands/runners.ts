@@ -1,10 +1,33 @@
 /**
- * runners command - manage package runners (npx, uvx)
+ * runners command - manage package runners (npx, uvx, bunx, pnpm, pipx, deno)
+ * and container runners (docker, podman)
  */
 
 import { Command } from 'commander';
-import { detectAll, type RunnerStatus } from '../runners/index.js';
-import { output, getOutputOptions } from '../utils/output.js';
+import { ConfigManager } from '../config/index.js';
+import {
+  detectAll,
+  getRunner,
+  isRunnerName,
+  listRunnerNames,
+  parsePackageRef,
+  type RunnerName,
+  type RunnerStatus,
+} from '../runners/index.js';
+import type { RunnersConfig } from '../types/index.js';
+import { output, getOutputOptions, outputError, outputSuccess } from '../utils/output.js';
+
+/** Install hints shown by `runners doctor` */
+const INSTALL_HINTS: Array<[string, string]> = [
+  ['npx', 'Install Node.js (https://nodejs.org)'],
+  ['uvx', 'Install uv (https://github.com/astral-sh/uv)'],
+  ['bunx', 'Install Bun (https://bun.sh)'],
+  ['pnpm', 'Install pnpm (https://pnpm.io/installation)'],
+  ['pipx', 'Install pipx (https://pipx.pypa.io)'],
+  ['deno', 'Install Deno (https://deno.com)'],
+  ['docker', 'Install Docker (https://docs.docker.com/get-docker/)'],
+  ['podman', 'Install Podman (https://podman.io/docs/installation)'],
+];
 
 /**
  * Format runner status for human display
@@ -16,14 +39,15 @@ function formatRunnerStatus(status: RunnerStatus): string {
   if (status.available) {
     const version = status.version ? ` (${status.version})` : '';
     const path = status.path ? ` @ ${status.path}` : '';
-    return `  ${icon} ${status.name}: ${statusText}${version}${path}`;
+    const runtime = status.runtime && !status.runtime.reachable ? ' [runtime not reachable]' : '';
+    return `  ${icon} ${status.name}: ${statusText}${version}${path}${runtime}`;
   }
 
   return `  ${icon} ${status.name}: ${statusText}`;
 }
 
-export function createRunnersCommand(): Command {
-  const cmd = new Command('runners').description('Manage package runners (npx, uvx)');
+export function createRunnersCommand(getConfigPath: () => string): Command {
+  const cmd = new Command('runners').description('Manage package and container runners (npx, pnpm, uvx, docker, ...)');
 
   // runners list
   cmd
@@ -50,7 +74,7 @@ export function createRunnersCommand(): Command {
 
       const available = statuses.filter((s) => s.available);
       if (available.length === 0) {
-        console.log('No runners available. Install npm (for npx) or uv (for uvx).');
+        console.log('No runners available. Install npm (for npx), uv (for uvx), or see: pfscan runners doctor');
       } else {
         console.log(`${available.length} runner(s) available.`);
       }
@@ -63,11 +87,18 @@ export function createRunnersCommand(): Command {
     .action(async () => {
       const opts = getOutputOptions();
       const statuses = await detectAll();
+      const defaults = await loadRunnerDefaults(getConfigPath);
+
+      // A configured default that is not installed makes catalog install fall back
+      const missingDefaults = Object.entries(defaults)
+        .filter(([, name]) => !statuses.find((s) => s.name === name)?.available)
+        .map(([ecosystem, name]) => ({ ecosystem, runner: name as string }));
 
       if (opts.json) {
         const result = {
           statuses,
-          healthy: statuses.some((s) => s.available),
+          defaults,
+          healthy: statuses.some((s) => s.available) && missingDefaults.length === 0,
         };
         output(result);
         return;
@@ -86,6 +117,17 @@ export function createRunnersCommand(): Command {
           if (status.path) {
             console.log(`    Path:    ${status.path}`);
           }
+          if (status.runtime) {
+            if (status.runtime.reachable) {
+              const version = status.runtime.version ? ` (${status.runtime.version})` : '';
+              console.log(`    Runtime: running${version}`);
+            } else {
+              console.log('    Runtime: not reachable');
+              if (status.runtime.error) {
+                console.log(`    Error:   ${status.runtime.error}`);
+              }
+            }
+          }
         } else {
           console.log(`\u2717 ${status.name}: Not found`);
           if (status.error) {
@@ -100,11 +142,142 @@ export function createRunnersCommand(): Command {
         console.log('No runners available.');
         console.log();
         console.log('To install:');
-        console.log('  npx: Install Node.js (https://nodejs.org)');
-        console.log('  uvx: Install uv (https://github.com/astral-sh/uv)');
+        for (const [name, hint] of INSTALL_HINTS) {
+          console.log(`  ${name}: ${hint}`);
+        }
       } else {
         console.log(`\u2713 ${available.length}/${statuses.length} runner(s) ready`);
       }
+
+      for (const { ecosystem, runner } of missingDefaults) {
+        console.log(`\u2717 Default ${ecosystem} runner '${runner}' is not available`);
+      }
+    });
+
+  // runners default [runner]
+  cmd
+    .command('default')
+    .description('Show or set the default runner for npm or PyPI packages')
+    .argument('[runner]', 'Runner to use by default for its ecosystem (e.g. pnpm, bunx, pipx)')
+    .option('--unset <ecosystem>', 'Remove the default for an ecosystem (npm, pypi)')
+    .action(async (runnerName: string | undefined, options: { unset?: string }) => {
+      const opts = getOutputOptions();
+
+      if (!runnerName && !options.unset) {
+        const defaults = await loadRunnerDefaults(getConfigPath);
+        output(defaults, [
+          `npm:  ${defaults.npm ?? '(first available)'}`,
+          `pypi: ${defaults.pypi ?? '(first available)'}`,
+        ].join('\n'));
+        return;
+      }
+
+      let ecosystem: 'npm' | 'pypi';
+      let name: RunnerName | undefined;
+      if (options.unset) {
+        if (options.unset !== 'npm' && options.unset !== 'pypi') {
+          outputError(`Unknown ecosystem: ${options.unset} (expected npm or pypi)`);
+          process.exit(1);
+        }
+        ecosystem = options.unset;
+      } else {
+        const candidate = runnerName!.toLowerCase();
+        if (!isRunnerName(candidate)) {
+          outputError(`Unknown runner: ${runnerName} (valid: ${listRunnerNames().join(', ')})`);
+          process.exit(1);
+        }
+        const runnerEcosystem = getRunner(candidate).ecosystem;
+        if (runnerEcosystem === 'oci') {
+          outputError(`${candidate} runs OCI images; defaults apply to npm and PyPI runners`);
+          process.exit(1);
+        }
+        ecosystem = runnerEcosystem;
+        name = candidate;
+      }
+
+      try {
+        const manager = new ConfigManager(getConfigPath());
+        const config = await manager.loadOrDefault();
+        config.runners = config.runners || {};
+        if (name) {
+          config.runners[ecosystem] = name;
+        } else {
+          delete config.runners[ecosystem];
+        }
+        await manager.save(config);
+      } catch (error) {
+        outputError('Failed to save config', error instanceof Error ? error : undefined);
+        process.exit(1);
+      }
+
+      if (opts.json) {
+        output({ success: true, ecosystem, runner: name ?? null });
+      } else if (name) {
+        outputSuccess(`Default ${ecosystem} runner set to: ${name}`);
+      } else {
+        outputSuccess(`Default ${ecosystem} runner unset`);
+      }
+    });
+
+  // runners use <connector> <runner>
+  cmd
+    .command('use')
+    .description('Switch a stdio connector to another runner for the same package')
+    .argument('<connector>', 'Connector ID')
+    .argument('<runner>', 'Runner to use (e.g. pnpm, bunx, pipx, podman)')
+    .action(async (connectorId: string, runnerName: string) => {
+      const opts = getOutputOptions();
+      const manager = new ConfigManager(getConfigPath());
+      const connector = await manager.getConnector(connectorId);
+
+      if (!connector) {
+        outputError(`Connector not found: ${connectorId}`);
+        process.exit(1);
+      }
+
+      const name = runnerName.toLowerCase();
+      if (!isRunnerName(name)) {
+        outputError(`Unknown runner: ${runnerName} (valid: ${listRunnerNames().join(', ')})`);
+        process.exit(1);
+      }
+
+      const transport = connector.transport;
+      const current = transport.type === 'stdio' ? transport.command.toLowerCase() : undefined;
+      const pkgRef = transport.type === 'stdio' ? parsePackageRef(transport) : null;
+      if (transport.type !== 'stdio' || !current || !isRunnerName(current) || !pkgRef) {
+        outputError(`Connector '${connectorId}' does not run a package through a known runner`);
+        process.exit(1);
+      }
+
+      const runner = getRunner(name);
+      const ecosystem = getRunner(current).ecosystem;
+      if (runner.ecosystem !== ecosystem) {
+        outputError(`Runner '${name}' cannot run ${ecosystem} packages`);
+        process.exit(1);
+      }
+
+      const materialized = runner.materialize(pkgRef, transport.env);
+      await manager.updateConnector(connectorId, {
+        transport: { ...transport, command: materialized.command, args: materialized.args },
+      });
+
+      const status = await runner.detect();
+      if (opts.json) {
+        output({
+          success: true,
+          connector_id: connectorId,
+          runner: name,
+          available: status.available,
+          command: materialized.command,
+          args: materialized.args,
+        });
+        return;
+      }
+
+      outputSuccess(`Connector '${connectorId}' now runs via ${name}: ${[materialized.command, ...materialized.args].join(' ')}`);
+      if (!status.available) {
+        console.log(`Note: ${name} is not available on this machine (see: pfscan runners doctor)`);
+      }
     });
 
   // Default action (no subcommand): same as list
@@ -128,16 +301,30 @@ export function createRunnersCommand(): Command {
 
     const available = statuses.filter((s) => s.available);
     if (available.length === 0) {
-      console.log('No runners available. Install npm (for npx) or uv (for uvx).');
+      console.log('No runners available. Install npm (for npx), uv (for uvx), or see: pfscan runners doctor');
     } else {
       console.log(`${available.length} runner(s) available.`);
     }
 
     console.log();
     console.log('Commands:');
-    console.log('  pfscan runners list    List runners');
-    console.log('  pfscan runners doctor  Diagnose runner issues');
+    console.log('  pfscan runners list                     List runners');
+    console.log('  pfscan runners doctor                   Diagnose runner issues');
+    console.log('  pfscan runners default [runner]         Show or set the default npm/PyPI runner');
+    console.log('  pfscan runners use <connector> <runner> Switch a connector to another runner');
   });
 
   return cmd;
 }
+
+/**
+ * Configured default runners (empty when there is no config yet)
+ */
+async function loadRunnerDefaults(getConfigPath: () => string): Promise<RunnersConfig> {
+  try {
+    const config = await new ConfigManager(getConfigPath()).loadOrDefault();
+    return config.runners ?? {};
+  } catch {
+    return {};
+  }
+}
@@ -8,8 +8,9 @@
 import { Command } from 'commander';
 import { dirname } from 'path';
 import { createGatewayServer } from '../gateway/server.js';
+import { DEFAULT_LIMITS, RATE_LIMIT_SCOPES, type RateLimitScope } from '../gateway/config.js';
 import { createLogger } from '../gateway/logger.js';
-import { AuthConfig, TokenConfig } from '../gateway/auth.js';
+import { AuthConfig, buildAuthConfig } from '../gateway/auth.js';
 import { resolveConfigPath } from '../utils/config-path.js';
 
 export function createServeCommand(): Command {
@@ -21,6 +22,8 @@ export function createServeCommand(): Command {
     .option('--auth-mode <mode>', 'Authentication mode (none, bearer)', 'none')
     .option('--token-hash <hash>', 'Token hash in sha256:xxx format (can be specified multiple times)', collectTokenHashes, [])
     .option('--no-hide-not-found', 'Return 404 for missing connectors instead of 403')
+    .option('--rate-limit <n>', 'Requests per minute per token on the proxy routes (default: no limit)')
+    .option('--rate-limit-scope <scope>', 'Rate limit bucket per token, per token and target, or per token, target and method (token, target, method)', 'token')
     .action(async (options) => {
       const port = parseInt(options.port, 10);
       const host = options.host as string;
@@ -28,12 +31,24 @@ export function createServeCommand(): Command {
       const authMode = options.authMode as 'none' | 'bearer';
       const tokenHashes = options.tokenHash as string[];
       const hideNotFound = options.hideNotFound !== false;
+      const rateLimit = options.rateLimit !== undefined ? Number(options.rateLimit) : null;
+      const rateLimitScope = options.rateLimitScope as RateLimitScope;
 
       if (isNaN(port) || port < 0 || port > 65535) {
         console.error(`Error: Invalid port number: ${options.port}`);
         process.exit(1);
       }
 
+      if (rateLimit !== null && (!Number.isInteger(rateLimit) || rateLimit <= 0)) {
+        console.error(`Error: Invalid rate limit: ${options.rateLimit}. Must be a positive integer.`);
+        process.exit(1);
+      }
+
+      if (!RATE_LIMIT_SCOPES.includes(rateLimitScope)) {
+        console.error(`Error: Invalid rate limit scope: ${rateLimitScope}. Must be one of: ${RATE_LIMIT_SCOPES.join(', ')}.`);
+        process.exit(1);
+      }
+
       // Validate auth mode
       if (!['none', 'bearer'].includes(authMode)) {
         console.error(`Error: Invalid auth mode: ${authMode}. Must be 'none' or 'bearer'.`);
@@ -41,7 +56,13 @@ export function createServeCommand(): Command {
       }
 
       // Build auth config
-      const auth = buildAuthConfig(authMode, tokenHashes);
+      let auth: AuthConfig;
+      try {
+        auth = buildAuthConfig(authMode, tokenHashes);
+      } catch (error) {
+        console.error(`Error: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
 
       // Warn if bearer mode but no tokens
       if (auth.mode === 'bearer' && auth.tokens.length === 0) {
@@ -75,7 +96,12 @@ export function createServeCommand(): Command {
       }
 
       const gateway = createGatewayServer({
-        config: { port, host, auth },
+        config: {
+          port,
+          host,
+          auth,
+          limits: { ...DEFAULT_LIMITS, rate_limit_per_token: rateLimit, rate_limit_scope: rateLimitScope },
+        },
         configDir,
         logger,
         hideNotFound,
@@ -106,47 +132,3 @@ export function createServeCommand(): Command {
 function collectTokenHashes(value: string, previous: string[]): string[] {
   return previous.concat([value]);
 }
-
-/**
- * Build AuthConfig from CLI options
- */
-function buildAuthConfig(mode: 'none' | 'bearer', tokenHashes: string[]): AuthConfig {
-  if (mode === 'none') {
-    return { mode: 'none', tokens: [] };
-  }
-
-  // Parse token hashes
-  // Format: sha256:xxx or name:sha256:xxx (with optional name prefix)
-  const tokens: TokenConfig[] = tokenHashes.map((hash, index) => {
-    let name: string;
-    let tokenHash: string;
-
-    // Check if name is provided (name:sha256:xxx)
-    const colonCount = (hash.match(/:/g) || []).length;
-    if (colonCount >= 2) {
-      // Has name prefix
-      const firstColon = hash.indexOf(':');
-      name = hash.slice(0, firstColon);
-      tokenHash = hash.slice(firstColon + 1);
-    } else {
-      // No name, use default
-      name = `token-${index + 1}`;
-      tokenHash = hash;
-    }
-
-    // Validate hash format: must be sha256:<64 hex chars>
-    const HASH_REGEX = /^sha256:[a-f0-9]{64}$/;
-    if (!HASH_REGEX.test(tokenHash)) {
-      console.error(`Error: Invalid token hash format: ${tokenHash}. Must be sha256:<64 hex chars>`);
-      process.exit(1);
-    }
-
-    return {
-      name,
-      token_hash: tokenHash,
-      permissions: ['*'], // Default: full access via CLI
-    };
-  });
-
-  return { mode: 'bearer', tokens };
-}
@@ -15,6 +15,7 @@ import {
   DEFAULT_EMBED_MAX_BYTES,
   toRpcStatus,
   createPayloadData,
+  createServerOutputLines,
   getSessionHtmlFilename,
   getSpillFilename,
   generateSessionHtml,
@@ -218,6 +219,10 @@ async function exportSessionHtml(
       total_latency_ms: rpcs.length > 0 ? totalLatencyMs : null,
     },
     rpcs,
+    server_output: createServerOutputLines(
+      new EventsStore(configDir).getServerOutputEvents(session.session_id),
+      options.redact
+    ),
   };
 
   // Generate and write HTML
@@ -29,6 +29,12 @@ import {
 import { shortenId } from '../eventline/types.js';
 import { getCategoryLabel } from '../db/tool-analysis.js';
 import { t } from '../i18n/index.js';
+import { ProtocolProbesStore } from '../db/protocol-probes-store.js';
+import {
+  toProtocolMatrix,
+  formatProbeOutcome,
+  type ProtocolMatrixRow,
+} from '../scanner/version-probe.js';
 
 // ============================================================
 // Types
@@ -99,6 +105,9 @@ export interface SummaryData {
 
   /** Phase 3.4: Secret reference count */
   secret_ref_count: number;
+
+  /** Protocol version compatibility matrix (empty until `probe versions` runs) */
+  protocol_versions: ProtocolMatrixRow[];
 }
 
 // ============================================================
@@ -586,6 +595,7 @@ function generateSummary(
     },
     notes,
     secret_ref_count: session?.secret_ref_count ?? 0,
+    protocol_versions: toProtocolMatrix(new ProtocolProbesStore(configDir).getMatrix(connectorId)),
   };
 }
 
@@ -685,6 +695,16 @@ function renderSummary(data: SummaryData): void {
     console.log();
     console.log(`secret refs: ${data.secret_ref_count}`);
   }
+
+  // Protocol versions (only after `pfscan probe versions`)
+  if (data.protocol_versions.length > 0) {
+    console.log();
+    console.log(t('summary.section.protocolVersions'));
+    console.log();
+    for (const row of data.protocol_versions) {
+      console.log(`  ${row.requested_version}  ${formatProbeOutcome(row)}`);
+    }
+  }
 }
 
 // ============================================================
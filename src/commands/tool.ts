@@ -20,8 +20,15 @@ import {
   formatInputSchema,
   type ToolContext,
 } from '../tools/adapter.js';
+import {
+  validateToolArguments,
+  type ArgumentViolation,
+  type InvalidArgumentsRecord,
+} from '../tools/schema-validator.js';
+import { EventsStore } from '../db/events-store.js';
 import type { Connector } from '../types/index.js';
 import { output, getOutputOptions } from '../utils/output.js';
+import { createProgressBar } from '../utils/progress-bar.js';
 
 /** Default stdin read timeout in milliseconds */
 const STDIN_TIMEOUT_MS = 5000;
@@ -33,71 +40,37 @@ const MIN_TIMEOUT_SEC = 1;
 const MAX_TIMEOUT_SEC = 300;
 
 /**
- * Validation error interface
+ * Record arguments refused by validation as a finding in the session
+ * that listed the tool
  */
-interface ValidationError {
-  field: string;
-  message: string;
-  expected?: string;
-  got?: string;
+function recordInvalidArguments(
+  ctx: ToolContext,
+  sessionId: string,
+  toolName: string,
+  violations: ArgumentViolation[]
+): void {
+  if (!sessionId) return;
+  const record: InvalidArgumentsRecord = { type: 'invalid_arguments', tool: toolName, violations };
+  new EventsStore(ctx.configDir).saveEvent(sessionId, 'client_to_server', 'transport_event', {
+    rawJson: JSON.stringify(record),
+  });
 }
 
-/**
- * Validate arguments against inputSchema
- */
-function validateArgs(
-  args: Record<string, unknown>,
-  inputSchema: unknown
-): ValidationError[] {
-  const errors: ValidationError[] = [];
-
-  if (!inputSchema || typeof inputSchema !== 'object') return errors;
-
-  const schema = inputSchema as { properties?: Record<string, { type?: string; description?: string }>; required?: string[] };
-  const properties = schema.properties || {};
-  const required = schema.required || [];
-
-  // Check required fields
-  for (const field of required) {
-    if (!(field in args) || args[field] === undefined || args[field] === null) {
-      const prop = properties[field];
-      errors.push({
-        field,
-        message: `Missing required parameter '${field}'`,
-        expected: prop?.type ? `{ ${field}: ${prop.type} }` : undefined,
-      });
-    }
-  }
-
-  // Check types for provided fields
-  for (const [field, value] of Object.entries(args)) {
-    const prop = properties[field];
-    if (!prop) continue; // Unknown field, let server handle it
-
-    const expectedType = prop.type;
-    if (!expectedType) continue;
-
-    const actualType = getJsonType(value);
-    if (expectedType !== actualType && !(expectedType === 'integer' && actualType === 'number')) {
-      errors.push({
-        field,
-        message: `Type mismatch for '${field}'`,
-        expected: `{ ${field}: ${expectedType} }`,
-        got: `{ ${field}: ${JSON.stringify(value)} } (${actualType})`,
-      });
-    }
-  }
-
-  return errors;
-}
+/** Exit code for a call cancelled with Ctrl-C (128 + SIGINT) */
+const EXIT_CANCELLED = 130;
 
 /**
- * Get JSON type of a value
+ * Abort signal that fires on Ctrl-C, so a running call is cancelled
+ * (notifications/cancelled) instead of the process being killed
  */
-function getJsonType(value: unknown): string {
-  if (value === null) return 'null';
-  if (Array.isArray(value)) return 'array';
-  return typeof value;
+function cancelOnSigint(): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const onSigint = () => controller.abort();
+  process.once('SIGINT', onSigint);
+  return {
+    signal: controller.signal,
+    dispose: () => process.removeListener('SIGINT', onSigint),
+  };
 }
 
 /**
@@ -561,14 +534,13 @@ export function createToolCommand(getConfigPath: () => string): Command {
           });
 
           if (toolResult.tool?.inputSchema) {
-            const validationErrors = validateArgs(args, toolResult.tool.inputSchema);
+            const violations = validateToolArguments(toolResult.tool.inputSchema, args);
 
-            if (validationErrors.length > 0) {
+            if (violations.length > 0) {
+              recordInvalidArguments(ctx, toolResult.sessionId, toolName, violations);
               console.error('Validation failed:');
-              for (const err of validationErrors) {
-                console.error(`  ${err.message}`);
-                if (err.expected) console.error(`    Expected: ${err.expected}`);
-                if (err.got) console.error(`    Got: ${err.got}`);
+              for (const violation of violations) {
+                console.error(`  ${violation.path}: ${violation.message}`);
               }
               console.error();
               console.error(`Run: pfscan tool show ${connectorId} ${toolName} for details`);
@@ -617,13 +589,12 @@ export function createToolCommand(getConfigPath: () => string): Command {
           // Validate each argument set if validation is enabled
           if (!options.skipValidation && toolResult?.tool?.inputSchema) {
             for (let i = 0; i < batchArgs.length; i++) {
-              const validationErrors = validateArgs(batchArgs[i], toolResult.tool.inputSchema);
-              if (validationErrors.length > 0) {
+              const violations = validateToolArguments(toolResult.tool.inputSchema, batchArgs[i]);
+              if (violations.length > 0) {
+                recordInvalidArguments(ctx, toolResult.sessionId, toolName, violations);
                 console.error(`Validation failed for batch item ${i}:`);
-                for (const err of validationErrors) {
-                  console.error(`  ${err.message}`);
-                  if (err.expected) console.error(`    Expected: ${err.expected}`);
-                  if (err.got) console.error(`    Got: ${err.got}`);
+                for (const violation of violations) {
+                  console.error(`  ${violation.path}: ${violation.message}`);
                 }
                 process.exit(1);
               }
@@ -632,11 +603,13 @@ export function createToolCommand(getConfigPath: () => string): Command {
 
           // Execute in parallel
           // TODO: Add --concurrency option to limit parallel executions
+          const cancel = cancelOnSigint();
           const results = await Promise.all(
             batchArgs.map(async (batchArg) => {
               try {
                 const result = await callTool(ctx, connector, toolName, batchArg, {
                   timeout,
+                  signal: cancel.signal,
                 });
                 return {
                   args: batchArg,
@@ -653,7 +626,12 @@ export function createToolCommand(getConfigPath: () => string): Command {
                 };
               }
             })
-          );
+          ).finally(cancel.dispose);
+
+          if (cancel.signal.aborted) {
+            console.error('Cancelled');
+            process.exit(EXIT_CANCELLED);
+          }
 
           if (getOutputOptions().json || options.output) {
             // --outputが指定されている場合、優先
@@ -685,10 +663,26 @@ export function createToolCommand(getConfigPath: () => string): Command {
           return;
         }
 
+        // Progress is always requested so it is recorded; the bar only shows in a TTY
+        const cancel = cancelOnSigint();
+        const progressBar = createProgressBar();
         const result = await callTool(ctx, connector, toolName, args, {
           timeout,
+          signal: cancel.signal,
+          onProgress: (update) => progressBar?.update(update),
+        }).finally(() => {
+          progressBar?.stop();
+          cancel.dispose();
         });
 
+        if (result.cancelled) {
+          console.error('Cancelled (notifications/cancelled sent to server)');
+          if (result.sessionId) {
+            console.error(`Session: ${result.sessionId.slice(0, 8)}`);
+          }
+          process.exit(EXIT_CANCELLED);
+        }
+
         if (getOutputOptions().json || options.output) {
           // --outputが指定されている場合、優先
           const outputFormat = options.output || 'json';
@@ -2,7 +2,25 @@
  * Config schema validation
  */
 
-import type { Config, Connector, Transport, StdioTransport, CatalogSecurityConfig } from '../types/index.js';
+import type {
+  Config,
+  Connector,
+  Transport,
+  StdioTransport,
+  HttpTransport,
+  SseTransport,
+  WsTransport,
+  ServerRequestsConfig,
+  ConnectorProxyConfig,
+  ProxyCacheConfig,
+  ProxyApprovalConfig,
+  ProxyReplayConfig,
+  ProxyFaultRule,
+  ProxyIsolationConfig,
+  CatalogSecurityConfig,
+} from '../types/index.js';
+import { getRunner, isRunnerName } from '../runners/index.js';
+import { CATEGORY_ORDER } from '../db/tool-analysis.js';
 
 export interface ValidationError {
   path: string;
@@ -42,6 +60,47 @@ function validateStdioTransport(transport: StdioTransport, path: string): Valida
   return errors;
 }
 
+function validateUrlTransport(
+  transport: HttpTransport | SseTransport | WsTransport,
+  path: string
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const isWs = transport.type === 'ws';
+
+  if (!('url' in transport) || typeof transport.url !== 'string') {
+    errors.push({
+      path: `${path}.url`,
+      message: isWs ? 'url is required for WebSocket transport' : 'url is required for HTTP/SSE transport',
+    });
+  } else {
+    let parsed: URL | null = null;
+    try {
+      parsed = new URL(transport.url);
+    } catch {
+      errors.push({ path: `${path}.url`, message: 'url must be a valid URL' });
+    }
+    if (parsed && isWs && parsed.protocol !== 'ws:' && parsed.protocol !== 'wss:') {
+      errors.push({ path: `${path}.url`, message: 'url must use ws or wss' });
+    } else if (parsed && !isWs && parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      errors.push({ path: `${path}.url`, message: 'url must use http or https' });
+    }
+  }
+
+  if (transport.headers !== undefined) {
+    if (typeof transport.headers !== 'object' || transport.headers === null || Array.isArray(transport.headers)) {
+      errors.push({ path: `${path}.headers`, message: 'headers must be an object' });
+    } else {
+      for (const [key, value] of Object.entries(transport.headers)) {
+        if (typeof value !== 'string') {
+          errors.push({ path: `${path}.headers.${key}`, message: 'each header value must be a string' });
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
 function validateTransport(transport: Transport, path: string): ValidationError[] {
   const errors: ValidationError[] = [];
 
@@ -61,10 +120,8 @@ function validateTransport(transport: Transport, path: string): ValidationError[
       break;
     case 'rpc-http':
     case 'rpc-sse':
-      // Reserved for future implementation
-      if (!('url' in transport) || typeof transport.url !== 'string') {
-        errors.push({ path: `${path}.url`, message: 'url is required for HTTP/SSE transport' });
-      }
+    case 'ws':
+      errors.push(...validateUrlTransport(transport, path));
       break;
     default:
       errors.push({ path: `${path}.type`, message: `unknown transport type: ${(transport as { type: string }).type}` });
@@ -73,6 +130,256 @@ function validateTransport(transport: Transport, path: string): ValidationError[
   return errors;
 }
 
+function validateServerRequests(serverRequests: ServerRequestsConfig, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (typeof serverRequests !== 'object' || serverRequests === null || Array.isArray(serverRequests)) {
+    errors.push({ path, message: 'server_requests must be an object' });
+    return errors;
+  }
+
+  const { responses, responder, forward } = serverRequests;
+
+  if (responses !== undefined && (typeof responses !== 'object' || responses === null || Array.isArray(responses))) {
+    errors.push({ path: `${path}.responses`, message: 'responses must be an object keyed by method' });
+  }
+
+  if (responder !== undefined) {
+    if (typeof responder !== 'object' || responder === null) {
+      errors.push({ path: `${path}.responder`, message: 'responder must be an object' });
+    } else {
+      if (typeof responder.command !== 'string' || !responder.command.trim()) {
+        errors.push({ path: `${path}.responder.command`, message: 'command must be a non-empty string' });
+      }
+      if (responder.args !== undefined && (!Array.isArray(responder.args) || responder.args.some((a) => typeof a !== 'string'))) {
+        errors.push({ path: `${path}.responder.args`, message: 'args must be an array of strings' });
+      }
+      if (responder.timeout_ms !== undefined && (typeof responder.timeout_ms !== 'number' || responder.timeout_ms <= 0)) {
+        errors.push({ path: `${path}.responder.timeout_ms`, message: 'timeout_ms must be a positive number' });
+      }
+    }
+  }
+
+  if (forward !== undefined && typeof forward !== 'boolean') {
+    errors.push({ path: `${path}.forward`, message: 'forward must be a boolean' });
+  }
+
+  return errors;
+}
+
+function validateCategoryList(categories: unknown, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (categories === undefined) {
+    return errors;
+  }
+  if (!Array.isArray(categories)) {
+    errors.push({ path, message: 'categories must be an array' });
+    return errors;
+  }
+  for (const category of categories) {
+    if (!CATEGORY_ORDER.includes(category)) {
+      errors.push({ path, message: `unknown category: ${category} (expected one of: ${CATEGORY_ORDER.join(', ')})` });
+    }
+  }
+
+  return errors;
+}
+
+function validateProxyCacheConfig(cache: ProxyCacheConfig, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (typeof cache !== 'object' || cache === null || Array.isArray(cache)) {
+    errors.push({ path, message: 'cache must be an object' });
+    return errors;
+  }
+
+  if (typeof cache.ttl_seconds !== 'number' || cache.ttl_seconds <= 0) {
+    errors.push({ path: `${path}.ttl_seconds`, message: 'ttl_seconds must be a positive number' });
+  }
+  if (cache.max_entries !== undefined && (!Number.isInteger(cache.max_entries) || cache.max_entries <= 0)) {
+    errors.push({ path: `${path}.max_entries`, message: 'max_entries must be a positive integer' });
+  }
+  if (cache.tools !== undefined && (!Array.isArray(cache.tools) || cache.tools.some((p) => typeof p !== 'string' || !p))) {
+    errors.push({ path: `${path}.tools`, message: 'tools must be an array of non-empty strings' });
+  }
+  errors.push(...validateCategoryList(cache.categories, `${path}.categories`));
+
+  return errors;
+}
+
+function validateProxyApprovalConfig(approval: ProxyApprovalConfig, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (typeof approval !== 'object' || approval === null || Array.isArray(approval)) {
+    errors.push({ path, message: 'approval must be an object' });
+    return errors;
+  }
+
+  if (approval.tools !== undefined && (!Array.isArray(approval.tools) || approval.tools.some((p) => typeof p !== 'string' || !p))) {
+    errors.push({ path: `${path}.tools`, message: 'tools must be an array of non-empty strings' });
+  }
+  errors.push(...validateCategoryList(approval.categories, `${path}.categories`));
+  if (approval.timeout_seconds !== undefined && (typeof approval.timeout_seconds !== 'number' || approval.timeout_seconds <= 0)) {
+    errors.push({ path: `${path}.timeout_seconds`, message: 'timeout_seconds must be a positive number' });
+  }
+
+  return errors;
+}
+
+function validateProxyReplayConfig(replay: ProxyReplayConfig, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (typeof replay !== 'object' || replay === null || Array.isArray(replay)) {
+    errors.push({ path, message: 'replay must be an object' });
+    return errors;
+  }
+
+  if (replay.session !== undefined && (typeof replay.session !== 'string' || !replay.session)) {
+    errors.push({ path: `${path}.session`, message: 'session must be a non-empty string' });
+  }
+  if (replay.fallback !== undefined && replay.fallback !== 'nearest' && replay.fallback !== 'error') {
+    errors.push({ path: `${path}.fallback`, message: 'fallback must be "nearest" or "error"' });
+  }
+
+  return errors;
+}
+
+function validateProxyIsolationConfig(isolation: ProxyIsolationConfig, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (typeof isolation !== 'object' || isolation === null || Array.isArray(isolation)) {
+    errors.push({ path, message: 'isolation must be an object' });
+    return errors;
+  }
+
+  if (isolation.mode !== 'shared' && isolation.mode !== 'client') {
+    errors.push({ path: `${path}.mode`, message: 'mode must be "shared" or "client"' });
+  }
+  if (isolation.max_instances !== undefined && (!Number.isInteger(isolation.max_instances) || isolation.max_instances <= 0)) {
+    errors.push({ path: `${path}.max_instances`, message: 'max_instances must be a positive integer' });
+  }
+
+  return errors;
+}
+
+const FAULT_KINDS = ['latency', 'drop', 'error', 'corrupt', 'oversize', 'kill'];
+
+/**
+ * Validate proxy fault rules (config, or set over IPC)
+ */
+export function validateProxyFaultRules(rules: ProxyFaultRule[], path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (!Array.isArray(rules)) {
+    errors.push({ path, message: 'faults must be an array' });
+    return errors;
+  }
+
+  rules.forEach((rule, i) => {
+    const rulePath = `${path}[${i}]`;
+    if (typeof rule !== 'object' || rule === null || Array.isArray(rule)) {
+      errors.push({ path: rulePath, message: 'fault must be an object' });
+      return;
+    }
+
+    if (!FAULT_KINDS.includes(rule.kind)) {
+      errors.push({ path: `${rulePath}.kind`, message: `kind must be one of: ${FAULT_KINDS.join(', ')}` });
+    }
+    if (rule.tools !== undefined && (!Array.isArray(rule.tools) || rule.tools.some((p) => typeof p !== 'string' || !p))) {
+      errors.push({ path: `${rulePath}.tools`, message: 'tools must be an array of non-empty strings' });
+    }
+    if (rule.rate !== undefined && (typeof rule.rate !== 'number' || !(rule.rate >= 0 && rule.rate <= 1))) {
+      errors.push({ path: `${rulePath}.rate`, message: 'rate must be a number from 0 to 1' });
+    }
+    for (const key of ['latency_ms', 'size_bytes'] as const) {
+      const value = rule[key];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        errors.push({ path: `${rulePath}.${key}`, message: `${key} must be a non-negative integer` });
+      }
+    }
+    if (rule.error_code !== undefined && !Number.isInteger(rule.error_code)) {
+      errors.push({ path: `${rulePath}.error_code`, message: 'error_code must be an integer' });
+    }
+    if (rule.message !== undefined && typeof rule.message !== 'string') {
+      errors.push({ path: `${rulePath}.message`, message: 'message must be a string' });
+    }
+  });
+
+  return errors;
+}
+
+function validateProxyConfig(policy: ConnectorProxyConfig, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (typeof policy !== 'object' || policy === null || Array.isArray(policy)) {
+    errors.push({ path, message: 'proxy must be an object' });
+    return errors;
+  }
+
+  for (const key of ['allow_tools', 'deny_tools'] as const) {
+    const patterns = policy[key];
+    if (patterns !== undefined && (!Array.isArray(patterns) || patterns.some((p) => typeof p !== 'string' || !p))) {
+      errors.push({ path: `${path}.${key}`, message: `${key} must be an array of non-empty strings` });
+    }
+  }
+
+  errors.push(...validateCategoryList(policy.deny_categories, `${path}.deny_categories`));
+
+  if (policy.validate_arguments !== undefined && typeof policy.validate_arguments !== 'boolean') {
+    errors.push({ path: `${path}.validate_arguments`, message: 'validate_arguments must be a boolean' });
+  }
+
+  if (policy.cache !== undefined) {
+    errors.push(...validateProxyCacheConfig(policy.cache, `${path}.cache`));
+  }
+
+  if (policy.approval !== undefined) {
+    errors.push(...validateProxyApprovalConfig(policy.approval, `${path}.approval`));
+  }
+
+  if (policy.replay !== undefined) {
+    errors.push(...validateProxyReplayConfig(policy.replay, `${path}.replay`));
+  }
+
+  if (policy.faults !== undefined) {
+    errors.push(...validateProxyFaultRules(policy.faults, `${path}.faults`));
+  }
+
+  if (policy.isolation !== undefined) {
+    errors.push(...validateProxyIsolationConfig(policy.isolation, `${path}.isolation`));
+  }
+
+  const tools = policy.tools;
+  if (tools !== undefined) {
+    if (typeof tools !== 'object' || tools === null || Array.isArray(tools)) {
+      errors.push({ path: `${path}.tools`, message: 'tools must be an object keyed by tool name' });
+      return errors;
+    }
+
+    for (const [name, override] of Object.entries(tools)) {
+      const toolPath = `${path}.tools.${name}`;
+      if (typeof override !== 'object' || override === null || Array.isArray(override)) {
+        errors.push({ path: toolPath, message: 'tool override must be an object' });
+        continue;
+      }
+      if (override.alias !== undefined && (typeof override.alias !== 'string' || !/^[a-zA-Z0-9_.-]+$/.test(override.alias))) {
+        errors.push({ path: `${toolPath}.alias`, message: 'alias must contain only alphanumeric characters, dots, hyphens, and underscores' });
+      }
+      for (const key of ['title', 'description'] as const) {
+        if (override[key] !== undefined && typeof override[key] !== 'string') {
+          errors.push({ path: `${toolPath}.${key}`, message: `${key} must be a string` });
+        }
+      }
+      if (override.defaults !== undefined && (typeof override.defaults !== 'object' || override.defaults === null || Array.isArray(override.defaults))) {
+        errors.push({ path: `${toolPath}.defaults`, message: 'defaults must be an object keyed by argument name' });
+      }
+    }
+  }
+
+  return errors;
+}
+
 function validateConnector(connector: Connector, path: string): ValidationError[] {
   const errors: ValidationError[] = [];
 
@@ -97,6 +404,14 @@ function validateConnector(connector: Connector, path: string): ValidationError[
     errors.push(...validateTransport(connector.transport, `${path}.transport`));
   }
 
+  if (connector.server_requests !== undefined) {
+    errors.push(...validateServerRequests(connector.server_requests, `${path}.server_requests`));
+  }
+
+  if (connector.proxy !== undefined) {
+    errors.push(...validateProxyConfig(connector.proxy, `${path}.proxy`));
+  }
+
   return errors;
 }
 
@@ -118,6 +433,7 @@ export function validateConfig(config: unknown): ValidationResult {
   } else {
     const connectors = cfg.connectors as Connector[];
     const ids = new Set<string>();
+    const aliases = new Set<string>();
 
     connectors.forEach((connector, i) => {
       errors.push(...validateConnector(connector, `connectors[${i}]`));
@@ -129,6 +445,21 @@ export function validateConfig(config: unknown): ValidationResult {
       if (connector.id) {
         ids.add(connector.id);
       }
+
+      // Proxy tool aliases share one namespace across connectors
+      const tools = connector?.proxy?.tools;
+      if (tools && typeof tools === 'object') {
+        for (const [name, override] of Object.entries(tools)) {
+          const alias = override?.alias;
+          if (typeof alias !== 'string') {
+            continue;
+          }
+          if (aliases.has(alias)) {
+            errors.push({ path: `connectors[${i}].proxy.tools.${name}.alias`, message: `duplicate tool alias: ${alias}` });
+          }
+          aliases.add(alias);
+        }
+      }
     });
   }
 
@@ -140,9 +471,38 @@ export function validateConfig(config: unknown): ValidationResult {
     }
   }
 
+  if (cfg.runners !== undefined) {
+    errors.push(...validateRunners(cfg.runners, 'runners'));
+  }
+
   return { valid: errors.length === 0, errors };
 }
 
+/**
+ * Validate default runners: each must be a runner for that ecosystem
+ */
+function validateRunners(runners: unknown, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (!runners || typeof runners !== 'object' || Array.isArray(runners)) {
+    errors.push({ path, message: 'runners must be an object' });
+    return errors;
+  }
+
+  const cfg = runners as Record<string, unknown>;
+  for (const ecosystem of ['npm', 'pypi'] as const) {
+    const name = cfg[ecosystem];
+    if (name === undefined) {
+      continue;
+    }
+    if (typeof name !== 'string' || !isRunnerName(name) || getRunner(name).ecosystem !== ecosystem) {
+      errors.push({ path: `${path}.${ecosystem}`, message: `not a runner for ${ecosystem} packages: ${String(name)}` });
+    }
+  }
+
+  return errors;
+}
+
 /**
  * Validate catalog security configuration
  */
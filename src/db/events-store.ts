@@ -21,9 +21,13 @@ import type {
   TaskEvent,
   A2AMessage,
   TaskArtifact,
+  ServerOutputType,
 } from './types.js';
 import { normalizeMcpEvent, normalizeA2aEvent } from '../a2a/normalizer.js';
 
+/** transport_event types holding server process output */
+const SERVER_OUTPUT_TYPES: ServerOutputType[] = ['stderr', 'stderr_dropped', 'stderr_limit', 'exit'];
+
 export class EventsStore {
   private configDir?: string;
 
@@ -246,6 +250,22 @@ export class EventsStore {
     return stmt.all(sessionId) as Event[];
   }
 
+  /**
+   * Get server output events (stderr lines, exit status) for a session
+   *
+   * @returns transport_event rows in chronological order
+   */
+  getServerOutputEvents(sessionId: string): Event[] {
+    const placeholders = SERVER_OUTPUT_TYPES.map(() => '?').join(', ');
+    const stmt = this.db.prepare(`
+      SELECT * FROM events
+      WHERE session_id = ? AND kind = 'transport_event'
+        AND CASE WHEN json_valid(raw_json) THEN json_extract(raw_json, '$.type') END IN (${placeholders})
+      ORDER BY ts ASC, rowid ASC
+    `);
+    return stmt.all(sessionId, ...SERVER_OUTPUT_TYPES) as Event[];
+  }
+
   /**
    * Get events with pagination support (Phase 6.2)
    *
@@ -5,3 +5,4 @@ export * from './events-store.js';
 export * from './proofs-store.js';
 export * from './targets-store.js';
 export * from './agent-cache-store.js';
+export * from './protocol-probes-store.js';
@@ -0,0 +1,114 @@
+/**
+ * Protocol probes store - protocol version compatibility matrix per connector
+ *
+ * `pfscan probe versions` runs initialize once per known protocol version and
+ * saves one row per requested version. Probing a connector again replaces its
+ * whole matrix, so the table always reflects the latest probe.
+ */
+
+import { getEventsDb } from './connection.js';
+import type { ProtocolProbe, ProtocolProbeEntry, ProtocolProbeStatus } from './types.js';
+
+/**
+ * Result of probing one protocol version
+ */
+export interface ProtocolProbeInput {
+  requestedVersion: string;
+  negotiatedVersion?: string;
+  status: ProtocolProbeStatus;
+  capabilities?: string[];
+  fields?: string[];
+  serverName?: string;
+  serverVersion?: string;
+  error?: string;
+  sessionId?: string;
+}
+
+/**
+ * Parse a JSON array of strings, tolerating bad data
+ */
+function parseStringArray(json: string | null): string[] {
+  if (!json) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed.filter((v): v is string => typeof v === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Protocol probes store
+ */
+export class ProtocolProbesStore {
+  constructor(private readonly configDir?: string) {}
+
+  private get db() {
+    return getEventsDb(this.configDir);
+  }
+
+  private toExternal(row: ProtocolProbe): ProtocolProbeEntry {
+    return {
+      requestedVersion: row.requested_version,
+      ...(row.negotiated_version != null && { negotiatedVersion: row.negotiated_version }),
+      status: row.status,
+      capabilities: parseStringArray(row.capabilities_json),
+      fields: parseStringArray(row.fields_json),
+      ...(row.server_name != null && { serverName: row.server_name }),
+      ...(row.server_version != null && { serverVersion: row.server_version }),
+      ...(row.error != null && { error: row.error }),
+      ...(row.session_id != null && { sessionId: row.session_id }),
+      probedAt: row.probed_at,
+    };
+  }
+
+  /**
+   * Replace the matrix for a connector
+   */
+  saveMatrix(connectorId: string, results: ProtocolProbeInput[]): void {
+    const probedAt = new Date().toISOString();
+    const insert = this.db.prepare(`
+      INSERT INTO protocol_probes (
+        connector_id, requested_version, negotiated_version, status,
+        capabilities_json, fields_json, server_name, server_version,
+        error, session_id, probed_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const save = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM protocol_probes WHERE connector_id = ?').run(connectorId);
+      for (const result of results) {
+        insert.run(
+          connectorId,
+          result.requestedVersion,
+          result.negotiatedVersion ?? null,
+          result.status,
+          JSON.stringify(result.capabilities ?? []),
+          JSON.stringify(result.fields ?? []),
+          result.serverName ?? null,
+          result.serverVersion ?? null,
+          result.error ?? null,
+          result.sessionId ?? null,
+          probedAt,
+        );
+      }
+    });
+    save();
+  }
+
+  /**
+   * Get the matrix for a connector, oldest protocol version first
+   * Returns an empty array if the connector was never probed
+   */
+  getMatrix(connectorId: string): ProtocolProbeEntry[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM protocol_probes
+      WHERE connector_id = ?
+      ORDER BY requested_version ASC
+    `).all(connectorId) as ProtocolProbe[];
+
+    return rows.map((row) => this.toExternal(row));
+  }
+}
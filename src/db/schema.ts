@@ -11,9 +11,10 @@
  * Phase 9.0: Schema version 11 with ProofComm events, resident_documents table, and UNIQUE constraint on document_path
  * Phase 9.2: Schema version 12 with skills_cache table for Skill Routing
  * Phase 9.3: Schema version 13 with spaces and space_memberships tables for Autonomous Spaces
+ * Schema version 14 with protocol_probes table for protocol version compatibility
  */
 
-export const EVENTS_DB_VERSION = 13;
+export const EVENTS_DB_VERSION = 14;
 export const PROOFS_DB_VERSION = 2;
 
 // events.db schema
@@ -293,6 +294,23 @@ CREATE TABLE IF NOT EXISTS space_memberships (
 );
 
 CREATE INDEX IF NOT EXISTS idx_space_memberships_agent ON space_memberships(agent_id);
+
+-- Protocol probes table (pfscan probe versions)
+-- One row per connector and requested protocolVersion; a new probe replaces the old rows
+CREATE TABLE IF NOT EXISTS protocol_probes (
+  connector_id TEXT NOT NULL,
+  requested_version TEXT NOT NULL,
+  negotiated_version TEXT,
+  status TEXT NOT NULL CHECK(status IN ('accepted', 'negotiated', 'failed')),
+  capabilities_json TEXT,
+  fields_json TEXT,
+  server_name TEXT,
+  server_version TEXT,
+  error TEXT,
+  session_id TEXT,
+  probed_at TEXT NOT NULL,
+  PRIMARY KEY (connector_id, requested_version)
+);
 `;
 
 /**
@@ -732,6 +750,29 @@ CREATE TABLE IF NOT EXISTS space_memberships (
 CREATE INDEX IF NOT EXISTS idx_space_memberships_agent ON space_memberships(agent_id);
 `;
 
+/**
+ * Migration from version 13 to version 14
+ * Adds protocol_probes table for protocol version compatibility
+ */
+export const EVENTS_DB_MIGRATION_13_TO_14 = `
+-- Create protocol_probes table
+-- One row per connector and requested protocolVersion; a new probe replaces the old rows
+CREATE TABLE IF NOT EXISTS protocol_probes (
+  connector_id TEXT NOT NULL,
+  requested_version TEXT NOT NULL,
+  negotiated_version TEXT,
+  status TEXT NOT NULL CHECK(status IN ('accepted', 'negotiated', 'failed')),
+  capabilities_json TEXT,
+  fields_json TEXT,
+  server_name TEXT,
+  server_version TEXT,
+  error TEXT,
+  session_id TEXT,
+  probed_at TEXT NOT NULL,
+  PRIMARY KEY (connector_id, requested_version)
+);
+`;
+
 // proofs.db schema (version 2: added plans and runs tables)
 export const PROOFS_DB_SCHEMA = `
 -- Proofs table (immutable, never pruned)
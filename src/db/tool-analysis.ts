@@ -605,6 +605,43 @@ export function getToolUsageForConnector(
   return getToolUsageForTarget(configDir, connectorId);
 }
 
+/** Faults the proxy injected into tool calls (chaos testing), by tool and kind */
+export interface InjectedFaultSummary {
+  connector_id: string;
+  tool: string;
+  kind: string;
+  count: number;
+}
+
+/**
+ * Count faults injected by `pfscan proxy` (transport_event of type 'fault')
+ *
+ * These are kept apart from tool usage so injected failures are not
+ * mistaken for backend errors.
+ *
+ * @param targetId - Only count faults of this target
+ */
+export function getInjectedFaults(configDir: string, targetId?: string): InjectedFaultSummary[] {
+  const db = getEventsDb(configDir);
+
+  const rows = db.prepare(`
+    SELECT
+      s.target_id as connector_id,
+      json_extract(e.raw_json, '$.tool') as tool,
+      json_extract(e.raw_json, '$.kind') as kind,
+      COUNT(*) as count
+    FROM events e
+    JOIN sessions s ON e.session_id = s.session_id
+    WHERE e.kind = 'transport_event'
+      AND CASE WHEN json_valid(e.raw_json) THEN json_extract(e.raw_json, '$.type') END = 'fault'
+      ${targetId ? 'AND s.target_id = ?' : ''}
+    GROUP BY s.target_id, tool, kind
+    ORDER BY count DESC, tool ASC
+  `).all(...(targetId ? [targetId] : [])) as InjectedFaultSummary[];
+
+  return rows;
+}
+
 /**
  * Get method call counts for analysis
  */
@@ -180,6 +180,15 @@ export interface Event {
   normalized_json: string | null; // Phase 6: Protocol-agnostic normalized format
 }
 
+// transport_event payloads for server process output (stderr capture, exit status)
+export type ServerOutputRecord =
+  | { type: 'stderr'; line: string; truncated?: true }
+  | { type: 'stderr_dropped'; count: number }
+  | { type: 'stderr_limit'; max_lines: number }
+  | { type: 'exit'; code: number | null; signal: string | null };
+
+export type ServerOutputType = ServerOutputRecord['type'];
+
 // Proofs table (proofs.db)
 export interface Proof {
   proof_id: string;
@@ -363,3 +372,38 @@ export interface SpaceMembershipEntry {
   joinedAt: string;
   leftAt?: string;
 }
+
+// Protocol probe status for one requested protocolVersion
+// - accepted: server answered with the requested version
+// - negotiated: server answered with a different version
+// - failed: initialize failed (error or timeout)
+export type ProtocolProbeStatus = 'accepted' | 'negotiated' | 'failed';
+
+// Protocol probes table (DB record, snake_case)
+export interface ProtocolProbe {
+  connector_id: string;
+  requested_version: string;
+  negotiated_version: string | null;
+  status: ProtocolProbeStatus;
+  capabilities_json: string | null;  // JSON array of capability names
+  fields_json: string | null;        // JSON array of initialize result fields
+  server_name: string | null;
+  server_version: string | null;
+  error: string | null;
+  session_id: string | null;
+  probed_at: string;                 // ISO8601
+}
+
+// Parsed protocol probe entry (for external use, camelCase)
+export interface ProtocolProbeEntry {
+  requestedVersion: string;
+  negotiatedVersion?: string;
+  status: ProtocolProbeStatus;
+  capabilities: string[];
+  fields: string[];
+  serverName?: string;
+  serverVersion?: string;
+  error?: string;
+  sessionId?: string;
+  probedAt: string;
+}
@@ -16,6 +16,7 @@ import type {
   EventLinePair,
 } from './types.js';
 import { createHash } from 'crypto';
+import { parseServerOutput, describeServerOutput } from '../transports/stderr.js';
 
 /**
  * Parse ISO8601 timestamp to epoch milliseconds
@@ -116,9 +117,14 @@ export function extractLabel(
   if (kind === 'session_start') return 'session start';
   if (kind === 'session_end') return 'session end';
 
-  // Transport events
+  // Transport events (server stderr / exit status and injected faults are shown as text)
   if (dbKind === 'transport_event') {
-    return '[transport]';
+    const output = parseServerOutput(rawJson);
+    if (output) {
+      const text = describeServerOutput(output);
+      return output.type === 'exit' ? text : `stderr: ${text}`;
+    }
+    return describeFault(rawJson) ?? '[transport]';
   }
 
   // For notify without method, show kind
@@ -130,6 +136,27 @@ export function extractLabel(
   return '(unknown)';
 }
 
+/**
+ * Describe a fault injected by the proxy (transport_event of type 'fault')
+ *
+ * e.g. "fault: latency search (1500ms)"
+ */
+function describeFault(rawJson: string | null | undefined): string | null {
+  if (!rawJson) return null;
+  try {
+    const record = JSON.parse(rawJson);
+    if (record?.type !== 'fault') return null;
+
+    let detail = '';
+    if (record.latency_ms !== undefined) detail = ` (${record.latency_ms}ms)`;
+    else if (record.error_code !== undefined) detail = ` (${record.error_code})`;
+    else if (record.size_bytes !== undefined) detail = ` (${record.size_bytes} bytes)`;
+    return `fault: ${record.kind} ${record.tool}${detail}`;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Extract RPC ID from raw JSON or column
  */
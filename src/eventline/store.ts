@@ -17,6 +17,7 @@ import {
 import type { EventLine, TreeNode } from './types.js';
 import type { Event, SessionWithStats, RpcCall, Proof } from '../db/types.js';
 import { discoverSchema, type SchemaInfo } from './schema-discovery.js';
+import { parseServerOutput } from '../transports/stderr.js';
 
 export interface ViewOptions {
   limit?: number;
@@ -157,6 +158,11 @@ export class EventLineStore {
     let eventLines: EventLine[] = [];
 
     for (const event of events) {
+      // Server stderr / exit status are session-level detail, like start/end
+      if (!options.includeSessionEvents && event.kind === 'transport_event' && parseServerOutput(event.raw_json)) {
+        continue;
+      }
+
       const session = sessionsMap.get(event.session_id);
       const rpcCall = event.rpc_id ? rpcCallsMap.get(`${event.session_id}:${event.rpc_id}`) : undefined;
       const line = normalizeEvent(event, session, rpcCall);
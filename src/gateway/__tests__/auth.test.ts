@@ -4,7 +4,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { hashToken, validateToken, createAuthConfig, AuthConfig, TokenConfig } from '../auth.js';
+import { hashToken, validateToken, createAuthConfig, buildAuthConfig, AuthConfig, TokenConfig } from '../auth.js';
 import { hasPermission, buildMCPPermission, buildA2APermission } from '../permissions.js';
 import { createGatewayServer, GatewayServer } from '../server.js';
 import { createLogger, LogEntry } from '../logger.js';
@@ -378,3 +378,26 @@ describe('Auth Config', () => {
     expect(config.tokens).toEqual(tokens);
   });
 });
+
+describe('buildAuthConfig', () => {
+  const hash = hashToken('secret');
+
+  it('should ignore token hashes in none mode', () => {
+    expect(buildAuthConfig('none', [hash])).toEqual({ mode: 'none', tokens: [] });
+  });
+
+  it('should name tokens by prefix or position', () => {
+    const config = buildAuthConfig('bearer', [hash, `ide:${hash}`]);
+    expect(config).toEqual({
+      mode: 'bearer',
+      tokens: [
+        { name: 'token-1', token_hash: hash, permissions: ['*'] },
+        { name: 'ide', token_hash: hash, permissions: ['*'] },
+      ],
+    });
+  });
+
+  it('should reject malformed token hashes', () => {
+    expect(() => buildAuthConfig('bearer', ['sha256:abc'])).toThrow('Invalid token hash format: sha256:abc');
+  });
+});
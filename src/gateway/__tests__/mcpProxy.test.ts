@@ -11,6 +11,7 @@ import { tmpdir } from 'os';
 import { mkdtemp, writeFile, rm } from 'fs/promises';
 import { join } from 'path';
 import type { AuthInfo } from '../authMiddleware.js';
+import type { AuditLogger } from '../audit.js';
 
 // Mock the stdio transport to avoid actual subprocess spawning
 vi.mock('../../transports/stdio.js', () => ({
@@ -74,6 +75,16 @@ describe('MCP Proxy', () => {
             args: ['test'],
           },
         },
+        {
+          id: 'validating-connector',
+          enabled: true,
+          transport: {
+            type: 'stdio',
+            command: 'echo',
+            args: ['test'],
+          },
+          proxy: { validate_arguments: true },
+        },
       ],
     };
     await writeFile(
@@ -407,6 +418,161 @@ describe('MCP Proxy', () => {
     });
   });
 
+  describe('argument validation', () => {
+    async function mockSearchTool() {
+      const { StdioConnection } = await import('../../transports/stdio.js');
+      const sendRequest = vi.fn().mockImplementation((method: string) => {
+        if (method === 'tools/list') {
+          return Promise.resolve({
+            result: {
+              tools: [{
+                name: 'search',
+                inputSchema: {
+                  type: 'object',
+                  properties: { query: { type: 'string' } },
+                  required: ['query'],
+                  additionalProperties: false,
+                },
+              }],
+            },
+          });
+        }
+        return Promise.resolve({ result: { content: [] } });
+      });
+      vi.mocked(StdioConnection).mockImplementationOnce(() => ({
+        connect: vi.fn().mockResolvedValue(undefined),
+        sendRequest,
+        sendNotification: vi.fn(),
+        close: vi.fn(),
+        on: vi.fn(),
+      }));
+      return sendRequest;
+    }
+
+    async function createAuditedServer(auditLogger: { logError: ReturnType<typeof vi.fn> }): Promise<FastifyInstance> {
+      const validatingServer = Fastify();
+      validatingServer.addHook('onRequest', async (request) => {
+        request.requestId = 'test-request-id';
+      });
+      validatingServer.addHook('preHandler', async (request) => {
+        (request as unknown as { auth: AuthInfo }).auth = {
+          client_id: 'test-client',
+          permissions: ['mcp:*'],
+        };
+      });
+      validatingServer.post('/mcp/v1/message', createMCPProxyHandler({
+        configDir,
+        limits: DEFAULT_LIMITS,
+        auditLogger: auditLogger as unknown as AuditLogger,
+      }));
+      await validatingServer.ready();
+      return validatingServer;
+    }
+
+    it('should refuse invalid arguments with 400 INVALID_PARAMS and record a finding', async () => {
+      const sendRequest = await mockSearchTool();
+      const auditLogger = { logError: vi.fn() };
+      const validatingServer = await createAuditedServer(auditLogger);
+
+      const response = await validatingServer.inject({
+        method: 'POST',
+        url: '/mcp/v1/message',
+        payload: {
+          connector: 'validating-connector',
+          method: 'tools/call',
+          params: { name: 'search', arguments: { q: 'x' } },
+        },
+      });
+      await validatingServer.close();
+
+      expect(response.statusCode).toBe(400);
+      const body = JSON.parse(response.payload);
+      expect(body.error.code).toBe(ErrorCodes.INVALID_PARAMS);
+      expect(body.error.violations).toEqual([
+        { path: 'arguments.query', message: 'is required' },
+        { path: 'arguments.q', message: 'is not a known parameter' },
+      ]);
+
+      // The call never reached the connector
+      expect(sendRequest.mock.calls.map((call) => call[0])).not.toContain('tools/call');
+      expect(auditLogger.logError).toHaveBeenCalledWith(expect.objectContaining({
+        target: 'validating-connector',
+        statusCode: 400,
+        metadata: expect.objectContaining({ finding: 'invalid_arguments', tool: 'search' }),
+      }));
+    });
+
+    it('should forward valid arguments', async () => {
+      const sendRequest = await mockSearchTool();
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/mcp/v1/message',
+        payload: {
+          connector: 'validating-connector',
+          method: 'tools/call',
+          params: { name: 'search', arguments: { query: 'x' } },
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(sendRequest).toHaveBeenCalledWith('tools/call', { name: 'search', arguments: { query: 'x' } }, expect.any(Number));
+    });
+
+    it('should reuse the listed tool schemas for later calls', async () => {
+      const first = await mockSearchTool();
+      const second = await mockSearchTool();
+      const payload = {
+        connector: 'validating-connector',
+        method: 'tools/call',
+        params: { name: 'search', arguments: { query: 'x' } },
+      };
+
+      expect((await server.inject({ method: 'POST', url: '/mcp/v1/message', payload })).statusCode).toBe(200);
+      expect((await server.inject({ method: 'POST', url: '/mcp/v1/message', payload })).statusCode).toBe(200);
+
+      expect(first.mock.calls.map((call) => call[0])).toEqual(['initialize', 'tools/list', 'tools/call']);
+      expect(second.mock.calls.map((call) => call[0])).toEqual(['initialize', 'tools/call']);
+    });
+
+    it('should forward the call and record a finding when tools cannot be listed', async () => {
+      const { StdioConnection } = await import('../../transports/stdio.js');
+      const sendRequest = vi.fn().mockImplementation((method: string) => Promise.resolve(
+        method === 'tools/list'
+          ? { error: { code: -32601, message: 'Method not found' } }
+          : { result: { content: [] } }
+      ));
+      vi.mocked(StdioConnection).mockImplementationOnce(() => ({
+        connect: vi.fn().mockResolvedValue(undefined),
+        sendRequest,
+        sendNotification: vi.fn(),
+        close: vi.fn(),
+        on: vi.fn(),
+      }));
+      const auditLogger = { logError: vi.fn() };
+      const validatingServer = await createAuditedServer(auditLogger);
+
+      const response = await validatingServer.inject({
+        method: 'POST',
+        url: '/mcp/v1/message',
+        payload: {
+          connector: 'validating-connector',
+          method: 'tools/call',
+          params: { name: 'search', arguments: { q: 'x' } },
+        },
+      });
+      await validatingServer.close();
+
+      expect(response.statusCode).toBe(200);
+      expect(sendRequest).toHaveBeenCalledWith('tools/call', { name: 'search', arguments: { q: 'x' } }, expect.any(Number));
+      expect(auditLogger.logError).toHaveBeenCalledWith(expect.objectContaining({
+        target: 'validating-connector',
+        error: 'Argument validation skipped: tools/list failed: Method not found',
+        metadata: { finding: 'validation_skipped', tool: 'search' },
+      }));
+    });
+  });
+
   describe('abort handling', () => {
     it('should handle abort during connection establishment', async () => {
       // Mock to simulate slow connection that gets aborted
@@ -0,0 +1,139 @@
+/**
+ * Tests for per-token rate limiting
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { TokenBucketLimiter, rateLimitKey, createRateLimitHandler } from '../rateLimit.js';
+import { DEFAULT_LIMITS, type RateLimitScope } from '../config.js';
+import { ErrorCodes } from '../mcpProxy.js';
+import type { AuthInfo } from '../authMiddleware.js';
+import type { AuditLogger } from '../audit.js';
+
+describe('TokenBucketLimiter', () => {
+  it('should allow a burst of the limit, then refill at the per-minute rate', () => {
+    let now = 0;
+    const limiter = new TokenBucketLimiter(3, () => now);
+
+    expect(limiter.take('a')).toEqual({ allowed: true, limit: 3, remaining: 2, retryAfterSeconds: 0, resetSeconds: 20 });
+    limiter.take('a');
+    expect(limiter.take('a').remaining).toBe(0);
+
+    const refused = limiter.take('a');
+    expect(refused.allowed).toBe(false);
+    expect(refused.retryAfterSeconds).toBe(20);
+    expect(refused.resetSeconds).toBe(60);
+
+    // One request comes back every 20 seconds
+    now = 20000;
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(false);
+  });
+
+  it('should keep separate buckets per key', () => {
+    const limiter = new TokenBucketLimiter(1, () => 0);
+
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(false);
+    expect(limiter.take('b').allowed).toBe(true);
+  });
+});
+
+describe('rateLimitKey', () => {
+  it('should include the target and method only for the scopes covering them', () => {
+    expect(rateLimitKey('ci', 'token', 'docs', 'tools/call')).toBe(rateLimitKey('ci', 'token', 'git', 'tools/list'));
+    expect(rateLimitKey('ci', 'target', 'docs', 'tools/call')).toBe(rateLimitKey('ci', 'target', 'docs', 'tools/list'));
+    expect(rateLimitKey('ci', 'target', 'docs')).not.toBe(rateLimitKey('ci', 'target', 'git'));
+    expect(rateLimitKey('ci', 'method', 'docs', 'tools/call')).not.toBe(rateLimitKey('ci', 'method', 'docs', 'tools/list'));
+  });
+});
+
+describe('createRateLimitHandler', () => {
+  let server: FastifyInstance;
+
+  afterEach(async () => {
+    await server?.close();
+  });
+
+  async function createServer(
+    rateLimit: number | null,
+    scope: RateLimitScope = 'token',
+    auditLogger?: Partial<AuditLogger>
+  ): Promise<void> {
+    server = Fastify();
+    server.addHook('onRequest', async (request) => {
+      request.requestId = 'test-request-id';
+    });
+    server.addHook('preHandler', async (request) => {
+      (request as unknown as { auth: AuthInfo }).auth = {
+        client_id: String(request.headers['x-client'] ?? 'team-a'),
+        permissions: ['mcp:*'],
+      };
+    });
+
+    const handler = createRateLimitHandler({
+      limits: { ...DEFAULT_LIMITS, rate_limit_per_token: rateLimit, rate_limit_scope: scope },
+      auditLogger: auditLogger as AuditLogger | undefined,
+      now: () => 0,
+    });
+    server.post('/mcp/v1/message', handler ? { preHandler: handler } : {}, async () => ({ result: {} }));
+    await server.ready();
+  }
+
+  function send(connector: string, client = 'team-a') {
+    return server.inject({
+      method: 'POST',
+      url: '/mcp/v1/message',
+      headers: { 'x-client': client },
+      payload: { connector, method: 'tools/call' },
+    });
+  }
+
+  it('should expose the remaining quota and refuse with 429 once it is used up', async () => {
+    const auditLogger = { logRateLimited: vi.fn() };
+    await createServer(2, 'token', auditLogger);
+
+    const first = await send('docs');
+    expect(first.statusCode).toBe(200);
+    expect(first.headers['x-ratelimit-limit']).toBe('2');
+    expect(first.headers['x-ratelimit-remaining']).toBe('1');
+    expect(first.headers['x-ratelimit-reset']).toBe('30');
+
+    await send('git');
+    const refused = await send('docs');
+    expect(refused.statusCode).toBe(429);
+    expect(refused.headers['retry-after']).toBe('30');
+    expect(JSON.parse(refused.payload).error).toEqual({
+      code: ErrorCodes.TOO_MANY_REQUESTS,
+      message: 'Rate limit exceeded: 2 requests per minute',
+      request_id: 'test-request-id',
+    });
+    expect(auditLogger.logRateLimited).toHaveBeenCalledWith({
+      requestId: 'test-request-id',
+      clientId: 'team-a',
+      target: 'docs',
+      method: 'tools/call',
+      retryAfterSeconds: 30,
+      metadata: { scope: 'token', limit: 2 },
+    });
+
+    // Other tokens are unaffected
+    expect((await send('docs', 'team-b')).statusCode).toBe(200);
+  });
+
+  it('should limit each target separately with the target scope', async () => {
+    await createServer(1, 'target');
+
+    expect((await send('docs')).statusCode).toBe(200);
+    expect((await send('docs')).statusCode).toBe(429);
+    expect((await send('git')).statusCode).toBe(200);
+  });
+
+  it('should not limit without rate_limit_per_token', async () => {
+    await createServer(null);
+
+    const response = await send('docs');
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['x-ratelimit-limit']).toBeUndefined();
+  });
+});
@@ -7,7 +7,7 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { createGatewayServer, GatewayServer } from '../server.js';
 import { generateRequestId, getRequestTimestamp } from '../requestId.js';
 import { createLogger, Logger, LogEntry } from '../logger.js';
-import { createGatewayConfig } from '../config.js';
+import { createGatewayConfig, DEFAULT_LIMITS } from '../config.js';
 
 describe('Gateway Server', () => {
   let server: GatewayServer;
@@ -257,4 +257,23 @@ describe('Gateway Config Validation', () => {
       expect(() => createGatewayConfig({ host: 'host|name' })).toThrow(/Invalid host/);
     });
   });
+
+  describe('rate limit validation', () => {
+    it('should accept a positive rate limit and known scopes', () => {
+      const config = createGatewayConfig({
+        limits: { ...DEFAULT_LIMITS, rate_limit_per_token: 60, rate_limit_scope: 'method' },
+      });
+      expect(config.limits.rate_limit_per_token).toBe(60);
+      expect(config.limits.rate_limit_scope).toBe('method');
+    });
+
+    it('should reject invalid rate limits and scopes', () => {
+      expect(() => createGatewayConfig({ limits: { ...DEFAULT_LIMITS, rate_limit_per_token: 0 } }))
+        .toThrow(/Invalid rate_limit_per_token: 0/);
+      expect(() => createGatewayConfig({ limits: { ...DEFAULT_LIMITS, rate_limit_per_token: 1.5 } }))
+        .toThrow(/Invalid rate_limit_per_token/);
+      expect(() => createGatewayConfig({ limits: { ...DEFAULT_LIMITS, rate_limit_scope: 'ip' as never } }))
+        .toThrow(/Invalid rate_limit_scope: ip/);
+    });
+  });
 });
@@ -223,6 +223,30 @@ export class AuditLogger {
     });
   }
 
+  /**
+   * Log a request refused by the per-token rate limit
+   */
+  logRateLimited(options: {
+    requestId: string;
+    traceId?: string;
+    clientId: string;
+    target?: string;
+    method?: string;
+    retryAfterSeconds: number;
+    metadata?: Record<string, unknown>;
+  }): string {
+    const { retryAfterSeconds, metadata, ...rest } = options;
+    return this.logEvent({
+      ...rest,
+      event: 'gateway_error',
+      decision: 'deny',
+      denyReason: 'rate_limited',
+      error: 'Rate limit exceeded',
+      statusCode: 429,
+      metadata: { ...metadata, retry_after_s: retryAfterSeconds },
+    });
+  }
+
   /**
    * Log gateway error
    */
@@ -79,6 +79,53 @@ export function validateToken(
   return null;
 }
 
+/** Token hash format: sha256:<64 hex chars> */
+const TOKEN_HASH_REGEX = /^sha256:[a-f0-9]{64}$/;
+
+/**
+ * Build AuthConfig from CLI options
+ *
+ * Token hashes are sha256:xxx or name:sha256:xxx (with optional name prefix).
+ * Tokens given on the command line get full access.
+ *
+ * @throws Error if a token hash is malformed
+ */
+export function buildAuthConfig(mode: 'none' | 'bearer', tokenHashes: string[]): AuthConfig {
+  if (mode === 'none') {
+    return { mode: 'none', tokens: [] };
+  }
+
+  const tokens: TokenConfig[] = tokenHashes.map((hash, index) => {
+    let name: string;
+    let tokenHash: string;
+
+    // Check if name is provided (name:sha256:xxx)
+    const colonCount = (hash.match(/:/g) || []).length;
+    if (colonCount >= 2) {
+      // Has name prefix
+      const firstColon = hash.indexOf(':');
+      name = hash.slice(0, firstColon);
+      tokenHash = hash.slice(firstColon + 1);
+    } else {
+      // No name, use default
+      name = `token-${index + 1}`;
+      tokenHash = hash;
+    }
+
+    if (!TOKEN_HASH_REGEX.test(tokenHash)) {
+      throw new Error(`Invalid token hash format: ${tokenHash}. Must be sha256:<64 hex chars>`);
+    }
+
+    return {
+      name,
+      token_hash: tokenHash,
+      permissions: ['*'], // Default: full access via CLI
+    };
+  });
+
+  return { mode: 'bearer', tokens };
+}
+
 /**
  * Create auth configuration with defaults
  */
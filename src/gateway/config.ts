@@ -6,6 +6,15 @@
 
 import { AuthConfig, DEFAULT_AUTH_CONFIG, createAuthConfig } from './auth.js';
 
+/**
+ * What one rate limit bucket covers: all of a token's requests, its
+ * requests per target (connector/agent), or per target and method
+ */
+export type RateLimitScope = 'token' | 'target' | 'method';
+
+/** Valid rate limit scopes */
+export const RATE_LIMIT_SCOPES: RateLimitScope[] = ['token', 'target', 'method'];
+
 export interface GatewayLimits {
   /** Request timeout in milliseconds */
   timeout_ms: number;
@@ -15,9 +24,10 @@ export interface GatewayLimits {
   max_inflight_per_connector: number;
   /** Maximum queue length per connector */
   max_queue_per_connector: number;
-  // TODO: Implement rate limiting per token (Phase 8.4 or later)
   /** Rate limit per token (requests/minute), null = no limit */
   rate_limit_per_token: number | null;
+  /** What each rate limit bucket covers (default: 'token') */
+  rate_limit_scope?: RateLimitScope;
 }
 
 export interface GatewayConfig {
@@ -44,6 +54,7 @@ export const DEFAULT_LIMITS: GatewayLimits = {
   max_inflight_per_connector: 1,
   max_queue_per_connector: 10,
   rate_limit_per_token: null,
+  rate_limit_scope: 'token',
 };
 
 /** Default gateway configuration */
@@ -77,6 +88,20 @@ function validateHost(host: string): void {
   }
 }
 
+/**
+ * Validate rate limit settings
+ */
+function validateRateLimit(limits: Partial<GatewayLimits>): void {
+  const rate = limits.rate_limit_per_token;
+  if (rate !== undefined && rate !== null && (!Number.isInteger(rate) || rate <= 0)) {
+    throw new Error(`Invalid rate_limit_per_token: ${rate}. Must be a positive integer or null.`);
+  }
+  const scope = limits.rate_limit_scope;
+  if (scope !== undefined && !RATE_LIMIT_SCOPES.includes(scope)) {
+    throw new Error(`Invalid rate_limit_scope: ${scope}. Must be one of: ${RATE_LIMIT_SCOPES.join(', ')}.`);
+  }
+}
+
 /**
  * Create gateway configuration with overrides
  */
@@ -93,6 +118,11 @@ export function createGatewayConfig(
     validateHost(overrides.host);
   }
 
+  // Validate rate limit if provided
+  if (overrides.limits !== undefined) {
+    validateRateLimit(overrides.limits);
+  }
+
   return {
     ...DEFAULT_CONFIG,
     ...overrides,
@@ -15,6 +15,7 @@ export * from './auth.js';
 export * from './authMiddleware.js';
 export * from './permissions.js';
 export * from './queue.js';
+export * from './rateLimit.js';
 export * from './mcpProxy.js';
 export * from './a2aProxy.js';
 export * from './audit.js';
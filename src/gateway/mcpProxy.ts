@@ -7,6 +7,8 @@
  * - Permission check
  * - Queue management (serial model)
  * - Timeout handling
+ * - tools/call argument validation (connectors with proxy.validate_arguments),
+ *   against tool lists cached per connector
  */
 
 import type { FastifyRequest, FastifyReply } from 'fastify';
@@ -16,9 +18,23 @@ import { ConnectorQueueManager, QueueFullError, QueueTimeoutError } from './queu
 import { GatewayLimits } from './config.js';
 import { ConfigManager } from '../config/manager.js';
 import { join } from 'path';
-import type { Connector, StdioTransport } from '../types/index.js';
-import { StdioConnection, JsonRpcResponse } from '../transports/stdio.js';
-import { resolveEnvSecrets } from '../secrets/resolve.js';
+import type { Connector } from '../types/index.js';
+import type { JsonRpcResponse } from '../transports/stdio.js';
+import type { McpConnection } from '../transports/connection.js';
+import {
+  createConnection,
+  isSupportedTransport,
+  resolveTransportSecrets,
+} from '../transports/connection.js';
+import { ServerRequestHandler } from '../transports/server-requests.js';
+import { DEFAULT_PROTOCOL_VERSION } from '../transports/protocol-versions.js';
+import { parseToolsListResult, type ToolInfo } from '../tools/adapter.js';
+import {
+  formatArgumentViolations,
+  validateToolArguments,
+  type ArgumentViolation,
+} from '../tools/schema-validator.js';
+import type { AuditLogger } from './audit.js';
 
 /**
  * MCP Proxy request body
@@ -43,6 +59,8 @@ export interface MCPProxyResponse {
     code: string;
     message: string;
     request_id: string;
+    /** Why the arguments were refused (INVALID_PARAMS) */
+    violations?: ArgumentViolation[];
   };
 }
 
@@ -56,6 +74,7 @@ export const ErrorCodes = {
   TOO_MANY_REQUESTS: 'TOO_MANY_REQUESTS',
   GATEWAY_TIMEOUT: 'GATEWAY_TIMEOUT',
   BAD_REQUEST: 'BAD_REQUEST',
+  INVALID_PARAMS: 'INVALID_PARAMS',
   INTERNAL_ERROR: 'INTERNAL_ERROR',
   BAD_GATEWAY: 'BAD_GATEWAY',
 } as const;
@@ -66,13 +85,15 @@ export const ErrorCodes = {
 function createErrorResponse(
   code: string,
   message: string,
-  requestId: string
+  requestId: string,
+  violations?: ArgumentViolation[]
 ): MCPProxyResponse {
   return {
     error: {
       code,
       message,
       request_id: requestId,
+      ...(violations && { violations }),
     },
   };
 }
@@ -87,10 +108,80 @@ export interface MCPProxyOptions {
   limits: GatewayLimits;
   /** Hide not found as 403 (security) */
   hideNotFound?: boolean;
+  /** Records refused tool arguments as findings */
+  auditLogger?: AuditLogger;
 }
 
 /**
- * MCP request executor - calls connector via stdio
+ * Outcome of one MCP request
+ */
+interface MCPExecuteResult {
+  result?: unknown;
+  error?: {
+    code: number;
+    message: string;
+    /** Set when the arguments were refused before reaching the connector */
+    violations?: ArgumentViolation[];
+  };
+  /** Why argument validation could not run (the call was forwarded unchecked) */
+  validationSkipped?: string;
+}
+
+/** How long a connector's listed tools are reused for argument validation */
+const TOOL_SCHEMA_TTL_MS = 60000;
+
+/**
+ * Listed tools of connectors with proxy.validate_arguments, by connector ID
+ *
+ * Every gateway request opens its own connection, so the tool list is kept
+ * per connector instead of being fetched before each tools/call.
+ */
+type ToolSchemaCache = Map<string, { tools: ToolInfo[]; expiresAt: number }>;
+
+/**
+ * Check tools/call arguments against the tool's inputSchema
+ *
+ * Uses the connector's cached tool list, listing tools on the open
+ * connection when it is missing, expired or lacks the tool. Tools that are
+ * not listed are left to the connector to reject.
+ *
+ * @returns The violations, or why the tools could not be listed
+ */
+async function checkToolArguments(
+  connection: McpConnection,
+  connectorId: string,
+  params: unknown,
+  timeoutMs: number,
+  toolSchemas: ToolSchemaCache
+): Promise<{ violations: ArgumentViolation[]; skipped?: string }> {
+  const call = (params ?? {}) as { name?: unknown; arguments?: unknown };
+
+  const cached = toolSchemas.get(connectorId);
+  let tool = cached && cached.expiresAt > Date.now()
+    ? cached.tools.find((t) => t.name === call.name)
+    : undefined;
+
+  if (!tool) {
+    let response: JsonRpcResponse;
+    try {
+      response = await connection.sendRequest('tools/list', {}, timeoutMs);
+    } catch (error) {
+      return { violations: [], skipped: `tools/list failed: ${error instanceof Error ? error.message : String(error)}` };
+    }
+    if (response.error) {
+      return { violations: [], skipped: `tools/list failed: ${response.error.message}` };
+    }
+
+    const tools = parseToolsListResult(response.result);
+    toolSchemas.set(connectorId, { tools, expiresAt: Date.now() + TOOL_SCHEMA_TTL_MS });
+    tool = tools.find((t) => t.name === call.name);
+  }
+
+  return { violations: validateToolArguments(tool?.inputSchema, call.arguments ?? {}) };
+}
+
+/**
+ * MCP request executor - calls connector via its configured transport
  */
 async function executeMCPRequest(
   connector: Connector,
@@ -98,9 +189,10 @@ async function executeMCPRequest(
   params: unknown,
   configDir: string,
   signal: AbortSignal,
-  timeoutMs: number
-): Promise<{ result?: unknown; error?: { code: number; message: string } }> {
-  if (connector.transport.type !== 'stdio') {
+  timeoutMs: number,
+  toolSchemas: ToolSchemaCache
+): Promise<MCPExecuteResult> {
+  if (!isSupportedTransport(connector.transport)) {
     return {
       error: {
         code: -32603,
@@ -109,32 +201,21 @@ async function executeMCPRequest(
     };
   }
 
-  const transport = connector.transport as StdioTransport;
+  // Resolve secret refs in env vars / headers
+  const resolved = await resolveTransportSecrets(connector, configDir);
 
-  // Resolve secret refs in env vars
-  const resolveResult = await resolveEnvSecrets(
-    transport.env,
-    connector.id,
-    configDir
-  );
-
-  if (!resolveResult.success) {
-    const errMsgs = resolveResult.errors.map((e) => `${e.key}: ${e.message}`).join('; ');
+  if (resolved.error) {
     return {
       error: {
         code: -32603,
-        message: `Failed to resolve secrets: ${errMsgs}`,
+        message: resolved.error,
       },
     };
   }
 
-  // Create transport with resolved env
-  const resolvedTransport: StdioTransport = {
-    ...transport,
-    env: { ...transport.env, ...resolveResult.envResolved },
-  };
-
-  const connection = new StdioConnection(resolvedTransport);
+  const connection = createConnection(resolved.transport);
+  const serverRequests = new ServerRequestHandler(connector.id, connector.server_requests);
+  serverRequests.attach(connection);
 
   // Handle abort signal
   const abortHandler = () => {
@@ -155,8 +236,8 @@ async function executeMCPRequest(
     await connection.sendRequest(
       'initialize',
       {
-        protocolVersion: '2024-11-05',
-        capabilities: {},
+        protocolVersion: DEFAULT_PROTOCOL_VERSION,
+        capabilities: serverRequests.getClientCapabilities(),
         clientInfo: {
           name: 'proofscan-gateway',
           version: '0.8.0',
@@ -167,6 +248,22 @@ async function executeMCPRequest(
 
     connection.sendNotification('notifications/initialized', {});
 
+    let validationSkipped: string | undefined;
+    if (method === 'tools/call' && connector.proxy?.validate_arguments) {
+      const { violations, skipped } = await checkToolArguments(connection, connector.id, params, timeoutMs, toolSchemas);
+      validationSkipped = skipped;
+      if (violations.length > 0) {
+        const name = (params as { name?: unknown }).name;
+        return {
+          error: {
+            code: -32602,
+            message: `Invalid arguments for ${String(name)}:\n${formatArgumentViolations(violations)}`,
+            violations,
+          },
+        };
+      }
+    }
+
     // Execute the actual request
     const response: JsonRpcResponse = await connection.sendRequest(method, params, timeoutMs);
 
@@ -176,10 +273,11 @@ async function executeMCPRequest(
           code: response.error.code,
           message: response.error.message,
         },
+        ...(validationSkipped && { validationSkipped }),
       };
     }
 
-    return { result: response.result };
+    return { result: response.result, ...(validationSkipped && { validationSkipped }) };
   } finally {
     signal.removeEventListener('abort', abortHandler);
     connection.close();
@@ -190,14 +288,15 @@ async function executeMCPRequest(
  * Create MCP Proxy handler
  */
 export function createMCPProxyHandler(options: MCPProxyOptions) {
-  const { configDir, limits, hideNotFound = true } = options;
+  const { configDir, limits, hideNotFound = true, auditLogger } = options;
   // ConfigManager expects a config file path, not a directory
   const configPath = join(configDir, 'config.json');
   const configManager = new ConfigManager(configPath);
   const queueManager = new ConnectorQueueManager<
     { method: string; params: unknown; connector: Connector },
-    { result?: unknown; error?: { code: number; message: string } }
+    MCPExecuteResult
   >(limits);
+  const toolSchemas: ToolSchemaCache = new Map();
 
   return async (
     request: FastifyRequest<{ Body: MCPProxyRequest }>,
@@ -302,7 +401,8 @@ export function createMCPProxyHandler(options: MCPProxyOptions) {
             req.params,
             configDir,
             signal,
-            limits.timeout_ms
+            limits.timeout_ms,
+            toolSchemas
           );
         }
       );
@@ -311,10 +411,47 @@ export function createMCPProxyHandler(options: MCPProxyOptions) {
       reply.header('X-Queue-Wait-Ms', String(queueWaitMs));
       reply.header('X-Upstream-Latency-Ms', String(upstreamLatencyMs));
 
+      // Forwarded without the argument check it was configured for
+      if (mcpResult.validationSkipped) {
+        auditLogger?.logError({
+          requestId,
+          clientId: auth.client_id,
+          target: connectorId,
+          method,
+          error: `Argument validation skipped: ${mcpResult.validationSkipped}`,
+          statusCode: mcpResult.error ? 400 : 200,
+          metadata: {
+            finding: 'validation_skipped',
+            tool: (params as { name?: unknown }).name,
+          },
+        });
+      }
+
       // 5. Return response
       if (mcpResult.error) {
         const code = mcpResult.error.code;
 
+        // Arguments refused before they reached the connector
+        const violations = mcpResult.error.violations;
+        if (violations) {
+          auditLogger?.logError({
+            requestId,
+            clientId: auth.client_id,
+            target: connectorId,
+            method,
+            error: mcpResult.error.message,
+            statusCode: 400,
+            metadata: {
+              finding: 'invalid_arguments',
+              tool: (params as { name?: unknown }).name,
+              violations,
+            },
+          });
+          return reply.code(400).send(
+            createErrorResponse(ErrorCodes.INVALID_PARAMS, mcpResult.error.message, requestId, violations)
+          );
+        }
+
         // JSON-RPC parse error from client
         if (code === -32700) {
           return reply.code(400).send(
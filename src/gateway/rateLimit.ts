@@ -0,0 +1,199 @@
+/**
+ * Per-token rate limiting for Protocol Gateway
+ *
+ * Token bucket per authenticated client (request.auth.client_id), and
+ * optionally per target and method (limits.rate_limit_scope). A bucket
+ * holds rate_limit_per_token requests and refills at that many per minute,
+ * so a client may burst up to a minute's allowance and is then held to the
+ * steady rate - one runaway agent cannot starve the others.
+ *
+ * Every proxied response carries the remaining quota:
+ *   X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset (seconds)
+ * Refused requests get 429 TOO_MANY_REQUESTS with Retry-After and are
+ * audit-logged as denials (deny_reason: rate_limited).
+ */
+
+import type { FastifyRequest, FastifyReply, preHandlerHookHandler } from 'fastify';
+import type { GatewayLimits, RateLimitScope } from './config.js';
+import type { AuditLogger } from './audit.js';
+import { ErrorCodes } from './mcpProxy.js';
+
+/** Buckets kept before full (unused) ones are dropped */
+const MAX_BUCKETS = 10000;
+
+/**
+ * Result of taking one request from a bucket
+ */
+export interface RateLimitDecision {
+  /** Whether the request may go ahead */
+  allowed: boolean;
+  /** Bucket size (requests/minute) */
+  limit: number;
+  /** Requests left in the bucket */
+  remaining: number;
+  /** Seconds until the next request is allowed (0 if allowed) */
+  retryAfterSeconds: number;
+  /** Seconds until the bucket is full again */
+  resetSeconds: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token buckets by key, refilled continuously
+ */
+export class TokenBucketLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private readonly now: () => number;
+
+  /**
+   * @param perMinute Requests allowed per minute (also the burst size)
+   * @param now Clock in milliseconds
+   */
+  constructor(perMinute: number, now: () => number = Date.now) {
+    this.capacity = perMinute;
+    this.refillPerMs = perMinute / 60000;
+    this.now = now;
+  }
+
+  /**
+   * Take one request from a key's bucket
+   */
+  take(key: string): RateLimitDecision {
+    const now = this.now();
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      if (this.buckets.size >= MAX_BUCKETS) {
+        this.prune(now);
+      }
+      bucket = { tokens: this.capacity, updatedAt: now };
+      this.buckets.set(key, bucket);
+    }
+
+    bucket.tokens = Math.min(this.capacity, bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs);
+    bucket.updatedAt = now;
+
+    const allowed = bucket.tokens >= 1;
+    if (allowed) {
+      bucket.tokens -= 1;
+    }
+
+    return {
+      allowed,
+      limit: this.capacity,
+      remaining: Math.floor(bucket.tokens),
+      retryAfterSeconds: allowed ? 0 : this.secondsUntil(1 - bucket.tokens),
+      resetSeconds: this.secondsUntil(this.capacity - bucket.tokens),
+    };
+  }
+
+  private secondsUntil(tokens: number): number {
+    return Math.ceil(tokens / this.refillPerMs / 1000);
+  }
+
+  /**
+   * Drop buckets that have refilled completely (same as having none)
+   */
+  private prune(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs >= this.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Bucket key for a request
+ *
+ * @param clientId Authenticated client ID (token name)
+ * @param scope What one bucket covers
+ * @param target Connector or agent ID
+ * @param method MCP or A2A method
+ */
+export function rateLimitKey(
+  clientId: string,
+  scope: RateLimitScope,
+  target?: string,
+  method?: string
+): string {
+  switch (scope) {
+    case 'target':
+      return JSON.stringify([clientId, target ?? null]);
+    case 'method':
+      return JSON.stringify([clientId, target ?? null, method ?? null]);
+    default:
+      return JSON.stringify([clientId]);
+  }
+}
+
+/**
+ * Options for the rate limit handler
+ */
+export interface RateLimitOptions {
+  /** Gateway limits (rate_limit_per_token, rate_limit_scope) */
+  limits: GatewayLimits;
+  /** Records refused requests */
+  auditLogger?: AuditLogger;
+  /** Clock in milliseconds (tests) */
+  now?: () => number;
+}
+
+/**
+ * Create the rate limit preHandler for proxy routes
+ *
+ * Runs after authentication. The target and method are read from the
+ * MCP ({ connector, method }) or A2A ({ agent, method }) request body.
+ *
+ * @returns Fastify preHandler hook, or null if rate_limit_per_token is not set
+ */
+export function createRateLimitHandler(options: RateLimitOptions): preHandlerHookHandler | null {
+  const { limits, auditLogger } = options;
+  if (limits.rate_limit_per_token === null) {
+    return null;
+  }
+
+  const limiter = new TokenBucketLimiter(limits.rate_limit_per_token, options.now);
+  const scope = limits.rate_limit_scope ?? 'token';
+
+  return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const clientId = request.auth?.client_id ?? 'anonymous';
+    const body = request.body as { connector?: unknown; agent?: unknown; method?: unknown } | undefined;
+    const target = typeof body?.connector === 'string' ? body.connector
+      : typeof body?.agent === 'string' ? body.agent
+      : undefined;
+    const method = typeof body?.method === 'string' ? body.method : undefined;
+
+    const decision = limiter.take(rateLimitKey(clientId, scope, target, method));
+    reply.header('X-RateLimit-Limit', String(decision.limit));
+    reply.header('X-RateLimit-Remaining', String(decision.remaining));
+    reply.header('X-RateLimit-Reset', String(decision.resetSeconds));
+
+    if (decision.allowed) {
+      return;
+    }
+
+    auditLogger?.logRateLimited({
+      requestId: request.requestId,
+      clientId,
+      target,
+      method,
+      retryAfterSeconds: decision.retryAfterSeconds,
+      metadata: { scope, limit: decision.limit },
+    });
+
+    reply.header('Retry-After', String(decision.retryAfterSeconds));
+    return reply.code(429).send({
+      error: {
+        code: ErrorCodes.TOO_MANY_REQUESTS,
+        message: `Rate limit exceeded: ${decision.limit} requests per minute`,
+        request_id: request.requestId,
+      },
+    });
+  };
+}
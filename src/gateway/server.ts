@@ -5,6 +5,7 @@
  * Phase 8.3: MCP Proxy
  * Phase 8.4: A2A Proxy
  * Phase 4: ProofPortal integration
+ * Per-token rate limiting (limits.rate_limit_per_token)
  */
 
 import Fastify, { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
@@ -15,6 +16,7 @@ import { createAuthMiddleware, AuthInfo } from './authMiddleware.js';
 import { createMCPProxyHandler, MCPProxyRequest } from './mcpProxy.js';
 import { createA2AProxyHandler, A2AProxyRequest } from './a2aProxy.js';
 import { createAuditLogger, AuditLogger } from './audit.js';
+import { createRateLimitHandler } from './rateLimit.js';
 import { sseStreamHandler, getSseManager } from './sse.js';
 import { registerProofCommRoutes } from './proofcommProxy.js';
 import { registerPortalRoutes } from '../proofportal/index.js';
@@ -129,14 +131,27 @@ export function createGatewayServer(
 
   // MCP Proxy endpoint (Phase 8.3)
   if (configDir) {
+    const auditLogger = createAuditLogger(configDir);
+    // Wire SSE manager to audit logger for real-time event broadcasting
+    auditLogger.setSseManager(getSseManager());
+
+    // Per-token rate limit on proxy routes (runs after authentication)
+    const rateLimitHandler = createRateLimitHandler({
+      limits: fullConfig.limits,
+      auditLogger,
+    });
+    const proxyRouteOptions = rateLimitHandler ? { preHandler: rateLimitHandler } : {};
+
     const mcpProxyHandler = createMCPProxyHandler({
       configDir,
       limits: fullConfig.limits,
       hideNotFound,
+      auditLogger,
     });
 
     server.post<{ Body: MCPProxyRequest }>(
       '/mcp/v1/message',
+      proxyRouteOptions,
       mcpProxyHandler
     );
 
@@ -152,26 +167,31 @@ export function createGatewayServer(
     // All A2A endpoints use the same handler - method is specified in request body
     server.post<{ Body: A2AProxyRequest }>(
       '/a2a/v1/message/send',
+      proxyRouteOptions,
       a2aProxyHandler
     );
 
     server.post<{ Body: A2AProxyRequest }>(
       '/a2a/v1/tasks/send',
+      proxyRouteOptions,
       a2aProxyHandler
     );
 
     server.post<{ Body: A2AProxyRequest }>(
       '/a2a/v1/tasks/get',
+      proxyRouteOptions,
       a2aProxyHandler
     );
 
     server.post<{ Body: A2AProxyRequest }>(
       '/a2a/v1/tasks/cancel',
+      proxyRouteOptions,
       a2aProxyHandler
     );
 
     server.post<{ Body: A2AProxyRequest }>(
       '/a2a/v1/tasks/list',
+      proxyRouteOptions,
       a2aProxyHandler
     );
 
@@ -183,10 +203,6 @@ export function createGatewayServer(
     log.info({ event: 'a2a_proxy_enabled', configDir });
 
     // ProofComm Management Routes (Phase 9.0)
-    const auditLogger = createAuditLogger(configDir);
-    // Wire SSE manager to audit logger for real-time event broadcasting
-    auditLogger.setSseManager(getSseManager());
-
     // Wire allowedDocumentRoot from GatewayConfig
     const allowedDocumentRoot = fullConfig.allowedDocumentRoot;
 
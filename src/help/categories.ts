@@ -57,6 +57,7 @@ export const GUIDE_CATEGORIES: CommandCategory[] = [
     name: 'Run & Capture',
     commands: [
       { name: 'scan', description: 'Run a new scan against MCP servers' },
+      { name: 'probe', description: 'Probe protocol version compatibility' },
       { name: 'proxy', description: 'Run MCP proxy server' },
     ],
   },
@@ -71,7 +72,7 @@ export const GUIDE_CATEGORIES: CommandCategory[] = [
     commands: [
       { name: 'tool', description: 'List, inspect and call MCP tools' },
       { name: 'catalog', description: 'Search and inspect MCP servers from registry' },
-      { name: 'runners', description: 'Manage package runners (npx, uvx)' },
+      { name: 'runners', description: 'Manage package and container runners (npx, pnpm, uvx, docker, ...)' },
     ],
   },
   {
@@ -155,6 +156,13 @@ export const MAIN_COMMANDS: CommandEntry[] = [
     name: 'doctor',
     description: 'Diagnose and fix database issues',
   },
+  {
+    name: 'probe',
+    description: 'Probe MCP server behavior',
+    subcommands: [
+      { name: 'versions', description: 'Run initialize with each protocol version' },
+    ],
+  },
   {
     name: 'proxy',
     description: 'Run MCP proxy server',
@@ -259,7 +267,7 @@ export const ANCILLARY_COMMANDS: CommandEntry[] = [
   },
   {
     name: 'runners',
-    description: 'Manage package runners (npx, uvx)',
+    description: 'Manage package and container runners (npx, pnpm, uvx, docker, ...)',
   },
   {
     name: 'sessions',
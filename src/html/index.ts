@@ -14,6 +14,7 @@ export {
   toRpcStatus,
   getStatusSymbol,
   createPayloadData,
+  createServerOutputLines,
   getRpcHtmlFilename,
   getSessionHtmlFilename,
   getSpillFilename,
@@ -30,6 +31,7 @@ export type {
   SessionRpcDetail,
   HtmlSessionData,
   HtmlSessionReportV1,
+  HtmlServerOutputLine,
   // Connector HTML types (Phase 5.1)
   HtmlMcpCapabilities,
   HtmlMcpServerInfo,
@@ -327,6 +327,21 @@ describe('generateSessionHtml', () => {
     expect(html).toContain('30ms');
   });
 
+  it('should show server stderr only when recorded', () => {
+    expect(generateSessionHtml(baseSessionReport)).not.toContain('Server stderr');
+
+    const html = generateSessionHtml({
+      ...baseSessionReport,
+      server_output: [
+        { ts: '2025-01-12T09:00:00.005Z', text: 'Error: <missing> API_KEY' },
+        { ts: '2025-01-12T09:00:00.006Z', text: 'process exited (code 1)', exit: true },
+      ],
+    });
+    expect(html).toContain('Server stderr');
+    expect(html).toContain('Error: &lt;missing&gt; API_KEY');
+    expect(html).toContain('<span class="exit">09:00:00.006  process exited (code 1)</span>');
+  });
+
   it('should handle empty RPC list', () => {
     const emptyReport: HtmlSessionReportV1 = {
       ...baseSessionReport,
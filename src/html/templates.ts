@@ -16,6 +16,7 @@ import type {
   HtmlMethodDistribution,
   HtmlMethodLatencyData,
   HtmlRpcReportV1,
+  HtmlServerOutputLine,
   HtmlSessionReportV1,
   HtmlTopToolsData,
   PayloadData,
@@ -337,6 +338,26 @@ function getSessionReportStyles(): string {
     }
     .session-info dt { color: var(--text-secondary); }
     .session-info dd { margin: 0; }
+    .server-output {
+      background: var(--bg-secondary);
+      padding: 8px 12px;
+      border-bottom: 1px solid var(--border-color);
+      flex-shrink: 0;
+    }
+    .server-output h2 {
+      margin: 0 0 4px;
+      font-size: 0.85em;
+      color: var(--text-secondary);
+    }
+    .server-output pre {
+      margin: 0;
+      max-height: 160px;
+      overflow: auto;
+      font-size: 0.8em;
+      white-space: pre-wrap;
+      word-break: break-all;
+    }
+    .server-output .exit { color: var(--status-err); }
     .rpc-list {
       flex: 1;
       overflow-y: auto;
@@ -802,6 +823,27 @@ function renderRpcRow(rpc: SessionRpcDetail, idx: number): string {
       </tr>`;
 }
 
+/**
+ * Render server stderr / exit status lines (empty when none were recorded)
+ */
+function renderServerOutput(lines: HtmlServerOutputLine[] | undefined): string {
+  if (!lines || lines.length === 0) {
+    return '';
+  }
+
+  const body = lines.map((line) => {
+    const time = formatTimestamp(line.ts).split(' ')[1] ?? '';
+    const text = `${escapeHtml(time)}  ${escapeHtml(line.text)}`;
+    return line.exit ? `<span class="exit">${text}</span>` : text;
+  }).join('\n');
+
+  return `
+      <div class="server-output">
+        <h2>Server stderr</h2>
+        <pre>${body}</pre>
+      </div>`;
+}
+
 /**
  * Generate Session HTML report (2-pane Wireshark-style layout)
  */
@@ -877,7 +919,7 @@ export function generateSessionHtml(report: HtmlSessionReportV1): string {
           <dt>Total Latency</dt>
           <dd><span class="badge">${totalLatencyDisplay}</span></dd>
         </dl>
-      </div>
+      </div>${renderServerOutput(report.server_output)}
       <div class="rpc-list">
         <table class="rpc-table">
           <thead>
@@ -1353,6 +1395,26 @@ function getConnectorReportStyles(): string {
     }
     .session-info dt { color: var(--text-secondary); }
     .session-info dd { margin: 0; }
+    .server-output {
+      background: var(--bg-secondary);
+      padding: 8px 12px;
+      border-bottom: 1px solid var(--border-color);
+      flex-shrink: 0;
+    }
+    .server-output h2 {
+      margin: 0 0 4px;
+      font-size: 0.85em;
+      color: var(--text-secondary);
+    }
+    .server-output pre {
+      margin: 0;
+      max-height: 160px;
+      overflow: auto;
+      font-size: 0.8em;
+      white-space: pre-wrap;
+      word-break: break-all;
+    }
+    .server-output .exit { color: var(--status-err); }
     .rpc-list {
       flex: 1;
       overflow-y: auto;
@@ -2938,7 +3000,7 @@ function renderSessionDetailContent(
               <dt>Total Latency</dt>
               <dd><span class="badge">${totalLatencyDisplay}</span></dd>
             </dl>
-          </div>
+          </div>${renderServerOutput(report.server_output)}
           <div class="view-toggle">
             <button class="view-toggle-btn active" data-view="rpc">
               RPCs<span class="view-toggle-count">(${session.rpc_count})</span>
@@ -5,6 +5,9 @@
  * Supports RPC detail and Session reports with embedded JSON.
  */
 
+import type { Event } from '../db/types.js';
+import { parseServerOutput, describeServerOutput } from '../transports/stderr.js';
+
 /**
  * Schema version for HTML reports
  */
@@ -138,6 +141,16 @@ export interface HtmlSessionData {
   total_latency_ms: number | null;
 }
 
+/**
+ * Server process output for session reports (stderr line or exit status)
+ */
+export interface HtmlServerOutputLine {
+  ts: string;
+  text: string;
+  /** Exit status rather than a stderr line */
+  exit?: boolean;
+}
+
 /**
  * Session Report V1
  */
@@ -145,6 +158,8 @@ export interface HtmlSessionReportV1 {
   meta: HtmlReportMeta;
   session: HtmlSessionData;
   rpcs: SessionRpcDetail[];
+  /** Server stderr and exit status, when recorded */
+  server_output?: HtmlServerOutputLine[];
 }
 
 /**
@@ -206,6 +221,28 @@ export function createPayloadData(
   };
 }
 
+/**
+ * Build server output lines from transport_event rows
+ *
+ * Free-form stderr can't be redacted key by key, so redacted reports keep
+ * only the exit status.
+ */
+export function createServerOutputLines(events: Event[], redact: boolean): HtmlServerOutputLine[] {
+  const lines: HtmlServerOutputLine[] = [];
+  for (const event of events) {
+    const record = parseServerOutput(event.raw_json);
+    if (!record || (redact && record.type !== 'exit')) {
+      continue;
+    }
+    lines.push({
+      ts: event.ts,
+      text: describeServerOutput(record),
+      ...(record.type === 'exit' && { exit: true }),
+    });
+  }
+  return lines;
+}
+
 /**
  * Generate output filename for RPC HTML
  */
@@ -263,7 +300,7 @@ export interface HtmlConnectorInfo {
   target_id: string;
   enabled: boolean;
   transport: {
-    type: 'stdio' | 'rpc-http' | 'rpc-sse';
+    type: 'stdio' | 'rpc-http' | 'rpc-sse' | 'ws';
     /** For stdio: command + args joined */
     command?: string;
     /** For http/sse: URL */
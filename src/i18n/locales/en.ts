@@ -76,6 +76,7 @@ export const en = {
       capability: 'Capabilities',
       toolCall: 'Tool Calls',
       notes: 'Notes',
+      protocolVersions: 'Protocol Versions',
     },
     capability: {
       count: '{count} types',
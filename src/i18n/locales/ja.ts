@@ -77,6 +77,7 @@ export const ja: LocaleMessages = {
       capability: 'できること（capability）',
       toolCall: 'やったこと（tool call）',
       notes: '注意点',
+      protocolVersions: 'プロトコルバージョン',
     },
     capability: {
       count: '{count} 種類',
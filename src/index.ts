@@ -11,6 +11,8 @@ export type {
   SseTransport,
   Transport,
   ConnectorPlugins,
+  ServerRequestsConfig,
+  ServerRequestResponder,
   Connector,
   RetentionConfig,
   Config,
@@ -37,7 +39,22 @@ export { parseMcpServers, readStdin } from './config/import.js';
 
 // Transports
 export { StdioConnection } from './transports/stdio.js';
-export type { JsonRpcRequest, JsonRpcResponse, JsonRpcNotification, JsonRpcMessage } from './transports/stdio.js';
+export { HttpConnection } from './transports/http.js';
+export { SseConnection } from './transports/sse.js';
+export { WsConnection } from './transports/ws.js';
+export { createConnection, isSupportedTransport } from './transports/connection.js';
+export type { McpConnection } from './transports/connection.js';
+export { ServerRequestHandler } from './transports/server-requests.js';
+export type { UpstreamForwarder, ServerRequestAnswer } from './transports/server-requests.js';
+export type {
+  JsonRpcRequest,
+  JsonRpcResponse,
+  JsonRpcNotification,
+  JsonRpcMessage,
+  MessageDirection,
+  ProgressUpdate,
+  RequestOptions,
+} from './transports/stdio.js';
 
 // Database (Phase2)
 export { EventsStore } from './db/events-store.js';
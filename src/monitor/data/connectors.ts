@@ -6,6 +6,7 @@ import { createHash } from 'crypto';
 import { ConfigManager } from '../../config/manager.js';
 import { EventsStore } from '../../db/events-store.js';
 import { TargetsStore } from '../../db/targets-store.js';
+import { ProtocolProbesStore } from '../../db/protocol-probes-store.js';
 import { getEventsDb } from '../../db/connection.js';
 import { listPoplEntries, hasPoplDir } from '../../popl/index.js';
 import type { Connector } from '../../types/config.js';
@@ -14,6 +15,7 @@ import type {
   MonitorConnectorCard,
   MonitorConnectorKpis,
   MonitorConnectorCapabilities,
+  MonitorProtocolProbe,
   ConnectorStatus,
   TransportType,
   ProtocolTag,
@@ -121,6 +123,7 @@ function buildConnectorCard(
     package_version: protocolInfo?.version ?? 'unknown',
     protocol: protocolInfo?.protocol ?? 'Unknown',
     protocol_version: protocolInfo?.protocolVersion,
+    protocol_versions: getProtocolVersions(configDir, connector.id),
     status,
     enabled: connector.enabled,
     capabilities,
@@ -154,6 +157,7 @@ function buildOrphanConnectorCard(
     package_version: protocolInfo?.version ?? 'unknown',
     protocol: protocolInfo?.protocol ?? 'Unknown',
     protocol_version: protocolInfo?.protocolVersion,
+    protocol_versions: getProtocolVersions(configDir, connectorId),
     status,
     enabled: false, // Not in config = disabled
     capabilities,
@@ -371,6 +375,17 @@ function getProtocolInfo(
   return null;
 }
 
+/**
+ * Get the protocol version matrix from the latest `probe versions` run
+ */
+function getProtocolVersions(configDir: string, connectorId: string): MonitorProtocolProbe[] {
+  return new ProtocolProbesStore(configDir).getMatrix(connectorId).map((entry) => ({
+    requested_version: entry.requestedVersion,
+    negotiated_version: entry.negotiatedVersion ?? null,
+    status: entry.status,
+  }));
+}
+
 /**
  * Calculate KPIs for a connector
  */
@@ -508,6 +523,9 @@ function getTransportType(connector: Connector): TransportType {
     if (transport.type === 'rpc-sse') {
       return 'sse';
     }
+    if (transport.type === 'ws') {
+      return 'ws';
+    }
     return 'http';
   }
   return 'stdio';
@@ -11,6 +11,7 @@ import {
   generateConnectorHtml,
   computeConnectorAnalytics,
   getPackageVersion,
+  createServerOutputLines,
   SHORT_ID_LENGTH,
 } from '../../html/index.js';
 import type {
@@ -1435,6 +1436,10 @@ function buildSessionReport(
       total_latency_ms: totalLatencyMs,
     },
     rpcs,
+    server_output: createServerOutputLines(
+      new EventsStore(configDir).getServerOutputEvents(session.session_id),
+      false
+    ),
   };
 }
 
@@ -8,6 +8,7 @@ import type {
   ConnectorStatus,
   ProtocolTag,
   MonitorConnectorCapabilities,
+  MonitorProtocolProbe,
   TransportType,
 } from '../types.js';
 import { escapeHtml } from './layout.js';
@@ -30,6 +31,8 @@ export interface ConnectorBadgeRowVm {
   server_name?: string;
   /** Server version (e.g. "1.25.0") */
   server_version?: string;
+  /** Protocol version matrix from `pfscan probe versions` */
+  protocol_versions?: MonitorProtocolProbe[];
 }
 
 /**
@@ -37,7 +40,8 @@ export interface ConnectorBadgeRowVm {
  * Layout matches `show --html` style with grouped labels:
  *   Capabilities: [tools] [resources] [prompts] [subscriptions]
  *   Server: name@version  Protocol: MCP 2024-11-05
- *   Transport: [stdio] [sse] [http]  State: [ENABLED]
+ *   Transport: [stdio] [sse] [http] [ws]  State: [ENABLED]
+ *   Versions: [2024-11-05] [2025-06-18→2024-11-05]  (only once probed)
  */
 export function renderConnectorBadgeRow(vm: ConnectorBadgeRowVm): string {
   const rows: string[] = [];
@@ -54,6 +58,11 @@ export function renderConnectorBadgeRow(vm: ConnectorBadgeRowVm): string {
   const transportStateRow = renderTransportStateRow(vm.transport, vm.enabled);
   rows.push(transportStateRow);
 
+  // Row 4: Protocol version matrix (only once probed)
+  if (vm.protocol_versions && vm.protocol_versions.length > 0) {
+    rows.push(renderProtocolVersionsRow(vm.protocol_versions));
+  }
+
   return `<div class="badge-row-container">${rows.join('')}</div>`;
 }
 
@@ -109,7 +118,7 @@ function renderServerProtocolRow(vm: ConnectorBadgeRowVm): string {
  * Render Transport options (all shown, active highlighted) + State
  */
 function renderTransportStateRow(transport: TransportType, enabled: boolean): string {
-  const allTransports: TransportType[] = ['stdio', 'sse', 'http'];
+  const allTransports: TransportType[] = ['stdio', 'sse', 'http', 'ws'];
 
   const transportBadges = allTransports.map((t) => {
     const isActive = transport === t;
@@ -129,6 +138,26 @@ function renderTransportStateRow(transport: TransportType, enabled: boolean): st
   </div>`;
 }
 
+/**
+ * Render protocol version matrix (accepted=green, negotiated=yellow, failed=red)
+ */
+function renderProtocolVersionsRow(versions: MonitorProtocolProbe[]): string {
+  const badges = versions.map((v) => {
+    const label = v.status === 'negotiated'
+      ? `${v.requested_version}→${v.negotiated_version}`
+      : v.requested_version;
+    const title = v.status === 'negotiated'
+      ? `Requested ${v.requested_version}, server negotiated ${v.negotiated_version}`
+      : `${v.requested_version}: ${v.status}`;
+    return `<span class="badge version-${v.status}" title="${escapeHtml(title)}">${escapeHtml(label)}</span>`;
+  }).join('');
+
+  return `<div class="badge-row-line">
+    <span class="badge-label">Versions:</span>
+    <span class="badge-values">${badges}</span>
+  </div>`;
+}
+
 /**
  * Get badge row styles (matches `show --html` style)
  */
@@ -208,6 +237,26 @@ export function getBadgeRowStyles(): string {
       background: rgba(248, 81, 73, 0.1);
     }
 
+    /* Protocol version badges - accepted / negotiated / failed */
+    .badge.version-accepted {
+      border-color: var(--accent-green);
+      color: var(--accent-green);
+      background: rgba(63, 185, 80, 0.1);
+    }
+
+    .badge.version-negotiated {
+      border-color: var(--accent-yellow);
+      color: var(--accent-yellow);
+      background: transparent;
+    }
+
+    .badge.version-failed {
+      border-color: var(--accent-red);
+      color: var(--accent-red);
+      background: transparent;
+      opacity: 0.7;
+    }
+
     /* Protocol text colors */
     .badge-value-text.badge-protocol-mcp {
       color: var(--accent-blue);
@@ -443,6 +492,7 @@ export function renderConnectorCard(card: MonitorConnectorCard): string {
     capabilities: card.capabilities,
     server_name: card.package_name,
     server_version: card.package_version,
+    protocol_versions: card.protocol_versions,
   });
 
   return `
@@ -19,7 +19,7 @@ export type ProtocolTag = 'MCP' | 'A2A' | 'JSON-RPC' | 'Unknown';
 /**
  * Transport type for connector
  */
-export type TransportType = 'stdio' | 'sse' | 'http';
+export type TransportType = 'stdio' | 'sse' | 'http' | 'ws';
 
 /**
  * Connector capabilities (fact-based detection)
@@ -32,6 +32,15 @@ export interface MonitorConnectorCapabilities {
   subscriptions: boolean;
 }
 
+/**
+ * Protocol version probe result (from `pfscan probe versions`)
+ */
+export interface MonitorProtocolProbe {
+  requested_version: string;
+  negotiated_version: string | null;
+  status: 'accepted' | 'negotiated' | 'failed';
+}
+
 /**
  * Connector KPI totals
  */
@@ -55,6 +64,7 @@ export interface MonitorConnectorCard {
   // Protocol detection (fact-based)
   protocol: ProtocolTag; // Detected from observed traffic
   protocol_version?: string; // e.g., MCP protocolVersion if known
+  protocol_versions?: MonitorProtocolProbe[]; // Compatibility matrix, empty if never probed
 
   // Status (independent states)
   status: ConnectorStatus; // Based on recent observations
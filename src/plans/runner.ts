@@ -5,14 +5,22 @@
  */
 
 import { ulid } from 'ulid';
-import type { Connector, StdioTransport } from '../types/index.js';
-import { StdioConnection, JsonRpcResponse, JsonRpcMessage } from '../transports/stdio.js';
+import type { Connector } from '../types/index.js';
+import {
+  createConnection,
+  describeTransport,
+  isSupportedTransport,
+  resolveTransportSecrets,
+  type McpConnection,
+} from '../transports/connection.js';
+import { ServerRequestHandler } from '../transports/server-requests.js';
+import { DEFAULT_PROTOCOL_VERSION } from '../transports/protocol-versions.js';
 import type { Plan, PlanDefinition, PlanStep, StepResult, RunResult, RunInventory, RunStatus } from './schema.js';
 import { PlansStore } from './store.js';
 import { EventsStore } from '../db/events-store.js';
 import { writeAllArtifacts } from './artifacts.js';
 import { normalizePlanForDigest } from './digest.js';
-import type { EventDirection, EventKind } from '../db/types.js';
+import { attachEventRecorder } from '../tools/adapter.js';
 
 export interface RunOptions {
   /** Timeout per step in seconds */
@@ -76,20 +84,21 @@ export class PlanRunner {
       : this.eventsStore.createSession(connector.id);
     const sessionId = session.session_id;
 
-    // Track RPC calls for events.db
-    const rpcIdMap = new Map<string | number, string>();
-
     const steps: StepResult[] = [];
     const inventory: RunInventory = {};
     let finalStatus: 'completed' | 'failed' | 'partial' = 'completed';
 
-    // Check transport type
-    if (connector.transport.type !== 'stdio') {
+    // Check transport type and resolve secret refs (env for stdio, headers for HTTP)
+    const resolved = isSupportedTransport(connector.transport)
+      ? await resolveTransportSecrets(connector, this.configDir)
+      : { transport: connector.transport, error: `Unsupported transport type: ${connector.transport.type}` };
+
+    if (resolved.error) {
       const endedAt = new Date().toISOString();
 
       if (!dryRun) {
         this.eventsStore.saveEvent(sessionId, 'client_to_server', 'transport_event', {
-          rawJson: JSON.stringify({ type: 'error', message: `Unsupported transport type: ${connector.transport.type}` }),
+          rawJson: JSON.stringify({ type: 'error', message: resolved.error }),
         });
         this.eventsStore.endSession(sessionId, 'error');
       }
@@ -121,8 +130,7 @@ export class PlanRunner {
       return errorResult;
     }
 
-    const transport = connector.transport as StdioTransport;
-    const connection = new StdioConnection(transport);
+    const connection = createConnection(resolved.transport);
 
     try {
       // Log connection attempt
@@ -130,64 +138,19 @@ export class PlanRunner {
         this.eventsStore.saveEvent(sessionId, 'client_to_server', 'transport_event', {
           rawJson: JSON.stringify({
             type: 'connect_attempt',
-            command: transport.command,
-            args: transport.args,
+            ...describeTransport(connector.transport),
             plan: plan.name,
             runId,
           }),
         });
       }
 
-      // Set up message logging for events.db
-      connection.on('message', (msg: JsonRpcMessage, raw: string) => {
-        if (dryRun) return;
-
-        const isRequest = 'method' in msg && 'id' in msg && msg.id !== null;
-        const isNotification = 'method' in msg && !('id' in msg);
-        const isResponse = 'id' in msg && !('method' in msg);
-
-        const direction: EventDirection = isResponse ? 'server_to_client' :
-          (isRequest || isNotification) && !('id' in msg && 'result' in msg) ? 'client_to_server' : 'server_to_client';
-
-        let kind: EventKind;
-        if (isRequest) kind = 'request';
-        else if (isNotification) kind = 'notification';
-        else if (isResponse) kind = 'response';
-        else kind = 'transport_event';
-
-        let rpcId: string | undefined;
-
-        // Handle RPC tracking
-        if (isRequest && 'id' in msg && msg.id !== null && 'method' in msg) {
-          const rpcCall = this.eventsStore.saveRpcCall(sessionId, String(msg.id), msg.method);
-          rpcIdMap.set(msg.id, rpcCall.rpc_id);
-          rpcId = rpcCall.rpc_id;
-        } else if (isResponse && 'id' in msg && msg.id !== null) {
-          rpcId = rpcIdMap.get(msg.id);
-          if (rpcId) {
-            const resp = msg as JsonRpcResponse;
-            this.eventsStore.completeRpcCall(
-              sessionId,
-              String(msg.id),
-              !resp.error,
-              resp.error?.code
-            );
-          }
-        }
-
-        this.eventsStore.saveEvent(sessionId, direction, kind, {
-          rpcId: rpcId || (('id' in msg && msg.id !== null) ? String(msg.id) : undefined),
-          rawJson: raw,
-        });
-      });
-
-      connection.on('stderr', (data: string) => {
-        if (!dryRun) {
-          this.eventsStore.saveEvent(sessionId, 'server_to_client', 'transport_event', {
-            rawJson: JSON.stringify({ type: 'stderr', data: data.trim() }),
-          });
-        }
-      });
+      // Set up message and stderr logging for events.db
+      if (!dryRun) {
+        attachEventRecorder(connection, this.eventsStore, sessionId);
+      }
+      const serverRequests = new ServerRequestHandler(connector.id, connector.server_requests);
+      serverRequests.attach(connection);
 
       connection.on('error', (error: Error) => {
         if (!dryRun) {
@@ -214,7 +177,8 @@ export class PlanRunner {
           step,
           i,
           inventory,
-          timeout
+          timeout,
+          serverRequests.getClientCapabilities()
         );
 
         steps.push(stepResult);
@@ -305,11 +269,12 @@ export class PlanRunner {
    * Execute a single plan step
    */
   private async executeStep(
-    connection: StdioConnection,
+    connection: McpConnection,
     step: PlanStep,
     index: number,
     inventory: RunInventory,
-    timeout: number
+    timeout: number,
+    clientCapabilities: Record<string, unknown>
   ): Promise<StepResult> {
     const startedAt = new Date().toISOString();
 
@@ -332,7 +297,7 @@ export class PlanRunner {
     }
 
     // Build request params based on method
-    const params = this.buildRequestParams(step.mcp);
+    const params = this.buildRequestParams(step.mcp, clientCapabilities);
 
     try {
       const response = await connection.sendRequest(step.mcp, params, timeout);
@@ -375,12 +340,12 @@ export class PlanRunner {
   /**
    * Build request params for MCP method
    */
-  private buildRequestParams(method: string): Record<string, unknown> {
+  private buildRequestParams(method: string, clientCapabilities: Record<string, unknown>): Record<string, unknown> {
     switch (method) {
       case 'initialize':
         return {
-          protocolVersion: '2024-11-05',
-          capabilities: {},
+          protocolVersion: DEFAULT_PROTOCOL_VERSION,
+          capabilities: clientCapabilities,
           clientInfo: {
             name: 'proofscan',
             version: '1.0.0',
@@ -6,6 +6,7 @@
  * - logs.sanitized.jsonl: Sanitized proxy logs
  * - rpc.sanitized.jsonl: Sanitized RPC events
  * - validation-run.log: Validation/generation log
+ * - protocol-versions.json: Protocol version matrix (if the connector was probed)
  */
 
 import { EventLineStore } from '../eventline/store.js';
@@ -20,6 +21,8 @@ import {
   SANITIZER_RULESET_VERSION,
 } from './sanitizer.js';
 import type { PoplArtifact, PoplCaptureSummary } from './types.js';
+import { ProtocolProbesStore } from '../db/protocol-probes-store.js';
+import { toProtocolMatrix, type ProtocolMatrixRow } from '../scanner/version-probe.js';
 
 /**
  * Session status (safe for public disclosure)
@@ -47,6 +50,17 @@ export interface StatusJson {
   rpc_methods: string[];
 }
 
+/**
+ * protocol-versions.json structure (safe for public disclosure)
+ * Error messages are left out: they may contain paths or secrets.
+ */
+export interface ProtocolVersionsJson {
+  generated_at: string;
+  connector_id: string;
+  probed_at: string;
+  versions: Omit<ProtocolMatrixRow, 'error'>[];
+}
+
 /**
  * Artifact generation result
  */
@@ -65,6 +79,7 @@ export interface GeneratedArtifacts {
   logs?: ArtifactResult;
   rpc: ArtifactResult;
   validation: ArtifactResult;
+  protocolVersions?: ArtifactResult;
 }
 
 /**
@@ -216,6 +231,45 @@ export function generateLogsArtifact(
   return null;
 }
 
+/**
+ * Generate protocol-versions.json artifact
+ * Returns null if the connector was never probed
+ */
+export function generateProtocolVersionsArtifact(
+  connectorId: string,
+  configDir: string
+): ArtifactResult | null {
+  const entries = new ProtocolProbesStore(configDir).getMatrix(connectorId);
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const doc: ProtocolVersionsJson = {
+    generated_at: new Date().toISOString(),
+    connector_id: connectorId,
+    probed_at: entries[0].probedAt,
+    versions: toProtocolMatrix(entries).map((row) => ({
+      requested_version: row.requested_version,
+      negotiated_version: row.negotiated_version,
+      status: row.status,
+      capabilities: row.capabilities,
+      fields: row.fields,
+    })),
+  };
+
+  const content = JSON.stringify(doc, null, 2);
+  const sha256 = hashFileContent(content);
+
+  return {
+    artifact: {
+      name: 'protocol-versions.json',
+      path: 'protocol-versions.json',
+      sha256,
+    },
+    content,
+  };
+}
+
 /**
  * Generate validation-run.log artifact
  */
@@ -296,6 +350,12 @@ export async function generateSessionArtifacts(
   validationSteps.push('Generating rpc.sanitized.jsonl');
   const rpcResult = generateRpcArtifact(sessionId, configDir);
 
+  // Generate protocol-versions.json (only if the connector was probed)
+  const protocolVersionsResult = generateProtocolVersionsArtifact(session.connector_id, configDir);
+  if (protocolVersionsResult) {
+    validationSteps.push('Generating protocol-versions.json');
+  }
+
   // Generate validation log
   validationSteps.push('Generating validation-run.log');
   const validationResult = generateValidationArtifact(sessionId, validationSteps);
@@ -316,6 +376,7 @@ export async function generateSessionArtifacts(
       status: statusResult,
       rpc: rpcResult,
       validation: validationResult,
+      ...(protocolVersionsResult && { protocolVersions: protocolVersionsResult }),
     },
     session: session as SessionWithStats,
     summary,
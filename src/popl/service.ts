@@ -168,6 +168,9 @@ export async function createSessionPoplEntry(
     if (artifacts.logs) {
       artifactList.push(artifacts.logs);
     }
+    if (artifacts.protocolVersions) {
+      artifactList.push(artifacts.protocolVersions);
+    }
 
     for (const artifact of artifactList) {
       const artifactPath = join(entryPath, artifact.artifact.path);
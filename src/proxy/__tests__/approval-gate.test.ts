@@ -0,0 +1,100 @@
+/**
+ * Approval Gate Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, rmSync } from 'fs';
+import { ApprovalGate, getApprovalReason } from '../approval-gate.js';
+import type { Connector } from '../../types/config.js';
+
+vi.mock('../logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const shell: Connector = {
+  id: 'shell',
+  enabled: true,
+  transport: { type: 'stdio', command: 'shell-mcp' },
+  proxy: { approval: { timeout_seconds: 5 } },
+};
+
+describe('getApprovalReason', () => {
+  it('should hold exec and write tools by default', () => {
+    const config = {};
+
+    expect(getApprovalReason(config, 'run_command', 'Execute a shell command')).toBe("category 'exec'");
+    expect(getApprovalReason(config, 'write_file', 'Write a file')).toBe("category 'write'");
+    expect(getApprovalReason(config, 'read_file', 'Read a file')).toBeNull();
+    expect(getApprovalReason(undefined, 'run_command', 'Execute a shell command')).toBeNull();
+  });
+
+  it('should hold tools by pattern instead of the default categories', () => {
+    const config = { tools: ['deploy_*'] };
+
+    expect(getApprovalReason(config, 'deploy_prod')).toBe('matched by approval.tools');
+    expect(getApprovalReason(config, 'run_command', 'Execute a shell command')).toBeNull();
+  });
+});
+
+describe('ApprovalGate', () => {
+  let configDir: string;
+  let gate: ApprovalGate;
+
+  beforeEach(() => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+    mkdirSync(configDir, { recursive: true });
+    gate = new ApprovalGate(configDir);
+  });
+
+  afterEach(() => {
+    gate.close();
+    vi.useRealTimers();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('should hold a call until it is decided', async () => {
+    const outcome = gate.request(shell, 'run_command', { cmd: 'ls' }, "category 'exec'");
+
+    const [pending] = gate.list();
+    expect(pending).toMatchObject({ connectorId: 'shell', tool: 'run_command', arguments: { cmd: 'ls' } });
+
+    expect(gate.decide(pending.id, 'deny', 'tester')).toBe(true);
+    await expect(outcome).resolves.toEqual({ approved: false, decision: 'deny', by: 'tester' });
+    expect(gate.list()).toEqual([]);
+    expect(gate.decide(pending.id, 'allow')).toBe(false);
+  });
+
+  it('should deny calls nobody answers in time', async () => {
+    vi.useFakeTimers();
+    const outcome = gate.request(shell, 'run_command', {}, "category 'exec'");
+
+    vi.advanceTimersByTime(5000);
+    await expect(outcome).resolves.toEqual({ approved: false, decision: 'timeout' });
+  });
+
+  it('should drop calls whose request is cancelled', async () => {
+    const controller = new AbortController();
+    const outcome = gate.request(shell, 'run_command', {}, "category 'exec'", controller.signal);
+
+    controller.abort();
+    await expect(outcome).resolves.toEqual({ approved: false, decision: 'cancelled' });
+    expect(gate.list()).toEqual([]);
+  });
+
+  it('should remember always-allowed tools across restarts', async () => {
+    const outcome = gate.request(shell, 'run_command', {}, "category 'exec'");
+    gate.decide(gate.list()[0].id, 'always', 'tester');
+    await expect(outcome).resolves.toMatchObject({ approved: true, decision: 'always' });
+
+    const restarted = new ApprovalGate(configDir);
+    expect(restarted.isAlwaysAllowed('shell', 'run_command')).toBe(true);
+    expect(restarted.isAlwaysAllowed('shell', 'write_file')).toBe(false);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Backend Connection Pool Tests
+ *
+ * Uses a small stateful stdio MCP server (node -e) to verify that calls
+ * share one connection and session, and that crashes are restarted.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { BackendPool } from '../backend-pool.js';
+import { EventsStore } from '../../db/events-store.js';
+import { closeAllDbs } from '../../db/connection.js';
+import type { Connector } from '../../types/config.js';
+
+vi.mock('../logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+/** Counter server: "incr" returns a per-process count, "crash" exits */
+const COUNTER_SERVER = `
+let count = 0;
+let buf = '';
+const send = (msg) => process.stdout.write(JSON.stringify(msg) + '\\n');
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', (chunk) => {
+  buf += chunk;
+  let i;
+  while ((i = buf.indexOf('\\n')) !== -1) {
+    const msg = JSON.parse(buf.slice(0, i));
+    buf = buf.slice(i + 1);
+    if (msg.id === undefined) continue;
+    if (msg.method === 'initialize') {
+      send({ jsonrpc: '2.0', id: msg.id, result: { protocolVersion: '2024-11-05', capabilities: { tools: {} } } });
+    } else if (msg.method === 'tools/list') {
+      send({ jsonrpc: '2.0', id: msg.id, result: { tools: [{ name: 'incr' }, { name: 'crash' }] } });
+    } else if (msg.params.name === 'crash') {
+      process.exit(3);
+    } else {
+      count++;
+      send({ jsonrpc: '2.0', id: msg.id, result: { content: [{ type: 'text', text: String(count) }] } });
+    }
+  }
+});
+`;
+
+const counterConnector: Connector = {
+  id: 'counter',
+  enabled: true,
+  transport: {
+    type: 'stdio',
+    command: process.execPath,
+    args: ['-e', COUNTER_SERVER],
+  },
+};
+
+function textOf(content: unknown[] | undefined): string {
+  return (content?.[0] as { text: string }).text;
+}
+
+describe('BackendPool', () => {
+  let configDir: string;
+  let pool: BackendPool;
+
+  beforeEach(() => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+    pool = new BackendPool({ connectors: [counterConnector], configDir, timeout: 10 });
+  });
+
+  afterEach(() => {
+    pool.closeAll();
+    closeAllDbs();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('should reuse one initialized connection and session across calls', async () => {
+    const list = await pool.listTools(counterConnector);
+    expect(list.tools.map((t) => t.name)).toEqual(['incr', 'crash']);
+
+    const first = await pool.callTool(counterConnector, 'incr', {});
+    const second = await pool.callTool(counterConnector, 'incr', {});
+
+    // State survives between calls (same backend process)
+    expect(textOf(first.content)).toBe('1');
+    expect(textOf(second.content)).toBe('2');
+    expect(first.sessionId).toBe(list.sessionId);
+    expect(second.sessionId).toBe(list.sessionId);
+
+    const store = new EventsStore(configDir);
+    const methods = store.getRpcCallsBySession(list.sessionId).map((r) => r.method);
+    expect(methods).toEqual(['initialize', 'tools/list', 'tools/call', 'tools/call']);
+  });
+
+  it('should restart a crashed backend in the same session', async () => {
+    const first = await pool.callTool(counterConnector, 'incr', {});
+    expect(textOf(first.content)).toBe('1');
+
+    const crash = await pool.callTool(counterConnector, 'crash', {});
+    expect(crash.success).toBe(false);
+    expect(pool.getStatus()[0].state).toBe('crashed');
+
+    const afterRestart = await pool.callTool(counterConnector, 'incr', {});
+    expect(afterRestart.success).toBe(true);
+    expect(textOf(afterRestart.content)).toBe('1');
+    expect(afterRestart.sessionId).toBe(first.sessionId);
+    expect(pool.getStatus()[0]).toMatchObject({ state: 'ready', restarts: 1 });
+
+    // Request ids continue across the restart so rpc_calls stay unique
+    const store = new EventsStore(configDir);
+    const rpcIds = store.getRpcCallsBySession(first.sessionId).map((r) => r.rpc_id);
+    expect(new Set(rpcIds).size).toBe(rpcIds.length);
+    expect(rpcIds).toHaveLength(5);
+  });
+
+  it('should close idle connections and reopen them on demand', async () => {
+    pool = new BackendPool({ connectors: [counterConnector], configDir, timeout: 10, idleTimeout: 0.1 });
+
+    const first = await pool.callTool(counterConnector, 'incr', {});
+    expect(pool.getStatus()[0].state).toBe('ready');
+
+    await new Promise((r) => setTimeout(r, 300));
+    expect(pool.getStatus()[0].state).toBe('idle');
+
+    const second = await pool.callTool(counterConnector, 'incr', {});
+    expect(textOf(second.content)).toBe('1');
+    expect(second.sessionId).toBe(first.sessionId);
+    expect(pool.getStatus()[0].restarts).toBe(0);
+  });
+
+  it('should end the session when a connector is released', async () => {
+    const result = await pool.callTool(counterConnector, 'incr', {});
+    pool.release('counter');
+
+    const store = new EventsStore(configDir);
+    expect(store.getSession(result.sessionId)?.exit_reason).toBe('normal');
+    expect(pool.getStatus()).toEqual([]);
+  });
+
+  it('should not open connections once closed', async () => {
+    pool.closeAll();
+
+    expect(await pool.listTools(counterConnector)).toEqual({ tools: [], sessionId: '', error: 'Backend pool is closed' });
+    expect(pool.recordEvent(counterConnector, { type: 'fault' })).toBe('');
+    expect(pool.getStatus()).toEqual([]);
+  });
+
+  it('should not record a client\'s event in the shared session when its backend has no room', async () => {
+    const isolated: Connector = { ...counterConnector, proxy: { isolation: { mode: 'client', max_instances: 1 } } };
+    const call = pool.callTool(isolated, 'incr', {}, {}, { id: 'a' });
+
+    // Client a's backend is still starting, so client b gets none
+    expect(pool.recordEvent(isolated, { type: 'fault' }, { id: 'b' })).toBe('');
+    await call;
+    expect(pool.getStatus().map((s) => s.clientId)).toEqual(['a']);
+  });
+});
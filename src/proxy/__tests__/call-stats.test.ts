@@ -0,0 +1,41 @@
+/**
+ * Tests for per-connector call counters
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CallStatsTracker, MAX_LATENCY_SAMPLES } from '../call-stats.js';
+
+describe('CallStatsTracker', () => {
+  it('should count calls and errors and keep the last error', () => {
+    const stats = new CallStatsTracker();
+    stats.record('docs', 10);
+    stats.record('docs', 20, 'Backend timed out');
+    stats.record('docs', 30);
+
+    const docs = stats.get('docs')!;
+    expect(docs).toMatchObject({ calls: 3, errors: 1, lastError: { message: 'Backend timed out' } });
+    expect(stats.get('web')).toBeUndefined();
+    expect(Object.keys(stats.getAll())).toEqual(['docs']);
+  });
+
+  it('should report nearest-rank p50 and p95 latency', () => {
+    const stats = new CallStatsTracker();
+    for (let ms = 1; ms <= 100; ms++) {
+      stats.record('docs', 101 - ms);
+    }
+
+    expect(stats.get('docs')).toMatchObject({ p50Ms: 50, p95Ms: 95 });
+  });
+
+  it('should compute latency over the most recent calls only', () => {
+    const stats = new CallStatsTracker();
+    for (let i = 0; i < MAX_LATENCY_SAMPLES; i++) {
+      stats.record('docs', 1000);
+    }
+    for (let i = 0; i < MAX_LATENCY_SAMPLES; i++) {
+      stats.record('docs', 5);
+    }
+
+    expect(stats.get('docs')).toMatchObject({ calls: 2 * MAX_LATENCY_SAMPLES, p50Ms: 5, p95Ms: 5 });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Fake backends and module mocks shared by the proxy server tests
+ *
+ * A fake backend is a stdio MCP server run with `node -e`. It answers
+ * initialize (and tools/list when given tools) itself; a test supplies only
+ * the handling that makes its backend different.
+ *
+ * The mocks are for vi.mock factories, which are hoisted above imports and
+ * so must load this module themselves:
+ *
+ *   vi.mock('../logger.js', () => import('./fake-backend.js').then((m) => m.mockLogger()));
+ */
+
+import { vi } from 'vitest';
+import type { Connector } from '../../types/config.js';
+
+export interface FakeBackendOptions {
+  /** Capabilities answered to initialize (default: tools) */
+  capabilities?: Record<string, unknown>;
+  /** Answer to tools/list (leave out to answer it in handle) */
+  tools?: unknown[];
+  /** Statements run once at startup, e.g. state shared by handle */
+  setup?: string;
+  /**
+   * Statements run for each request or client response `msg`. They answer
+   * with send(message), reply(result) or fail(code, message), helped by
+   * text(string) for a text-only tool result, and return once handled.
+   * Requests they do not return for get Method not found.
+   */
+  handle?: string;
+}
+
+/**
+ * A connector running a fake backend
+ */
+export function fakeBackend(id: string, options: FakeBackendOptions, proxy?: Connector['proxy']): Connector {
+  return {
+    id,
+    enabled: true,
+    transport: {
+      type: 'stdio',
+      command: process.execPath,
+      args: ['-e', backendScript(options)],
+    },
+    ...(proxy && { proxy }),
+  };
+}
+
+function backendScript(options: FakeBackendOptions): string {
+  const capabilities = options.capabilities ?? { tools: {} };
+  const listTools = options.tools
+    ? `if (msg.method === 'tools/list') return reply({ tools: ${JSON.stringify(options.tools)} });`
+    : '';
+  return `
+${options.setup ?? ''}
+const send = (msg) => process.stdout.write(JSON.stringify(msg) + '\\n');
+const text = (text) => ({ content: [{ type: 'text', text }] });
+function handle(msg, reply, fail) {
+  if (msg.method === 'initialize') {
+    return reply({ protocolVersion: '2024-11-05', capabilities: ${JSON.stringify(capabilities)} });
+  }
+  ${options.handle ?? ''}
+  ${listTools}
+  if (msg.method !== undefined) return fail(-32601, 'Method not found');
+}
+let buf = '';
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', (chunk) => {
+  buf += chunk;
+  let i;
+  while ((i = buf.indexOf('\\n')) !== -1) {
+    const msg = JSON.parse(buf.slice(0, i));
+    buf = buf.slice(i + 1);
+    if (msg.id === undefined) continue;
+    handle(
+      msg,
+      (result) => send({ jsonrpc: '2.0', id: msg.id, result }),
+      (code, message) => send({ jsonrpc: '2.0', id: msg.id, error: { code, message } })
+    );
+  }
+});
+`;
+}
+
+export function mockLogger() {
+  return {
+    logger: {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    },
+    initializeRingBuffer: vi.fn(),
+    isVerbose: vi.fn(() => false),
+  };
+}
+
+export function mockRuntimeState() {
+  return {
+    RuntimeStateManager: vi.fn().mockImplementation(() => ({
+      initialize: vi.fn().mockResolvedValue(undefined),
+      updateClient: vi.fn().mockResolvedValue(undefined),
+      updateConnector: vi.fn().mockResolvedValue(undefined),
+      recordToolCall: vi.fn().mockResolvedValue(undefined),
+      setCacheStatsSource: vi.fn(),
+      setCallStatsSource: vi.fn(),
+      startHeartbeat: vi.fn(),
+      stopHeartbeat: vi.fn(),
+      markStopped: vi.fn().mockResolvedValue(undefined),
+    })),
+  };
+}
+
+export function mockIpcServer() {
+  return {
+    IpcServer: vi.fn().mockImplementation(() => ({
+      start: vi.fn().mockResolvedValue(undefined),
+      stop: vi.fn(),
+      publish: vi.fn(),
+    })),
+  };
+}
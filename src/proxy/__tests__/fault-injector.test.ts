@@ -0,0 +1,73 @@
+/**
+ * Tests for the Fault Injector
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FaultInjector, corruptContent, oversizeContent, toFaultRecord } from '../fault-injector.js';
+import type { Connector, ProxyFaultRule } from '../../types/config.js';
+
+function connector(faults?: ProxyFaultRule[]): Connector {
+  return {
+    id: 'docs',
+    enabled: true,
+    transport: { type: 'stdio', command: 'node' },
+    ...(faults && { proxy: { faults } }),
+  };
+}
+
+describe('FaultInjector', () => {
+  it('should apply the first rule covering the tool', () => {
+    const injector = new FaultInjector(() => 0);
+    const docs = connector([
+      { kind: 'error', tools: ['write_*'] },
+      { kind: 'latency', latency_ms: 10 },
+    ]);
+
+    expect(injector.pick(docs, 'write_file')?.kind).toBe('error');
+    expect(injector.pick(docs, 'search')?.kind).toBe('latency');
+    expect(injector.pick(connector(), 'search')).toBeUndefined();
+  });
+
+  it('should fire a rule for its rate of the calls', () => {
+    const docs = connector([{ kind: 'drop', rate: 0.25 }]);
+
+    expect(new FaultInjector(() => 0.2).pick(docs, 'search')?.kind).toBe('drop');
+    expect(new FaultInjector(() => 0.3).pick(docs, 'search')).toBeUndefined();
+  });
+
+  it('should let rules set at runtime replace the config until reset', () => {
+    const injector = new FaultInjector(() => 0);
+    const docs = connector([{ kind: 'drop' }]);
+
+    injector.setRules('docs', []);
+    expect(injector.pick(docs, 'search')).toBeUndefined();
+    expect(injector.list([docs])).toEqual([{ connectorId: 'docs', source: 'ipc', rules: [] }]);
+
+    injector.setRules('docs', null);
+    expect(injector.list([docs])).toEqual([{ connectorId: 'docs', source: 'config', rules: [{ kind: 'drop' }] }]);
+    expect(injector.list([connector()])).toEqual([]);
+  });
+});
+
+describe('fault results', () => {
+  it('should record the fault with its effective parameters', () => {
+    expect(toFaultRecord({ kind: 'latency' }, 'search')).toEqual({
+      type: 'fault', tool: 'search', kind: 'latency', latency_ms: 1000,
+    });
+    expect(toFaultRecord({ kind: 'error', error_code: -32000, rate: 0.5 }, 'search')).toEqual({
+      type: 'fault', tool: 'search', kind: 'error', error_code: -32000,
+    });
+  });
+
+  it('should truncate corrupted results and pad oversized ones', () => {
+    const content = [{ type: 'text', text: '{"ok":true}' }];
+
+    const [corrupted] = corruptContent(content) as Array<{ text: string }>;
+    expect(() => JSON.parse(corrupted.text)).toThrow();
+    expect(JSON.stringify(content).startsWith(corrupted.text)).toBe(true);
+
+    const oversized = oversizeContent(content, 2048) as Array<{ text: string }>;
+    expect(oversized).toHaveLength(2);
+    expect(oversized[1].text).toHaveLength(2048);
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * HTTP Listener Tests
+ *
+ * The proxy served over Streamable HTTP: sessions via Mcp-Session-Id,
+ * notifications on the GET event stream, and bearer-token auth.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { McpProxyServer } from '../mcp-server.js';
+import { HttpListener, parseListenAddress } from '../http-listener.js';
+import { hashToken, type AuthConfig } from '../../gateway/auth.js';
+import { closeAllDbs } from '../../db/connection.js';
+import { fakeBackend } from './fake-backend.js';
+
+vi.mock('../logger.js', () => import('./fake-backend.js').then((m) => m.mockLogger()));
+vi.mock('../runtime-state.js', () => import('./fake-backend.js').then((m) => m.mockRuntimeState()));
+vi.mock('../ipc-server.js', () => import('./fake-backend.js').then((m) => m.mockIpcServer()));
+
+/**
+ * Backend whose "grow" tool adds a tool and sends tools/list_changed; "slow"
+ * answers after 200ms, "work" reports progress first and "ask" answers with
+ * the client's roots (or the error getting them)
+ */
+const BACKEND_CONNECTOR = fakeBackend('b', {
+  capabilities: { tools: { listChanged: true } },
+  setup: `
+    const tools = [{ name: 'grow' }];
+    let asking = null;
+  `,
+  handle: `
+    if (msg.method === undefined) {
+      return send({ jsonrpc: '2.0', id: asking, result: text(JSON.stringify(msg.result ?? msg.error)) });
+    }
+    if (msg.method === 'tools/list') return reply({ tools });
+    if (msg.method === 'tools/call' && msg.params.name === 'slow') {
+      setTimeout(() => reply(text('slow')), 200);
+      return;
+    }
+    if (msg.method === 'tools/call' && msg.params.name === 'work') {
+      send({ jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: msg.params._meta.progressToken, progress: 1, total: 2 } });
+      return reply(text('worked'));
+    }
+    if (msg.method === 'tools/call' && msg.params.name === 'ask') {
+      asking = msg.id;
+      return send({ jsonrpc: '2.0', id: 'roots', method: 'roots/list' });
+    }
+    if (msg.method === 'tools/call') {
+      tools.push({ name: 'tool' + tools.length });
+      reply(text('grown'));
+      return send({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+    }
+  `,
+});
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test-ide' } },
+};
+
+describe('parseListenAddress', () => {
+  it('should parse host:port and [ipv6]:port', () => {
+    expect(parseListenAddress('127.0.0.1:7337')).toEqual({ host: '127.0.0.1', port: 7337 });
+    expect(parseListenAddress('[::1]:0')).toEqual({ host: '::1', port: 0 });
+  });
+
+  it('should reject values without a valid port', () => {
+    expect(() => parseListenAddress('localhost')).toThrow('Invalid listen address: localhost');
+    expect(() => parseListenAddress('localhost:99999')).toThrow('Invalid port number: 99999');
+  });
+});
+
+describe('HttpListener', () => {
+  let configDir: string;
+  let server: McpProxyServer;
+  let listener: HttpListener;
+  let url: string;
+
+  beforeEach(() => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+  });
+
+  afterEach(async () => {
+    await listener.stop();
+    server.stop();
+    closeAllDbs();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  async function startListener(auth?: AuthConfig): Promise<void> {
+    server = new McpProxyServer({ connectors: [BACKEND_CONNECTOR], configDir, timeout: 10 });
+    await server.start({ stdio: false });
+    listener = new HttpListener(server, { host: '127.0.0.1', port: 0, auth });
+    url = await listener.start();
+  }
+
+  function post(body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+      body: JSON.stringify(body),
+    });
+  }
+
+  async function initialize(headers: Record<string, string> = {}): Promise<string> {
+    const res = await post(INITIALIZE, headers);
+    expect(res.status).toBe(200);
+    const sessionId = res.headers.get('mcp-session-id');
+    expect(sessionId).toBeTruthy();
+    return sessionId!;
+  }
+
+  /** Read SSE events from a stream until one carries the wanted method */
+  async function readEvent(res: Response, method: string): Promise<any> {
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) {
+        throw new Error('stream ended');
+      }
+      text += decoder.decode(value);
+      for (const match of text.matchAll(/^data: (.*)$/gm)) {
+        const message = JSON.parse(match[1]);
+        if (message.method === method) {
+          await reader.cancel();
+          return message;
+        }
+      }
+    }
+  }
+
+  it('should start a session on initialize and require it afterwards', async () => {
+    await startListener();
+
+    const sessionId = await initialize();
+
+    const missing = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    expect(missing.status).toBe(400);
+    expect((await missing.json()).error.message).toBe('Missing Mcp-Session-Id header');
+
+    const unknown = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'Mcp-Session-Id': 'nope' });
+    expect(unknown.status).toBe(404);
+
+    const list = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'Mcp-Session-Id': sessionId });
+    expect(list.status).toBe(200);
+    const body = await list.json();
+    expect(body.id).toBe(2);
+    expect(body.result.tools.map((t: { name: string }) => t.name)).toContain('b__grow');
+
+    // Notifications are accepted without a body
+    const initialized = await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, { 'Mcp-Session-Id': sessionId });
+    expect(initialized.status).toBe(202);
+  });
+
+  it('should answer a batch with an array of responses', async () => {
+    await startListener();
+    const sessionId = await initialize();
+
+    const res = await post([
+      { jsonrpc: '2.0', id: 'a', method: 'tools/list' },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 'b', method: 'nope' },
+    ], { 'Mcp-Session-Id': sessionId });
+
+    const body = await res.json();
+    expect(body.map((r: { id: string }) => r.id)).toEqual(['a', 'b']);
+    expect(body[1].error.code).toBe(-32601);
+  });
+
+  it('should refuse a request id another POST of the session is still waiting for', async () => {
+    await startListener();
+    const sessionId = await initialize();
+
+    const slow = post(
+      { jsonrpc: '2.0', id: 7, method: 'tools/call', params: { name: 'b__slow', arguments: {} } },
+      { 'Mcp-Session-Id': sessionId }
+    );
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const reused = await post({ jsonrpc: '2.0', id: 7, method: 'tools/list' }, { 'Mcp-Session-Id': sessionId });
+    expect(reused.status).toBe(200);
+    expect(await reused.json()).toEqual({
+      jsonrpc: '2.0',
+      id: 7,
+      error: { code: -32600, message: 'Request id 7 is already in use' },
+    });
+
+    expect((await (await slow).json()).result.content[0].text).toBe('slow');
+  });
+
+  it('should reject malformed bodies with JSON-RPC errors', async () => {
+    await startListener();
+
+    const parse = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{' });
+    expect(parse.status).toBe(400);
+    expect((await parse.json()).error.code).toBe(-32700);
+
+    const invalid = await post({ id: 1, method: 'initialize' });
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).error.code).toBe(-32600);
+  });
+
+  it('should send list_changed to every session on its event stream', async () => {
+    await startListener();
+    const first = await initialize();
+    const second = await initialize();
+    expect(second).not.toBe(first);
+
+    const streams = await Promise.all([first, second].map((sessionId) =>
+      fetch(url, { headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId } })
+    ));
+    expect(streams[0].headers.get('content-type')).toBe('text/event-stream');
+
+    const call = await post(
+      { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'b__grow', arguments: {} } },
+      { 'Mcp-Session-Id': first }
+    );
+    expect((await call.json()).result.content[0].text).toBe('grown');
+
+    for (const stream of streams) {
+      const event = await readEvent(stream, 'notifications/tools/list_changed');
+      expect(event).toEqual({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+    }
+  });
+
+  describe('without a GET stream', () => {
+    const ROOTS_INITIALIZE = {
+      ...INITIALIZE,
+      params: { ...INITIALIZE.params, capabilities: { roots: {} } },
+    };
+
+    /** Read a POST's event stream to its end, answering roots/list with one root */
+    async function readStream(res: Response, sessionId: string): Promise<any[]> {
+      const reader = res.body!.getReader();
+      const decoder = new TextDecoder();
+      const messages: any[] = [];
+      let text = '';
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) {
+          return messages;
+        }
+        text += decoder.decode(value, { stream: true });
+        let end;
+        while ((end = text.indexOf('\n\n')) !== -1) {
+          const data = text.slice(0, end).split('\n').find((line) => line.startsWith('data: '));
+          text = text.slice(end + 2);
+          if (!data) continue;
+          const message = JSON.parse(data.slice(6));
+          messages.push(message);
+          if (message.method === 'roots/list') {
+            await post({ jsonrpc: '2.0', id: message.id, result: { roots: [{ uri: 'file:///ide' }] } }, { 'Mcp-Session-Id': sessionId });
+          }
+        }
+      }
+    }
+
+    it('should stream progress on the POST of its request', async () => {
+      await startListener();
+      const sessionId = await initialize();
+
+      const res = await post(
+        { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'b__work', arguments: {}, _meta: { progressToken: 'p1' } } },
+        { 'Mcp-Session-Id': sessionId }
+      );
+      expect(res.headers.get('content-type')).toBe('text/event-stream');
+
+      const messages = await readStream(res, sessionId);
+      expect(messages).toEqual([
+        { jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 'p1', progress: 1, total: 2 } },
+        { jsonrpc: '2.0', id: 2, result: { content: [{ type: 'text', text: 'worked' }] } },
+      ]);
+    });
+
+    it('should send server requests on a POST in progress', async () => {
+      await startListener();
+      const res0 = await post(ROOTS_INITIALIZE);
+      const sessionId = res0.headers.get('mcp-session-id')!;
+
+      const res = await post(
+        { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'b__ask', arguments: {} } },
+        { 'Mcp-Session-Id': sessionId }
+      );
+      const messages = await readStream(res, sessionId);
+
+      expect(messages[0]).toMatchObject({ method: 'roots/list' });
+      expect(JSON.parse(messages[1].result.content[0].text)).toEqual({ roots: [{ uri: 'file:///ide' }] });
+    });
+
+    it('should fail server requests at once for a client that only accepts JSON', async () => {
+      await startListener();
+      const res0 = await post(ROOTS_INITIALIZE);
+      const sessionId = res0.headers.get('mcp-session-id')!;
+
+      const started = Date.now();
+      const res = await post(
+        { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'b__ask', arguments: {} } },
+        { 'Mcp-Session-Id': sessionId, Accept: 'application/json' }
+      );
+
+      expect(res.headers.get('content-type')).toContain('application/json');
+      expect(JSON.parse((await res.json()).result.content[0].text)).toEqual({
+        code: -32603,
+        message: `Client ${sessionId} cannot receive roots/list`,
+      });
+      expect(Date.now() - started).toBeLessThan(5000);
+    });
+  });
+
+  it('should end the session on DELETE', async () => {
+    await startListener();
+    const sessionId = await initialize();
+
+    const deleted = await fetch(url, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } });
+    expect(deleted.status).toBe(204);
+    expect((server as any).clients.has(sessionId)).toBe(false);
+
+    const after = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'Mcp-Session-Id': sessionId });
+    expect(after.status).toBe(404);
+  });
+
+  it('should refuse browser origins other than loopback', async () => {
+    await startListener();
+
+    const evil = await post(INITIALIZE, { Origin: 'http://evil.example' });
+    expect(evil.status).toBe(403);
+
+    const local = await post(INITIALIZE, { Origin: 'http://localhost:5173' });
+    expect(local.status).toBe(200);
+  });
+
+  it('should require a bearer token and keep sessions to their token', async () => {
+    await startListener({
+      mode: 'bearer',
+      tokens: [
+        { name: 'ide', token_hash: hashToken('ide-secret'), permissions: ['*'] },
+        { name: 'agent', token_hash: hashToken('agent-secret'), permissions: ['*'] },
+      ],
+    });
+
+    const anonymous = await post(INITIALIZE);
+    expect(anonymous.status).toBe(401);
+
+    const sessionId = await initialize({ Authorization: 'Bearer ide-secret' });
+    expect((server as any).clients.get(sessionId).authClientId).toBe('ide');
+
+    const list = { jsonrpc: '2.0', id: 2, method: 'tools/list' };
+    const own = await post(list, { Authorization: 'Bearer ide-secret', 'Mcp-Session-Id': sessionId });
+    expect(own.status).toBe(200);
+
+    const other = await post(list, { Authorization: 'Bearer agent-secret', 'Mcp-Session-Id': sessionId });
+    expect(other.status).toBe(404);
+  });
+});
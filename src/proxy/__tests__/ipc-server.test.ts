@@ -0,0 +1,87 @@
+/**
+ * IPC Server/Client Tests
+ *
+ * Connector control commands and the subscribe stream over a real socket.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, rmSync } from 'fs';
+import { IpcServer } from '../ipc-server.js';
+import { IpcClient } from '../ipc-client.js';
+import { getSocketPath, type IpcHandlers, type ProxyCallEvent } from '../ipc-types.js';
+
+const event: ProxyCallEvent = {
+  ts: '2026-01-01T00:00:00.000Z',
+  connectorId: 'docs',
+  tool: 'search',
+  durationMs: 12,
+  outcome: 'ok',
+};
+
+describe('IpcServer', () => {
+  let configDir: string;
+  let server: IpcServer;
+  let client: IpcClient;
+  let handlers: IpcHandlers;
+
+  beforeEach(async () => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+    mkdirSync(configDir, { recursive: true });
+    handlers = {
+      onReload: vi.fn(),
+      onStop: vi.fn(),
+      onStatus: vi.fn(),
+      onListApprovals: vi.fn(() => []),
+      onApprove: vi.fn(() => false),
+      onListFaults: vi.fn(() => []),
+      onSetFaults: vi.fn(),
+      onSetConnectorEnabled: vi.fn(async (connectorId: string) => {
+        if (connectorId !== 'docs') throw new Error(`Connector not found: ${connectorId}`);
+      }),
+      onRestartConnector: vi.fn(async () => {}),
+    };
+    server = new IpcServer(getSocketPath(configDir), handlers);
+    await server.start();
+    client = new IpcClient(getSocketPath(configDir));
+  });
+
+  afterEach(() => {
+    server.stop();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('should enable, disable and restart a connector', async () => {
+    expect(await client.disableConnector('docs')).toEqual({ success: true });
+    expect(await client.enableConnector('docs')).toEqual({ success: true });
+    expect(await client.restartConnector('docs')).toEqual({ success: true });
+    expect(handlers.onSetConnectorEnabled).toHaveBeenNthCalledWith(1, 'docs', false);
+    expect(handlers.onSetConnectorEnabled).toHaveBeenNthCalledWith(2, 'docs', true);
+    expect(handlers.onRestartConnector).toHaveBeenCalledWith('docs');
+
+    expect(await client.disableConnector('nope')).toEqual({ success: false, error: 'Connector not found: nope' });
+  });
+
+  it('should stream published calls to subscribers until closed', async () => {
+    const received: ProxyCallEvent[] = [];
+    const subscription = await client.subscribe((e) => received.push(e));
+
+    server.publish(event);
+    server.publish({ ...event, outcome: 'error', error: 'Index is corrupt' });
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+    expect(received[1].error).toBe('Index is corrupt');
+
+    subscription.close();
+    await subscription.closed;
+    server.publish(event);
+    expect(received).toHaveLength(2);
+  });
+
+  it('should end the stream when the server stops', async () => {
+    const subscription = await client.subscribe(() => {});
+    server.stop();
+    await expect(subscription.closed).resolves.toBeUndefined();
+  });
+});
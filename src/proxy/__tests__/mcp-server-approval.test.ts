@@ -0,0 +1,117 @@
+/**
+ * MCP Server Approval Tests
+ *
+ * tools/call requests to risky tools held until they are approved, for
+ * connectors with proxy.approval.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { McpProxyServer } from '../mcp-server.js';
+import { closeAllDbs } from '../../db/connection.js';
+import { EventsStore } from '../../db/events-store.js';
+import { fakeBackend } from './fake-backend.js';
+
+vi.mock('../logger.js', () => import('./fake-backend.js').then((m) => m.mockLogger()));
+vi.mock('../runtime-state.js', () => import('./fake-backend.js').then((m) => m.mockRuntimeState()));
+vi.mock('../ipc-server.js', () => import('./fake-backend.js').then((m) => m.mockIpcServer()));
+
+/** Backend with an exec tool and a read tool */
+const shell = fakeBackend(
+  'shell',
+  {
+    tools: [
+      { name: 'run_command', description: 'Execute a shell command' },
+      { name: 'read_file', description: 'Read a file' },
+    ],
+    handle: `
+      if (msg.method === 'tools/call') return reply(text('ran ' + msg.params.name));
+    `,
+  },
+  { approval: { timeout_seconds: 10 } }
+);
+
+describe('McpProxyServer approval', () => {
+  let configDir: string;
+  let server: McpProxyServer;
+  let sentMessages: string[];
+  const originalWrite = process.stdout.write;
+
+  beforeEach(() => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+    sentMessages = [];
+    process.stdout.write = vi.fn((chunk: string) => {
+      sentMessages.push(chunk);
+      return true;
+    }) as unknown as typeof process.stdout.write;
+    server = new McpProxyServer({ connectors: [shell], configDir, timeout: 10 });
+    (server as unknown as { running: boolean }).running = true;
+  });
+
+  afterEach(() => {
+    process.stdout.write = originalWrite;
+    (server as any).approvals.close();
+    (server as any).pool.closeAll();
+    closeAllDbs();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  async function call(name: string): Promise<any> {
+    sentMessages = [];
+    await (server as any).handleRequest({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: {} } });
+    return JSON.parse(sentMessages[0]);
+  }
+
+  /** Wait until the proxy holds a call, then answer it */
+  async function answer(decision: 'allow' | 'deny' | 'always'): Promise<void> {
+    await vi.waitFor(() => expect((server as any).approvals.list()).toHaveLength(1));
+    const [pending] = (server as any).approvals.list();
+    (server as any).approvals.decide(pending.id, decision, 'tester');
+  }
+
+  function approvalEvents(): unknown[] {
+    const store = new EventsStore(configDir);
+    const [session] = store.getSessionsByConnector('shell');
+    return store.getEventsBySession(session.session_id)
+      .filter((e) => e.kind === 'transport_event')
+      .map((e) => JSON.parse(e.raw_json!))
+      .filter((r) => r.type === 'approval');
+  }
+
+  it('should run an exec tool once it is allowed', async () => {
+    const [response] = await Promise.all([call('shell__run_command'), answer('allow')]);
+
+    expect(response.result.content[0].text).toBe('ran run_command');
+    expect(approvalEvents()).toEqual([
+      { type: 'approval', tool: 'run_command', reason: "category 'exec'", decision: 'allow', by: 'tester' },
+    ]);
+  });
+
+  it('should refuse an exec tool that is denied', async () => {
+    const [response] = await Promise.all([call('shell__run_command'), answer('deny')]);
+
+    expect(response.error.code).toBe(-32602);
+    expect(response.error.message).toBe('Tool call not approved: run_command (denied)');
+  });
+
+  it('should not ask again for an always-allowed tool', async () => {
+    await Promise.all([call('shell__run_command'), answer('always')]);
+
+    const again = await call('shell__run_command');
+    expect(again.result.content[0].text).toBe('ran run_command');
+    expect(approvalEvents()).toEqual([
+      { type: 'approval', tool: 'run_command', reason: "category 'exec'", decision: 'always', by: 'tester' },
+      { type: 'approval', tool: 'run_command', reason: "category 'exec'", decision: 'allow', rule: 'always_allow' },
+    ]);
+  });
+
+  it('should pass tools that need no approval straight through', async () => {
+    const response = await call('shell__read_file');
+
+    expect(response.result.content[0].text).toBe('ran read_file');
+    expect((server as any).approvals.list()).toEqual([]);
+  });
+});
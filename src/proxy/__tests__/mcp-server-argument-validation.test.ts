@@ -0,0 +1,135 @@
+/**
+ * MCP Server Argument Validation Tests
+ *
+ * tools/call arguments checked against the tool's inputSchema for
+ * connectors with proxy.validate_arguments.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { McpProxyServer } from '../mcp-server.js';
+import { closeAllDbs } from '../../db/connection.js';
+import { EventsStore } from '../../db/events-store.js';
+import type { Connector } from '../../types/config.js';
+import { fakeBackend, type FakeBackendOptions } from './fake-backend.js';
+
+vi.mock('../logger.js', () => import('./fake-backend.js').then((m) => m.mockLogger()));
+vi.mock('../runtime-state.js', () => import('./fake-backend.js').then((m) => m.mockRuntimeState()));
+vi.mock('../ipc-server.js', () => import('./fake-backend.js').then((m) => m.mockIpcServer()));
+
+/** Backend whose tool echoes its arguments */
+const SEARCH: FakeBackendOptions = {
+  tools: [
+    {
+      name: 'search',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: { type: 'string' },
+          limit: { type: 'integer' },
+          order: { type: 'string', enum: ['asc', 'desc'] },
+        },
+        required: ['query', 'order'],
+        additionalProperties: false,
+      },
+    },
+  ],
+  handle: `
+    if (msg.method === 'tools/call') return reply(text(msg.params.name + ' ' + JSON.stringify(msg.params.arguments)));
+  `,
+};
+
+function connector(validate: boolean): Connector {
+  return fakeBackend('db', SEARCH, {
+    validate_arguments: validate,
+    tools: { search: { defaults: { order: 'asc' } } },
+  });
+}
+
+describe('McpProxyServer argument validation', () => {
+  let configDir: string;
+  let server: McpProxyServer;
+  let sentMessages: string[];
+  const originalWrite = process.stdout.write;
+
+  beforeEach(() => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+    sentMessages = [];
+    process.stdout.write = vi.fn((chunk: string) => {
+      sentMessages.push(chunk);
+      return true;
+    }) as unknown as typeof process.stdout.write;
+  });
+
+  afterEach(() => {
+    process.stdout.write = originalWrite;
+    (server as any).pool.closeAll();
+    closeAllDbs();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  function startServer(validate: boolean): void {
+    server = new McpProxyServer({ connectors: [connector(validate)], configDir, timeout: 10 });
+    (server as unknown as { running: boolean }).running = true;
+  }
+
+  async function request(method: string, params?: unknown): Promise<any> {
+    sentMessages = [];
+    await (server as any).handleRequest({ jsonrpc: '2.0', id: 1, method, params });
+    return JSON.parse(sentMessages[0]);
+  }
+
+  it('should refuse invalid arguments with INVALID_PARAMS and their paths', async () => {
+    startServer(true);
+    await request('initialize', { protocolVersion: '2024-11-05', capabilities: {} });
+
+    const response = await request('tools/call', { name: 'db__search', arguments: { limit: '10', q: 'x' } });
+    expect(response.error.code).toBe(-32602);
+    expect(response.error.message).toBe(
+      'Invalid arguments for search:\narguments.query: is required\n' +
+      'arguments.limit: expected integer, got string\narguments.q: is not a known parameter'
+    );
+    expect(response.error.data.violations.map((v: { path: string }) => v.path)).toEqual([
+      'arguments.query',
+      'arguments.limit',
+      'arguments.q',
+    ]);
+  });
+
+  it('should record refused calls as findings in the connector session', async () => {
+    startServer(true);
+    await request('initialize', { protocolVersion: '2024-11-05', capabilities: {} });
+    await request('tools/call', { name: 'db__search', arguments: { query: 'x', order: 'random' } });
+
+    const store = new EventsStore(configDir);
+    const [session] = store.getSessionsByConnector('db');
+    const findings = store.getEventsBySession(session.session_id)
+      .filter((e) => e.kind === 'transport_event')
+      .map((e) => JSON.parse(e.raw_json!))
+      .filter((r) => r.type === 'invalid_arguments');
+    expect(findings).toEqual([{
+      type: 'invalid_arguments',
+      tool: 'search',
+      violations: [{ path: 'arguments.order', message: 'must be one of "asc", "desc"' }],
+    }]);
+  });
+
+  it('should forward valid arguments after defaults are applied', async () => {
+    startServer(true);
+    await request('initialize', { protocolVersion: '2024-11-05', capabilities: {} });
+
+    const response = await request('tools/call', { name: 'db__search', arguments: { query: 'x', limit: 5 } });
+    expect(response.result.content[0].text).toBe('search {"order":"asc","query":"x","limit":5}');
+  });
+
+  it('should forward arguments untouched without validate_arguments', async () => {
+    startServer(false);
+    await request('initialize', { protocolVersion: '2024-11-05', capabilities: {} });
+
+    const response = await request('tools/call', { name: 'db__search', arguments: { q: 'x' } });
+    expect(response.result.content[0].text).toBe('search {"order":"asc","q":"x"}');
+  });
+});
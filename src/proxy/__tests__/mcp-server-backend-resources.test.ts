@@ -0,0 +1,211 @@
+/**
+ * MCP Server Backend Resource Tests
+ *
+ * resources/list and resources/templates/list aggregate backend resources
+ * under proofscan-backend://<connector>/<uri>; resources/read and
+ * subscriptions are routed back to the owning backend.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { McpProxyServer } from '../mcp-server.js';
+import { EventsStore } from '../../db/events-store.js';
+import { closeAllDbs } from '../../db/connection.js';
+import { namespaceResourceUri, parseResourceUri } from '../resource-aggregator.js';
+import type { Connector } from '../../types/config.js';
+import { fakeBackend } from './fake-backend.js';
+
+vi.mock('../logger.js', () => import('./fake-backend.js').then((m) => m.mockLogger()));
+vi.mock('../runtime-state.js', () => import('./fake-backend.js').then((m) => m.mockRuntimeState()));
+vi.mock('../ipc-server.js', () => import('./fake-backend.js').then((m) => m.mockIpcServer()));
+
+/**
+ * Backend with one resource and one template; declares the resources
+ * capability (with subscribe) only withResources. Subscribing triggers a
+ * notifications/resources/updated for the subscribed URI; the "crash"
+ * tool exits.
+ */
+function backend(id: string, withResources: boolean): Connector {
+  return fakeBackend(id, {
+    capabilities: withResources ? { tools: {}, resources: { subscribe: true } } : { tools: {} },
+    tools: [{ name: 'crash' }],
+    handle: `
+      if (msg.method === 'tools/call') {
+        process.exit(3);
+      }
+      if (msg.method === 'resources/list') {
+        return reply({ resources: [
+          { uri: 'file:///notes/todo.md', name: 'todo', mimeType: 'text/markdown', size: 12 },
+        ] });
+      }
+      if (msg.method === 'resources/templates/list') {
+        return reply({ resourceTemplates: [
+          { uriTemplate: 'file:///notes/{name}.md', name: 'note' },
+        ] });
+      }
+      if (msg.method === 'resources/read' && msg.params.uri === 'file:///notes/todo.md') {
+        return reply({ contents: [
+          { uri: msg.params.uri, mimeType: 'text/markdown', text: '- [ ] ship' },
+        ] });
+      }
+      if (msg.method === 'resources/read') return fail(-32002, 'Resource not found: ' + msg.params.uri);
+      if (msg.method === 'resources/subscribe') {
+        reply({});
+        return send({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: msg.params.uri } });
+      }
+      if (msg.method === 'resources/unsubscribe') return reply({});
+    `,
+  });
+}
+
+describe('parseResourceUri', () => {
+  it('should reverse namespaceResourceUri', () => {
+    const uri = namespaceResourceUri('notes', 'file:///notes/todo.md');
+    expect(uri).toBe('proofscan-backend://notes/file:///notes/todo.md');
+    expect(parseResourceUri(uri)).toEqual({ connectorId: 'notes', uri: 'file:///notes/todo.md' });
+  });
+
+  it('should reject URIs that are not namespaced backend URIs', () => {
+    expect(parseResourceUri('ui://proofscan/trace-viewer')).toBeNull();
+    expect(parseResourceUri('proofscan-backend://notes')).toBeNull();
+    expect(parseResourceUri('proofscan-backend://notes/')).toBeNull();
+    expect(parseResourceUri('proofscan-backend://no:tes/file:///x')).toBeNull();
+  });
+});
+
+describe('McpProxyServer backend resources', () => {
+  let configDir: string;
+  let server: McpProxyServer;
+  let sentMessages: string[];
+  const originalWrite = process.stdout.write;
+
+  beforeEach(() => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+    sentMessages = [];
+    process.stdout.write = vi.fn((chunk: string) => {
+      sentMessages.push(chunk);
+      return true;
+    }) as unknown as typeof process.stdout.write;
+  });
+
+  afterEach(() => {
+    process.stdout.write = originalWrite;
+    (server as any).pool.closeAll();
+    closeAllDbs();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  function createServer(connectors: Connector[]): McpProxyServer {
+    server = new McpProxyServer({ connectors, configDir, timeout: 10 });
+    (server as unknown as { running: boolean }).running = true;
+    return server;
+  }
+
+  async function request(method: string, params?: unknown): Promise<any> {
+    sentMessages = [];
+    await (server as any).handleRequest({ jsonrpc: '2.0', id: 1, method, params });
+    // Relayed notifications may be written before the response
+    return sentMessages.map((m) => JSON.parse(m)).find((m) => m.id === 1);
+  }
+
+  it('should list backend resources and templates after the trace viewer', async () => {
+    createServer([backend('notes', true), backend('plain', false)]);
+
+    const init = await request('initialize', { protocolVersion: '2024-11-05', capabilities: {} });
+    expect(init.result.capabilities.resources).toEqual({ subscribe: true, listChanged: true });
+
+    const list = await request('resources/list');
+    expect(list.result.resources.map((r: any) => r.uri)).toEqual([
+      'ui://proofscan/trace-viewer',
+      'proofscan-backend://notes/file:///notes/todo.md',
+    ]);
+    expect(list.result.resources[1]).toEqual({
+      uri: 'proofscan-backend://notes/file:///notes/todo.md',
+      name: 'todo',
+      mimeType: 'text/markdown',
+      size: 12,
+    });
+
+    const templates = await request('resources/templates/list');
+    expect(templates.result).toEqual({
+      resourceTemplates: [{ uriTemplate: 'proofscan-backend://notes/file:///notes/{name}.md', name: 'note' }],
+    });
+
+    // Backends without the resources capability are not asked
+    const sessionId = (server as any).pool.getStatus().find((s: any) => s.connectorId === 'plain').sessionId;
+    const methods = new EventsStore(configDir).getRpcCallsBySession(sessionId).map((r) => r.method);
+    expect(methods).not.toContain('resources/list');
+  });
+
+  it('should route resources/read to the owning backend', async () => {
+    createServer([backend('notes', true)]);
+    await request('initialize', { protocolVersion: '2024-11-05', capabilities: {} });
+
+    const read = await request('resources/read', { uri: 'proofscan-backend://notes/file:///notes/todo.md' });
+    expect(read.result).toEqual({
+      contents: [
+        { uri: 'proofscan-backend://notes/file:///notes/todo.md', mimeType: 'text/markdown', text: '- [ ] ship' },
+      ],
+    });
+
+    // Backend errors keep their code; unknown connectors are invalid params
+    const missing = await request('resources/read', { uri: 'proofscan-backend://notes/file:///nope' });
+    expect(missing.error).toEqual({ code: -32002, message: 'Resource not found: file:///nope' });
+
+    const noConnector = await request('resources/read', { uri: 'proofscan-backend://nope/file:///x' });
+    expect(noConnector.error).toEqual({ code: -32602, message: 'Connector not found: nope' });
+  });
+
+  it('should route subscriptions and relay resources/updated with namespaced URIs', async () => {
+    createServer([backend('notes', true)]);
+    await request('initialize', { protocolVersion: '2024-11-05', capabilities: {} });
+
+    const uri = 'proofscan-backend://notes/file:///notes/todo.md';
+    const subscribed = await request('resources/subscribe', { uri });
+    expect(subscribed.result).toEqual({});
+
+    await vi.waitFor(() => {
+      const updates = sentMessages
+        .map((m) => JSON.parse(m))
+        .filter((m) => m.method === 'notifications/resources/updated');
+      expect(updates).toEqual([{ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri } }]);
+    });
+
+    const unsubscribed = await request('resources/unsubscribe', { uri });
+    expect(unsubscribed.result).toEqual({});
+  });
+
+  it('should renew subscriptions when a crashed backend is restarted', async () => {
+    createServer([backend('notes', true)]);
+    await request('initialize', { protocolVersion: '2024-11-05', capabilities: {} });
+
+    const uri = 'proofscan-backend://notes/file:///notes/todo.md';
+    await request('resources/subscribe', { uri });
+    await request('tools/call', { name: 'notes__crash', arguments: {} });
+
+    // The restarted backend is subscribed again without another client call
+    sentMessages = [];
+    await vi.waitFor(() => {
+      const updates = sentMessages
+        .map((m) => JSON.parse(m))
+        .filter((m) => m.method === 'notifications/resources/updated');
+      expect(updates).toEqual([{ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri } }]);
+    }, { timeout: 5000 });
+  });
+
+  it('should only list the trace viewer when no backend has resources', async () => {
+    createServer([backend('plain', false)]);
+
+    const init = await request('initialize', { protocolVersion: '2024-11-05', capabilities: {} });
+    expect(init.result.capabilities.resources).toEqual({ listChanged: true });
+
+    const list = await request('resources/list');
+    expect(list.result.resources.map((r: any) => r.uri)).toEqual(['ui://proofscan/trace-viewer']);
+
+    const templates = await request('resources/templates/list');
+    expect(templates.result).toEqual({ resourceTemplates: [] });
+  });
+});
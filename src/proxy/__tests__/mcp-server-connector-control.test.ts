@@ -0,0 +1,120 @@
+/**
+ * MCP Server Connector Control Tests
+ *
+ * One connector enabled, disabled or restarted over IPC without a reload,
+ * and the per-connector call counters and events for subscribers.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { McpProxyServer } from '../mcp-server.js';
+import { closeAllDbs } from '../../db/connection.js';
+import { fakeBackend, type FakeBackendOptions } from './fake-backend.js';
+
+vi.mock('../logger.js', () => import('./fake-backend.js').then((m) => m.mockLogger()));
+vi.mock('../runtime-state.js', () => import('./fake-backend.js').then((m) => m.mockRuntimeState()));
+vi.mock('../ipc-server.js', () => import('./fake-backend.js').then((m) => m.mockIpcServer()));
+
+/** Backend with a search tool and a fail tool that returns a JSON-RPC error */
+const SEARCH: FakeBackendOptions = {
+  tools: [{ name: 'search' }, { name: 'fail' }],
+  handle: `
+    if (msg.method === 'tools/call' && msg.params.name === 'fail') return fail(-32000, 'Index is corrupt');
+    if (msg.method === 'tools/call') return reply(text('pid ' + process.pid));
+  `,
+};
+
+describe('McpProxyServer connector control', () => {
+  let configDir: string;
+  let server: McpProxyServer;
+  let sentMessages: string[];
+  let published: unknown[];
+  const originalWrite = process.stdout.write;
+
+  beforeEach(async () => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+    sentMessages = [];
+    published = [];
+    process.stdout.write = vi.fn((chunk: string) => {
+      sentMessages.push(chunk);
+      return true;
+    }) as unknown as typeof process.stdout.write;
+
+    server = new McpProxyServer({ connectors: [fakeBackend('docs', SEARCH), fakeBackend('web', SEARCH)], configDir, timeout: 10 });
+    (server as unknown as { running: boolean }).running = true;
+    (server as any).ipcServer = { publish: (event: unknown) => published.push(event), stop: vi.fn() };
+    await request('initialize', { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'tester', version: '1' } });
+  });
+
+  afterEach(() => {
+    process.stdout.write = originalWrite;
+    server.stop();
+    closeAllDbs();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  async function request(method: string, params?: unknown): Promise<any> {
+    sentMessages = [];
+    await (server as any).handleRequest({ jsonrpc: '2.0', id: 1, method, params });
+    return sentMessages.map((m) => JSON.parse(m)).find((m) => m.id === 1);
+  }
+
+  async function toolNames(): Promise<string[]> {
+    return (await request('tools/list')).result.tools.map((t: any) => t.name);
+  }
+
+  function backendState(connectorId: string): string | undefined {
+    return (server as any).pool.getStatus().find((s: any) => s.connectorId === connectorId)?.state;
+  }
+
+  it('should hide a disabled connector and refuse its calls until enabled', async () => {
+    expect(await toolNames()).toContain('docs__search');
+
+    sentMessages = [];
+    await (server as any).setConnectorEnabled('docs', false);
+    expect(sentMessages.map((m) => JSON.parse(m).method)).toContain('notifications/tools/list_changed');
+    expect(backendState('docs')).toBeUndefined();
+    expect(await toolNames()).toEqual(['web__search', 'web__fail', 'proofscan_getEvents']);
+
+    const refused = await request('tools/call', { name: 'docs__search', arguments: {} });
+    expect(refused.error.message).toBe('Connector is disabled: docs');
+    expect(backendState('docs')).toBeUndefined();
+
+    await (server as any).setConnectorEnabled('docs', true);
+    expect(await toolNames()).toEqual(['docs__search', 'docs__fail', 'web__search', 'web__fail', 'proofscan_getEvents']);
+    expect((await request('tools/call', { name: 'docs__search', arguments: {} })).result).toBeDefined();
+  });
+
+  it('should restart one backend and leave the others running', async () => {
+    const before = (await request('tools/call', { name: 'docs__search', arguments: {} })).result.content[0].text;
+    const web = (await request('tools/call', { name: 'web__search', arguments: {} })).result.content[0].text;
+
+    await (server as any).restartConnector('docs');
+
+    expect((await request('tools/call', { name: 'docs__search', arguments: {} })).result.content[0].text).not.toBe(before);
+    expect((await request('tools/call', { name: 'web__search', arguments: {} })).result.content[0].text).toBe(web);
+  });
+
+  it('should refuse unknown and disabled connectors', async () => {
+    await expect((server as any).setConnectorEnabled('nope', false)).rejects.toThrow('Connector not found: nope');
+    await (server as any).setConnectorEnabled('docs', false);
+    await expect((server as any).restartConnector('docs')).rejects.toThrow('Connector is disabled: docs');
+  });
+
+  it('should count calls per connector and publish them to subscribers', async () => {
+    await request('tools/call', { name: 'docs__search', arguments: {} });
+    await request('tools/call', { name: 'docs__fail', arguments: {} });
+    await request('tools/call', { name: 'nope__search', arguments: {} });
+
+    const stats = (server as any).callStats.getAll();
+    expect(Object.keys(stats)).toEqual(['docs']);
+    expect(stats.docs).toMatchObject({ calls: 2, errors: 1, lastError: { message: 'Index is corrupt' } });
+
+    expect(published).toHaveLength(2);
+    expect(published[0]).toMatchObject({ connectorId: 'docs', tool: 'search', client: 'tester', outcome: 'ok' });
+    expect(published[1]).toMatchObject({ connectorId: 'docs', tool: 'fail', outcome: 'error', error: 'Index is corrupt' });
+  });
+});
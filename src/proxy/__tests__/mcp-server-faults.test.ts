@@ -0,0 +1,148 @@
+/**
+ * MCP Server Fault Injection Tests
+ *
+ * Faults injected into tools/call (proxy.faults, or rules set over IPC),
+ * and their tagging in events.db.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { McpProxyServer } from '../mcp-server.js';
+import { closeAllDbs } from '../../db/connection.js';
+import { EventsStore } from '../../db/events-store.js';
+import { getInjectedFaults } from '../../db/tool-analysis.js';
+import type { ProxyFaultRule } from '../../types/config.js';
+import { fakeBackend } from './fake-backend.js';
+
+vi.mock('../logger.js', () => import('./fake-backend.js').then((m) => m.mockLogger()));
+vi.mock('../runtime-state.js', () => import('./fake-backend.js').then((m) => m.mockRuntimeState()));
+vi.mock('../ipc-server.js', () => import('./fake-backend.js').then((m) => m.mockIpcServer()));
+
+const docs = fakeBackend(
+  'docs',
+  {
+    tools: [{ name: 'search' }, { name: 'write_note' }],
+    handle: `
+      if (msg.method === 'tools/call') return reply(text(JSON.stringify({ from: msg.params.name })));
+    `,
+  },
+  {
+    faults: [{ kind: 'error', tools: ['write_*'], error_code: -32000, message: 'Disk on fire' }],
+  }
+);
+
+describe('McpProxyServer fault injection', () => {
+  let configDir: string;
+  let server: McpProxyServer;
+  let sentMessages: string[];
+  const originalWrite = process.stdout.write;
+
+  beforeEach(() => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+    sentMessages = [];
+    process.stdout.write = vi.fn((chunk: string) => {
+      sentMessages.push(chunk);
+      return true;
+    }) as unknown as typeof process.stdout.write;
+    server = new McpProxyServer({ connectors: [docs], configDir, timeout: 10 });
+    (server as unknown as { running: boolean }).running = true;
+  });
+
+  afterEach(() => {
+    process.stdout.write = originalWrite;
+    (server as any).pool.closeAll();
+    closeAllDbs();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  async function call(tool: string): Promise<any> {
+    sentMessages = [];
+    await (server as any).handleRequest({
+      jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: `docs__${tool}`, arguments: {} },
+    });
+    return sentMessages.length > 0 ? JSON.parse(sentMessages[0]) : undefined;
+  }
+
+  function setFaults(rules: ProxyFaultRule[] | null): void {
+    (server as any).setFaultRules('docs', rules);
+  }
+
+  function transportEvents(): Array<Record<string, unknown>> {
+    const store = new EventsStore(configDir);
+    const [session] = store.getSessionsByConnector('docs');
+    return store.getEventsBySession(session.session_id)
+      .filter((e) => e.kind === 'transport_event')
+      .map((e) => JSON.parse(e.raw_json!));
+  }
+
+  it('should answer with the configured error without calling the backend', async () => {
+    const response = await call('write_note');
+    expect(response.error).toEqual({ code: -32000, message: 'Disk on fire' });
+
+    const store = new EventsStore(configDir);
+    const [session] = store.getSessionsByConnector('docs');
+    const methods = store.getRpcCallsBySession(session.session_id).map((r) => r.method);
+    expect(methods).not.toContain('tools/call');
+    expect(transportEvents()).toContainEqual({ type: 'fault', tool: 'write_note', kind: 'error', error_code: -32000 });
+
+    // Tools the rule does not cover are untouched
+    expect((await call('search')).result.content[0].text).toBe('{"from":"search"}');
+  });
+
+  it('should drop, corrupt and oversize backend results', async () => {
+    setFaults([{ kind: 'drop' }]);
+    expect(await call('search')).toBeUndefined();
+
+    setFaults([{ kind: 'corrupt' }]);
+    const corrupted = (await call('search')).result.content[0].text;
+    expect(() => JSON.parse(corrupted)).toThrow();
+
+    setFaults([{ kind: 'oversize', size_bytes: 4096 }]);
+    expect((await call('search')).result.content[1].text).toHaveLength(4096);
+  });
+
+  it('should delay calls with latency faults', async () => {
+    setFaults([{ kind: 'latency', latency_ms: 200 }]);
+    await call('search');
+
+    const start = Date.now();
+    const response = await call('search');
+    expect(Date.now() - start).toBeGreaterThanOrEqual(190);
+    expect(response.result.content[0].text).toBe('{"from":"search"}');
+  });
+
+  it('should kill the backend and restart it on the next call', async () => {
+    await call('search');
+
+    setFaults([{ kind: 'kill' }]);
+    const killed = await call('search');
+    expect(killed.error.message).toBe('Backend docs was killed (injected fault)');
+
+    setFaults(null);
+    await vi.waitFor(() => expect((server as any).pool.getStatus()[0].state).toBe('crashed'));
+    expect((await call('search')).result.content[0].text).toBe('{"from":"search"}');
+    expect((server as any).pool.getStatus()[0].restarts).toBe(1);
+  });
+
+  it('should count injected faults apart from tool usage', async () => {
+    await call('write_note');
+    await call('write_note');
+    setFaults([{ kind: 'drop', tools: ['search'] }]);
+    await call('search');
+
+    expect(getInjectedFaults(configDir, 'docs')).toEqual([
+      { connector_id: 'docs', tool: 'write_note', kind: 'error', count: 2 },
+      { connector_id: 'docs', tool: 'search', kind: 'drop', count: 1 },
+    ]);
+  });
+
+  it('should refuse invalid rules and unknown connectors over IPC', () => {
+    expect(() => setFaults([{ kind: 'explode' as never, rate: 2 }])).toThrow(
+      'faults[0].kind: kind must be one of: latency, drop, error, corrupt, oversize, kill; faults[0].rate: rate must be a number from 0 to 1'
+    );
+    expect(() => (server as any).setFaultRules('nope', [])).toThrow('Connector not found: nope');
+  });
+});
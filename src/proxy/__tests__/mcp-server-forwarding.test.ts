@@ -0,0 +1,140 @@
+/**
+ * MCP Server Upstream Forwarding Tests
+ *
+ * Server-initiated requests from backends are sent to the upstream client
+ * and its responses are relayed back. Backend progress is relayed to the
+ * client, and client cancellations abort the backend call.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { McpProxyServer } from '../mcp-server.js';
+import type { RequestOptions } from '../../transports/stdio.js';
+
+vi.mock('../logger.js', () => import('./fake-backend.js').then((m) => m.mockLogger()));
+vi.mock('../runtime-state.js', () => import('./fake-backend.js').then((m) => m.mockRuntimeState()));
+vi.mock('../ipc-server.js', () => import('./fake-backend.js').then((m) => m.mockIpcServer()));
+
+describe('McpProxyServer upstream forwarding', () => {
+  let server: McpProxyServer;
+  let sentMessages: string[];
+  const originalWrite = process.stdout.write;
+
+  beforeEach(() => {
+    sentMessages = [];
+    process.stdout.write = vi.fn((chunk: string) => {
+      sentMessages.push(chunk);
+      return true;
+    }) as unknown as typeof process.stdout.write;
+
+    server = new McpProxyServer({ connectors: [], configDir: '/tmp/test-config', timeout: 5 });
+    (server as unknown as { running: boolean }).running = true;
+  });
+
+  afterEach(() => {
+    process.stdout.write = originalWrite;
+  });
+
+  async function initialize(capabilities: Record<string, unknown>): Promise<void> {
+    await (server as any).handleInitialize(1, {
+      protocolVersion: '2024-11-05',
+      capabilities,
+      clientInfo: { name: 'test-client' },
+    });
+    sentMessages = [];
+  }
+
+  it('should assume forwardable capabilities until the client initializes', async () => {
+    expect(server.getClientCapabilities()).toEqual({ sampling: {}, roots: {}, elicitation: {} });
+
+    await initialize({ roots: { listChanged: true } });
+    expect(server.getClientCapabilities()).toEqual({ roots: { listChanged: true } });
+  });
+
+  it('should send the request upstream and relay the response', async () => {
+    await initialize({ sampling: {} });
+
+    const answer = server.forward('llm', 'sampling/createMessage', { maxTokens: 10 });
+
+    expect(sentMessages).toHaveLength(1);
+    const sent = JSON.parse(sentMessages[0]);
+    expect(sent).toEqual({
+      jsonrpc: '2.0',
+      id: 'proxy-1',
+      method: 'sampling/createMessage',
+      params: { maxTokens: 10 },
+    });
+
+    await (server as any).processMessage(JSON.stringify({
+      jsonrpc: '2.0',
+      id: 'proxy-1',
+      result: { role: 'assistant', content: { type: 'text', text: 'hi' } },
+    }));
+
+    await expect(answer).resolves.toEqual({
+      result: { role: 'assistant', content: { type: 'text', text: 'hi' } },
+    });
+    // Responses are not answered with errors
+    expect(sentMessages).toHaveLength(1);
+  });
+
+  it('should relay client errors and fail when no client is connected', async () => {
+    await expect(server.forward('llm', 'roots/list', {})).resolves.toMatchObject({
+      error: { message: 'No upstream client connected' },
+    });
+
+    await initialize({ roots: {} });
+    const answer = server.forward('fs', 'roots/list', {});
+    await (server as any).processMessage(JSON.stringify({
+      jsonrpc: '2.0',
+      id: 'proxy-1',
+      error: { code: -1, message: 'User rejected' },
+    }));
+
+    await expect(answer).resolves.toEqual({ error: { code: -1, message: 'User rejected' } });
+  });
+
+  it('should relay progress and cancel the backend call on notifications/cancelled', async () => {
+    await initialize({});
+    (server as any).eventsStore = {
+      saveUiToolRequestEvent: vi.fn(),
+      saveUiToolResultEvent: vi.fn(),
+      saveUiToolDeliveredEvent: vi.fn(),
+    };
+
+    let backendSignal: AbortSignal | undefined;
+    (server as any).router = {
+      routeToolCall: vi.fn((_name: string, _args: unknown, options: RequestOptions) => {
+        backendSignal = options.signal;
+        options.onProgress?.({ progress: 1, total: 4 });
+        return new Promise((resolve) => {
+          options.signal?.addEventListener('abort', () => resolve({ success: false, error: 'Request cancelled' }));
+        });
+      }),
+    };
+
+    const call = (server as any).processMessage(JSON.stringify({
+      jsonrpc: '2.0',
+      id: 9,
+      method: 'tools/call',
+      params: { name: 'slow__work', arguments: {}, _meta: { progressToken: 'tok' } },
+    }));
+
+    await vi.waitFor(() => expect(sentMessages).toHaveLength(1));
+    expect(JSON.parse(sentMessages[0])).toEqual({
+      jsonrpc: '2.0',
+      method: 'notifications/progress',
+      params: { progressToken: 'tok', progress: 1, total: 4 },
+    });
+
+    await (server as any).processMessage(JSON.stringify({
+      jsonrpc: '2.0',
+      method: 'notifications/cancelled',
+      params: { requestId: 9, reason: 'user' },
+    }));
+    await call;
+
+    expect(backendSignal?.aborted).toBe(true);
+    // A cancelled request gets no response
+    expect(sentMessages).toHaveLength(1);
+  });
+});
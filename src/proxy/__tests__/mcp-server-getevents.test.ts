@@ -103,8 +103,8 @@ describe('proofscan_getEvents', () => {
     vi.spyOn(server as any, 'startIpcServer').mockResolvedValue(undefined);
 
     // Initialize server
-    (server as any).initialized = true;
-    (server as any).currentClient = {
+    (server as any).stdioClient.initialized = true;
+    (server as any).stdioClient.info = {
       name: 'test-client',
       protocolVersion: '2024-11-05',
     };
@@ -0,0 +1,248 @@
+/**
+ * MCP Server Session Isolation Tests
+ *
+ * Connectors with proxy.isolation mode 'client' get one backend per
+ * upstream client (limited and evicted least recently used first), and
+ * the client is recorded as the actor of its backend's session. A client's
+ * backend only reaches that client with server requests and resource updates.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { McpProxyServer } from '../mcp-server.js';
+import { ClientSession, type ClientMessage } from '../client-session.js';
+import { HttpListener } from '../http-listener.js';
+import { namespaceResourceUri } from '../resource-aggregator.js';
+import { closeAllDbs } from '../../db/connection.js';
+import { EventsStore } from '../../db/events-store.js';
+import type { Connector, ProxyIsolationConfig } from '../../types/config.js';
+import { fakeBackend } from './fake-backend.js';
+
+vi.mock('../logger.js', () => import('./fake-backend.js').then((m) => m.mockLogger()));
+vi.mock('../runtime-state.js', () => import('./fake-backend.js').then((m) => m.mockRuntimeState()));
+vi.mock('../ipc-server.js', () => import('./fake-backend.js').then((m) => m.mockIpcServer()));
+
+// Stateful backend: "visit" answers with its pid and how many calls it has
+// had, "ask" answers with the client's roots, and every subscription is
+// followed by an update naming the backend's pid
+function browser(isolation?: ProxyIsolationConfig): Connector {
+  return fakeBackend(
+    'browser',
+    {
+      capabilities: { tools: {}, resources: { subscribe: true } },
+      tools: [{ name: 'visit' }, { name: 'ask' }],
+      setup: `
+        let calls = 0;
+        let asking = null;
+      `,
+      handle: `
+        if (msg.method === undefined) {
+          return send({ jsonrpc: '2.0', id: asking, result: text(JSON.stringify(msg.result ?? msg.error)) });
+        }
+        if (msg.method === 'tools/call' && msg.params.name === 'ask') {
+          asking = msg.id;
+          return send({ jsonrpc: '2.0', id: 'roots', method: 'roots/list' });
+        }
+        if (msg.method === 'tools/call') {
+          calls++;
+          return reply(text(JSON.stringify({ pid: process.pid, calls })));
+        }
+        if (msg.method === 'resources/subscribe') {
+          reply({});
+          return send({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: msg.params.uri, title: String(process.pid) } });
+        }
+      `,
+    },
+    isolation && { isolation }
+  );
+}
+
+describe('McpProxyServer session isolation', () => {
+  let configDir: string;
+  let server: McpProxyServer;
+
+  beforeEach(() => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+  });
+
+  afterEach(() => {
+    server.stop();
+    (server as any).pool.closeAll();
+    closeAllDbs();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  function start(connector: Connector): void {
+    server = new McpProxyServer({ connectors: [connector], configDir, timeout: 10 });
+    (server as unknown as { running: boolean }).running = true;
+  }
+
+  function connect(id: string, name: string): { client: ClientSession; sent: ClientMessage[] } {
+    const sent: ClientMessage[] = [];
+    const client = new ClientSession(id, (message) => sent.push(message));
+    client.initialized = true;
+    client.info = { name, protocolVersion: '2024-11-05' };
+    server.connectClient(client);
+    return { client, sent };
+  }
+
+  async function visit(session: { client: ClientSession; sent: ClientMessage[] }): Promise<{ pid: number; calls: number }> {
+    session.sent.length = 0;
+    await (server as any).handleRequest(
+      { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'browser__visit', arguments: {} } },
+      session.client
+    );
+    const response = session.sent[0] as { result: { content: Array<{ text: string }> } };
+    return JSON.parse(response.result.content[0].text);
+  }
+
+  it('should give each client its own backend and record it as the session actor', async () => {
+    start(browser({ mode: 'client' }));
+    const alice = connect('session-a', 'alice-agent');
+    const bob = connect('session-b', 'bob-agent');
+
+    const first = await visit(alice);
+    expect(await visit(alice)).toEqual({ pid: first.pid, calls: 2 });
+    const other = await visit(bob);
+    expect(other.pid).not.toBe(first.pid);
+    expect(other.calls).toBe(1);
+
+    const actors = new EventsStore(configDir).getSessionsByConnector('browser')
+      .map((s) => [s.actor_id, s.actor_kind, s.actor_label])
+      .sort();
+    expect(actors).toEqual([
+      ['session-a', 'agent', 'alice-agent'],
+      ['session-b', 'agent', 'bob-agent'],
+    ]);
+  });
+
+  it('should close the least recently used client backend at max_instances', async () => {
+    start(browser({ mode: 'client', max_instances: 2 }));
+    const a = connect('a', 'agent-a');
+    const b = connect('b', 'agent-b');
+    const c = connect('c', 'agent-c');
+
+    const firstA = await visit(a);
+    await visit(b);
+    await visit(a);
+    await visit(c);
+
+    const clients = (server as any).pool.getStatus().map((s: { clientId?: string }) => s.clientId).sort();
+    expect(clients).toEqual(['a', 'c']);
+    expect(await visit(a)).toEqual({ pid: firstA.pid, calls: 3 });
+
+    // Disconnecting ends the client's backend session
+    server.disconnectClient('c');
+    const ended = new EventsStore(configDir).getSessionsByConnector('browser').filter((s) => s.ended_at);
+    expect(ended.map((s) => s.actor_id).sort()).toEqual(['b', 'c']);
+  });
+
+  it('should share one backend between clients by default', async () => {
+    start(browser());
+    const alice = connect('session-a', 'alice-agent');
+    const bob = connect('session-b', 'bob-agent');
+
+    const first = await visit(alice);
+    expect(await visit(bob)).toEqual({ pid: first.pid, calls: 2 });
+
+    const [session] = new EventsStore(configDir).getSessionsByConnector('browser');
+    expect(session.actor_id).toBeNull();
+  });
+
+  it('should send server requests from a client backend to that client only', async () => {
+    server = new McpProxyServer({ connectors: [browser({ mode: 'client' })], configDir, timeout: 10 });
+    await server.start({ stdio: false });
+    const listener = new HttpListener(server, { host: '127.0.0.1', port: 0 });
+    const url = await listener.start();
+
+    try {
+      const post = (sessionId: string, body: unknown) => fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', 'Mcp-Session-Id': sessionId },
+        body: JSON.stringify(body),
+      });
+      const initialize = async (name: string): Promise<string> => {
+        const res = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+          body: JSON.stringify({
+            jsonrpc: '2.0',
+            id: 1,
+            method: 'initialize',
+            params: { protocolVersion: '2025-03-26', capabilities: { roots: {} }, clientInfo: { name } },
+          }),
+        });
+        return res.headers.get('mcp-session-id')!;
+      };
+      const openStream = (sessionId: string) =>
+        fetch(url, { headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId } });
+
+      const alice = await initialize('alice-agent');
+      const bob = await initialize('bob-agent');
+      const aliceStream = await openStream(alice);
+
+      const call = post(alice, { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'browser__ask', arguments: {} } });
+
+      // Bob becomes the most recently active client while Alice's backend starts
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await openStream(bob);
+
+      // Alice's backend asks Alice for her roots
+      const reader = aliceStream.body!.getReader();
+      const decoder = new TextDecoder();
+      let text = '';
+      let request: { id: string; method: string } | undefined;
+      while (!request) {
+        const { value, done } = await reader.read();
+        if (done) {
+          throw new Error('stream ended');
+        }
+        text += decoder.decode(value);
+        request = [...text.matchAll(/^data: (.*)$/gm)].map((m) => JSON.parse(m[1])).find((m) => m.method === 'roots/list');
+      }
+      await reader.cancel();
+
+      await post(alice, { jsonrpc: '2.0', id: request.id, result: { roots: [{ uri: 'file:///alice' }] } });
+      const response = await (await call).json();
+      expect(JSON.parse(response.result.content[0].text)).toEqual({ roots: [{ uri: 'file:///alice' }] });
+
+      // Never to another client, even once Alice is gone
+      await fetch(url, { method: 'DELETE', headers: { 'Mcp-Session-Id': alice } });
+      expect(await server.forward('browser', 'roots/list', {}, alice)).toEqual({
+        error: { code: -32603, message: `Client ${alice} is not connected` },
+      });
+    } finally {
+      await listener.stop();
+    }
+  });
+
+  it('should subscribe each client on its own backend and relay its updates to it', async () => {
+    start(browser({ mode: 'client' }));
+    const alice = connect('session-a', 'alice-agent');
+    const bob = connect('session-b', 'bob-agent');
+    const uri = namespaceResourceUri('browser', 'page://current');
+
+    const updates = (sent: ClientMessage[]) => sent
+      .filter((m) => 'method' in m && m.method === 'notifications/resources/updated')
+      .map((m) => (m as { params: { title: string } }).params.title);
+
+    for (const session of [alice, bob]) {
+      await (server as any).handleRequest(
+        { jsonrpc: '2.0', id: 1, method: 'resources/subscribe', params: { uri } },
+        session.client
+      );
+    }
+
+    await vi.waitFor(() => {
+      expect(updates(alice.sent)).toHaveLength(1);
+      expect(updates(bob.sent)).toHaveLength(1);
+    });
+    expect(updates(alice.sent)[0]).not.toBe(updates(bob.sent)[0]);
+
+    const clients = (server as any).pool.getStatus().map((s: { clientId?: string }) => s.clientId).sort();
+    expect(clients).toEqual(['session-a', 'session-b']);
+  });
+});
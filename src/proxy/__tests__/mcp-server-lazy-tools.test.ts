@@ -0,0 +1,92 @@
+/**
+ * MCP Server Lazy Tools Tests
+ *
+ * With lazyTools, tools/list has only the meta-tools, and the proxied
+ * catalog is searched, described and invoked through them.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { McpProxyServer } from '../mcp-server.js';
+import { closeAllDbs } from '../../db/connection.js';
+import { fakeBackend } from './fake-backend.js';
+
+vi.mock('../logger.js', () => import('./fake-backend.js').then((m) => m.mockLogger()));
+vi.mock('../runtime-state.js', () => import('./fake-backend.js').then((m) => m.mockRuntimeState()));
+vi.mock('../ipc-server.js', () => import('./fake-backend.js').then((m) => m.mockIpcServer()));
+
+const docs = fakeBackend('docs', {
+  tools: [
+    { name: 'search', description: 'Full-text search of the docs', inputSchema: { type: 'object', properties: { q: { type: 'string' } } } },
+    { name: 'write_note', description: 'Save a note' },
+  ],
+  handle: `
+    if (msg.method === 'tools/call') return reply(text(msg.params.name + ' ' + JSON.stringify(msg.params.arguments)));
+  `,
+});
+
+describe('McpProxyServer lazy tools', () => {
+  let configDir: string;
+  let server: McpProxyServer;
+  let sentMessages: string[];
+  const originalWrite = process.stdout.write;
+
+  beforeEach(() => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+    sentMessages = [];
+    process.stdout.write = vi.fn((chunk: string) => {
+      sentMessages.push(chunk);
+      return true;
+    }) as unknown as typeof process.stdout.write;
+    server = new McpProxyServer({ connectors: [docs], configDir, timeout: 10, lazyTools: true });
+    (server as unknown as { running: boolean }).running = true;
+  });
+
+  afterEach(() => {
+    process.stdout.write = originalWrite;
+    (server as any).pool.closeAll();
+    closeAllDbs();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  async function request(method: string, params?: unknown): Promise<any> {
+    sentMessages = [];
+    await (server as any).handleRequest({ jsonrpc: '2.0', id: 1, method, params });
+    return JSON.parse(sentMessages[0]);
+  }
+
+  it('should list only the meta-tools and the proxy\'s own tools', async () => {
+    const list = await request('tools/list');
+    expect(list.result.tools.map((t: any) => t.name)).toEqual([
+      'search_tools', 'describe_tool', 'invoke_tool', 'proofscan_getEvents',
+    ]);
+  });
+
+  it('should search and describe the proxied tools', async () => {
+    const search = await request('tools/call', { name: 'search_tools', arguments: { query: 'note' } });
+    expect(search.result.structuredContent).toEqual({
+      tools: [{ name: 'docs__write_note', description: 'Save a note', score: 6 }],
+      total: 1,
+    });
+
+    const described = await request('tools/call', { name: 'describe_tool', arguments: { name: 'docs__search' } });
+    expect(described.result.structuredContent.inputSchema.properties).toEqual({ q: { type: 'string' } });
+
+    const unknown = await request('tools/call', { name: 'describe_tool', arguments: { name: 'docs__nope' } });
+    expect(unknown.result.isError).toBe(true);
+  });
+
+  it('should route invoke_tool like a direct call', async () => {
+    const invoked = await request('tools/call', {
+      name: 'invoke_tool', arguments: { name: 'docs__search', arguments: { q: 'proxy' } },
+    });
+    expect(invoked.result.content[0].text).toBe('search {"q":"proxy"}');
+    expect((server as any).callStats.get('docs').calls).toBe(1);
+
+    const invalid = await request('tools/call', { name: 'invoke_tool', arguments: { name: 'docs__search', arguments: 'q' } });
+    expect(invalid.error.code).toBe(-32602);
+  });
+});
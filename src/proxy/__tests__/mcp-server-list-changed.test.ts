@@ -0,0 +1,157 @@
+/**
+ * MCP Server list_changed Tests
+ *
+ * A backend's tools/prompts list_changed re-lists only that backend and is
+ * relayed to the client as a single list_changed notification.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { McpProxyServer } from '../mcp-server.js';
+import { logger } from '../logger.js';
+import { EventsStore } from '../../db/events-store.js';
+import { closeAllDbs } from '../../db/connection.js';
+import type { Connector } from '../../types/config.js';
+import { fakeBackend } from './fake-backend.js';
+
+vi.mock('../logger.js', () => import('./fake-backend.js').then((m) => m.mockLogger()));
+vi.mock('../runtime-state.js', () => import('./fake-backend.js').then((m) => m.mockRuntimeState()));
+vi.mock('../ipc-server.js', () => import('./fake-backend.js').then((m) => m.mockIpcServer()));
+
+/**
+ * Backend whose "grow" tool adds a tool and a prompt and then sends
+ * tools/list_changed and prompts/list_changed (twice each, like a chatty server);
+ * "break" makes tools/list fail and sends tools/list_changed
+ */
+function backend(id: string): Connector {
+  return fakeBackend(id, {
+    capabilities: { tools: { listChanged: true }, prompts: { listChanged: true } },
+    setup: `
+      const tools = [{ name: 'grow' }];
+      const prompts = [];
+      let broken = false;
+    `,
+    handle: `
+      if (msg.method === 'tools/list' && broken) return fail(-32603, 'tools unavailable');
+      if (msg.method === 'tools/list') return reply({ tools });
+      if (msg.method === 'prompts/list') return reply({ prompts });
+      if (msg.method === 'tools/call' && msg.params.name === 'break') {
+        broken = true;
+        reply(text('broken'));
+        return send({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+      }
+      if (msg.method === 'tools/call') {
+        tools.push({ name: 'tool' + tools.length });
+        prompts.push({ name: 'prompt' + prompts.length });
+        reply(text('grown'));
+        for (let n = 0; n < 2; n++) {
+          send({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+          send({ jsonrpc: '2.0', method: 'notifications/prompts/list_changed' });
+        }
+        return;
+      }
+    `,
+  });
+}
+
+describe('McpProxyServer list_changed', () => {
+  let configDir: string;
+  let server: McpProxyServer;
+  let sentMessages: string[];
+  const originalWrite = process.stdout.write;
+
+  beforeEach(() => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+    sentMessages = [];
+    process.stdout.write = vi.fn((chunk: string) => {
+      sentMessages.push(chunk);
+      return true;
+    }) as unknown as typeof process.stdout.write;
+  });
+
+  afterEach(() => {
+    process.stdout.write = originalWrite;
+    server.stop();
+    closeAllDbs();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  function createServer(connectors: Connector[]): McpProxyServer {
+    server = new McpProxyServer({ connectors, configDir, timeout: 10 });
+    (server as unknown as { running: boolean }).running = true;
+    return server;
+  }
+
+  async function request(method: string, params?: unknown): Promise<any> {
+    sentMessages = [];
+    await (server as any).handleRequest({ jsonrpc: '2.0', id: 1, method, params });
+    return sentMessages.map((m) => JSON.parse(m)).find((m) => m.id === 1);
+  }
+
+  function notifications(method: string): unknown[] {
+    return sentMessages.map((m) => JSON.parse(m)).filter((m) => m.method === method);
+  }
+
+  function rpcMethods(connectorId: string): string[] {
+    const sessionId = (server as any).pool.getStatus().find((s: any) => s.connectorId === connectorId).sessionId;
+    return new EventsStore(configDir).getRpcCallsBySession(sessionId).map((r) => r.method);
+  }
+
+  it('should advertise listChanged for tools', async () => {
+    createServer([backend('a')]);
+
+    const init = await request('initialize', { protocolVersion: '2024-11-05', capabilities: {} });
+    expect(init.result.capabilities.tools).toEqual({ listChanged: true });
+  });
+
+  it('should re-list only the changed backend and send one notification per list', async () => {
+    createServer([backend('a'), backend('b')]);
+    await request('initialize', { protocolVersion: '2024-11-05', capabilities: {} });
+
+    const before = await request('tools/list');
+    expect(before.result.tools.map((t: any) => t.name)).toEqual(['a__grow', 'b__grow', 'proofscan_getEvents']);
+
+    await request('tools/call', { name: 'a__grow', arguments: {} });
+
+    await vi.waitFor(() => {
+      expect(notifications('notifications/tools/list_changed')).toHaveLength(1);
+      expect(notifications('notifications/prompts/list_changed')).toHaveLength(1);
+    });
+
+    const tools = await request('tools/list');
+    expect(tools.result.tools.map((t: any) => t.name)).toEqual([
+      'a__grow',
+      'a__tool1',
+      'b__grow',
+      'proofscan_getEvents',
+    ]);
+
+    const prompts = await request('prompts/list');
+    expect(prompts.result.prompts.map((p: any) => p.name)).toEqual(['a__prompt0']);
+
+    // The unchanged backend was not asked again
+    expect(rpcMethods('b').filter((m) => m === 'tools/list')).toHaveLength(1);
+    expect(rpcMethods('a').filter((m) => m === 'tools/list')).toHaveLength(2);
+  });
+
+  it('should not notify when the re-list failed', async () => {
+    createServer([backend('a')]);
+    await request('initialize', { protocolVersion: '2024-11-05', capabilities: {} });
+    await request('tools/list');
+
+    await request('tools/call', { name: 'a__break', arguments: {} });
+
+    await vi.waitFor(() => {
+      expect(logger.warn).toHaveBeenCalledWith('Failed to re-list tools from a: tools unavailable');
+    });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(notifications('notifications/tools/list_changed')).toHaveLength(0);
+
+    // Clients keep the last good list
+    const tools = await request('tools/list');
+    expect(tools.result.tools.map((t: any) => t.name)).toEqual(['a__grow', 'proofscan_getEvents']);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * MCP Server Prompt Aggregation Tests
+ *
+ * prompts/list aggregates prompts from backends that declare the prompts
+ * capability (connector__name), and prompts/get is routed to the owner.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { McpProxyServer } from '../mcp-server.js';
+import { EventsStore } from '../../db/events-store.js';
+import { closeAllDbs } from '../../db/connection.js';
+import type { Connector } from '../../types/config.js';
+import { fakeBackend } from './fake-backend.js';
+
+vi.mock('../logger.js', () => import('./fake-backend.js').then((m) => m.mockLogger()));
+vi.mock('../runtime-state.js', () => import('./fake-backend.js').then((m) => m.mockRuntimeState()));
+vi.mock('../ipc-server.js', () => import('./fake-backend.js').then((m) => m.mockIpcServer()));
+
+/** Backend with one prompt; declares the prompts capability only withPrompts */
+function backend(id: string, withPrompts: boolean): Connector {
+  return fakeBackend(id, {
+    capabilities: withPrompts ? { tools: {}, prompts: {} } : { tools: {} },
+    tools: [{ name: 'noop' }],
+    handle: `
+      if (msg.method === 'prompts/list') {
+        return reply({ prompts: [
+          { name: 'commit_message', description: 'Write a commit message', arguments: [{ name: 'diff', required: true }] },
+        ] });
+      }
+      if (msg.method === 'prompts/get' && msg.params.name === 'commit_message') {
+        return reply({
+          description: 'Commit message',
+          messages: [{ role: 'user', content: { type: 'text', text: 'Describe: ' + msg.params.arguments.diff } }],
+        });
+      }
+      if (msg.method === 'prompts/get') return fail(-32602, 'Unknown prompt: ' + msg.params.name);
+    `,
+  });
+}
+
+describe('McpProxyServer prompts', () => {
+  let configDir: string;
+  let server: McpProxyServer;
+  let sentMessages: string[];
+  const originalWrite = process.stdout.write;
+
+  beforeEach(() => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+    sentMessages = [];
+    process.stdout.write = vi.fn((chunk: string) => {
+      sentMessages.push(chunk);
+      return true;
+    }) as unknown as typeof process.stdout.write;
+  });
+
+  afterEach(() => {
+    process.stdout.write = originalWrite;
+    (server as any).pool.closeAll();
+    closeAllDbs();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  function createServer(connectors: Connector[]): McpProxyServer {
+    server = new McpProxyServer({ connectors, configDir, timeout: 10 });
+    (server as unknown as { running: boolean }).running = true;
+    return server;
+  }
+
+  async function request(method: string, params?: unknown): Promise<any> {
+    sentMessages = [];
+    await (server as any).handleRequest({ jsonrpc: '2.0', id: 1, method, params });
+    return JSON.parse(sentMessages[0]);
+  }
+
+  it('should aggregate prompts with connector prefixes and advertise the capability', async () => {
+    createServer([backend('git', true), backend('plain', false)]);
+
+    const init = await request('initialize', { protocolVersion: '2024-11-05', capabilities: {} });
+    expect(init.result.capabilities).toEqual({
+      tools: { listChanged: true },
+      resources: { listChanged: true },
+      prompts: { listChanged: true },
+    });
+
+    const list = await request('prompts/list');
+    expect(list.result).toEqual({
+      prompts: [
+        {
+          name: 'git__commit_message',
+          description: 'Write a commit message',
+          arguments: [{ name: 'diff', required: true }],
+        },
+      ],
+    });
+
+    // Backends without the prompts capability are not asked
+    const sessionId = (server as any).pool.getStatus().find((s: any) => s.connectorId === 'plain').sessionId;
+    const methods = new EventsStore(configDir).getRpcCallsBySession(sessionId).map((r) => r.method);
+    expect(methods).not.toContain('prompts/list');
+  });
+
+  it('should route prompts/get to the owning backend', async () => {
+    createServer([backend('git', true), backend('plain', false)]);
+    await request('initialize', { protocolVersion: '2024-11-05', capabilities: {} });
+
+    const got = await request('prompts/get', { name: 'git__commit_message', arguments: { diff: '+1 line' } });
+    expect(got.result).toEqual({
+      description: 'Commit message',
+      messages: [{ role: 'user', content: { type: 'text', text: 'Describe: +1 line' } }],
+    });
+
+    // Backend errors keep their code; bad names are invalid params
+    const unknown = await request('prompts/get', { name: 'git__missing' });
+    expect(unknown.error).toEqual({ code: -32602, message: 'Unknown prompt: missing' });
+
+    const badName = await request('prompts/get', { name: 'commit_message' });
+    expect(badName.error.code).toBe(-32602);
+
+    const noConnector = await request('prompts/get', { name: 'nope__commit_message' });
+    expect(noConnector.error).toEqual({ code: -32602, message: 'Connector not found: nope' });
+  });
+
+  it('should not advertise prompts when no backend has any', async () => {
+    createServer([backend('plain', false)]);
+
+    const init = await request('initialize', { protocolVersion: '2024-11-05', capabilities: {} });
+    expect(init.result.capabilities).toEqual({
+      tools: { listChanged: true },
+      resources: { listChanged: true },
+    });
+
+    const list = await request('prompts/list');
+    expect(list.result).toEqual({ prompts: [] });
+  });
+});
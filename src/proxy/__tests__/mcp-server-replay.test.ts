@@ -0,0 +1,163 @@
+/**
+ * MCP Server Replay Tests
+ *
+ * Connectors answered from recorded sessions instead of a backend
+ * (pfscan proxy start --replay, or proxy.replay).
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { McpProxyServer } from '../mcp-server.js';
+import { closeAllDbs } from '../../db/connection.js';
+import { EventsStore } from '../../db/events-store.js';
+import type { Connector, ProxyReplayConfig } from '../../types/config.js';
+import { fakeBackend } from './fake-backend.js';
+
+vi.mock('../logger.js', () => import('./fake-backend.js').then((m) => m.mockLogger()));
+vi.mock('../runtime-state.js', () => import('./fake-backend.js').then((m) => m.mockRuntimeState()));
+vi.mock('../ipc-server.js', () => import('./fake-backend.js').then((m) => m.mockIpcServer()));
+
+/** Backend whose search tool echoes its arguments */
+const docs = fakeBackend('docs', {
+  tools: [{ name: 'search', description: 'Search the docs' }],
+  handle: `
+    if (msg.method === 'tools/call') {
+      const args = msg.params.arguments;
+      return reply(text('found ' + args.q + '/' + args.limit));
+    }
+  `,
+});
+
+/** Same connector, but launching it would fail */
+const offlineDocs: Connector = {
+  ...docs,
+  transport: { type: 'stdio', command: join(tmpdir(), 'proofscan-no-such-server') },
+};
+
+describe('McpProxyServer replay', () => {
+  let configDir: string;
+  let server: McpProxyServer;
+  let sentMessages: string[];
+  const originalWrite = process.stdout.write;
+
+  function startServer(connector: Connector, replay?: Record<string, ProxyReplayConfig>): void {
+    server = new McpProxyServer({ connectors: [connector], configDir, timeout: 10, replay });
+    (server as unknown as { running: boolean }).running = true;
+  }
+
+  async function call(args: Record<string, unknown>): Promise<any> {
+    sentMessages = [];
+    await (server as any).handleRequest({
+      jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'docs__search', arguments: args },
+    });
+    return JSON.parse(sentMessages[0]);
+  }
+
+  /** Record a session against the real backend */
+  async function record(): Promise<string> {
+    startServer(docs);
+    await call({ q: 'alpha', limit: 1 });
+    await call({ q: 'beta', limit: 2 });
+    const sessionId = (server as any).pool.getStatus()[0].sessionId;
+    (server as any).pool.closeAll();
+    return sessionId;
+  }
+
+  beforeEach(() => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+    sentMessages = [];
+    process.stdout.write = vi.fn((chunk: string) => {
+      sentMessages.push(chunk);
+      return true;
+    }) as unknown as typeof process.stdout.write;
+  });
+
+  afterEach(() => {
+    process.stdout.write = originalWrite;
+    (server as any).pool.closeAll();
+    closeAllDbs();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('should answer a recorded call without launching the backend', async () => {
+    await record();
+    startServer(offlineDocs, { docs: {} });
+
+    const response = await call({ limit: 2, q: 'beta' });
+    expect(response.result.content[0].text).toBe('found beta/2');
+  });
+
+  it('should refuse a call with unrecorded arguments by default', async () => {
+    await record();
+    startServer(offlineDocs, { docs: {} });
+
+    const response = await call({ q: 'gamma', limit: 2 });
+    expect(response.error.message).toContain('No recorded call to search with these arguments');
+  });
+
+  it('should use the closest recorded call with fallback nearest', async () => {
+    await record();
+    startServer({ ...offlineDocs, proxy: { replay: { fallback: 'nearest' } } });
+
+    const response = await call({ q: 'gamma', limit: 2 });
+    expect(response.result.content[0].text).toBe('found beta/2');
+  });
+
+  it('should replay only the given session and never its own recordings', async () => {
+    const first = await record();
+    startServer(offlineDocs, { docs: { session: first.slice(0, 8) } });
+    await call({ q: 'alpha', limit: 1 });
+    (server as any).pool.closeAll();
+
+    const store = new EventsStore(configDir);
+    const sessions = store.getSessionsByConnector('docs');
+    expect(sessions).toHaveLength(2);
+    const connected = store.getEventsBySession(sessions[0].session_id)
+      .filter((e) => e.kind === 'transport_event')
+      .map((e) => JSON.parse(e.raw_json!));
+    expect(connected[0]).toEqual({ type: 'connected', replay: { sessions: [first] } });
+
+    // A replay of every session reads only the recorded one
+    startServer(offlineDocs, { docs: { fallback: 'nearest' } });
+    await call({ q: 'beta', limit: 2 });
+    const replayed = store.getSessionsByConnector('docs')[0];
+    const marker = JSON.parse(store.getEventsBySession(replayed.session_id)[0].raw_json!);
+    expect(marker.replay.sessions).toEqual([first]);
+  });
+
+  it('should report a missing session as the backend error', async () => {
+    startServer(offlineDocs, { docs: { session: 'nosuchsession' } });
+
+    const response = await call({ q: 'alpha', limit: 1 });
+    expect(response.error).toBeDefined();
+    expect((server as any).pool.getStatus()[0].lastError).toBe('No recorded session nosuchsession for connector docs');
+  });
+
+  it('should keep serving a replayed connector that is disabled in the config after a reload', async () => {
+    // Record the tool list too, so that the replay lists docs__search
+    startServer(docs);
+    await (server as any).handleRequest({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    await call({ q: 'alpha', limit: 1 });
+    (server as any).pool.closeAll();
+    startServer({ ...offlineDocs, enabled: true }, { docs: {} });
+
+    const wiki: Connector = { ...docs, id: 'wiki' };
+    mkdirSync(configDir, { recursive: true });
+    writeFileSync(join(configDir, 'config.json'), JSON.stringify({
+      version: 1,
+      connectors: [{ ...offlineDocs, enabled: false }, wiki],
+    }));
+
+    const result = await (server as any).handleReload();
+    expect(result).toMatchObject({ success: true, reloadedConnectors: ['wiki'] });
+
+    sentMessages = [];
+    await (server as any).handleRequest({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    const tools = JSON.parse(sentMessages[0]).result.tools.map((t: { name: string }) => t.name);
+    expect(tools).toEqual(expect.arrayContaining(['docs__search', 'wiki__search']));
+    expect((await call({ q: 'alpha', limit: 1 })).result.content[0].text).toBe('found alpha/1');
+  });
+});
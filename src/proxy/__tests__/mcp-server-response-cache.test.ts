@@ -0,0 +1,89 @@
+/**
+ * MCP Server Response Cache Tests
+ *
+ * Repeated tools/call requests to idempotent tools answered from the
+ * connector's proxy.cache.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { McpProxyServer } from '../mcp-server.js';
+import { closeAllDbs } from '../../db/connection.js';
+import { fakeBackend } from './fake-backend.js';
+
+vi.mock('../logger.js', () => import('./fake-backend.js').then((m) => m.mockLogger()));
+vi.mock('../runtime-state.js', () => import('./fake-backend.js').then((m) => m.mockRuntimeState()));
+vi.mock('../ipc-server.js', () => import('./fake-backend.js').then((m) => m.mockIpcServer()));
+
+/** Backend whose tools report how often they were called */
+const docs = fakeBackend(
+  'docs',
+  {
+    tools: [
+      { name: 'read_page', description: 'Read a documentation page' },
+      { name: 'write_note', description: 'Write a note' },
+      { name: 'read_broken', description: 'Read something that fails' },
+    ],
+    setup: 'let calls = 0;',
+    handle: `
+      if (msg.method === 'tools/call') {
+        calls++;
+        return reply({ ...text('call ' + calls), isError: msg.params.name === 'read_broken' });
+      }
+    `,
+  },
+  { cache: { ttl_seconds: 60 } }
+);
+
+describe('McpProxyServer response cache', () => {
+  let configDir: string;
+  let server: McpProxyServer;
+  let sentMessages: string[];
+  const originalWrite = process.stdout.write;
+
+  beforeEach(() => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+    sentMessages = [];
+    process.stdout.write = vi.fn((chunk: string) => {
+      sentMessages.push(chunk);
+      return true;
+    }) as unknown as typeof process.stdout.write;
+    server = new McpProxyServer({ connectors: [docs], configDir, timeout: 10 });
+    (server as unknown as { running: boolean }).running = true;
+  });
+
+  afterEach(() => {
+    process.stdout.write = originalWrite;
+    (server as any).pool.closeAll();
+    closeAllDbs();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  async function call(name: string, args: Record<string, unknown>): Promise<string> {
+    sentMessages = [];
+    await (server as any).handleRequest({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } });
+    return JSON.parse(sentMessages[0]).result.content[0].text;
+  }
+
+  it('should answer repeated read calls from the cache', async () => {
+    expect(await call('docs__read_page', { page: 'intro', lang: 'en' })).toBe('call 1');
+    // Same arguments in a different order
+    expect(await call('docs__read_page', { lang: 'en', page: 'intro' })).toBe('call 1');
+    expect(await call('docs__read_page', { page: 'setup', lang: 'en' })).toBe('call 2');
+
+    expect((server as any).router.getCacheStats()).toEqual({
+      docs: { hits: 1, misses: 2, entries: 2 },
+    });
+  });
+
+  it('should always forward tools outside the cache config and failed results', async () => {
+    expect(await call('docs__write_note', { text: 'x' })).toBe('call 1');
+    expect(await call('docs__write_note', { text: 'x' })).toBe('call 2');
+
+    expect(await call('docs__read_broken', {})).toBe('call 3');
+    expect(await call('docs__read_broken', {})).toBe('call 4');
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * MCP Server Tool Override Tests
+ *
+ * Per-tool aliases, title/description overrides and argument defaults
+ * from a connector's proxy.tools section.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { McpProxyServer } from '../mcp-server.js';
+import { closeAllDbs } from '../../db/connection.js';
+import { fakeBackend } from './fake-backend.js';
+
+vi.mock('../logger.js', () => import('./fake-backend.js').then((m) => m.mockLogger()));
+vi.mock('../runtime-state.js', () => import('./fake-backend.js').then((m) => m.mockRuntimeState()));
+vi.mock('../ipc-server.js', () => import('./fake-backend.js').then((m) => m.mockIpcServer()));
+
+/** Backend whose tool echoes its arguments */
+const fs = fakeBackend(
+  'fs',
+  {
+    tools: [
+      {
+        name: 'read_file',
+        description: 'rf',
+        inputSchema: {
+          type: 'object',
+          properties: { path: { type: 'string' }, encoding: { type: 'string' } },
+          required: ['path', 'encoding'],
+        },
+      },
+      { name: 'stat', description: 'Stat a path' },
+    ],
+    handle: `
+      if (msg.method === 'tools/call') return reply(text(msg.params.name + ' ' + JSON.stringify(msg.params.arguments)));
+    `,
+  },
+  {
+    tools: {
+      read_file: {
+        alias: 'read_file',
+        title: 'Read File',
+        description: 'Read a UTF-8 text file from the project',
+        defaults: { encoding: 'utf-8' },
+      },
+    },
+  }
+);
+
+describe('McpProxyServer tool overrides', () => {
+  let configDir: string;
+  let server: McpProxyServer;
+  let sentMessages: string[];
+  const originalWrite = process.stdout.write;
+
+  beforeEach(() => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+    sentMessages = [];
+    process.stdout.write = vi.fn((chunk: string) => {
+      sentMessages.push(chunk);
+      return true;
+    }) as unknown as typeof process.stdout.write;
+    server = new McpProxyServer({ connectors: [fs], configDir, timeout: 10 });
+    (server as unknown as { running: boolean }).running = true;
+  });
+
+  afterEach(() => {
+    process.stdout.write = originalWrite;
+    (server as any).pool.closeAll();
+    closeAllDbs();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  async function request(method: string, params?: unknown): Promise<any> {
+    sentMessages = [];
+    await (server as any).handleRequest({ jsonrpc: '2.0', id: 1, method, params });
+    return JSON.parse(sentMessages[0]);
+  }
+
+  it('should expose aliases with overridden title, description and defaults', async () => {
+    await request('initialize', { protocolVersion: '2024-11-05', capabilities: {} });
+
+    const list = await request('tools/list');
+    const tools = list.result.tools.filter((t: any) => t.name !== 'proofscan_getEvents');
+    expect(tools).toEqual([
+      {
+        name: 'read_file',
+        title: 'Read File',
+        description: 'Read a UTF-8 text file from the project',
+        inputSchema: {
+          type: 'object',
+          properties: { path: { type: 'string' }, encoding: { type: 'string', default: 'utf-8' } },
+          required: ['path'],
+        },
+      },
+      { name: 'fs__stat', description: 'Stat a path' },
+    ]);
+  });
+
+  it('should route aliases to the backend tool and inject defaults', async () => {
+    await request('initialize', { protocolVersion: '2024-11-05', capabilities: {} });
+
+    const aliased = await request('tools/call', { name: 'read_file', arguments: { path: 'a.txt' } });
+    expect(aliased.result.content[0].text).toBe('read_file {"encoding":"utf-8","path":"a.txt"}');
+
+    // Client-supplied arguments win over defaults
+    const explicit = await request('tools/call', { name: 'read_file', arguments: { path: 'a.txt', encoding: 'latin1' } });
+    expect(explicit.result.content[0].text).toBe('read_file {"encoding":"latin1","path":"a.txt"}');
+
+    // The prefixed name keeps working
+    const prefixed = await request('tools/call', { name: 'fs__read_file', arguments: { path: 'b.txt' } });
+    expect(prefixed.result.content[0].text).toBe('read_file {"encoding":"utf-8","path":"b.txt"}');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * MCP Server Tool Exposure Policy Tests
+ *
+ * A connector's proxy policy hides tools from tools/list and refuses
+ * calls to them with a JSON-RPC error.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { McpProxyServer } from '../mcp-server.js';
+import { closeAllDbs } from '../../db/connection.js';
+import type { Connector } from '../../types/config.js';
+import { fakeBackend, type FakeBackendOptions } from './fake-backend.js';
+
+vi.mock('../logger.js', () => import('./fake-backend.js').then((m) => m.mockLogger()));
+vi.mock('../runtime-state.js', () => import('./fake-backend.js').then((m) => m.mockRuntimeState()));
+vi.mock('../ipc-server.js', () => import('./fake-backend.js').then((m) => m.mockIpcServer()));
+
+/** Filesystem-like backend with read and write tools */
+const FILESYSTEM: FakeBackendOptions = {
+  tools: [
+    { name: 'read_file', description: 'Read a file' },
+    { name: 'list_directory', description: 'List a directory' },
+    { name: 'write_file', description: 'Write a file' },
+    { name: 'edit_file', description: 'Edit a file in place' },
+  ],
+  handle: `
+    if (msg.method === 'tools/call') return reply(text('called ' + msg.params.name));
+  `,
+};
+
+describe('McpProxyServer tool exposure policy', () => {
+  let configDir: string;
+  let server: McpProxyServer;
+  let sentMessages: string[];
+  const originalWrite = process.stdout.write;
+
+  beforeEach(() => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+    sentMessages = [];
+    process.stdout.write = vi.fn((chunk: string) => {
+      sentMessages.push(chunk);
+      return true;
+    }) as unknown as typeof process.stdout.write;
+  });
+
+  afterEach(() => {
+    process.stdout.write = originalWrite;
+    (server as any).pool.closeAll();
+    closeAllDbs();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  function createServer(connectors: Connector[]): McpProxyServer {
+    server = new McpProxyServer({ connectors, configDir, timeout: 10 });
+    (server as unknown as { running: boolean }).running = true;
+    return server;
+  }
+
+  async function request(method: string, params?: unknown): Promise<any> {
+    sentMessages = [];
+    await (server as any).handleRequest({ jsonrpc: '2.0', id: 1, method, params });
+    return JSON.parse(sentMessages[0]);
+  }
+
+  async function toolNames(): Promise<string[]> {
+    const list = await request('tools/list');
+    return list.result.tools.map((t: any) => t.name).filter((n: string) => n.includes('__'));
+  }
+
+  it('should hide write tools by category and refuse calls to them', async () => {
+    createServer([fakeBackend('fs', FILESYSTEM, { deny_categories: ['write'] }), fakeBackend('open', FILESYSTEM)]);
+    await request('initialize', { protocolVersion: '2024-11-05', capabilities: {} });
+
+    expect(await toolNames()).toEqual([
+      'fs__read_file',
+      'fs__list_directory',
+      'open__read_file',
+      'open__list_directory',
+      'open__write_file',
+      'open__edit_file',
+    ]);
+
+    const blocked = await request('tools/call', { name: 'fs__write_file', arguments: {} });
+    expect(blocked.error).toEqual({
+      code: -32602,
+      message: "Tool not exposed by proxy policy: fs__write_file (category 'write' is denied)",
+    });
+
+    const allowed = await request('tools/call', { name: 'fs__read_file', arguments: {} });
+    expect(allowed.result.content).toEqual([{ type: 'text', text: 'called read_file' }]);
+  });
+
+  it('should apply allow and deny patterns', async () => {
+    createServer([fakeBackend('fs', FILESYSTEM, { allow_tools: ['*_file'], deny_tools: ['edit_*'] })]);
+    await request('initialize', { protocolVersion: '2024-11-05', capabilities: {} });
+
+    expect(await toolNames()).toEqual(['fs__read_file', 'fs__write_file']);
+
+    const blocked = await request('tools/call', { name: 'fs__list_directory', arguments: {} });
+    expect(blocked.error.message).toBe('Tool not exposed by proxy policy: fs__list_directory (not in allow_tools)');
+  });
+});
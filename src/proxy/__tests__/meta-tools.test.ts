@@ -0,0 +1,37 @@
+/**
+ * Tests for meta-tool search ranking
+ */
+
+import { describe, it, expect } from 'vitest';
+import { searchTools } from '../meta-tools.js';
+import type { NamespacedTool } from '../types.js';
+
+function tool(namespacedName: string, description: string, properties: Record<string, { description?: string }> = {}): NamespacedTool {
+  const [connectorId, name] = namespacedName.split('__');
+  return { name, connectorId, namespacedName, description, inputSchema: { type: 'object', properties } };
+}
+
+const catalog = [
+  tool('fs__read_file', 'Read a file from disk', { path: { description: 'File path' } }),
+  tool('fs__list_directory', 'List entries of a folder', { path: {} }),
+  tool('github__createIssue', 'Open an issue in a repository', { repo: { description: 'owner/name' } }),
+  tool('web__fetch', 'Download a web page', { url: { description: 'Address of the file to download' } }),
+];
+
+describe('searchTools', () => {
+  it('should rank name matches above description and schema matches', () => {
+    const names = searchTools(catalog, 'file').map((m) => m.name);
+    expect(names).toEqual(['fs__read_file', 'web__fetch']);
+  });
+
+  it('should split camelCase and snake_case names and match word prefixes', () => {
+    expect(searchTools(catalog, 'create issue')[0]).toMatchObject({ name: 'github__createIssue', score: 10 });
+    expect(searchTools(catalog, 'dir').map((m) => m.name)).toEqual(['fs__list_directory']);
+  });
+
+  it('should list every tool in catalog order for an empty query', () => {
+    expect(searchTools(catalog, '  ').map((m) => m.score)).toEqual([0, 0, 0, 0]);
+    expect(searchTools(catalog, '').map((m) => m.name)[0]).toBe('fs__read_file');
+    expect(searchTools(catalog, 'kubernetes')).toEqual([]);
+  });
+});
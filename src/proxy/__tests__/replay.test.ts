@@ -0,0 +1,70 @@
+/**
+ * Tests for replay matching
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { findRecordedCall, ReplayConnection, type Recording } from '../replay.js';
+
+vi.mock('../logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function recordedCall(args: Record<string, unknown>, text: string) {
+  return { tool: 'search', args, response: { result: { content: [{ type: 'text', text }] } }, sessionId: 's1', rpcId: text };
+}
+
+const recording: Recording = {
+  sessionIds: ['s1'],
+  initialize: { protocolVersion: '2024-11-05', capabilities: { tools: {} } },
+  responses: new Map([['tools/list:{}', { result: { tools: [{ name: 'search' }] } }]]),
+  calls: [
+    recordedCall({ q: 'alpha', limit: 10 }, 'first'),
+    recordedCall({ q: 'beta', limit: 10, lang: 'en' }, 'second'),
+    recordedCall({ q: 'alpha', limit: 10 }, 'third'),
+  ],
+};
+
+describe('findRecordedCall', () => {
+  it('should prefer the latest exact match regardless of key order', () => {
+    const match = findRecordedCall(recording, 'search', { limit: 10, q: 'alpha' });
+    expect(match).toEqual({ call: recording.calls[2], exact: true });
+  });
+
+  it('should find nothing for unrecorded arguments without nearest fallback', () => {
+    expect(findRecordedCall(recording, 'search', { q: 'gamma', limit: 10 })).toBeUndefined();
+  });
+
+  it('should pick the call sharing the most argument values with nearest fallback', () => {
+    const match = findRecordedCall(recording, 'search', { q: 'gamma', limit: 10, lang: 'en' }, 'nearest');
+    expect(match).toEqual({ call: recording.calls[1], exact: false });
+  });
+
+  it('should not fall back to another tool', () => {
+    expect(findRecordedCall(recording, 'fetch', { q: 'alpha', limit: 10 }, 'nearest')).toBeUndefined();
+  });
+});
+
+describe('ReplayConnection', () => {
+  it('should answer requests from the recording and emit them as messages', async () => {
+    const connection = new ReplayConnection('docs', recording, {}, 5);
+    const messages: unknown[] = [];
+    connection.on('message', (msg, _raw, direction) => messages.push([direction, msg]));
+    await connection.connect();
+
+    const init = await connection.sendRequest('initialize', { protocolVersion: '2025-03-26', capabilities: {} });
+    expect(init).toEqual({ jsonrpc: '2.0', id: 5, result: recording.initialize });
+
+    const list = await connection.sendRequest('tools/list', {});
+    expect(list.result).toEqual({ tools: [{ name: 'search' }] });
+
+    const unknown = await connection.sendRequest('prompts/list', {});
+    expect(unknown.error?.code).toBe(-32601);
+
+    expect(messages).toHaveLength(6);
+    expect(messages[1]).toEqual(['incoming', init]);
+  });
+});
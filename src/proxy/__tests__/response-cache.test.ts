@@ -0,0 +1,58 @@
+/**
+ * Response Cache Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ResponseCache, cacheKey, isCachedTool } from '../response-cache.js';
+
+describe('isCachedTool', () => {
+  it('should cache read tools by default', () => {
+    const config = { ttl_seconds: 60 };
+
+    expect(isCachedTool(config, 'read_file', 'Read a file')).toBe(true);
+    expect(isCachedTool(config, 'write_file', 'Write a file')).toBe(false);
+  });
+
+  it('should pick tools by pattern and category', () => {
+    expect(isCachedTool({ ttl_seconds: 60, tools: ['lookup_*'] }, 'lookup_docs')).toBe(true);
+    // Patterns alone replace the read default
+    expect(isCachedTool({ ttl_seconds: 60, tools: ['lookup_*'] }, 'read_file', 'Read a file')).toBe(false);
+    expect(isCachedTool({ ttl_seconds: 60, tools: ['lookup_*'], categories: ['read'] }, 'read_file', 'Read a file')).toBe(true);
+  });
+});
+
+describe('cacheKey', () => {
+  it('should not depend on argument key order', () => {
+    expect(cacheKey('search', { b: 1, a: { y: 2, x: [1, { d: 1, c: 2 }] } }))
+      .toBe(cacheKey('search', { a: { x: [1, { c: 2, d: 1 }], y: 2 }, b: 1 }));
+    expect(cacheKey('search', { a: 1 })).not.toBe(cacheKey('find', { a: 1 }));
+  });
+});
+
+describe('ResponseCache', () => {
+  it('should expire results after the TTL', () => {
+    let now = 0;
+    const cache = new ResponseCache<string>({ ttl_seconds: 10 }, () => now);
+
+    cache.set('k', 'v');
+    now = 9_999;
+    expect(cache.get('k')).toBe('v');
+    now = 10_000;
+    expect(cache.get('k')).toBeUndefined();
+    expect(cache.getStats()).toEqual({ hits: 1, misses: 1, entries: 0 });
+  });
+
+  it('should drop the least recently used result when full', () => {
+    const cache = new ResponseCache<string>({ ttl_seconds: 60, max_entries: 2 });
+
+    cache.set('a', '1');
+    cache.set('b', '2');
+    cache.get('a');
+    cache.set('c', '3');
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toBe('1');
+    expect(cache.get('c')).toBe('3');
+    expect(cache.getStats()).toEqual({ hits: 3, misses: 1, entries: 2 });
+  });
+});
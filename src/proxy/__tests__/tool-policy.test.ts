@@ -0,0 +1,44 @@
+/**
+ * Tool Exposure Policy Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getToolBlockReason, matchesToolPattern } from '../tool-policy.js';
+
+describe('matchesToolPattern', () => {
+  it('should match exact names and wildcards', () => {
+    expect(matchesToolPattern('read_file', ['read_file'])).toBe(true);
+    expect(matchesToolPattern('read_file', ['read_*'])).toBe(true);
+    expect(matchesToolPattern('read_file', ['read_fil?'])).toBe(true);
+    expect(matchesToolPattern('read_file', ['write_*', 'list_*'])).toBe(false);
+  });
+
+  it('should treat regex characters literally', () => {
+    expect(matchesToolPattern('a.b', ['a.b'])).toBe(true);
+    expect(matchesToolPattern('axb', ['a.b'])).toBe(false);
+    expect(matchesToolPattern('get(x)', ['get(*)'])).toBe(true);
+  });
+});
+
+describe('getToolBlockReason', () => {
+  it('should expose everything without a policy', () => {
+    expect(getToolBlockReason(undefined, 'delete_everything')).toBeNull();
+    expect(getToolBlockReason({}, 'delete_everything')).toBeNull();
+  });
+
+  it('should apply allow_tools before deny_tools', () => {
+    const policy = { allow_tools: ['read_*', 'list_*'], deny_tools: ['read_secret*'] };
+
+    expect(getToolBlockReason(policy, 'read_file')).toBeNull();
+    expect(getToolBlockReason(policy, 'write_file')).toBe('not in allow_tools');
+    expect(getToolBlockReason(policy, 'read_secrets')).toBe('matched by deny_tools');
+  });
+
+  it('should hide tools by operation category', () => {
+    const policy = { deny_categories: ['write' as const, 'exec' as const] };
+
+    expect(getToolBlockReason(policy, 'write_file', 'Write a file')).toBe("category 'write' is denied");
+    expect(getToolBlockReason(policy, 'run_command', 'Execute a shell command')).toBe("category 'exec' is denied");
+    expect(getToolBlockReason(policy, 'read_file', 'Read a file')).toBeNull();
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Approval Gate
+ *
+ * Holds risky tools/call requests until a person allows or denies them
+ * over IPC (`pfscan proxy approve`, or `proxy approve` in psh). Which
+ * tools need approval comes from the connector's `proxy.approval` section
+ * (name patterns and operation categories, exec and write by default).
+ * Calls nobody answers are denied when the timeout runs out.
+ *
+ * "Always allow" decisions are kept in proxy-approvals.json in the config
+ * directory, so they outlive the proxy process.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import type { Connector, ProxyApprovalConfig } from '../types/index.js';
+import { classifyTool } from '../db/tool-analysis.js';
+import { matchesToolPattern } from './tool-policy.js';
+import { logger } from './logger.js';
+import type { ApprovalDecision, PendingApproval } from './ipc-types.js';
+
+/** Seconds a call waits for a decision when timeout_seconds is not set */
+export const DEFAULT_APPROVAL_TIMEOUT_SECONDS = 60;
+
+/** Categories that need approval when neither tools nor categories is set */
+const DEFAULT_APPROVAL_CATEGORIES = ['exec', 'write'];
+
+/** File (in the config directory) holding "always allow" decisions */
+const APPROVALS_FILE = 'proxy-approvals.json';
+
+/** How a held call was settled */
+export interface ApprovalOutcome {
+  approved: boolean;
+  decision: ApprovalDecision | 'timeout' | 'cancelled';
+  /** Who decided (as reported by the IPC client) */
+  by?: string;
+}
+
+/** transport_event payload recording how a held call was settled */
+export interface ApprovalRecord {
+  type: 'approval';
+  tool: string;
+  reason: string;
+  decision: ApprovalOutcome['decision'];
+  by?: string;
+  /** Set when a saved "always allow" decision let the call through */
+  rule?: 'always_allow';
+}
+
+/** A tool the user chose to always allow */
+interface AlwaysAllowRule {
+  connector: string;
+  tool: string;
+  approved_at: string;
+  approved_by?: string;
+}
+
+interface ApprovalsFile {
+  version: 1;
+  always_allow: AlwaysAllowRule[];
+}
+
+/**
+ * Why a tool call needs approval under the config
+ *
+ * @param name - Tool name without the connector prefix
+ * @param description - Tool description, used for category classification
+ * @returns null if it does not, otherwise a human-readable reason
+ */
+export function getApprovalReason(
+  config: ProxyApprovalConfig | undefined,
+  name: string,
+  description?: string
+): string | null {
+  if (!config) {
+    return null;
+  }
+
+  if (config.tools && matchesToolPattern(name, config.tools)) {
+    return 'matched by approval.tools';
+  }
+
+  const categories: string[] = config.categories ?? (config.tools ? [] : DEFAULT_APPROVAL_CATEGORIES);
+  const category = classifyTool(name, description);
+  if (categories.includes(category)) {
+    return `category '${category}'`;
+  }
+
+  return null;
+}
+
+/**
+ * Calls waiting for a decision, and the saved "always allow" rules
+ */
+export class ApprovalGate {
+  private readonly filePath: string;
+  private readonly pending = new Map<string, {
+    approval: PendingApproval;
+    settle: (outcome: ApprovalOutcome) => void;
+  }>();
+  private alwaysAllow: AlwaysAllowRule[];
+
+  constructor(configDir: string) {
+    this.filePath = join(configDir, APPROVALS_FILE);
+    this.alwaysAllow = this.load();
+  }
+
+  /**
+   * Check whether the user chose to always allow a tool
+   */
+  isAlwaysAllowed(connectorId: string, toolName: string): boolean {
+    return this.alwaysAllow.some((rule) => rule.connector === connectorId && rule.tool === toolName);
+  }
+
+  /**
+   * Hold a call until it is decided, times out, or the signal aborts
+   */
+  request(
+    connector: Connector,
+    toolName: string,
+    args: Record<string, unknown>,
+    reason: string,
+    signal?: AbortSignal
+  ): Promise<ApprovalOutcome> {
+    const timeoutSeconds = connector.proxy?.approval?.timeout_seconds ?? DEFAULT_APPROVAL_TIMEOUT_SECONDS;
+    const now = Date.now();
+    const approval: PendingApproval = {
+      id: randomUUID().slice(0, 8),
+      connectorId: connector.id,
+      tool: toolName,
+      arguments: args,
+      reason,
+      requestedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + timeoutSeconds * 1000).toISOString(),
+    };
+
+    logger.warn(`Approval needed [${approval.id}] ${connector.id}/${toolName} (${reason})`, 'approval');
+
+    return new Promise((resolve) => {
+      const onAbort = () => settle({ approved: false, decision: 'cancelled' });
+      const timer = setTimeout(() => settle({ approved: false, decision: 'timeout' }), timeoutSeconds * 1000);
+
+      const settle = (outcome: ApprovalOutcome) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.pending.delete(approval.id);
+        logger.info(`Approval [${approval.id}] ${connector.id}/${toolName}: ${outcome.decision}`, 'approval');
+        resolve(outcome);
+      };
+
+      if (signal?.aborted) {
+        settle({ approved: false, decision: 'cancelled' });
+        return;
+      }
+      signal?.addEventListener('abort', onAbort);
+      this.pending.set(approval.id, { approval, settle });
+    });
+  }
+
+  /**
+   * Calls waiting for a decision, oldest first
+   */
+  list(): PendingApproval[] {
+    return [...this.pending.values()].map((entry) => entry.approval);
+  }
+
+  /**
+   * Decide a held call
+   *
+   * "always" also allows later calls to the same tool, across restarts.
+   *
+   * @returns false if no call with that ID is waiting
+   */
+  decide(id: string, decision: ApprovalDecision, by?: string): boolean {
+    const entry = this.pending.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    if (decision === 'always') {
+      const { connectorId, tool } = entry.approval;
+      if (!this.isAlwaysAllowed(connectorId, tool)) {
+        this.alwaysAllow.push({ connector: connectorId, tool, approved_at: new Date().toISOString(), approved_by: by });
+        this.save();
+      }
+    }
+
+    entry.settle({ approved: decision !== 'deny', decision, by });
+    return true;
+  }
+
+  /**
+   * Deny everything still waiting (proxy shutdown)
+   */
+  close(): void {
+    for (const entry of [...this.pending.values()]) {
+      entry.settle({ approved: false, decision: 'cancelled' });
+    }
+  }
+
+  private load(): AlwaysAllowRule[] {
+    if (!existsSync(this.filePath)) {
+      return [];
+    }
+    try {
+      const file = JSON.parse(readFileSync(this.filePath, 'utf-8')) as ApprovalsFile;
+      return Array.isArray(file.always_allow) ? file.always_allow : [];
+    } catch (error) {
+      logger.warn(`Ignoring unreadable ${APPROVALS_FILE}: ${error instanceof Error ? error.message : error}`, 'approval');
+      return [];
+    }
+  }
+
+  private save(): void {
+    const file: ApprovalsFile = { version: 1, always_allow: this.alwaysAllow };
+    try {
+      writeFileSync(this.filePath, JSON.stringify(file, null, 2), 'utf-8');
+    } catch (error) {
+      logger.warn(`Failed to save ${APPROVALS_FILE}: ${error instanceof Error ? error.message : error}`, 'approval');
+    }
+  }
+}
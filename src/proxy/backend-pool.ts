@@ -0,0 +1,885 @@
+/**
+ * Backend Connection Pool
+ *
+ * Keeps one long-lived, initialized MCP connection per connector so that
+ * stateful servers (browsers, DB sessions, shells) keep their state between
+ * tools/call requests and npx/uvx startup cost is paid once.
+ *
+ * - Connections are opened lazily on first use (initialize handshake included)
+ * - Idle connections are closed after the idle timeout and reopened on demand
+ * - Unexpected exits are detected; the backend is restarted on the next call
+ * - All traffic for a connector is recorded into one session per proxy run
+ * - Server-initiated requests are answered (or forwarded to the upstream client)
+ * - Backend notifications are emitted as 'notification' events
+ * - Resource subscriptions keep the backend open and are renewed after a restart
+ * - Connectors with a replay config are answered from recorded sessions instead
+ * - Connectors disabled at runtime list nothing and no backend is opened for them
+ * - Requests routed for an upstream client (isolated connectors) get that
+ *   client's own connection, recorded in a session whose actor is the client;
+ *   each connector keeps a limited number of them, least recently used first out
+ */
+
+import { EventEmitter } from 'events';
+import type { Connector, ProxyReplayConfig } from '../types/index.js';
+import type {
+  JsonRpcMessage,
+  JsonRpcNotification,
+  JsonRpcResponse,
+  MessageDirection,
+  RequestOptions,
+} from '../transports/stdio.js';
+import {
+  createConnection,
+  isSupportedTransport,
+  resolveTransportSecrets,
+  type McpConnection,
+} from '../transports/connection.js';
+import { ServerRequestHandler, type UpstreamForwarder } from '../transports/server-requests.js';
+import { DEFAULT_PROTOCOL_VERSION } from '../transports/protocol-versions.js';
+import {
+  attachEventRecorder,
+  parseToolsListResult,
+  type ToolCallResult,
+  type ToolInfo,
+} from '../tools/adapter.js';
+import { EventsStore } from '../db/events-store.js';
+import { logger } from './logger.js';
+import { loadRecording, ReplayConnection, REPLAY_MARKER, type Recording } from './replay.js';
+import {
+  DEFAULT_TIMEOUT,
+  DEFAULT_IDLE_TIMEOUT,
+  type BackendStatus,
+  type PromptInfo,
+  type ProxyOptions,
+  type UpstreamClient,
+} from './types.js';
+
+/** Client backends kept per connector without proxy.isolation.max_instances */
+export const DEFAULT_MAX_CLIENT_BACKENDS = 8;
+
+/** Why a pooled connection was closed (recorded in transport_event rows) */
+type CloseReason = 'idle' | 'released' | 'evicted' | 'shutdown';
+
+/** Delay before restarting a crashed backend that has resource subscriptions */
+const SUBSCRIPTION_RESTART_DELAY_MS = 1000;
+
+/**
+ * Parse a prompts/list result, skipping entries without a name
+ */
+function parsePromptsListResult(result: unknown): PromptInfo[] {
+  const prompts = (result as { prompts?: unknown } | undefined)?.prompts;
+  if (!Array.isArray(prompts)) {
+    return [];
+  }
+  return prompts.filter(
+    (p): p is PromptInfo => typeof p === 'object' && p !== null && typeof (p as PromptInfo).name === 'string'
+  );
+}
+
+/** Response to a request sent through BackendPool.request() */
+export interface BackendResponse {
+  sessionId: string;
+  result?: unknown;
+  error?: string;
+  /** JSON-RPC error code when the backend answered with an error */
+  errorCode?: number;
+}
+
+/**
+ * A single connector's long-lived connection (or one client's, when isolated)
+ */
+class PooledBackend {
+  private readonly connector: Connector;
+  /** Upstream client this connection belongs to (isolated connectors) */
+  private readonly client?: UpstreamClient;
+  private readonly configDir: string;
+  private readonly eventsStore: EventsStore;
+  private readonly timeoutMs: number;
+  private readonly idleTimeoutMs: number;
+  private readonly upstream?: UpstreamForwarder;
+  private readonly replay?: ProxyReplayConfig;
+  private readonly onNotification: (notification: JsonRpcNotification) => void;
+
+  private connection: McpConnection | null = null;
+  private connecting: Promise<McpConnection> | null = null;
+  private sessionId: string | null = null;
+  private nextRequestId = 1;
+  private inFlight = 0;
+  private idleTimer: NodeJS.Timeout | null = null;
+  /** Pending restart of a crashed backend that has subscriptions */
+  private restartTimer: NodeJS.Timeout | null = null;
+  private restarts = 0;
+  private crashed = false;
+  private lastError: string | undefined;
+  /** Capabilities from the backend's initialize result */
+  private serverCapabilities: Record<string, unknown> = {};
+  /** Resource URIs subscribed to (backend URIs, not namespaced) */
+  private readonly subscriptions = new Set<string>();
+
+  /** Connections we closed on purpose (their close event is not a crash) */
+  private readonly expectedCloses = new WeakSet<McpConnection>();
+
+  constructor(
+    connector: Connector,
+    options: {
+      configDir: string;
+      eventsStore: EventsStore;
+      timeoutMs: number;
+      idleTimeoutMs: number;
+      upstream?: UpstreamForwarder;
+      replay?: ProxyReplayConfig;
+      client?: UpstreamClient;
+      onNotification: (notification: JsonRpcNotification) => void;
+    }
+  ) {
+    this.connector = connector;
+    this.client = options.client;
+    this.configDir = options.configDir;
+    this.eventsStore = options.eventsStore;
+    this.timeoutMs = options.timeoutMs;
+    this.idleTimeoutMs = options.idleTimeoutMs;
+    this.upstream = options.upstream;
+    this.replay = options.replay;
+    this.onNotification = options.onNotification;
+  }
+
+  /**
+   * Session that records this connector's traffic (null until first use)
+   */
+  getSessionId(): string | null {
+    return this.sessionId;
+  }
+
+  getStatus(): BackendStatus {
+    let state: BackendStatus['state'] = 'idle';
+    if (this.connection?.isConnected()) state = 'ready';
+    else if (this.connecting) state = 'connecting';
+    else if (this.crashed) state = 'crashed';
+
+    return {
+      connectorId: this.connector.id,
+      ...(this.client && { clientId: this.client.id }),
+      state,
+      sessionId: this.sessionId,
+      restarts: this.restarts,
+      inFlight: this.inFlight,
+      ...(this.lastError && { lastError: this.lastError }),
+    };
+  }
+
+  /**
+   * Whether closing the connection now would cut off requests or subscriptions
+   */
+  isBusy(): boolean {
+    return this.inFlight > 0 || this.subscriptions.size > 0 || this.connecting !== null;
+  }
+
+  /**
+   * Send a request over the pooled connection (connecting first if needed)
+   */
+  async request(method: string, params?: unknown, options: RequestOptions = {}): Promise<JsonRpcResponse> {
+    const connection = await this.acquire();
+
+    this.clearIdleTimer();
+    this.inFlight++;
+    this.nextRequestId++;
+    try {
+      return await connection.sendRequest(method, params, this.timeoutMs, options);
+    } finally {
+      this.inFlight--;
+      this.scheduleIdleClose();
+    }
+  }
+
+  /**
+   * Capabilities the backend declared in initialize (connecting first if needed)
+   */
+  async getCapabilities(): Promise<Record<string, unknown>> {
+    await this.acquire();
+    return this.serverCapabilities;
+  }
+
+  /**
+   * Subscribe to (or unsubscribe from) a resource
+   *
+   * While subscriptions exist the connection is not closed for idling,
+   * and they are renewed when a crashed backend is restarted.
+   */
+  async setSubscription(uri: string, subscribed: boolean): Promise<JsonRpcResponse> {
+    const response = await this.request(subscribed ? 'resources/subscribe' : 'resources/unsubscribe', { uri });
+    if (!response.error) {
+      if (subscribed) {
+        this.subscriptions.add(uri);
+        this.clearIdleTimer();
+      } else {
+        this.subscriptions.delete(uri);
+        this.scheduleIdleClose();
+      }
+    }
+    return response;
+  }
+
+  /**
+   * Close the connection as if the backend crashed (injected kill fault)
+   *
+   * The next call restarts the backend, as after a real crash.
+   */
+  kill(): void {
+    this.connection?.close();
+  }
+
+  /**
+   * Close the connection and end the session
+   */
+  close(reason: Exclude<CloseReason, 'idle'>): void {
+    this.clearIdleTimer();
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+    this.closeConnection(reason);
+
+    if (this.sessionId) {
+      this.eventsStore.endSession(this.sessionId, 'normal');
+      this.sessionId = null;
+    }
+  }
+
+  private async acquire(): Promise<McpConnection> {
+    if (this.connection && this.connection.isConnected()) {
+      return this.connection;
+    }
+
+    // Concurrent callers share one connect + handshake
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async open(): Promise<McpConnection> {
+    const created = this.replay ? this.createReplayConnection(this.replay) : await this.createBackendConnection();
+
+    const sessionId = this.ensureSession();
+    const isRestart = this.crashed;
+    if (isRestart) {
+      this.restarts++;
+      logger.warn(`Restarting backend ${this.connector.id} (restart #${this.restarts})`, 'pool');
+    }
+
+    const { connection, replayedSessions } = created;
+    attachEventRecorder(connection, this.eventsStore, sessionId);
+    const serverRequests = new ServerRequestHandler(this.connector.id, this.connector.server_requests, this.upstream);
+    serverRequests.attach(connection);
+
+    connection.on('error', (err: Error) => {
+      logger.warn(`Backend ${this.connector.id} error: ${err.message}`, 'pool');
+    });
+    connection.on('close', (code: number | null, signal: string | null) => {
+      this.handleClose(connection, code, signal);
+    });
+    connection.on('message', (msg: JsonRpcMessage, _raw: string, direction: MessageDirection) => {
+      if (direction === 'incoming' && 'method' in msg && !('id' in msg)) {
+        this.onNotification(msg);
+      }
+    });
+
+    try {
+      await connection.connect();
+
+      this.eventsStore.saveEvent(sessionId, 'server_to_client', 'transport_event', {
+        rawJson: JSON.stringify({
+          type: 'connected',
+          ...(isRestart && { restart: this.restarts }),
+          ...(replayedSessions && { [REPLAY_MARKER]: { sessions: replayedSessions } }),
+        }),
+      });
+
+      this.nextRequestId++;
+      const init = await connection.sendRequest('initialize', {
+        protocolVersion: DEFAULT_PROTOCOL_VERSION,
+        capabilities: serverRequests.getClientCapabilities(),
+        clientInfo: {
+          name: 'proofscan',
+          version: '0.7.0',
+        },
+      }, this.timeoutMs);
+
+      if (init.error) {
+        throw new Error(`initialize failed: ${init.error.message}`);
+      }
+      const capabilities = (init.result as { capabilities?: unknown } | undefined)?.capabilities;
+      this.serverCapabilities = typeof capabilities === 'object' && capabilities !== null
+        ? capabilities as Record<string, unknown>
+        : {};
+
+      connection.sendNotification('notifications/initialized', {});
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      this.lastError = errMsg;
+      this.eventsStore.saveEvent(sessionId, 'client_to_server', 'transport_event', {
+        rawJson: JSON.stringify({ type: 'error', error: errMsg }),
+      });
+      this.expectedCloses.add(connection);
+      connection.close();
+      throw error;
+    }
+
+    logger.info(`Backend ${this.connector.id} connected (session=${sessionId.slice(0, 8)})`, 'pool');
+    this.connection = connection;
+    this.crashed = false;
+    this.renewSubscriptions(connection);
+    this.scheduleIdleClose();
+    return connection;
+  }
+
+  private async createBackendConnection(): Promise<{ connection: McpConnection; replayedSessions?: string[] }> {
+    const resolved = await resolveTransportSecrets(this.connector, this.configDir);
+    if (resolved.error) {
+      this.lastError = resolved.error;
+      throw new Error(resolved.error);
+    }
+    return { connection: createConnection(resolved.transport, { firstRequestId: this.nextRequestId }) };
+  }
+
+  /**
+   * Answer from recorded sessions instead of launching the backend
+   */
+  private createReplayConnection(replay: ProxyReplayConfig): { connection: McpConnection; replayedSessions: string[] } {
+    let recording: Recording;
+    try {
+      recording = loadRecording(this.eventsStore, this.connector.id, replay.session);
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    }
+
+    logger.info(
+      `Replaying ${this.connector.id}: ${recording.calls.length} tool call(s) from ${recording.sessionIds.length} session(s)`,
+      'pool'
+    );
+    return {
+      connection: new ReplayConnection(this.connector.id, recording, replay, this.nextRequestId),
+      replayedSessions: recording.sessionIds,
+    };
+  }
+
+  /**
+   * Subscribe again after a restart (the new process knows nothing of them)
+   */
+  private renewSubscriptions(connection: McpConnection): void {
+    for (const uri of this.subscriptions) {
+      this.nextRequestId++;
+      connection.sendRequest('resources/subscribe', { uri }, this.timeoutMs).then((response) => {
+        if (response.error) {
+          logger.warn(`Backend ${this.connector.id} refused resubscribe to ${uri}: ${response.error.message}`, 'pool');
+        }
+      }).catch((error) => {
+        logger.warn(`Backend ${this.connector.id} resubscribe to ${uri} failed: ${error instanceof Error ? error.message : error}`, 'pool');
+      });
+    }
+  }
+
+  /**
+   * Save a transport_event in the connector's session, creating it if needed
+   *
+   * @returns The session ID
+   */
+  recordEvent(record: object): string {
+    const sessionId = this.ensureSession();
+    this.eventsStore.saveEvent(sessionId, 'client_to_server', 'transport_event', {
+      rawJson: JSON.stringify(record),
+    });
+    return sessionId;
+  }
+
+  private ensureSession(): string {
+    if (!this.sessionId) {
+      this.sessionId = this.eventsStore.createSession(this.connector.id).session_id;
+      if (this.client) {
+        this.eventsStore.updateSessionActor(this.sessionId, {
+          id: this.client.id,
+          kind: 'agent',
+          label: this.client.name ?? this.client.id,
+        });
+      }
+    }
+    return this.sessionId;
+  }
+
+  private handleClose(connection: McpConnection, code: number | null, signal: string | null): void {
+    if (this.connection === connection) {
+      this.connection = null;
+      this.clearIdleTimer();
+    }
+
+    // Closed on purpose - already recorded by closeConnection()
+    if (this.expectedCloses.has(connection)) {
+      return;
+    }
+
+    this.crashed = true;
+    this.lastError = `Backend exited unexpectedly (code=${code}, signal=${signal})`;
+    logger.warn(`Backend ${this.connector.id} exited unexpectedly (code=${code}, signal=${signal}); will restart on next call`, 'pool');
+
+    if (this.sessionId) {
+      this.eventsStore.saveEvent(this.sessionId, 'server_to_client', 'transport_event', {
+        rawJson: JSON.stringify({ type: 'disconnected', reason: 'crashed', code, signal }),
+      });
+    }
+
+    // Subscribers expect updates without making another call first
+    if (this.subscriptions.size > 0 && !this.restartTimer) {
+      this.restartTimer = setTimeout(() => {
+        this.restartTimer = null;
+        this.acquire().catch((error) => {
+          logger.warn(`Backend ${this.connector.id} restart failed: ${error instanceof Error ? error.message : error}`, 'pool');
+        });
+      }, SUBSCRIPTION_RESTART_DELAY_MS);
+      this.restartTimer.unref();
+    }
+  }
+
+  private closeConnection(reason: CloseReason): void {
+    const connection = this.connection;
+    if (!connection) {
+      return;
+    }
+
+    this.connection = null;
+    this.expectedCloses.add(connection);
+    if (this.sessionId) {
+      this.eventsStore.saveEvent(this.sessionId, 'client_to_server', 'transport_event', {
+        rawJson: JSON.stringify({ type: 'disconnected', reason }),
+      });
+    }
+    connection.close();
+  }
+
+  private scheduleIdleClose(): void {
+    if (this.idleTimeoutMs <= 0 || this.inFlight > 0 || this.subscriptions.size > 0 || !this.connection) {
+      return;
+    }
+
+    this.clearIdleTimer();
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      if (this.inFlight === 0) {
+        logger.info(`Closing idle backend ${this.connector.id}`, 'pool');
+        this.closeConnection('idle');
+      }
+    }, this.idleTimeoutMs);
+    this.idleTimer.unref();
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
+
+/**
+ * Pool of long-lived backend connections, keyed by connector ID
+ * (and by upstream client ID for isolated connectors)
+ *
+ * Emits 'notification' (connectorId, notification, clientId?) for
+ * notifications sent by any backend; clientId is set for a client's own
+ * backend.
+ */
+export class BackendPool extends EventEmitter {
+  private readonly configDir: string;
+  private readonly timeoutMs: number;
+  private readonly idleTimeoutMs: number;
+  private readonly eventsStore: EventsStore;
+  private readonly upstream?: UpstreamForwarder;
+  private readonly replay: Record<string, ProxyReplayConfig>;
+  private readonly backends = new Map<string, PooledBackend>();
+  /** Isolated connectors' backends by connector ID, then client ID (least recently used first) */
+  private readonly clientBackends = new Map<string, Map<string, PooledBackend>>();
+  private closed = false;
+
+  /**
+   * @param upstream - Client that server-initiated requests may be forwarded to
+   */
+  constructor(options: ProxyOptions, upstream?: UpstreamForwarder) {
+    super();
+    this.configDir = options.configDir;
+    this.upstream = upstream;
+    this.timeoutMs = (options.timeout ?? DEFAULT_TIMEOUT) * 1000;
+    this.idleTimeoutMs = (options.idleTimeout ?? DEFAULT_IDLE_TIMEOUT) * 1000;
+    this.eventsStore = new EventsStore(options.configDir);
+    this.replay = options.replay ?? {};
+  }
+
+  /**
+   * List tools over the connector's pooled connection
+   */
+  async listTools(connector: Connector): Promise<{ tools: ToolInfo[]; sessionId: string; error?: string }> {
+    if (!connector.enabled) {
+      return { tools: [], sessionId: '' };
+    }
+    if (!isSupportedTransport(connector.transport)) {
+      return { tools: [], sessionId: '', error: `Unsupported transport type: ${connector.transport.type}` };
+    }
+
+    let backend: PooledBackend;
+    try {
+      backend = this.getBackend(connector);
+    } catch (error) {
+      return { tools: [], sessionId: '', error: error instanceof Error ? error.message : String(error) };
+    }
+
+    try {
+      const response = await backend.request('tools/list', {});
+      const sessionId = backend.getSessionId() ?? '';
+      if (response.error) {
+        return { tools: [], sessionId, error: response.error.message };
+      }
+      return { tools: parseToolsListResult(response.result), sessionId };
+    } catch (error) {
+      return {
+        tools: [],
+        sessionId: backend.getSessionId() ?? '',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Call a tool over the connector's pooled connection
+   *
+   * options.onProgress receives the backend's progress notifications;
+   * aborting options.signal cancels the call on the backend. With a client,
+   * the call goes over that client's own connection.
+   */
+  async callTool(
+    connector: Connector,
+    toolName: string,
+    args: Record<string, unknown>,
+    options: RequestOptions = {},
+    client?: UpstreamClient
+  ): Promise<ToolCallResult> {
+    if (!isSupportedTransport(connector.transport)) {
+      return { success: false, sessionId: '', error: `Unsupported transport type: ${connector.transport.type}` };
+    }
+
+    let backend: PooledBackend | undefined;
+    try {
+      backend = this.getBackend(connector, client);
+      const response = await backend.request('tools/call', { name: toolName, arguments: args }, options);
+      const sessionId = backend.getSessionId() ?? '';
+
+      if (response.error) {
+        return { success: false, sessionId, error: response.error.message };
+      }
+
+      const result = response.result as { content?: unknown[]; isError?: boolean } | undefined;
+      return {
+        success: true,
+        sessionId,
+        content: result?.content,
+        isError: result?.isError,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        sessionId: backend?.getSessionId() ?? '',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * List prompts over the connector's pooled connection
+   *
+   * Backends that do not declare the prompts capability are not asked
+   * and report no prompts.
+   */
+  async listPrompts(connector: Connector): Promise<{ prompts: PromptInfo[]; sessionId: string; error?: string }> {
+    if (!connector.enabled) {
+      return { prompts: [], sessionId: '' };
+    }
+    if (!isSupportedTransport(connector.transport)) {
+      return { prompts: [], sessionId: '', error: `Unsupported transport type: ${connector.transport.type}` };
+    }
+
+    let backend: PooledBackend;
+    try {
+      backend = this.getBackend(connector);
+    } catch (error) {
+      return { prompts: [], sessionId: '', error: error instanceof Error ? error.message : String(error) };
+    }
+
+    try {
+      const capabilities = await backend.getCapabilities();
+      const sessionId = backend.getSessionId() ?? '';
+      if (!capabilities.prompts) {
+        return { prompts: [], sessionId };
+      }
+
+      const response = await backend.request('prompts/list', {});
+      if (response.error) {
+        return { prompts: [], sessionId, error: response.error.message };
+      }
+      return { prompts: parsePromptsListResult(response.result), sessionId };
+    } catch (error) {
+      return {
+        prompts: [],
+        sessionId: backend.getSessionId() ?? '',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Capabilities the backend declared in initialize (connecting first if needed)
+   */
+  async getCapabilities(connector: Connector): Promise<Record<string, unknown>> {
+    if (!connector.enabled) {
+      return {};
+    }
+    if (!isSupportedTransport(connector.transport)) {
+      throw new Error(`Unsupported transport type: ${connector.transport.type}`);
+    }
+    return this.getBackend(connector).getCapabilities();
+  }
+
+  /**
+   * Send a request over the connector's pooled connection
+   * (the client's own connection if a client is given)
+   */
+  async request(connector: Connector, method: string, params?: unknown, client?: UpstreamClient): Promise<BackendResponse> {
+    if (!isSupportedTransport(connector.transport)) {
+      return { sessionId: '', error: `Unsupported transport type: ${connector.transport.type}` };
+    }
+
+    let backend: PooledBackend;
+    try {
+      backend = this.getBackend(connector, client);
+    } catch (error) {
+      return { sessionId: '', error: error instanceof Error ? error.message : String(error) };
+    }
+    return this.toBackendResponse(backend, () => backend.request(method, params));
+  }
+
+  /**
+   * Subscribe to or unsubscribe from a backend resource
+   */
+  async setSubscription(
+    connector: Connector,
+    uri: string,
+    subscribed: boolean,
+    client?: UpstreamClient
+  ): Promise<BackendResponse> {
+    if (!isSupportedTransport(connector.transport)) {
+      return { sessionId: '', error: `Unsupported transport type: ${connector.transport.type}` };
+    }
+
+    let backend: PooledBackend;
+    try {
+      backend = this.getBackend(connector, client);
+    } catch (error) {
+      return { sessionId: '', error: error instanceof Error ? error.message : String(error) };
+    }
+    return this.toBackendResponse(backend, () => backend.setSubscription(uri, subscribed));
+  }
+
+  /**
+   * Status of every backend that has been used
+   */
+  getStatus(): BackendStatus[] {
+    const clientBackends = [...this.clientBackends.values()].flatMap((instances) => [...instances.values()]);
+    return [...this.backends.values(), ...clientBackends].map((b) => b.getStatus());
+  }
+
+  /**
+   * Close a connector's connections (its clients' too) and end their sessions
+   *
+   * Used on reload when a connector was removed or its config changed;
+   * the next call opens a fresh connection and session.
+   */
+  release(connectorId: string): void {
+    const backend = this.backends.get(connectorId);
+    if (backend) {
+      backend.close('released');
+      this.backends.delete(connectorId);
+    }
+
+    for (const instance of this.clientBackends.get(connectorId)?.values() ?? []) {
+      instance.close('released');
+    }
+    this.clientBackends.delete(connectorId);
+  }
+
+  /**
+   * Close an upstream client's connections to isolated connectors (client disconnected)
+   */
+  releaseClient(clientId: string): void {
+    for (const instances of this.clientBackends.values()) {
+      instances.get(clientId)?.close('released');
+      instances.delete(clientId);
+    }
+  }
+
+  /**
+   * Kill a connector's backend as if it crashed (injected kill fault)
+   *
+   * @param clientId - Kill this client's own backend instead of the shared one
+   */
+  kill(connectorId: string, clientId?: string): void {
+    const backend = clientId !== undefined
+      ? this.clientBackends.get(connectorId)?.get(clientId)
+      : this.backends.get(connectorId);
+    backend?.kill();
+  }
+
+  /**
+   * Close all connections and end their sessions (proxy shutdown)
+   */
+  closeAll(): void {
+    this.closed = true;
+    for (const backend of this.backends.values()) {
+      backend.close('shutdown');
+    }
+    this.backends.clear();
+
+    for (const instances of this.clientBackends.values()) {
+      for (const backend of instances.values()) {
+        backend.close('shutdown');
+      }
+    }
+    this.clientBackends.clear();
+  }
+
+  /**
+   * Record something the proxy decided about a connector (e.g. refused
+   * arguments) as a transport_event in the connector's session
+   *
+   * Nothing is recorded once the pool is closed (proxy shutdown). With a
+   * client, the record goes into that client's session.
+   *
+   * @returns The session ID ('' if nothing was recorded)
+   */
+  recordEvent(connector: Connector, record: object, client?: UpstreamClient): string {
+    let backend: PooledBackend;
+    try {
+      backend = this.getBackend(connector, client);
+    } catch {
+      // Pool closed, or no room for the client's backend (its call is refused
+      // when it gets there; the shared session is not the client's to record into)
+      return '';
+    }
+    return backend.recordEvent(record);
+  }
+
+  private async toBackendResponse(
+    backend: PooledBackend,
+    send: () => Promise<JsonRpcResponse>
+  ): Promise<BackendResponse> {
+    try {
+      const response = await send();
+      const sessionId = backend.getSessionId() ?? '';
+      if (response.error) {
+        return { sessionId, error: response.error.message, errorCode: response.error.code };
+      }
+      return { sessionId, result: response.result };
+    } catch (error) {
+      return {
+        sessionId: backend.getSessionId() ?? '',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * The connection a request goes to: the client's own if a client is
+   * given (RequestRouter decides which requests are isolated), otherwise
+   * the connector's shared one
+   *
+   * @throws Once the pool is closed, so nothing is opened after closeAll()
+   */
+  private getBackend(connector: Connector, client?: UpstreamClient): PooledBackend {
+    if (this.closed) {
+      throw new Error('Backend pool is closed');
+    }
+    if (client) {
+      return this.getClientBackend(connector, client);
+    }
+
+    let backend = this.backends.get(connector.id);
+    if (!backend) {
+      backend = this.createBackend(connector);
+      this.backends.set(connector.id, backend);
+    }
+    return backend;
+  }
+
+  /**
+   * A client's connection to an isolated connector
+   *
+   * When the connector already has max_instances client connections, the
+   * least recently used idle one is closed to make room.
+   *
+   * @throws If every client connection of the connector is busy
+   */
+  private getClientBackend(connector: Connector, client: UpstreamClient): PooledBackend {
+    let instances = this.clientBackends.get(connector.id);
+    if (!instances) {
+      instances = new Map();
+      this.clientBackends.set(connector.id, instances);
+    }
+
+    let backend = instances.get(client.id);
+    if (backend) {
+      // Re-insert to mark as most recently used
+      instances.delete(client.id);
+      instances.set(client.id, backend);
+      return backend;
+    }
+
+    const maxInstances = connector.proxy?.isolation?.max_instances ?? DEFAULT_MAX_CLIENT_BACKENDS;
+    if (instances.size >= maxInstances) {
+      const idle = [...instances].find(([, instance]) => !instance.isBusy());
+      if (!idle) {
+        throw new Error(`All ${maxInstances} client backends of ${connector.id} are busy`);
+      }
+      const [evictedClientId, evicted] = idle;
+      logger.info(`Closing backend ${connector.id} of client ${evictedClientId} to make room`, 'pool');
+      evicted.close('evicted');
+      instances.delete(evictedClientId);
+    }
+
+    backend = this.createBackend(connector, client);
+    instances.set(client.id, backend);
+    return backend;
+  }
+
+  private createBackend(connector: Connector, client?: UpstreamClient): PooledBackend {
+    return new PooledBackend(connector, {
+      configDir: this.configDir,
+      eventsStore: this.eventsStore,
+      timeoutMs: this.timeoutMs,
+      idleTimeoutMs: this.idleTimeoutMs,
+      upstream: client ? this.upstreamFor(client) : this.upstream,
+      replay: this.replay[connector.id] ?? connector.proxy?.replay,
+      client,
+      onNotification: (notification) => this.emit('notification', connector.id, notification, client?.id),
+    });
+  }
+
+  /**
+   * Forwarder for a client's own backend: its server requests go to that
+   * client only, never to whichever client happens to be active
+   */
+  private upstreamFor(client: UpstreamClient): UpstreamForwarder | undefined {
+    const upstream = this.upstream;
+    return upstream && {
+      getClientCapabilities: () => upstream.getClientCapabilities(client.id),
+      forward: (connectorId, method, params) => upstream.forward(connectorId, method, params, client.id),
+    };
+  }
+}
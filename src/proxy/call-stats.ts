@@ -0,0 +1,108 @@
+/**
+ * Call Statistics
+ *
+ * Per-connector counters of the tool calls routed through the proxy:
+ * calls, errors, p50/p95 latency over the most recent calls and the last
+ * error. They are reported in the runtime state (`pfscan proxy status`,
+ * `pfscan proxy connector stats`) and last as long as the proxy process.
+ */
+
+/** Latencies kept per connector for the percentiles */
+export const MAX_LATENCY_SAMPLES = 1000;
+
+/** Counters for one connector */
+export interface CallStats {
+  /** Tool calls routed to the connector */
+  calls: number;
+  /** Calls that failed or returned isError */
+  errors: number;
+  /** Median latency of the recent calls (ms) */
+  p50Ms: number;
+  /** 95th percentile latency of the recent calls (ms) */
+  p95Ms: number;
+  /** Most recent error */
+  lastError?: {
+    message: string;
+    /** ISO timestamp */
+    at: string;
+  };
+}
+
+interface ConnectorCounters {
+  calls: number;
+  errors: number;
+  /** Ring of the last MAX_LATENCY_SAMPLES latencies */
+  latencies: number[];
+  next: number;
+  lastError?: CallStats['lastError'];
+}
+
+/**
+ * Counts tool calls per connector
+ */
+export class CallStatsTracker {
+  private readonly counters = new Map<string, ConnectorCounters>();
+
+  /**
+   * Record a finished call
+   *
+   * @param error - Error message if the call failed
+   */
+  record(connectorId: string, durationMs: number, error?: string): void {
+    let counters = this.counters.get(connectorId);
+    if (!counters) {
+      counters = { calls: 0, errors: 0, latencies: [], next: 0 };
+      this.counters.set(connectorId, counters);
+    }
+
+    counters.calls += 1;
+    counters.latencies[counters.next] = durationMs;
+    counters.next = (counters.next + 1) % MAX_LATENCY_SAMPLES;
+
+    if (error !== undefined) {
+      counters.errors += 1;
+      counters.lastError = { message: error, at: new Date().toISOString() };
+    }
+  }
+
+  /**
+   * Counters for a connector (undefined until it gets a call)
+   */
+  get(connectorId: string): CallStats | undefined {
+    const counters = this.counters.get(connectorId);
+    if (!counters) {
+      return undefined;
+    }
+
+    const sorted = [...counters.latencies].sort((a, b) => a - b);
+    return {
+      calls: counters.calls,
+      errors: counters.errors,
+      p50Ms: percentile(sorted, 50),
+      p95Ms: percentile(sorted, 95),
+      ...(counters.lastError && { lastError: counters.lastError }),
+    };
+  }
+
+  /**
+   * Counters of every connector that got a call, by connector ID
+   */
+  getAll(): Record<string, CallStats> {
+    const all: Record<string, CallStats> = {};
+    for (const connectorId of this.counters.keys()) {
+      all[connectorId] = this.get(connectorId)!;
+    }
+    return all;
+  }
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(rank, 1) - 1];
+}
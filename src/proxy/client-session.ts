@@ -0,0 +1,136 @@
+/**
+ * Upstream Client Session
+ *
+ * State the proxy keeps for one upstream MCP client: the stdio client,
+ * or one Streamable HTTP session (see http-listener.ts). Backends are
+ * shared by all clients (except for isolated connectors, see
+ * RequestRouter); everything here is per client.
+ */
+
+import type { ServerRequestAnswer } from '../transports/server-requests.js';
+import {
+  MCP_ERROR,
+  type JsonRpcNotification,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+  type UpstreamClient,
+} from './types.js';
+
+/** Message the proxy sends to a client */
+export type ClientMessage = JsonRpcResponse | JsonRpcRequest | JsonRpcNotification;
+
+/**
+ * One upstream client and the way to reach it
+ */
+export class ClientSession {
+  /** 'stdio', or the Mcp-Session-Id of an HTTP session */
+  readonly id: string;
+  /** Returns false when the message could not be delivered */
+  private readonly write: (message: ClientMessage) => boolean | void;
+
+  /** The client sent initialize */
+  initialized = false;
+
+  /** Client info (extracted from initialize) */
+  info: {
+    name: string;
+    protocolVersion: string;
+  } | null = null;
+
+  /** Capabilities the client declared in initialize */
+  capabilities: Record<string, unknown> | null = null;
+
+  /** Who authenticated the session (HTTP bearer token name) */
+  readonly authClientId?: string;
+
+  /** Requests forwarded to this client, awaiting its response */
+  readonly upstreamRequests = new Map<string, {
+    resolve: (answer: ServerRequestAnswer) => void;
+    timeout: NodeJS.Timeout;
+  }>();
+
+  /** tools/call requests being routed, by client request id (for notifications/cancelled) */
+  readonly inFlightCalls = new Map<string, AbortController>();
+
+  /** Namespaced resource URIs the client subscribed to */
+  readonly subscriptions = new Set<string>();
+
+  /** When the client last sent a request (ms since epoch) */
+  lastActiveAt = 0;
+
+  constructor(id: string, write: (message: ClientMessage) => boolean | void, authClientId?: string) {
+    this.id = id;
+    this.write = write;
+    this.authClientId = authClientId;
+  }
+
+  /**
+   * Who the client is, for routing to its own backend and recording it as the session actor
+   */
+  getIdentity(): UpstreamClient {
+    return { id: this.id, ...(this.info && { name: this.info.name }) };
+  }
+
+  /**
+   * Send a JSON-RPC message to the client
+   *
+   * @returns false if it could not be delivered (an HTTP session with no
+   *   stream open to take it)
+   */
+  send(message: ClientMessage): boolean {
+    return this.write(message) !== false;
+  }
+
+  /**
+   * Send a successful response
+   */
+  sendResult(id: string | number | null, result: unknown): void {
+    this.send({
+      jsonrpc: '2.0',
+      id,
+      result,
+    });
+  }
+
+  /**
+   * Send an error response
+   */
+  sendError(id: string | number | null, code: number, message: string, data?: unknown): void {
+    this.send({
+      jsonrpc: '2.0',
+      id,
+      error: {
+        code,
+        message,
+        ...(data !== undefined ? { data } : {}),
+      },
+    });
+  }
+
+  /**
+   * Send a notification
+   */
+  sendNotification(method: string, params?: unknown): void {
+    this.send({
+      jsonrpc: '2.0',
+      method,
+      ...(params !== undefined && { params }),
+    });
+  }
+
+  /**
+   * Fail requests still waiting for the client and cancel its tool calls
+   */
+  abandonPending(reason: string): void {
+    for (const [, pending] of this.upstreamRequests) {
+      clearTimeout(pending.timeout);
+      pending.resolve({ error: { code: MCP_ERROR.INTERNAL_ERROR, message: reason } });
+    }
+    this.upstreamRequests.clear();
+
+    for (const [, controller] of this.inFlightCalls) {
+      controller.abort();
+    }
+    this.inFlightCalls.clear();
+  }
+}
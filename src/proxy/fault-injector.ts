@@ -0,0 +1,128 @@
+/**
+ * Fault Injector
+ *
+ * Makes a connector look flaky so agents built on the proxy can be tested
+ * against misbehaving servers: tool calls get added latency, dropped
+ * responses, JSON-RPC errors, corrupted or oversized results, or a killed
+ * backend, at a configured rate. Rules come from the connector's
+ * `proxy.faults` and can be replaced at runtime over IPC
+ * (`pfscan proxy faults`).
+ *
+ * Every injected fault is recorded in the connector's session as a
+ * transport_event of type 'fault', so `view` and `analyze` can tell
+ * injected failures from real ones.
+ */
+
+import type { Connector, FaultKind, ProxyFaultRule } from '../types/index.js';
+import { matchesToolPattern } from './tool-policy.js';
+import type { FaultRuleSet } from './ipc-types.js';
+
+/** Delay added by latency faults without latency_ms */
+export const DEFAULT_FAULT_LATENCY_MS = 1000;
+
+/** Padding added by oversize faults without size_bytes (1 MiB) */
+export const DEFAULT_FAULT_SIZE_BYTES = 1024 * 1024;
+
+/** Message of error faults without one */
+export const DEFAULT_FAULT_MESSAGE = 'Injected fault';
+
+/** transport_event payload recording an injected fault */
+export interface FaultRecord {
+  type: 'fault';
+  tool: string;
+  kind: FaultKind;
+  latency_ms?: number;
+  error_code?: number;
+  size_bytes?: number;
+}
+
+/**
+ * Picks the fault (if any) to inject into a tool call
+ */
+export class FaultInjector {
+  private readonly random: () => number;
+  /** Rules set over IPC, replacing the connector's proxy.faults */
+  private readonly overrides = new Map<string, ProxyFaultRule[]>();
+
+  /**
+   * @param random - Source of numbers in [0, 1) deciding whether a rule fires
+   */
+  constructor(random: () => number = Math.random) {
+    this.random = random;
+  }
+
+  /**
+   * Rules in effect for a connector
+   */
+  getRules(connector: Connector): ProxyFaultRule[] {
+    return this.overrides.get(connector.id) ?? connector.proxy?.faults ?? [];
+  }
+
+  /**
+   * Replace a connector's rules at runtime (null goes back to proxy.faults)
+   */
+  setRules(connectorId: string, rules: ProxyFaultRule[] | null): void {
+    if (rules) {
+      this.overrides.set(connectorId, rules);
+    } else {
+      this.overrides.delete(connectorId);
+    }
+  }
+
+  /**
+   * Rules in effect, for connectors that have any (or have them switched off over IPC)
+   */
+  list(connectors: Connector[]): FaultRuleSet[] {
+    return connectors
+      .filter((connector) => this.overrides.has(connector.id) || (connector.proxy?.faults?.length ?? 0) > 0)
+      .map((connector) => ({
+        connectorId: connector.id,
+        source: this.overrides.has(connector.id) ? 'ipc' : 'config',
+        rules: this.getRules(connector),
+      }));
+  }
+
+  /**
+   * The fault to inject into a call, if any
+   *
+   * The first rule covering the tool decides; it fires for `rate` of the calls.
+   */
+  pick(connector: Connector, toolName: string): ProxyFaultRule | undefined {
+    const rule = this.getRules(connector).find((r) => !r.tools || matchesToolPattern(toolName, r.tools));
+    if (!rule) {
+      return undefined;
+    }
+    return this.random() < (rule.rate ?? 1) ? rule : undefined;
+  }
+}
+
+/**
+ * Record of a fault for events.db
+ */
+export function toFaultRecord(rule: ProxyFaultRule, toolName: string): FaultRecord {
+  return {
+    type: 'fault',
+    tool: toolName,
+    kind: rule.kind,
+    ...(rule.kind === 'latency' && { latency_ms: rule.latency_ms ?? DEFAULT_FAULT_LATENCY_MS }),
+    ...(rule.kind === 'error' && rule.error_code !== undefined && { error_code: rule.error_code }),
+    ...(rule.kind === 'oversize' && { size_bytes: rule.size_bytes ?? DEFAULT_FAULT_SIZE_BYTES }),
+  };
+}
+
+/**
+ * Replace a result with half of its JSON, as a single text item
+ *
+ * Clients that parse tool output as JSON get a truncated document.
+ */
+export function corruptContent(content: unknown[] | undefined): unknown[] {
+  const json = JSON.stringify(content ?? []);
+  return [{ type: 'text', text: json.slice(0, Math.floor(json.length / 2)) }];
+}
+
+/**
+ * Append a text item of `sizeBytes` characters to a result
+ */
+export function oversizeContent(content: unknown[] | undefined, sizeBytes: number): unknown[] {
+  return [...(content ?? []), { type: 'text', text: 'x'.repeat(sizeBytes) }];
+}
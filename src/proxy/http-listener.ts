@@ -0,0 +1,526 @@
+/**
+ * Streamable HTTP Listener
+ *
+ * Serves the aggregating proxy as a Streamable HTTP MCP endpoint so that
+ * several clients (IDEs, agents) can share one proxy process:
+ *
+ * - POST /mcp    JSON-RPC message or batch; requests are answered with
+ *                application/json, notifications/responses with 202. If a
+ *                request's progress, or a server request with no GET stream
+ *                to go to, must reach the client meanwhile, the POST is
+ *                answered as text/event-stream instead (when accepted).
+ * - GET /mcp     text/event-stream for notifications and server requests
+ * - DELETE /mcp  end the session
+ *
+ * initialize (without Mcp-Session-Id) starts a session; every later request
+ * must carry the Mcp-Session-Id returned for it. Bearer-token auth reuses
+ * the gateway's middleware; a session stays bound to the token that
+ * created it.
+ */
+
+import { randomUUID } from 'crypto';
+import type { ServerResponse } from 'http';
+import Fastify, { type FastifyInstance, type FastifyReply, type FastifyRequest } from 'fastify';
+import { logger } from './logger.js';
+import { ClientSession, type ClientMessage } from './client-session.js';
+import type { McpProxyServer } from './mcp-server.js';
+import { MCP_ERROR, type JsonRpcResponse } from './types.js';
+import { getProgressToken } from '../transports/progress.js';
+import { DEFAULT_AUTH_CONFIG, type AuthConfig } from '../gateway/auth.js';
+import { createAuthMiddleware } from '../gateway/authMiddleware.js';
+
+/** The MCP endpoint path */
+export const MCP_ENDPOINT_PATH = '/mcp';
+
+/** Session header (Streamable HTTP transport) */
+const SESSION_HEADER = 'mcp-session-id';
+
+/** Maximum request body size in bytes (1MB, same as the stdio buffer) */
+const MAX_BODY_SIZE = 1024 * 1024;
+
+/** Sessions with no request and no open stream for this long are closed */
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/** How often idle sessions are looked for */
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/** Headers of event stream responses */
+const EVENT_STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive',
+  'X-Accel-Buffering': 'no',
+};
+
+/** Hosts that only accept local connections */
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', 'localhost', '::1']);
+
+/**
+ * Listener options
+ */
+export interface HttpListenerOptions {
+  host: string;
+  port: number;
+  /** Bearer-token auth (default: none) */
+  auth?: AuthConfig;
+}
+
+/** A POST in progress */
+interface PendingPost {
+  /** Its reply, taken over once it is switched to an event stream */
+  reply: FastifyReply;
+  /** Responses to its requests by JSON-encoded request id (null until answered) */
+  responses: Map<string, JsonRpcResponse | null>;
+  /** Progress tokens of its requests (JSON-encoded) */
+  progressTokens: Set<string>;
+  /** The client accepts text/event-stream */
+  acceptsStream: boolean;
+  /** Set once the POST is answered as an event stream */
+  stream: ServerResponse | null;
+}
+
+/** An HTTP client session */
+interface HttpSession {
+  client: ClientSession;
+  /** Open GET stream, if any */
+  stream: ServerResponse | null;
+  /** POSTs in progress */
+  posts: Set<PendingPost>;
+}
+
+/**
+ * Parse a --listen value (host:port, [ipv6]:port)
+ *
+ * @throws Error if the value is not host:port with a valid port
+ */
+export function parseListenAddress(value: string): { host: string; port: number } {
+  const match = value.match(/^(?:\[([^\]]+)\]|([^:]+)):(\d+)$/);
+  if (!match) {
+    throw new Error(`Invalid listen address: ${value} (expected host:port)`);
+  }
+
+  const port = parseInt(match[3], 10);
+  if (port < 0 || port > 65535) {
+    throw new Error(`Invalid port number: ${match[3]}`);
+  }
+
+  return { host: match[1] ?? match[2], port };
+}
+
+/**
+ * Serves an McpProxyServer over Streamable HTTP
+ */
+export class HttpListener {
+  private readonly proxy: McpProxyServer;
+  private readonly options: HttpListenerOptions;
+  private readonly server: FastifyInstance;
+  private readonly sessions = new Map<string, HttpSession>();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(proxy: McpProxyServer, options: HttpListenerOptions) {
+    this.proxy = proxy;
+    this.options = options;
+    this.server = Fastify({ bodyLimit: MAX_BODY_SIZE, logger: false });
+
+    // Parse JSON ourselves so malformed bodies get a JSON-RPC parse error
+    this.server.removeContentTypeParser('application/json');
+    this.server.addContentTypeParser('application/json', { parseAs: 'string' }, (_request, body, done) => {
+      done(null, body);
+    });
+
+    this.server.addHook('onRequest', async (request, reply) => {
+      if (!this.isAllowedOrigin(request.headers.origin)) {
+        logger.warn(`Rejected request from origin ${request.headers.origin}`, 'server');
+        return reply.code(403).send(httpError('FORBIDDEN', 'Forbidden origin'));
+      }
+    });
+    this.server.addHook('preHandler', createAuthMiddleware(options.auth ?? DEFAULT_AUTH_CONFIG));
+
+    this.server.post(MCP_ENDPOINT_PATH, (request, reply) => this.handlePost(request, reply));
+    this.server.get(MCP_ENDPOINT_PATH, (request, reply) => this.handleGet(request, reply));
+    this.server.delete(MCP_ENDPOINT_PATH, (request, reply) => this.handleDelete(request, reply));
+  }
+
+  /**
+   * Start listening
+   *
+   * @returns The endpoint URL
+   */
+  async start(): Promise<string> {
+    await this.server.listen({ host: this.options.host, port: this.options.port });
+
+    this.sweepTimer = setInterval(() => this.closeIdleSessions(), SESSION_SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+
+    const url = this.url();
+    logger.info(`HTTP listener at ${url}`, 'server');
+    return url;
+  }
+
+  /**
+   * Close all sessions and stop listening
+   */
+  async stop(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+
+    for (const sessionId of [...this.sessions.keys()]) {
+      this.closeSession(sessionId);
+    }
+
+    await this.server.close();
+  }
+
+  /**
+   * The endpoint URL (after start)
+   */
+  url(): string {
+    const address = this.server.addresses()[0];
+    const host = address ? address.address : this.options.host;
+    const port = address ? address.port : this.options.port;
+    return `http://${host.includes(':') ? `[${host}]` : host}:${port}${MCP_ENDPOINT_PATH}`;
+  }
+
+  /**
+   * POST: one JSON-RPC message or a batch
+   */
+  private async handlePost(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    let body: unknown;
+    try {
+      body = JSON.parse(String(request.body ?? ''));
+    } catch {
+      return reply.code(400).send(rpcError(MCP_ERROR.PARSE_ERROR, 'Parse error'));
+    }
+
+    const messages = Array.isArray(body) ? body : [body];
+    if (messages.length === 0 || !messages.every(isJsonRpcMessage)) {
+      return reply.code(400).send(rpcError(MCP_ERROR.INVALID_REQUEST, 'Invalid Request'));
+    }
+
+    const isInitialize = messages.some((m) => m.method === 'initialize');
+    let session: HttpSession;
+
+    const sessionId = request.headers[SESSION_HEADER];
+    if (typeof sessionId !== 'string') {
+      if (!isInitialize) {
+        return reply.code(400).send(rpcError(MCP_ERROR.INVALID_REQUEST, 'Missing Mcp-Session-Id header'));
+      }
+      session = this.openSession(request.auth?.client_id);
+    } else {
+      const found = this.findSession(request, sessionId);
+      if (!found) {
+        return reply.code(404).send(rpcError(MCP_ERROR.INVALID_REQUEST, 'Session not found'));
+      }
+      session = found;
+    }
+    session.client.lastActiveAt = Date.now();
+
+    // Responses to these requests are collected for the HTTP response;
+    // everything else the session is sent goes to its GET stream. A request
+    // id may only be awaited once per session, or the responses of
+    // concurrent POSTs could not be told apart.
+    const post: PendingPost = {
+      reply,
+      responses: new Map(),
+      progressTokens: new Set(),
+      acceptsStream: String(request.headers.accept ?? '').includes('text/event-stream'),
+      stream: null,
+    };
+    const refused: JsonRpcResponse[] = [];
+    const accepted = messages.filter((message) => {
+      if (!isRequest(message)) {
+        return true;
+      }
+      const key = JSON.stringify(message.id);
+      if (post.responses.has(key) || this.findPost(session, key)) {
+        refused.push({
+          jsonrpc: '2.0',
+          id: message.id as string | number,
+          error: { code: MCP_ERROR.INVALID_REQUEST, message: `Request id ${key} is already in use` },
+        });
+        return false;
+      }
+      post.responses.set(key, null);
+      const progressToken = getProgressToken(message.params);
+      if (progressToken !== undefined) {
+        post.progressTokens.add(JSON.stringify(progressToken));
+      }
+      return true;
+    });
+
+    session.posts.add(post);
+    try {
+      await Promise.all(accepted.map((message) => this.proxy.receive(session.client, message)));
+    } catch (error) {
+      logger.error(`Message processing error: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      session.posts.delete(post);
+    }
+
+    const responses = [...post.responses.values()]
+      .filter((response): response is JsonRpcResponse => response !== null)
+      .concat(refused);
+
+    if (post.stream) {
+      // Answered as an event stream: the responses close it
+      for (const response of responses) {
+        writeEvent(post.stream, response);
+      }
+      post.stream.end();
+      return;
+    }
+
+    reply.header('Mcp-Session-Id', session.client.id);
+    if (responses.length === 0) {
+      // Notifications and responses only (or cancelled requests)
+      return reply.code(202).send();
+    }
+
+    reply.code(200).type('application/json');
+    return reply.send(Array.isArray(body) ? responses : responses[0]);
+  }
+
+  /**
+   * GET: open the session's event stream
+   */
+  private async handleGet(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    if (!String(request.headers.accept ?? '').includes('text/event-stream')) {
+      return reply
+        .code(405)
+        .header('Allow', 'POST, DELETE')
+        .send(httpError('METHOD_NOT_ALLOWED', 'GET requires Accept: text/event-stream'));
+    }
+
+    const session = this.requireSession(request, reply);
+    if (!session) {
+      return;
+    }
+
+    if (session.stream) {
+      return reply.code(409).send(httpError('CONFLICT', 'Session already has an open stream'));
+    }
+
+    // The stream is written directly, not through Fastify
+    reply.hijack();
+    reply.raw.writeHead(200, { ...EVENT_STREAM_HEADERS, 'Mcp-Session-Id': session.client.id });
+    reply.raw.write(': connected\n\n');
+
+    const stream = reply.raw;
+    session.stream = stream;
+    session.client.lastActiveAt = Date.now();
+    logger.info(`Client session ${session.client.id} opened its event stream`, 'server');
+
+    // Keep the handler pending until the stream closes
+    return new Promise<void>((resolve) => {
+      stream.on('close', () => {
+        if (session.stream === stream) {
+          session.stream = null;
+        }
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * DELETE: end the session
+   */
+  private async handleDelete(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const session = this.requireSession(request, reply);
+    if (!session) {
+      return;
+    }
+
+    this.closeSession(session.client.id);
+    return reply.code(204).send();
+  }
+
+  /**
+   * Look up the session of a request, or send the error reply
+   */
+  private requireSession(request: FastifyRequest, reply: FastifyReply): HttpSession | null {
+    const sessionId = request.headers[SESSION_HEADER];
+    if (typeof sessionId !== 'string') {
+      reply.code(400).send(rpcError(MCP_ERROR.INVALID_REQUEST, 'Missing Mcp-Session-Id header'));
+      return null;
+    }
+
+    const session = this.findSession(request, sessionId);
+    if (!session) {
+      reply.code(404).send(rpcError(MCP_ERROR.INVALID_REQUEST, 'Session not found'));
+      return null;
+    }
+    return session;
+  }
+
+  /**
+   * Find a session; sessions of another token are not visible
+   */
+  private findSession(request: FastifyRequest, sessionId: string): HttpSession | null {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.client.authClientId !== request.auth?.client_id) {
+      return null;
+    }
+    return session;
+  }
+
+  private openSession(authClientId: string | undefined): HttpSession {
+    const id = randomUUID();
+    const session: HttpSession = {
+      client: new ClientSession(id, (message) => this.deliver(session, message), authClientId),
+      stream: null,
+      posts: new Set(),
+    };
+
+    this.sessions.set(id, session);
+    this.proxy.connectClient(session.client);
+    return session;
+  }
+
+  private closeSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    this.sessions.delete(sessionId);
+    this.proxy.disconnectClient(sessionId);
+    session.stream?.end();
+    session.stream = null;
+  }
+
+  /**
+   * Close sessions the client abandoned without DELETE
+   */
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - SESSION_IDLE_TIMEOUT_MS;
+    for (const [sessionId, session] of this.sessions) {
+      if (!session.stream && session.client.lastActiveAt < cutoff) {
+        logger.info(`Closing idle client session ${sessionId}`, 'server');
+        this.closeSession(sessionId);
+      }
+    }
+  }
+
+  /**
+   * Route a message for a session: a response to a POSTed request goes
+   * back with that POST, progress to the POST of its request, anything
+   * else to the GET stream (or, without one, a POST still in progress)
+   *
+   * @returns false if the message had nowhere to go and was dropped
+   */
+  private deliver(session: HttpSession, message: ClientMessage): boolean {
+    if ('id' in message && !('method' in message)) {
+      const key = JSON.stringify(message.id);
+      const post = this.findPost(session, key);
+      if (post) {
+        post.responses.set(key, message);
+        return true;
+      }
+    }
+
+    const related = this.findProgressPost(session, message);
+    if (related) {
+      writeEvent(this.openPostStream(session, related), message);
+      return true;
+    }
+
+    if (session.stream) {
+      writeEvent(session.stream, message);
+      return true;
+    }
+
+    const latest = [...session.posts].reverse().find((post) => post.acceptsStream);
+    if (latest) {
+      writeEvent(this.openPostStream(session, latest), message);
+      return true;
+    }
+
+    logger.warn(`Dropping message for client session ${session.client.id}: no open event stream`, 'server');
+    return false;
+  }
+
+  /**
+   * The POST whose request a progress notification is about (if it can be streamed)
+   */
+  private findProgressPost(session: HttpSession, message: ClientMessage): PendingPost | undefined {
+    if (!('method' in message) || message.method !== 'notifications/progress') {
+      return undefined;
+    }
+    const token = JSON.stringify((message.params as { progressToken?: unknown } | undefined)?.progressToken ?? null);
+    for (const post of session.posts) {
+      if (post.acceptsStream && post.progressTokens.has(token)) {
+        return post;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Switch a POST in progress to an event stream (its responses follow at the end)
+   */
+  private openPostStream(session: HttpSession, post: PendingPost): ServerResponse {
+    if (!post.stream) {
+      post.reply.hijack();
+      post.reply.raw.writeHead(200, { ...EVENT_STREAM_HEADERS, 'Mcp-Session-Id': session.client.id });
+      post.stream = post.reply.raw;
+    }
+    return post.stream;
+  }
+
+  /**
+   * The POST still awaiting the response to a request id
+   */
+  private findPost(session: HttpSession, key: string): PendingPost | undefined {
+    for (const post of session.posts) {
+      if (post.responses.get(key) === null) {
+        return post;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Browsers may only reach a loopback listener from loopback origins
+   * (prevents DNS rebinding); requests without Origin are not from browsers
+   */
+  private isAllowedOrigin(origin: string | undefined): boolean {
+    if (!origin || !LOOPBACK_HOSTS.has(this.options.host)) {
+      return true;
+    }
+
+    try {
+      const hostname = new URL(origin).hostname.replace(/^\[(.*)\]$/, '$1');
+      return LOOPBACK_HOSTS.has(hostname);
+    } catch {
+      return false;
+    }
+  }
+}
+
+function isJsonRpcMessage(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    (value as Record<string, unknown>).jsonrpc === '2.0';
+}
+
+/** A message that gets a response (not a notification, and not the client's own response) */
+function isRequest(message: Record<string, unknown>): boolean {
+  return message.id !== undefined && !('result' in message || 'error' in message);
+}
+
+/** Write a message to an event stream, unless the client has gone */
+function writeEvent(stream: ServerResponse, message: ClientMessage | JsonRpcResponse): void {
+  if (!stream.destroyed) {
+    stream.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+}
+
+function rpcError(code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id: null, error: { code, message } };
+}
+
+/** Error body in the gateway's format, for errors outside JSON-RPC */
+function httpError(code: string, message: string): { error: { code: string; message: string } } {
+  return { error: { code, message } };
+}
@@ -12,24 +12,81 @@ export {
   type RingBufferConfig,
 } from './logger.js';
 export { ToolAggregator } from './tool-aggregator.js';
+export { PromptAggregator } from './prompt-aggregator.js';
+export {
+  ResourceAggregator,
+  namespaceResourceUri,
+  parseResourceUri,
+  type AggregatedResources,
+} from './resource-aggregator.js';
 export { RequestRouter } from './request-router.js';
+export {
+  ResponseCache,
+  DEFAULT_CACHE_MAX_ENTRIES,
+  cacheKey,
+  isCachedTool,
+  type CacheStats,
+} from './response-cache.js';
+export {
+  ApprovalGate,
+  DEFAULT_APPROVAL_TIMEOUT_SECONDS,
+  getApprovalReason,
+  type ApprovalOutcome,
+  type ApprovalRecord,
+} from './approval-gate.js';
+export {
+  FaultInjector,
+  DEFAULT_FAULT_LATENCY_MS,
+  DEFAULT_FAULT_SIZE_BYTES,
+  type FaultRecord,
+} from './fault-injector.js';
+export { CallStatsTracker, MAX_LATENCY_SAMPLES, type CallStats } from './call-stats.js';
+export {
+  META_TOOLS,
+  SEARCH_TOOLS,
+  DESCRIBE_TOOL,
+  INVOKE_TOOL,
+  searchTools,
+  describeTool,
+  type ToolDefinition,
+  type ToolMatch,
+} from './meta-tools.js';
+export { BackendPool, DEFAULT_MAX_CLIENT_BACKENDS, type BackendResponse } from './backend-pool.js';
 export { McpProxyServer } from './mcp-server.js';
+export { ClientSession, type ClientMessage } from './client-session.js';
+export {
+  HttpListener,
+  MCP_ENDPOINT_PATH,
+  parseListenAddress,
+  type HttpListenerOptions,
+} from './http-listener.js';
 export {
   RuntimeStateManager,
   DEFAULT_RUNTIME_STATE,
   type ClientState,
   type ClientInfo,
   type ConnectorSummary,
+  type ProxyMode,
   type ProxyRuntimeState,
 } from './runtime-state.js';
 export {
   NAMESPACE_SEPARATOR,
+  BACKEND_RESOURCE_URI_PREFIX,
   MCP_ERROR,
   type ProxyOptions,
+  type BackendStatus,
   type NamespacedTool,
+  type NamespacedPrompt,
+  type PromptInfo,
   type ParsedNamespace,
   type RouteResult,
+  type PromptRouteResult,
+  type ResourceInfo,
+  type ResourceTemplateInfo,
+  type ParsedResourceUri,
+  type ResourceRouteResult,
   type JsonRpcRequest,
   type JsonRpcResponse,
   type McpErrorCode,
+  type UpstreamClient,
 } from './types.js';
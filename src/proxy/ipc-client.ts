@@ -7,13 +7,18 @@
 
 import * as net from 'net';
 import type {
+  ApprovalDecision,
+  FaultRuleSet,
   IpcCommand,
   IpcResponse,
   IpcMessage,
+  PendingApproval,
+  ProxyCallEvent,
   ReloadResult,
 } from './ipc-types.js';
 import { IPC_TIMEOUT_MS, generateRequestId, getSocketPath } from './ipc-types.js';
 import type { ProxyRuntimeState } from './runtime-state.js';
+import type { ProxyFaultRule } from '../types/index.js';
 
 /**
  * Result type for IPC operations
@@ -24,6 +29,16 @@ export interface IpcResult<T = void> {
   error?: string;
 }
 
+/**
+ * An open stream of call events
+ */
+export interface IpcSubscription {
+  /** Stop receiving events */
+  close(): void;
+  /** Resolves when the stream ends (closed, or the proxy stopped) */
+  closed: Promise<void>;
+}
+
 /**
  * IPC Client for sending commands to the proxy server
  */
@@ -105,6 +120,176 @@ export class IpcClient {
     }
   }
 
+  /**
+   * List the tool calls waiting for approval
+   */
+  async approvals(): Promise<IpcResult<PendingApproval[]>> {
+    const response = await this.sendCommand({ type: 'approvals' });
+
+    if (response.type === 'approvals') {
+      return {
+        success: true,
+        data: response.data,
+      };
+    }
+
+    return {
+      success: false,
+      error: response.type === 'error' ? response.error : 'Unexpected response',
+    };
+  }
+
+  /**
+   * Allow or deny a held tool call
+   *
+   * @param by - Who decided, recorded with the decision
+   */
+  async approve(id: string, decision: ApprovalDecision, by?: string): Promise<IpcResult> {
+    const response = await this.sendCommand({ type: 'approve', id, decision, by });
+
+    if (response.type === 'ok') {
+      return { success: true };
+    }
+
+    return {
+      success: false,
+      error: response.type === 'error' ? response.error : 'Unexpected response',
+    };
+  }
+
+  /**
+   * Get the fault rules in effect
+   */
+  async faults(): Promise<IpcResult<FaultRuleSet[]>> {
+    const response = await this.sendCommand({ type: 'faults' });
+
+    if (response.type === 'faults') {
+      return {
+        success: true,
+        data: response.data,
+      };
+    }
+
+    return {
+      success: false,
+      error: response.type === 'error' ? response.error : 'Unexpected response',
+    };
+  }
+
+  /**
+   * Replace a connector's fault rules (null goes back to its proxy.faults)
+   */
+  async setFaults(connectorId: string, rules: ProxyFaultRule[] | null): Promise<IpcResult> {
+    const response = await this.sendCommand({ type: 'set_faults', connectorId, rules });
+
+    if (response.type === 'ok') {
+      return { success: true };
+    }
+
+    return {
+      success: false,
+      error: response.type === 'error' ? response.error : 'Unexpected response',
+    };
+  }
+
+  /**
+   * Route tool calls to a connector again
+   */
+  async enableConnector(connectorId: string): Promise<IpcResult> {
+    return this.sendConnectorCommand({ type: 'enable_connector', connectorId });
+  }
+
+  /**
+   * Stop exposing a connector and shut its backend down (until enabled or reloaded)
+   */
+  async disableConnector(connectorId: string): Promise<IpcResult> {
+    return this.sendConnectorCommand({ type: 'disable_connector', connectorId });
+  }
+
+  /**
+   * Restart a connector's backend with a fresh session
+   */
+  async restartConnector(connectorId: string): Promise<IpcResult> {
+    return this.sendConnectorCommand({ type: 'restart_connector', connectorId });
+  }
+
+  /**
+   * Stream the tool calls the proxy routes
+   *
+   * Resolves once the proxy accepted the subscription; events then arrive
+   * until close() or the proxy stops.
+   */
+  async subscribe(onEvent: (event: ProxyCallEvent) => void): Promise<IpcSubscription> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection(this.socketPath);
+      const requestId = generateRequestId();
+      let subscribed = false;
+      let buffer = '';
+      let onClosed: () => void;
+      const closed = new Promise<void>((done) => {
+        onClosed = done;
+      });
+
+      const timeout = setTimeout(() => {
+        if (!subscribed) {
+          socket.destroy();
+          reject(new Error('IPC request timed out'));
+        }
+      }, IPC_TIMEOUT_MS);
+
+      socket.on('connect', () => {
+        const message: IpcMessage = { id: requestId, kind: 'request', command: { type: 'subscribe' } };
+        socket.write(JSON.stringify(message) + '\n');
+      });
+
+      socket.on('data', (data) => {
+        buffer += data.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+
+          let message: IpcMessage;
+          try {
+            message = JSON.parse(line);
+          } catch {
+            continue;
+          }
+          if (message.id !== requestId) continue;
+
+          if (message.kind === 'event' && message.event) {
+            onEvent(message.event);
+          } else if (message.kind === 'response' && !subscribed) {
+            clearTimeout(timeout);
+            if (message.response?.type !== 'ok') {
+              socket.destroy();
+              reject(new Error(message.response?.type === 'error' ? message.response.error : 'Unexpected response'));
+              return;
+            }
+            subscribed = true;
+            resolve({ close: () => socket.end(), closed });
+          }
+        }
+      });
+
+      socket.on('error', (err) => {
+        clearTimeout(timeout);
+        if (!subscribed) {
+          reject(new Error(`Connection error: ${err.message}`));
+        }
+      });
+
+      socket.on('close', () => {
+        clearTimeout(timeout);
+        if (!subscribed) {
+          reject(new Error('Connection closed before response'));
+        }
+        onClosed();
+      });
+    });
+  }
+
   /**
    * Check if the proxy is running by attempting to connect
    */
@@ -117,6 +302,22 @@ export class IpcClient {
     }
   }
 
+  /**
+   * Send a connector command answered with ok or error
+   */
+  private async sendConnectorCommand(command: IpcCommand): Promise<IpcResult> {
+    const response = await this.sendCommand(command);
+
+    if (response.type === 'ok') {
+      return { success: true };
+    }
+
+    return {
+      success: false,
+      error: response.type === 'error' ? response.error : 'Unexpected response',
+    };
+  }
+
   /**
    * Send a command to the proxy and wait for response
    */
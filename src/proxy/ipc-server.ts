@@ -2,7 +2,8 @@
  * IPC Server for Proxy Control
  *
  * Listens on Unix Domain Socket (Unix) or Named Pipe (Windows)
- * for control commands from psh shell.
+ * for control commands from psh shell. A connection that sends
+ * `subscribe` stays open and gets every tool call as an event message.
  */
 
 import * as net from 'net';
@@ -12,6 +13,7 @@ import type {
   IpcResponse,
   IpcMessage,
   IpcHandlers,
+  ProxyCallEvent,
   ReloadResult,
 } from './ipc-types.js';
 import { generateRequestId } from './ipc-types.js';
@@ -24,6 +26,8 @@ export class IpcServer {
   private socketPath: string;
   private handlers: IpcHandlers;
   private connections: Set<net.Socket> = new Set();
+  /** Subscribed connections, with the ID of their subscribe request */
+  private readonly subscribers = new Map<net.Socket, string>();
 
   constructor(socketPath: string, handlers: IpcHandlers) {
     this.socketPath = socketPath;
@@ -67,6 +71,7 @@ export class IpcServer {
       socket.destroy();
     }
     this.connections.clear();
+    this.subscribers.clear();
 
     // Close the server
     if (this.server) {
@@ -84,6 +89,15 @@ export class IpcServer {
     }
   }
 
+  /**
+   * Send a tool call to every subscribed connection
+   */
+  publish(event: ProxyCallEvent): void {
+    for (const [socket, id] of this.subscribers) {
+      this.sendResponse(socket, { id, kind: 'event', event });
+    }
+  }
+
   /**
    * Handle a new client connection
    */
@@ -121,10 +135,12 @@ export class IpcServer {
 
     socket.on('close', () => {
       this.connections.delete(socket);
+      this.subscribers.delete(socket);
     });
 
     socket.on('error', () => {
       this.connections.delete(socket);
+      this.subscribers.delete(socket);
     });
   }
 
@@ -183,6 +199,57 @@ export class IpcServer {
           break;
         }
 
+        case 'approvals':
+          response = {
+            type: 'approvals',
+            data: this.handlers.onListApprovals(),
+          };
+          break;
+
+        case 'approve':
+          response = this.handlers.onApprove(command.id, command.decision, command.by)
+            ? { type: 'ok', message: `${command.decision}: ${command.id}` }
+            : { type: 'error', error: `No pending approval: ${command.id}` };
+          break;
+
+        case 'faults':
+          response = {
+            type: 'faults',
+            data: this.handlers.onListFaults(),
+          };
+          break;
+
+        case 'set_faults':
+          this.handlers.onSetFaults(command.connectorId, command.rules);
+          response = {
+            type: 'ok',
+            message: command.rules
+              ? `${command.rules.length} fault rule(s) set for ${command.connectorId}`
+              : `Fault rules for ${command.connectorId} reset to config`,
+          };
+          break;
+
+        case 'enable_connector':
+        case 'disable_connector': {
+          const enabled = command.type === 'enable_connector';
+          await this.handlers.onSetConnectorEnabled(command.connectorId, enabled);
+          response = {
+            type: 'ok',
+            message: `${enabled ? 'Enabled' : 'Disabled'} ${command.connectorId}`,
+          };
+          break;
+        }
+
+        case 'restart_connector':
+          await this.handlers.onRestartConnector(command.connectorId);
+          response = { type: 'ok', message: `Restarted ${command.connectorId}` };
+          break;
+
+        case 'subscribe':
+          this.subscribers.set(socket, message.id);
+          response = { type: 'ok', message: 'Subscribed to call events' };
+          break;
+
         default:
           response = {
             type: 'error',
@@ -7,6 +7,7 @@
 
 import { join } from 'path';
 import type { ProxyRuntimeState } from './runtime-state.js';
+import type { ProxyFaultRule } from '../types/index.js';
 
 /**
  * IPC commands that can be sent to the proxy server
@@ -14,7 +15,71 @@ import type { ProxyRuntimeState } from './runtime-state.js';
 export type IpcCommand =
   | { type: 'reload' }
   | { type: 'stop' }
-  | { type: 'status' };
+  | { type: 'status' }
+  | { type: 'approvals' }
+  | { type: 'approve'; id: string; decision: ApprovalDecision; by?: string }
+  | { type: 'faults' }
+  /** rules: null drops the rules set over IPC (proxy.faults applies again) */
+  | { type: 'set_faults'; connectorId: string; rules: ProxyFaultRule[] | null }
+  | { type: 'enable_connector'; connectorId: string }
+  | { type: 'disable_connector'; connectorId: string }
+  | { type: 'restart_connector'; connectorId: string }
+  /** Keeps the connection open and streams a ProxyCallEvent per tool call */
+  | { type: 'subscribe' };
+
+/**
+ * Answer to a held tool call ("always" also allows later calls to the tool)
+ */
+export type ApprovalDecision = 'allow' | 'deny' | 'always';
+
+/**
+ * A tools/call the proxy holds until it is approved
+ */
+export interface PendingApproval {
+  /** Short ID to answer with */
+  id: string;
+  connectorId: string;
+  /** Tool name without the connector prefix */
+  tool: string;
+  arguments: Record<string, unknown>;
+  /** Why approval is needed */
+  reason: string;
+  /** ISO timestamps; the call is denied at expiresAt */
+  requestedAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Fault rules in effect for a connector
+ */
+export interface FaultRuleSet {
+  connectorId: string;
+  /** config = proxy.faults; ipc = set with `pfscan proxy faults` */
+  source: 'config' | 'ipc';
+  rules: ProxyFaultRule[];
+}
+
+/**
+ * How a tool call ended (dropped = injected drop fault)
+ */
+export type CallOutcome = 'ok' | 'error' | 'cancelled' | 'dropped';
+
+/**
+ * A tool call routed to a connector, streamed to subscribers
+ */
+export interface ProxyCallEvent {
+  /** ISO timestamp of the end of the call */
+  ts: string;
+  connectorId: string;
+  /** Tool name without the connector prefix */
+  tool: string;
+  /** Client name from initialize, if known */
+  client?: string;
+  durationMs: number;
+  outcome: CallOutcome;
+  /** Error message (outcome 'error') */
+  error?: string;
+}
 
 /**
  * Reload result details
@@ -32,20 +97,24 @@ export interface ReloadResult {
 export type IpcResponse =
   | { type: 'ok'; message?: string; data?: ReloadResult }
   | { type: 'error'; error: string }
-  | { type: 'status'; data: ProxyRuntimeState };
+  | { type: 'status'; data: ProxyRuntimeState }
+  | { type: 'approvals'; data: PendingApproval[] }
+  | { type: 'faults'; data: FaultRuleSet[] };
 
 /**
- * IPC message envelope (used for both request and response)
+ * IPC message envelope (used for requests, responses and subscription events)
  */
 export interface IpcMessage {
-  /** Unique request ID for correlation */
+  /** Unique request ID for correlation (events carry their subscribe request's ID) */
   id: string;
   /** Message type */
-  kind: 'request' | 'response';
+  kind: 'request' | 'response' | 'event';
   /** Command (for requests) */
   command?: IpcCommand;
   /** Response (for responses) */
   response?: IpcResponse;
+  /** Call event (for events) */
+  event?: ProxyCallEvent;
 }
 
 /**
@@ -55,6 +124,16 @@ export interface IpcHandlers {
   onReload: () => Promise<ReloadResult>;
   onStop: () => void;
   onStatus: () => ProxyRuntimeState;
+  onListApprovals: () => PendingApproval[];
+  /** Returns false if no call with that ID is waiting */
+  onApprove: (id: string, decision: ApprovalDecision, by?: string) => boolean;
+  onListFaults: () => FaultRuleSet[];
+  /** Throws if the connector is unknown or the rules are invalid */
+  onSetFaults: (connectorId: string, rules: ProxyFaultRule[] | null) => void;
+  /** Throws if the connector is unknown */
+  onSetConnectorEnabled: (connectorId: string, enabled: boolean) => Promise<void>;
+  /** Throws if the connector is unknown or disabled */
+  onRestartConnector: (connectorId: string) => Promise<void>;
 }
 
 /**
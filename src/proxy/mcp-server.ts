@@ -1,17 +1,31 @@
 /**
  * MCP Proxy Server (Phase 5.0+)
  *
- * A stdio-based MCP server that aggregates tools from multiple backend
- * connectors and routes requests accordingly.
+ * An MCP server that aggregates tools from multiple backend connectors
+ * and routes requests accordingly. Clients attach over stdio, or several
+ * at once over Streamable HTTP (see http-listener.ts).
  *
  * Supported methods:
  * - initialize
  * - notifications/initialized
  * - tools/list
  * - tools/call
- * - resources/list (Phase 6.1+)
- * - resources/read (Phase 6.1+)
+ * - prompts/list, prompts/get (aggregated from backends)
+ * - resources/list, resources/read (Phase 6.1+; backend resources aggregated)
+ * - resources/templates/list, resources/subscribe, resources/unsubscribe
  * - ui/initialize (Phase 6.1+)
+ *
+ * With lazyTools, tools/list has only meta-tools (search_tools,
+ * describe_tool, invoke_tool) standing in for the aggregated catalog
+ * (see meta-tools.ts).
+ *
+ * Server-initiated requests from backends (sampling/createMessage,
+ * roots/list, elicitation/create) can be forwarded to the most recently
+ * active client (or, from a client's own backend, to that client), and
+ * backend notifications/resources/updated is relayed to the clients
+ * subscribed to the resource. A backend's tools/prompts/resources
+ * list_changed re-lists only that backend and is relayed to every client as
+ * one list_changed notification.
  */
 
 import { EventEmitter } from 'events';
@@ -22,13 +36,32 @@ import { randomUUID } from 'crypto';
 import { dirname } from 'path';
 import { logger, initializeRingBuffer, isVerbose } from './logger.js';
 import { ToolAggregator } from './tool-aggregator.js';
+import { PromptAggregator } from './prompt-aggregator.js';
+import { ResourceAggregator, namespaceResourceUri, parseResourceUri } from './resource-aggregator.js';
 import { RequestRouter } from './request-router.js';
+import { ApprovalGate } from './approval-gate.js';
+import { FaultInjector } from './fault-injector.js';
+import { CallStatsTracker } from './call-stats.js';
+import {
+  META_TOOLS,
+  SEARCH_TOOLS,
+  DESCRIBE_TOOL,
+  INVOKE_TOOL,
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  searchTools,
+  describeTool,
+} from './meta-tools.js';
+import { BackendPool } from './backend-pool.js';
+import { ClientSession } from './client-session.js';
 import {
   RuntimeStateManager,
   type ConnectorSummary,
+  type ProxyMode,
 } from './runtime-state.js';
 import {
   MCP_ERROR,
+  DEFAULT_TIMEOUT,
   type ProxyOptions,
   type JsonRpcRequest,
   type JsonRpcResponse,
@@ -38,34 +71,59 @@ import {
   type ToolsListResult,
   type ToolsCallParams,
   type ToolsCallResult,
+  type PromptsListResult,
+  type PromptsGetParams,
   type ResourcesListResult,
+  type ResourceTemplatesListResult,
   type ResourcesReadParams,
   type ResourcesReadResult,
   type UiInitializeParams,
   type UiInitializeResult,
 } from './types.js';
 import { IpcServer } from './ipc-server.js';
-import { getSocketPath, type ReloadResult } from './ipc-types.js';
+import { getSocketPath, type CallOutcome, type ReloadResult } from './ipc-types.js';
 import { ConfigManager } from '../config/manager.js';
-import type { Connector } from '../types/config.js';
+import { validateProxyFaultRules } from '../config/schema.js';
+import type { Connector, ProxyFaultRule } from '../types/config.js';
 import { EventsStore } from '../db/events-store.js';
 import { sanitizeToolCall, generateCorrelationIds, uiSessionIdFromToken } from './bridge-utils.js';
+import {
+  SERVER_REQUEST_CAPABILITIES,
+  type ServerRequestAnswer,
+  type UpstreamForwarder,
+} from '../transports/server-requests.js';
+import { getProgressToken } from '../transports/progress.js';
+import { DEFAULT_PROTOCOL_VERSION } from '../transports/protocol-versions.js';
 import type {
   ToolsCallParamsWithBridge,
   CorrelationIds,
 } from './types.js';
 
-const PROTOCOL_VERSION = '2024-11-05';
 const UI_PROTOCOL_VERSION = '2025-11-21';
 const SERVER_NAME = 'proofscan-proxy';
 const SERVER_VERSION = '0.7.0';
 
+/** Prefix for ids of requests the proxy sends to the upstream client */
+const UPSTREAM_REQUEST_ID_PREFIX = 'proxy-';
+
 /** Maximum buffer size in bytes (1MB) - prevents memory exhaustion attacks */
 const MAX_BUFFER_SIZE = 1024 * 1024;
 
 /** UI Resource URI for trace viewer */
 const TRACE_VIEWER_URI = 'ui://proofscan/trace-viewer';
 
+/** Backend list_changed notifications and the list each one refreshes */
+const LIST_CHANGED_KINDS: Record<string, ListKind> = {
+  'notifications/tools/list_changed': 'tools',
+  'notifications/prompts/list_changed': 'prompts',
+  'notifications/resources/list_changed': 'resources',
+};
+
+type ListKind = 'tools' | 'prompts' | 'resources';
+
+/** How long list_changed notifications are collected before re-listing */
+const LIST_CHANGED_DEBOUNCE_MS = 50;
+
 /** Maximum URI length to prevent buffer overflow attacks */
 const MAX_URI_LENGTH = 2048;
 
@@ -153,28 +211,60 @@ function redactSecrets(obj: unknown): unknown {
   return obj;
 }
 
+/** Status summary of a connector with its published tool count */
+function toConnectorSummary(connector: Connector, toolCount: number): ConnectorSummary {
+  if (!connector.enabled) {
+    return { id: connector.id, toolCount: 0, healthy: false, disabled: true };
+  }
+  return {
+    id: connector.id,
+    toolCount,
+    healthy: toolCount > 0,
+    error: toolCount === 0 ? 'No tools loaded' : undefined,
+  };
+}
+
 /**
  * MCP Proxy Server
  *
- * Reads JSON-RPC from stdin, writes responses to stdout.
- * All logging goes to stderr.
+ * Reads JSON-RPC from stdin, writes responses to stdout; HTTP clients
+ * are attached with connectClient. All logging goes to stderr.
  */
-export class McpProxyServer extends EventEmitter {
+export class McpProxyServer extends EventEmitter implements UpstreamForwarder {
   private readonly options: ProxyOptions;
   private aggregator: ToolAggregator;
+  private promptAggregator: PromptAggregator;
+  private resourceAggregator: ResourceAggregator;
   private router: RequestRouter;
+  private readonly pool: BackendPool;
+  /** Tool calls held for approval (kept across reloads) */
+  private readonly approvals: ApprovalGate;
+  /** Faults injected into tool calls (rules set over IPC are kept across reloads) */
+  private readonly faults = new FaultInjector();
+  /** Tool call counters per connector (kept across reloads) */
+  private readonly callStats = new CallStatsTracker();
   private readonly stateManager: RuntimeStateManager;
   private readonly configPath: string;
   private ipcServer: IpcServer | null = null;
   private buffer = '';
-  private initialized = false;
   private running = false;
+  private mode: ProxyMode = 'stdio';
+
+  /** The client on stdin/stdout */
+  private readonly stdioClient = new ClientSession('stdio', (message) => {
+    process.stdout.write(JSON.stringify(message) + '\n');
+  });
+
+  /** Connected clients, by session id (the stdio client is always present) */
+  private readonly clients = new Map<string, ClientSession>([['stdio', this.stdioClient]]);
 
-  /** Current client info (extracted from initialize) */
-  private currentClient: {
-    name: string;
-    protocolVersion: string;
-  } | null = null;
+  private nextUpstreamRequestId = 1;
+
+  /** Backends whose list_changed is waiting to be re-listed, by list kind */
+  private readonly pendingListChanges = new Map<ListKind, {
+    connectorIds: Set<string>;
+    timer: NodeJS.Timeout;
+  }>();
 
   /** Session tokens for UI validation */
   private sessionTokens: Set<string> = new Set();
@@ -186,8 +276,15 @@ export class McpProxyServer extends EventEmitter {
     super();
     this.options = options;
     this.configPath = configPath || join(options.configDir, 'config.json');
-    this.aggregator = new ToolAggregator(options);
-    this.router = new RequestRouter(options, this.aggregator);
+    this.pool = new BackendPool(options, this);
+    this.approvals = new ApprovalGate(options.configDir);
+    this.aggregator = new ToolAggregator(options, this.pool);
+    this.promptAggregator = new PromptAggregator(options, this.pool);
+    this.resourceAggregator = new ResourceAggregator(options, this.pool);
+    this.router = new RequestRouter(this.aggregator, this.pool, this.approvals, this.faults);
+    this.pool.on('notification', (connectorId: string, notification: JsonRpcNotification, clientId?: string) => {
+      this.handleBackendNotification(connectorId, notification, clientId);
+    });
     this.stateManager = new RuntimeStateManager(options.configDir);
     this.eventsStore = new EventsStore(options.configDir);
   }
@@ -195,14 +292,16 @@ export class McpProxyServer extends EventEmitter {
   /**
    * Start the proxy server
    *
-   * Begins reading from stdin and processing JSON-RPC messages.
+   * Begins reading from stdin and processing JSON-RPC messages, unless
+   * stdio is false (clients then attach through connectClient).
    */
-  async start(): Promise<void> {
+  async start(options: { stdio?: boolean } = {}): Promise<void> {
     if (this.running) {
       throw new Error('Server is already running');
     }
 
     this.running = true;
+    this.mode = options.stdio === false ? 'http' : 'stdio';
     logger.info('MCP proxy server starting...', 'server');
 
     // Initialize ring buffer for log viewing
@@ -219,26 +318,34 @@ export class McpProxyServer extends EventEmitter {
 
     // Initialize runtime state
     const logLevel = isVerbose() ? 'INFO' : 'WARN';
-    await this.stateManager.initialize(connectorSummaries, logLevel);
+    await this.stateManager.initialize(connectorSummaries, logLevel, this.mode);
+    this.stateManager.setCacheStatsSource(() => this.router.getCacheStats());
+    this.stateManager.setCallStatsSource(() => this.callStats.getAll());
     this.stateManager.startHeartbeat();
 
     // Preload tools from all connectors (eager loading)
     // This prevents cold start delays when the first tools/list arrives
     await this.aggregator.preloadTools();
+    await this.promptAggregator.preloadPrompts();
+    await this.resourceAggregator.preloadResources();
 
     // Update connector summaries with actual tool counts
     await this.updateConnectorSummaries();
 
     // Set up stdin
-    process.stdin.setEncoding('utf-8');
-    process.stdin.on('data', (chunk: string) => this.handleData(chunk));
-    process.stdin.on('end', () => this.handleEnd());
-    process.stdin.on('error', (err) => this.handleError(err));
-
-    // Resume stdin
-    process.stdin.resume();
+    if (this.mode === 'stdio') {
+      process.stdin.setEncoding('utf-8');
+      process.stdin.on('data', (chunk: string) => this.handleData(chunk));
+      process.stdin.on('end', () => this.handleEnd());
+      process.stdin.on('error', (err) => this.handleError(err));
+
+      // Resume stdin
+      process.stdin.resume();
+    } else {
+      this.clients.delete(this.stdioClient.id);
+    }
 
-    // Start IPC server for control commands (reload, stop, status)
+    // Start IPC server for control commands (reload, stop, status, connector control)
     await this.startIpcServer();
 
     logger.info(`Proxy started with ${this.options.connectors.length} connector(s)`, 'server');
@@ -254,6 +361,12 @@ export class McpProxyServer extends EventEmitter {
       onReload: () => this.handleReload(),
       onStop: () => this.handleIpcStop(),
       onStatus: () => this.stateManager.getState(),
+      onListApprovals: () => this.approvals.list(),
+      onApprove: (id, decision, by) => this.approvals.decide(id, decision, by),
+      onListFaults: () => this.faults.list(this.options.connectors),
+      onSetFaults: (connectorId, rules) => this.setFaultRules(connectorId, rules),
+      onSetConnectorEnabled: (connectorId, enabled) => this.setConnectorEnabled(connectorId, enabled),
+      onRestartConnector: (connectorId) => this.restartConnector(connectorId),
     });
 
     try {
@@ -265,6 +378,114 @@ export class McpProxyServer extends EventEmitter {
     }
   }
 
+  /**
+   * Replace a connector's fault rules (IPC)
+   */
+  private setFaultRules(connectorId: string, rules: ProxyFaultRule[] | null): void {
+    if (!this.options.connectors.some((c) => c.id === connectorId)) {
+      throw new Error(`Connector not found: ${connectorId}`);
+    }
+    if (rules) {
+      const errors = validateProxyFaultRules(rules, 'faults');
+      if (errors.length > 0) {
+        throw new Error(errors.map((e) => `${e.path}: ${e.message}`).join('; '));
+      }
+    }
+
+    this.faults.setRules(connectorId, rules);
+    logger.info(
+      rules ? `Fault rules for ${connectorId} set over IPC (${rules.length})` : `Fault rules for ${connectorId} reset to config`,
+      'fault'
+    );
+  }
+
+  /**
+   * Turn a connector on or off without reloading the others (IPC)
+   *
+   * A disabled connector lists no tools, prompts or resources, refuses
+   * calls and has its backend shut down; a reload brings back the config.
+   */
+  private async setConnectorEnabled(connectorId: string, enabled: boolean): Promise<void> {
+    const index = this.options.connectors.findIndex((c) => c.id === connectorId);
+    if (index === -1) {
+      throw new Error(`Connector not found: ${connectorId}`);
+    }
+    const connector = this.options.connectors[index];
+    if (connector.enabled === enabled) {
+      return;
+    }
+
+    // Replaced in place: the aggregators (and through them the router) share this array
+    this.options.connectors[index] = { ...connector, enabled };
+    if (!enabled) {
+      this.pool.release(connectorId);
+    }
+    logger.info(`${enabled ? 'Enabled' : 'Disabled'} ${connectorId} over IPC`, 'server');
+
+    await this.refreshConnector(connectorId);
+  }
+
+  /**
+   * Restart one connector's backend with a fresh session (IPC)
+   */
+  private async restartConnector(connectorId: string): Promise<void> {
+    const connector = this.options.connectors.find((c) => c.id === connectorId);
+    if (!connector) {
+      throw new Error(`Connector not found: ${connectorId}`);
+    }
+    if (!connector.enabled) {
+      throw new Error(`Connector is disabled: ${connectorId}`);
+    }
+
+    logger.info(`Restarting ${connectorId} over IPC`, 'server');
+    this.pool.release(connectorId);
+
+    // Re-listing opens the new backend, so a server that fails to start shows up now
+    await this.refreshConnector(connectorId);
+  }
+
+  /**
+   * Re-list one connector's tools, prompts and resources, tell every
+   * client and update its status summary
+   */
+  private async refreshConnector(connectorId: string): Promise<void> {
+    const refreshed = await Promise.all([
+      this.aggregator.refreshConnector(connectorId),
+      this.promptAggregator.refreshConnector(connectorId),
+      this.resourceAggregator.refreshConnector(connectorId),
+    ]);
+
+    if (this.running) {
+      const kinds = (['tools', 'prompts', 'resources'] as const).filter((_, i) => refreshed[i]);
+      for (const client of this.clients.values()) {
+        if (client.initialized) {
+          for (const kind of kinds) {
+            client.sendNotification(`notifications/${kind}/list_changed`);
+          }
+        }
+      }
+    }
+
+    const connector = this.options.connectors.find((c) => c.id === connectorId);
+    if (connector) {
+      const tools = await this.aggregator.getAggregatedTools();
+      const toolCount = tools.filter((t) => t.connectorId === connectorId).length;
+      await this.stateManager.updateConnector(toConnectorSummary(connector, toolCount));
+    }
+  }
+
+  /**
+   * The connectors of a config the proxy exposes: the enabled ones, and
+   * those answered from recordings (--replay), which are served even when
+   * disabled in the config
+   */
+  private exposedConnectors(connectors: Connector[]): Connector[] {
+    const replay = this.options.replay ?? {};
+    return connectors
+      .filter((c) => c.enabled || Object.hasOwn(replay, c.id))
+      .map((c) => (c.enabled ? c : { ...c, enabled: true }));
+  }
+
   /**
    * Handle reload command from IPC
    */
@@ -283,9 +504,8 @@ export class McpProxyServer extends EventEmitter {
       const newConfig = await configManager.load();
 
       // Get connector IDs that are currently enabled
-      const newConnectorIds = new Set(
-        newConfig.connectors.filter((c: Connector) => c.enabled).map((c: Connector) => c.id)
-      );
+      const newConnectors = this.exposedConnectors(newConfig.connectors);
+      const newConnectorIds = new Set(newConnectors.map((c) => c.id));
       const currentConnectorIds = new Set(this.options.connectors.map((c) => c.id));
 
       // Find changed connectors
@@ -294,7 +514,7 @@ export class McpProxyServer extends EventEmitter {
 
       // Check for modified connectors (simple hash comparison would be better, but this works)
       const modifiedIds: string[] = [];
-      for (const newConn of newConfig.connectors.filter((c: Connector) => c.enabled)) {
+      for (const newConn of newConnectors) {
         const oldConn = this.options.connectors.find((c) => c.id === newConn.id);
         if (oldConn && JSON.stringify(oldConn) !== JSON.stringify(newConn)) {
           modifiedIds.push(newConn.id);
@@ -312,15 +532,25 @@ export class McpProxyServer extends EventEmitter {
       logger.info(`Configuration changes: added=${addedIds.length}, removed=${removedIds.length}, modified=${modifiedIds.length}`, 'server');
 
       // Update options with new connectors
-      this.options.connectors = newConfig.connectors.filter((c: Connector) => c.enabled);
+      this.options.connectors = newConnectors;
+
+      // Drop pooled connections whose connector went away or changed
+      // (unchanged connectors keep their backend process and session)
+      for (const connectorId of [...removedIds, ...modifiedIds]) {
+        this.pool.release(connectorId);
+      }
 
       // Recreate aggregator and router with new config
       this.aggregator.invalidateCache();
-      this.aggregator = new ToolAggregator(this.options);
-      this.router = new RequestRouter(this.options, this.aggregator);
+      this.aggregator = new ToolAggregator(this.options, this.pool);
+      this.promptAggregator = new PromptAggregator(this.options, this.pool);
+      this.resourceAggregator = new ResourceAggregator(this.options, this.pool);
+      this.router = new RequestRouter(this.aggregator, this.pool, this.approvals, this.faults);
 
-      // Preload tools from all connectors
+      // Preload tools, prompts and resources from all connectors
       await this.aggregator.preloadTools();
+      await this.promptAggregator.preloadPrompts();
+      await this.resourceAggregator.preloadResources();
 
       // Update connector summaries
       await this.updateConnectorSummaries();
@@ -394,20 +624,13 @@ export class McpProxyServer extends EventEmitter {
       }
 
       // Build updated summaries
-      const updatedSummaries: ConnectorSummary[] = [];
-      for (const connector of this.options.connectors) {
-        const toolCount = toolsByConnector.get(connector.id) ?? 0;
-        updatedSummaries.push({
-          id: connector.id,
-          toolCount,
-          healthy: toolCount > 0,
-          error: toolCount === 0 ? 'No tools loaded' : undefined,
-        });
-      }
+      const updatedSummaries = this.options.connectors.map((connector) =>
+        toConnectorSummary(connector, toolsByConnector.get(connector.id) ?? 0)
+      );
 
       // Re-initialize state with updated summaries
       const logLevel = isVerbose() ? 'INFO' : 'WARN';
-      await this.stateManager.initialize(updatedSummaries, logLevel);
+      await this.stateManager.initialize(updatedSummaries, logLevel, this.mode);
     } catch (error) {
       logger.warn(`Failed to update connector summaries: ${error instanceof Error ? error.message : error}`, 'server');
     }
@@ -430,6 +653,23 @@ export class McpProxyServer extends EventEmitter {
       this.ipcServer = null;
     }
 
+    // Deny calls still waiting for approval
+    this.approvals.close();
+
+    // Close pooled backend connections and end their sessions
+    this.pool.closeAll();
+
+    // Fail requests still waiting for clients and cancel tool calls still
+    // running on backends
+    for (const client of this.clients.values()) {
+      client.abandonPending('Proxy stopped');
+    }
+
+    for (const [, pending] of this.pendingListChanges) {
+      clearTimeout(pending.timer);
+    }
+    this.pendingListChanges.clear();
+
     // Stop heartbeat
     this.stateManager.stopHeartbeat();
 
@@ -454,7 +694,7 @@ export class McpProxyServer extends EventEmitter {
     // Prevent memory exhaustion from large messages without newlines
     if (this.buffer.length > MAX_BUFFER_SIZE) {
       logger.error(`Buffer overflow: ${this.buffer.length} bytes exceeds ${MAX_BUFFER_SIZE}`, 'server');
-      this.sendError(null, MCP_ERROR.INVALID_REQUEST, 'Message too large');
+      this.stdioClient.sendError(null, MCP_ERROR.INVALID_REQUEST, 'Message too large');
       this.buffer = '';
       return;
     }
@@ -469,9 +709,9 @@ export class McpProxyServer extends EventEmitter {
     logger.info('stdin closed', 'server');
 
     // Mark current client as gone
-    if (this.currentClient) {
+    if (this.stdioClient.info) {
       this.stateManager
-        .updateClient(this.currentClient.name, { state: 'gone' })
+        .updateClient(this.stdioClient.info.name, { state: 'gone' })
         .catch(() => {
           // Ignore errors during shutdown
         });
@@ -509,7 +749,7 @@ export class McpProxyServer extends EventEmitter {
   }
 
   /**
-   * Process a single JSON-RPC message
+   * Process a single JSON-RPC message from stdin
    */
   private async processMessage(line: string): Promise<void> {
     let parsed: unknown;
@@ -518,14 +758,61 @@ export class McpProxyServer extends EventEmitter {
       parsed = JSON.parse(line);
     } catch {
       logger.error('JSON parse error');
-      this.sendError(null, MCP_ERROR.PARSE_ERROR, 'Parse error');
+      this.stdioClient.sendError(null, MCP_ERROR.PARSE_ERROR, 'Parse error');
+      return;
+    }
+
+    await this.receive(this.stdioClient, parsed);
+  }
+
+  /**
+   * Attach a client (an HTTP session)
+   */
+  connectClient(client: ClientSession): void {
+    this.clients.set(client.id, client);
+    logger.info(`Client session ${client.id} connected`, 'server');
+  }
+
+  /**
+   * Detach a client: cancel its pending work, drop its resource subscriptions
+   * and close its own backends (isolated connectors)
+   */
+  disconnectClient(clientId: string): void {
+    const client = this.clients.get(clientId);
+    if (!client) {
       return;
     }
 
+    this.clients.delete(clientId);
+    client.abandonPending('Client disconnected');
+    logger.info(`Client session ${clientId} disconnected`, 'server');
+
+    if (client.info) {
+      this.stateManager.updateClient(client.info.name, { state: 'gone' }).catch(() => {
+        // Ignore state file errors
+      });
+    }
+
+    // The client's own backends (and their subscriptions) are closed below
+    for (const uri of client.subscriptions) {
+      if (!this.router.isClientResource(uri) && !this.hasSubscriber(uri)) {
+        this.router.routeResourceSubscription(uri, false).catch(() => {
+          // Backend already gone
+        });
+      }
+    }
+    client.subscriptions.clear();
+    this.pool.releaseClient(clientId);
+  }
+
+  /**
+   * Process one parsed JSON-RPC message from a client
+   */
+  async receive(client: ClientSession, parsed: unknown): Promise<void> {
     // Validate JSON-RPC structure
     if (typeof parsed !== 'object' || parsed === null) {
       logger.error('Invalid request: not an object');
-      this.sendError(null, MCP_ERROR.INVALID_REQUEST, 'Invalid Request');
+      client.sendError(null, MCP_ERROR.INVALID_REQUEST, 'Invalid Request');
       return;
     }
 
@@ -533,7 +820,7 @@ export class McpProxyServer extends EventEmitter {
 
     if (msg.jsonrpc !== '2.0') {
       logger.error('Invalid request: not JSON-RPC 2.0');
-      this.sendError(null, MCP_ERROR.INVALID_REQUEST, 'Invalid Request');
+      client.sendError(null, MCP_ERROR.INVALID_REQUEST, 'Invalid Request');
       return;
     }
 
@@ -541,71 +828,95 @@ export class McpProxyServer extends EventEmitter {
     const hasId = 'id' in msg && msg.id !== undefined;
     const method = msg.method as string | undefined;
 
+    // Response from the client to a request we forwarded
+    if (method === undefined && hasId && ('result' in msg || 'error' in msg)) {
+      this.handleUpstreamResponse(msg as unknown as JsonRpcResponse, client);
+      return;
+    }
+
     if (!method || typeof method !== 'string') {
       logger.error('Invalid request: missing method');
       if (hasId) {
-        this.sendError(msg.id as string | number | null, MCP_ERROR.INVALID_REQUEST, 'Invalid Request');
+        client.sendError(msg.id as string | number | null, MCP_ERROR.INVALID_REQUEST, 'Invalid Request');
       }
       return;
     }
 
     if (hasId) {
       // It's a request - needs response
-      await this.handleRequest(msg as unknown as JsonRpcRequest);
+      await this.handleRequest(msg as unknown as JsonRpcRequest, client);
     } else {
       // It's a notification - no response needed
-      this.handleNotification(msg as unknown as JsonRpcNotification);
+      this.handleNotification(msg as unknown as JsonRpcNotification, client);
     }
   }
 
   /**
    * Handle a JSON-RPC request (requires response)
    */
-  private async handleRequest(request: JsonRpcRequest): Promise<void> {
+  private async handleRequest(request: JsonRpcRequest, client: ClientSession = this.stdioClient): Promise<void> {
     // Check if server is still running (prevents race condition on shutdown)
     if (!this.running) {
       return;
     }
 
     const { id, method, params } = request;
+    client.lastActiveAt = Date.now();
 
     logger.info(`Request: ${method}`);
 
     switch (method) {
       case 'initialize':
-        await this.handleInitialize(id, params as InitializeParams | undefined);
+        await this.handleInitialize(id, params as InitializeParams | undefined, client);
         break;
 
       case 'tools/list':
-        await this.handleToolsList(id);
+        await this.handleToolsList(id, client);
         break;
 
       case 'tools/call':
-        await this.handleToolsCall(id, params as ToolsCallParams | undefined);
+        await this.handleToolsCall(id, params as ToolsCallParams | undefined, client);
+        break;
+
+      case 'prompts/list':
+        await this.handlePromptsList(id, client);
+        break;
+
+      case 'prompts/get':
+        await this.handlePromptsGet(id, params as PromptsGetParams | undefined, client);
         break;
 
       case 'resources/list':
-        await this.handleResourcesList(id);
+        await this.handleResourcesList(id, client);
+        break;
+
+      case 'resources/templates/list':
+        await this.handleResourceTemplatesList(id, client);
         break;
 
       case 'resources/read':
-        await this.handleResourcesRead(id, params as ResourcesReadParams | undefined);
+        await this.handleResourcesRead(id, params as ResourcesReadParams | undefined, client);
+        break;
+
+      case 'resources/subscribe':
+      case 'resources/unsubscribe':
+        await this.handleResourceSubscription(id, method, params as ResourcesReadParams | undefined, client);
         break;
 
       case 'ui/initialize':
-        await this.handleUiInitialize(id, params as UiInitializeParams | undefined);
+        await this.handleUiInitialize(id, params as UiInitializeParams | undefined, client);
         break;
 
       default:
         logger.warn(`Unknown method: ${method}`);
-        this.sendError(id, MCP_ERROR.METHOD_NOT_FOUND, `Method not found: ${method}`);
+        client.sendError(id, MCP_ERROR.METHOD_NOT_FOUND, `Method not found: ${method}`);
     }
   }
 
   /**
    * Handle a JSON-RPC notification (no response)
    */
-  private handleNotification(notification: JsonRpcNotification): void {
+  private handleNotification(notification: JsonRpcNotification, client: ClientSession): void {
     const { method } = notification;
 
     logger.info(`Notification: ${method}`);
@@ -616,6 +927,10 @@ export class McpProxyServer extends EventEmitter {
         logger.info('Client initialized');
         break;
 
+      case 'notifications/cancelled':
+        this.handleCancelled(notification.params as { requestId?: unknown; reason?: unknown } | undefined, client);
+        break;
+
       default:
         // Unknown notifications are silently ignored per MCP spec
         logger.info(`Ignoring notification: ${method}`);
@@ -627,9 +942,10 @@ export class McpProxyServer extends EventEmitter {
    */
   private async handleInitialize(
     id: string | number | null,
-    params: InitializeParams | undefined
+    params: InitializeParams | undefined,
+    client: ClientSession = this.stdioClient
   ): Promise<void> {
-    if (this.initialized) {
+    if (client.initialized) {
       logger.warn('Already initialized', 'init');
     }
 
@@ -638,10 +954,11 @@ export class McpProxyServer extends EventEmitter {
     logger.info(`Client: ${clientName} (protocol=${clientVersion})`, 'init');
 
     // Track client
-    this.currentClient = {
+    client.info = {
       name: clientName,
       protocolVersion: clientVersion,
     };
+    client.capabilities = params?.capabilities ?? {};
 
     // Update client state
     await this.stateManager.updateClient(clientName, {
@@ -650,13 +967,18 @@ export class McpProxyServer extends EventEmitter {
       state: 'active',
     });
 
-    this.initialized = true;
+    client.initialized = true;
+
+    // Only advertise prompts and subscriptions when some backend has them
+    const prompts = await this.promptAggregator.getAggregatedPrompts();
+    const { subscribe } = await this.resourceAggregator.getAggregatedResources();
 
     const result: InitializeResult = {
-      protocolVersion: PROTOCOL_VERSION,
+      protocolVersion: DEFAULT_PROTOCOL_VERSION,
       capabilities: {
-        tools: {},
-        resources: {},
+        tools: { listChanged: true },
+        resources: { ...(subscribe && { subscribe: true }), listChanged: true },
+        ...(prompts.length > 0 && { prompts: { listChanged: true } }),
       },
       serverInfo: {
         name: SERVER_NAME,
@@ -664,27 +986,29 @@ export class McpProxyServer extends EventEmitter {
       },
     };
 
-    this.sendResult(id, result);
+    client.sendResult(id, result);
   }
 
   /**
    * Handle tools/list request
    */
-  private async handleToolsList(id: string | number | null): Promise<void> {
-    if (!this.initialized) {
+  private async handleToolsList(
+    id: string | number | null,
+    client: ClientSession = this.stdioClient
+  ): Promise<void> {
+    if (!client.initialized) {
       logger.warn('tools/list before initialize');
     }
 
     try {
-      const tools = await this.aggregator.getAggregatedTools();
+      // In lazy mode the catalog is reached through the meta-tools
+      const proxiedTools = this.options.lazyTools
+        ? META_TOOLS
+        : (await this.aggregator.getAggregatedTools()).map(describeTool);
 
       // Add proofscan_getEvents tool (Phase 6.1)
       const toolsList = [
-        ...tools.map((t) => ({
-          name: t.namespacedName,
-          description: t.description,
-          inputSchema: t.inputSchema,
-        })),
+        ...proxiedTools,
         {
           name: 'proofscan_getEvents',
           description: 'Get protocol events (paginated). Returns text summary + structured data.',
@@ -729,11 +1053,11 @@ export class McpProxyServer extends EventEmitter {
       };
 
       logger.info(`Returning ${toolsList.length} tool(s)`);
-      this.sendResult(id, result);
+      client.sendResult(id, result);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       logger.error(`tools/list failed: ${errorMessage}`);
-      this.sendError(id, MCP_ERROR.INTERNAL_ERROR, errorMessage);
+      client.sendError(id, MCP_ERROR.INTERNAL_ERROR, errorMessage);
     }
   }
 
@@ -745,18 +1069,29 @@ export class McpProxyServer extends EventEmitter {
    */
   private async handleToolsCall(
     id: string | number | null,
-    params: ToolsCallParams | undefined
+    params: ToolsCallParams | undefined,
+    client: ClientSession = this.stdioClient
   ): Promise<void> {
-    if (!this.initialized) {
+    if (!client.initialized) {
       logger.warn('tools/call before initialize');
     }
 
     if (!params || typeof params.name !== 'string') {
       logger.error('tools/call: missing or invalid name');
-      this.sendError(id, MCP_ERROR.INVALID_PARAMS, 'Missing required parameter: name');
+      client.sendError(id, MCP_ERROR.INVALID_PARAMS, 'Missing required parameter: name');
       return;
     }
 
+    // invoke_tool is handled as a direct call to the tool it names
+    if (this.options.lazyTools && params.name === INVOKE_TOOL) {
+      const { name: target, arguments: targetArgs = {} } = params.arguments ?? {};
+      if (typeof target !== 'string' || typeof targetArgs !== 'object' || targetArgs === null || Array.isArray(targetArgs)) {
+        client.sendError(id, MCP_ERROR.INVALID_PARAMS, `${INVOKE_TOOL} needs a tool name and an arguments object`);
+        return;
+      }
+      params = { ...params, name: target, arguments: targetArgs as Record<string, unknown> };
+    }
+
     const rpcId = typeof id === 'number' ? id : parseInt(String(id) || '0', 10);
 
     // Sanitize params: extract bridge token, strip _bridge envelope
@@ -775,8 +1110,8 @@ export class McpProxyServer extends EventEmitter {
     const uiSessionId = correlationIds.ui_session_id;
 
     // Record tool call for client tracking
-    if (this.currentClient) {
-      await this.stateManager.recordToolCall(this.currentClient.name);
+    if (client.info) {
+      await this.stateManager.recordToolCall(client.info.name);
     }
 
     // Record ui_tool_request event (Phase 6.2)
@@ -800,7 +1135,7 @@ export class McpProxyServer extends EventEmitter {
       const sessionId = args.sessionId as string | undefined;
       if (!sessionId) {
         logger.error('proofscan_getEvents: missing sessionId');
-        this.sendError(id, MCP_ERROR.INVALID_PARAMS, 'Missing required parameter: sessionId');
+        client.sendError(id, MCP_ERROR.INVALID_PARAMS, 'Missing required parameter: sessionId');
         return;
       }
 
@@ -940,11 +1275,55 @@ export class McpProxyServer extends EventEmitter {
         }
       );
 
-      this.sendResult(id, callResult);
+      client.sendResult(id, callResult);
+      return;
+    }
+
+    if (this.options.lazyTools && (name === SEARCH_TOOLS || name === DESCRIBE_TOOL)) {
+      client.sendResult(id, await this.callMetaTool(name, args));
+      return;
+    }
+
+    // Track the call so notifications/cancelled can abort it on the backend,
+    // and relay backend progress if the client asked for it
+    const controller = new AbortController();
+    const callKey = String(id);
+    const progressToken = getProgressToken(params);
+    client.inFlightCalls.set(callKey, controller);
+
+    let result;
+    try {
+      result = await this.router.routeToolCall(name, args as Record<string, unknown>, {
+        signal: controller.signal,
+        ...(progressToken !== undefined && {
+          onProgress: (update) => client.sendNotification('notifications/progress', { progressToken, ...update }),
+        }),
+      }, client.getIdentity());
+    } finally {
+      client.inFlightCalls.delete(callKey);
+    }
+
+    let outcome: CallOutcome = 'ok';
+    if (controller.signal.aborted) {
+      outcome = 'cancelled';
+    } else if (result.dropped) {
+      outcome = 'dropped';
+    } else if (!result.success || result.isError) {
+      outcome = 'error';
+    }
+    this.recordCall(name, client, Date.now() - startTime, outcome, result.error ?? 'Tool returned isError');
+
+    // A cancelled request gets no response (MCP cancellation)
+    if (controller.signal.aborted) {
+      logger.info(`tools/call cancelled name=${name}`);
       return;
     }
 
-    const result = await this.router.routeToolCall(name, args as Record<string, unknown>);
+    // An injected drop fault: the client never gets a response
+    if (result.dropped) {
+      logger.info(`tools/call response dropped name=${name} (injected fault)`);
+      return;
+    }
 
     if (!result.success) {
       // Routing or backend error
@@ -974,7 +1353,7 @@ export class McpProxyServer extends EventEmitter {
         }
       );
 
-      this.sendError(id, MCP_ERROR.INTERNAL_ERROR, result.error || 'Unknown error');
+      client.sendError(id, result.errorCode ?? MCP_ERROR.INTERNAL_ERROR, result.error || 'Unknown error', result.errorData);
       return;
     }
 
@@ -1007,17 +1386,155 @@ export class McpProxyServer extends EventEmitter {
       }
     );
 
-    this.sendResult(id, callResult);
+    client.sendResult(id, callResult);
+  }
+
+  /**
+   * Answer search_tools or describe_tool from the aggregated catalog
+   */
+  private async callMetaTool(name: string, args: Record<string, unknown>): Promise<ToolsCallResult> {
+    const tools = await this.aggregator.getAggregatedTools();
+
+    if (name === SEARCH_TOOLS) {
+      const query = typeof args.query === 'string' ? args.query : '';
+      const limit = typeof args.limit === 'number' && args.limit >= 1
+        ? Math.min(Math.floor(args.limit), MAX_SEARCH_LIMIT)
+        : DEFAULT_SEARCH_LIMIT;
+      const matches = searchTools(tools, query);
+      const structured = { tools: matches.slice(0, limit), total: matches.length };
+      logger.info(`${SEARCH_TOOLS} query="${query}" matched ${matches.length} tool(s)`);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(structured, null, 2) }],
+        structuredContent: structured,
+      };
+    }
+
+    const tool = tools.find((t) => t.namespacedName === args.name);
+    if (!tool) {
+      return {
+        content: [{ type: 'text', text: `Unknown tool: ${String(args.name)}. Use ${SEARCH_TOOLS} to find tools.` }],
+        isError: true,
+      };
+    }
+    const definition = describeTool(tool);
+    return {
+      content: [{ type: 'text', text: JSON.stringify(definition, null, 2) }],
+      structuredContent: definition,
+    };
+  }
+
+  /**
+   * Count a routed tool call and stream it to IPC subscribers
+   *
+   * Calls to unknown connectors are not counted.
+   *
+   * @param error - Error message, used if the outcome is 'error'
+   */
+  private recordCall(
+    name: string,
+    client: ClientSession,
+    durationMs: number,
+    outcome: CallOutcome,
+    error: string
+  ): void {
+    const target = this.aggregator.resolveAlias(name) ?? this.aggregator.parseNamespace(name);
+    if (!target || !this.aggregator.findConnector(target.connectorId)) {
+      return;
+    }
+
+    const failed = outcome === 'error';
+    this.callStats.record(target.connectorId, durationMs, failed ? error : undefined);
+    this.ipcServer?.publish({
+      ts: new Date().toISOString(),
+      connectorId: target.connectorId,
+      tool: target.toolName,
+      ...(client.info && { client: client.info.name }),
+      durationMs,
+      outcome,
+      ...(failed && { error }),
+    });
+  }
+
+  /**
+   * Handle prompts/list request
+   */
+  private async handlePromptsList(
+    id: string | number | null,
+    client: ClientSession = this.stdioClient
+  ): Promise<void> {
+    if (!client.initialized) {
+      logger.warn('prompts/list before initialize');
+    }
+
+    try {
+      const prompts = await this.promptAggregator.getAggregatedPrompts();
+
+      const result: PromptsListResult = {
+        prompts: prompts.map((p) => ({
+          name: p.namespacedName,
+          ...(p.title !== undefined && { title: p.title }),
+          ...(p.description !== undefined && { description: p.description }),
+          ...(p.arguments !== undefined && { arguments: p.arguments }),
+        })),
+      };
+
+      logger.info(`Returning ${prompts.length} prompt(s)`);
+      client.sendResult(id, result);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`prompts/list failed: ${errorMessage}`);
+      client.sendError(id, MCP_ERROR.INTERNAL_ERROR, errorMessage);
+    }
+  }
+
+  /**
+   * Handle prompts/get request (routed to the owning backend)
+   */
+  private async handlePromptsGet(
+    id: string | number | null,
+    params: PromptsGetParams | undefined,
+    client: ClientSession = this.stdioClient
+  ): Promise<void> {
+    if (!client.initialized) {
+      logger.warn('prompts/get before initialize');
+    }
+
+    if (!params || typeof params.name !== 'string') {
+      logger.error('prompts/get: missing or invalid name');
+      client.sendError(id, MCP_ERROR.INVALID_PARAMS, 'Missing required parameter: name');
+      return;
+    }
+
+    logger.info(`prompts/get name=${params.name}`);
+    const result = await this.router.routePromptGet(params.name, params.arguments ?? {}, client.getIdentity());
+
+    if (!result.success) {
+      client.sendError(id, result.errorCode ?? MCP_ERROR.INTERNAL_ERROR, result.error || 'Unknown error');
+      return;
+    }
+
+    client.sendResult(id, result.result);
   }
 
   /**
    * Handle resources/list request
    */
-  private async handleResourcesList(id: string | number | null): Promise<void> {
-    if (!this.initialized) {
+  private async handleResourcesList(
+    id: string | number | null,
+    client: ClientSession = this.stdioClient
+  ): Promise<void> {
+    if (!client.initialized) {
       logger.warn('resources/list before initialize');
     }
 
+    let backendResources: ResourcesListResult['resources'] = [];
+    try {
+      ({ resources: backendResources } = await this.resourceAggregator.getAggregatedResources());
+    } catch (error) {
+      // The built-in trace viewer is still listed
+      logger.error(`Failed to list backend resources: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
     const result: ResourcesListResult = {
       resources: [
         {
@@ -1026,11 +1543,103 @@ export class McpProxyServer extends EventEmitter {
           description: 'Interactive timeline of MCP/A2A events',
           mimeType: 'text/html;profile=mcp-app',
         },
+        ...backendResources,
       ],
     };
 
-    logger.info(`Returning 1 resource(s)`);
-    this.sendResult(id, result);
+    logger.info(`Returning ${result.resources.length} resource(s)`);
+    client.sendResult(id, result);
+  }
+
+  /**
+   * Handle resources/templates/list request
+   */
+  private async handleResourceTemplatesList(
+    id: string | number | null,
+    client: ClientSession = this.stdioClient
+  ): Promise<void> {
+    if (!client.initialized) {
+      logger.warn('resources/templates/list before initialize');
+    }
+
+    try {
+      const { resourceTemplates } = await this.resourceAggregator.getAggregatedResources();
+      const result: ResourceTemplatesListResult = { resourceTemplates };
+
+      logger.info(`Returning ${resourceTemplates.length} resource template(s)`);
+      client.sendResult(id, result);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`resources/templates/list failed: ${errorMessage}`);
+      client.sendError(id, MCP_ERROR.INTERNAL_ERROR, errorMessage);
+    }
+  }
+
+  /**
+   * Handle resources/subscribe and resources/unsubscribe (routed to the owning backend)
+   */
+  private async handleResourceSubscription(
+    id: string | number | null,
+    method: 'resources/subscribe' | 'resources/unsubscribe',
+    params: ResourcesReadParams | undefined,
+    client: ClientSession = this.stdioClient
+  ): Promise<void> {
+    if (!params || typeof params.uri !== 'string') {
+      logger.error(`${method}: missing or invalid uri`);
+      client.sendError(id, MCP_ERROR.INVALID_PARAMS, 'Missing required parameter: uri');
+      return;
+    }
+
+    if (params.uri.length > MAX_URI_LENGTH) {
+      client.sendError(id, MCP_ERROR.INVALID_PARAMS, 'URI too long');
+      return;
+    }
+
+    logger.info(`${method} uri=${params.uri}`);
+    const subscribe = method === 'resources/subscribe';
+
+    // A shared backend's subscription is shared too: only the first
+    // subscriber subscribes it and only the last one unsubscribes it.
+    // A client's own backend (isolated connector) is subscribed by that client alone.
+    const own = this.router.isClientResource(params.uri);
+    if (subscribe) {
+      const shared = !own && this.hasSubscriber(params.uri);
+      client.subscriptions.add(params.uri);
+      if (shared) {
+        client.sendResult(id, {});
+        return;
+      }
+    } else {
+      client.subscriptions.delete(params.uri);
+      if (!own && this.hasSubscriber(params.uri)) {
+        client.sendResult(id, {});
+        return;
+      }
+    }
+
+    const result = await this.router.routeResourceSubscription(params.uri, subscribe, client.getIdentity());
+
+    if (!result.success) {
+      if (subscribe) {
+        client.subscriptions.delete(params.uri);
+      }
+      client.sendError(id, result.errorCode ?? MCP_ERROR.INTERNAL_ERROR, result.error || 'Unknown error');
+      return;
+    }
+
+    client.sendResult(id, result.result);
+  }
+
+  /**
+   * Whether any connected client is subscribed to a namespaced resource URI
+   */
+  private hasSubscriber(uri: string): boolean {
+    for (const client of this.clients.values()) {
+      if (client.subscriptions.has(uri)) {
+        return true;
+      }
+    }
+    return false;
   }
 
   /**
@@ -1038,15 +1647,16 @@ export class McpProxyServer extends EventEmitter {
    */
   private async handleResourcesRead(
     id: string | number | null,
-    params: ResourcesReadParams | undefined
+    params: ResourcesReadParams | undefined,
+    client: ClientSession = this.stdioClient
   ): Promise<void> {
-    if (!this.initialized) {
+    if (!client.initialized) {
       logger.warn('resources/read before initialize');
     }
 
     if (!params || typeof params.uri !== 'string') {
       logger.error('resources/read: missing or invalid uri');
-      this.sendError(id, MCP_ERROR.INVALID_PARAMS, 'Missing required parameter: uri');
+      client.sendError(id, MCP_ERROR.INVALID_PARAMS, 'Missing required parameter: uri');
       return;
     }
 
@@ -1055,17 +1665,28 @@ export class McpProxyServer extends EventEmitter {
 
     // URI validation
     if (uri.length > MAX_URI_LENGTH) {
-      this.sendError(id, MCP_ERROR.INVALID_PARAMS, 'URI too long');
+      client.sendError(id, MCP_ERROR.INVALID_PARAMS, 'URI too long');
+      return;
+    }
+
+    // Backend resources are read from the connector that listed them
+    if (parseResourceUri(uri)) {
+      const result = await this.router.routeResourceRead(uri, client.getIdentity());
+      if (!result.success) {
+        client.sendError(id, result.errorCode ?? MCP_ERROR.INTERNAL_ERROR, result.error || 'Unknown error');
+        return;
+      }
+      client.sendResult(id, result.result);
       return;
     }
 
     if (!uri.startsWith('ui://proofscan/')) {
-      this.sendError(id, MCP_ERROR.INVALID_PARAMS, 'Invalid URI scheme or host');
+      client.sendError(id, MCP_ERROR.INVALID_PARAMS, 'Invalid URI scheme or host');
       return;
     }
 
     if (uri.includes('..')) {
-      this.sendError(id, MCP_ERROR.INVALID_PARAMS, 'Invalid URI path');
+      client.sendError(id, MCP_ERROR.INVALID_PARAMS, 'Invalid URI path');
       return;
     }
 
@@ -1081,14 +1702,14 @@ export class McpProxyServer extends EventEmitter {
             },
           ],
         };
-        this.sendResult(id, result);
+        client.sendResult(id, result);
       } catch (error) {
         logger.error(`Failed to load UI resource: ${error instanceof Error ? error.message : String(error)}`);
-        this.sendError(id, MCP_ERROR.INTERNAL_ERROR, 'Failed to load UI resource');
+        client.sendError(id, MCP_ERROR.INTERNAL_ERROR, 'Failed to load UI resource');
         return;
       }
     } else {
-      this.sendError(id, MCP_ERROR.INVALID_PARAMS, `Resource not found: ${uri}`);
+      client.sendError(id, MCP_ERROR.INVALID_PARAMS, `Resource not found: ${uri}`);
     }
   }
 
@@ -1097,7 +1718,8 @@ export class McpProxyServer extends EventEmitter {
    */
   private async handleUiInitialize(
     id: string | number | null,
-    params: UiInitializeParams | undefined
+    params: UiInitializeParams | undefined,
+    client: ClientSession = this.stdioClient
   ): Promise<void> {
     logger.info('ui/initialize - generating session token');
 
@@ -1113,7 +1735,7 @@ export class McpProxyServer extends EventEmitter {
     };
 
     logger.info(`Session token generated: ${sessionToken}`);
-    this.sendResult(id, result);
+    client.sendResult(id, result);
   }
 
   /**
@@ -1129,45 +1751,208 @@ export class McpProxyServer extends EventEmitter {
   }
 
   /**
-   * Send a JSON-RPC response with result
+   * Client capabilities backends may rely on (UpstreamForwarder)
+   *
+   * Backends are preloaded before any client connects, so until a
+   * client has initialized every forwardable capability is assumed;
+   * requests the client turns out not to support are refused later.
+   * With several clients, the most recently active one is asked, unless
+   * the backend is a client's own (then only that client counts).
    */
-  private sendResult(id: string | number | null, result: unknown): void {
-    const response: JsonRpcResponse = {
-      jsonrpc: '2.0',
-      id,
-      result,
-    };
+  getClientCapabilities(clientId?: string): Record<string, unknown> {
+    if (clientId !== undefined) {
+      return this.clients.get(clientId)?.capabilities ?? {};
+    }
 
-    this.send(response);
+    const client = this.activeClient();
+    if (client?.capabilities) {
+      return client.capabilities;
+    }
+    const capabilities: Record<string, unknown> = {};
+    for (const capability of Object.values(SERVER_REQUEST_CAPABILITIES)) {
+      capabilities[capability] = {};
+    }
+    return capabilities;
   }
 
   /**
-   * Send a JSON-RPC error response
+   * Forward a backend's server-initiated request to the client (UpstreamForwarder)
+   *
+   * A client's own backend (isolated connector) only ever reaches that
+   * client; the request fails if it has disconnected.
    */
-  private sendError(
-    id: string | number | null,
-    code: number,
-    message: string,
-    data?: unknown
+  forward(connectorId: string, method: string, params: unknown, clientId?: string): Promise<ServerRequestAnswer> {
+    const client = clientId !== undefined ? this.clients.get(clientId) : this.activeClient();
+    if (!this.running || !client) {
+      const message = clientId !== undefined ? `Client ${clientId} is not connected` : 'No upstream client connected';
+      return Promise.resolve({
+        error: { code: MCP_ERROR.INTERNAL_ERROR, message },
+      });
+    }
+
+    const id = `${UPSTREAM_REQUEST_ID_PREFIX}${this.nextUpstreamRequestId++}`;
+    const timeoutMs = (this.options.timeout ?? DEFAULT_TIMEOUT) * 1000;
+    logger.info(`Forwarding ${method} from ${connectorId} to client ${client.id} (id=${id})`, 'server');
+
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => {
+        client.upstreamRequests.delete(id);
+        logger.warn(`Client did not answer ${method} (id=${id})`, 'server');
+        resolve({ error: { code: MCP_ERROR.INTERNAL_ERROR, message: `Client did not answer ${method}` } });
+      }, timeoutMs);
+
+      client.upstreamRequests.set(id, { resolve, timeout });
+      const sent = client.send({
+        jsonrpc: '2.0',
+        id,
+        method,
+        ...(params !== undefined && { params }),
+      });
+
+      // Nothing will answer a request the client never got
+      if (!sent) {
+        clearTimeout(timeout);
+        client.upstreamRequests.delete(id);
+        resolve({ error: { code: MCP_ERROR.INTERNAL_ERROR, message: `Client ${client.id} cannot receive ${method}` } });
+      }
+    });
+  }
+
+  /**
+   * The initialized client that sent a request most recently
+   */
+  private activeClient(): ClientSession | null {
+    let active: ClientSession | null = null;
+    for (const client of this.clients.values()) {
+      if (client.initialized && (!active || client.lastActiveAt > active.lastActiveAt)) {
+        active = client;
+      }
+    }
+    return active;
+  }
+
+  /**
+   * Relay the client's response to a forwarded request
+   */
+  private handleUpstreamResponse(response: JsonRpcResponse, client: ClientSession): void {
+    const id = String(response.id);
+    const pending = client.upstreamRequests.get(id);
+    if (!pending) {
+      logger.warn(`Ignoring response with unknown id: ${id}`, 'server');
+      return;
+    }
+
+    clearTimeout(pending.timeout);
+    client.upstreamRequests.delete(id);
+    pending.resolve(response.error ? { error: response.error } : { result: response.result });
+  }
+
+  /**
+   * Abort an in-flight tools/call the client cancelled
+   */
+  private handleCancelled(
+    params: { requestId?: unknown; reason?: unknown } | undefined,
+    client: ClientSession
   ): void {
-    const response: JsonRpcResponse = {
-      jsonrpc: '2.0',
-      id,
-      error: {
-        code,
-        message,
-        ...(data !== undefined ? { data } : {}),
-      },
-    };
+    const requestId = params?.requestId;
+    if (typeof requestId !== 'string' && typeof requestId !== 'number') {
+      return;
+    }
 
-    this.send(response);
+    const controller = client.inFlightCalls.get(String(requestId));
+    if (!controller) {
+      // Already answered, or not a tools/call; nothing to cancel
+      return;
+    }
+
+    const reason = typeof params?.reason === 'string' ? ` (${params.reason})` : '';
+    logger.info(`Client cancelled request ${requestId}${reason}`);
+    controller.abort();
+  }
+
+  /**
+   * Relay a backend notification the client needs to see
+   *
+   * Other notifications (progress, logging) are handled per request or
+   * only recorded in the backend's session.
+   *
+   * @param clientId - Set when a client's own backend sent it; resources/updated
+   *   then only goes to that client
+   */
+  private handleBackendNotification(connectorId: string, notification: JsonRpcNotification, clientId?: string): void {
+    const listKind = LIST_CHANGED_KINDS[notification.method];
+    if (listKind) {
+      this.queueListChange(listKind, connectorId);
+      return;
+    }
+
+    if (notification.method !== 'notifications/resources/updated' || !this.running) {
+      return;
+    }
+
+    const params = notification.params as { uri?: unknown } | undefined;
+    if (typeof params?.uri !== 'string') {
+      logger.warn(`Ignoring resources/updated without uri from ${connectorId}`);
+      return;
+    }
+
+    const uri = namespaceResourceUri(connectorId, params.uri);
+    const clients = clientId !== undefined ? [this.clients.get(clientId)] : this.clients.values();
+    for (const client of clients) {
+      if (client?.subscriptions.has(uri)) {
+        client.sendNotification('notifications/resources/updated', { ...params, uri });
+      }
+    }
   }
 
   /**
-   * Send a message to stdout
+   * Collect list_changed notifications briefly so that a burst (or several
+   * backends changing at once) ends in one re-list and one notification
    */
-  private send(message: JsonRpcResponse): void {
-    const json = JSON.stringify(message);
-    process.stdout.write(json + '\n');
+  private queueListChange(kind: ListKind, connectorId: string): void {
+    logger.info(`Backend ${connectorId} changed its ${kind} list`);
+
+    const pending = this.pendingListChanges.get(kind);
+    if (pending) {
+      pending.connectorIds.add(connectorId);
+      return;
+    }
+
+    this.pendingListChanges.set(kind, {
+      connectorIds: new Set([connectorId]),
+      timer: setTimeout(() => {
+        this.flushListChange(kind).catch((error) => {
+          logger.error(`Failed to refresh ${kind}: ${error instanceof Error ? error.message : String(error)}`);
+        });
+      }, LIST_CHANGED_DEBOUNCE_MS),
+    });
+  }
+
+  /**
+   * Re-list the changed backends and tell every client (unless no re-list
+   * succeeded, which leaves the lists as they were)
+   */
+  private async flushListChange(kind: ListKind): Promise<void> {
+    const pending = this.pendingListChanges.get(kind);
+    if (!pending) {
+      return;
+    }
+    this.pendingListChanges.delete(kind);
+
+    const aggregator = kind === 'tools'
+      ? this.aggregator
+      : kind === 'prompts' ? this.promptAggregator : this.resourceAggregator;
+    const refreshed = await Promise.all(
+      [...pending.connectorIds].map((connectorId) => aggregator.refreshConnector(connectorId))
+    );
+
+    if (!this.running || !refreshed.some(Boolean)) {
+      return;
+    }
+    for (const client of this.clients.values()) {
+      if (client.initialized) {
+        client.sendNotification(`notifications/${kind}/list_changed`);
+      }
+    }
   }
 }
@@ -0,0 +1,163 @@
+/**
+ * Meta-Tools (lazy tool mode)
+ *
+ * With `pfscan proxy start --lazy-tools`, tools/list returns only the
+ * proxy's own tools instead of the aggregated catalog, so clients are not
+ * handed hundreds of proxied tools at once. Models find tools with
+ * search_tools (keyword ranking over ToolAggregator's cached catalog),
+ * fetch the schema of the one they pick with describe_tool, and call it
+ * with invoke_tool, which is routed exactly like a direct tools/call.
+ */
+
+import type { ToolInputSchema } from '../tools/adapter.js';
+import type { NamespacedTool } from './types.js';
+
+export const SEARCH_TOOLS = 'search_tools';
+export const DESCRIBE_TOOL = 'describe_tool';
+export const INVOKE_TOOL = 'invoke_tool';
+
+/** Matches returned by search_tools without a limit */
+export const DEFAULT_SEARCH_LIMIT = 10;
+
+/** Most matches search_tools returns */
+export const MAX_SEARCH_LIMIT = 50;
+
+/** Score of a query term found in a tool's name or title, its description and its input schema */
+const NAME_WEIGHT = 4;
+const DESCRIPTION_WEIGHT = 2;
+const SCHEMA_WEIGHT = 1;
+
+/** A tools/list entry */
+export interface ToolDefinition {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema?: ToolInputSchema;
+}
+
+/** tools/list entries of the meta-tools */
+export const META_TOOLS: ToolDefinition[] = [
+  {
+    name: SEARCH_TOOLS,
+    description:
+      'Search the tools available through this proxy by keyword. Returns the best matching tool names ' +
+      'with their descriptions; use describe_tool for a tool\'s arguments and invoke_tool to call it.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Keywords describing the task (empty lists all tools)' },
+        limit: { type: 'number', default: DEFAULT_SEARCH_LIMIT, description: `Maximum matches (up to ${MAX_SEARCH_LIMIT})` },
+      },
+    },
+  },
+  {
+    name: DESCRIBE_TOOL,
+    description: 'Get the full definition of a tool found with search_tools, including its input schema.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Tool name as returned by search_tools' },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: INVOKE_TOOL,
+    description: 'Call a tool found with search_tools with arguments matching its input schema.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Tool name as returned by search_tools' },
+        arguments: { type: 'object', description: 'Arguments for the tool' },
+      },
+      required: ['name'],
+    },
+  },
+];
+
+/** A search_tools result entry */
+export interface ToolMatch {
+  name: string;
+  title?: string;
+  description?: string;
+  score: number;
+}
+
+/**
+ * Rank tools against a keyword query
+ *
+ * Each query term scores for the fields it appears in (a whole word, or
+ * half as much as the start of a word); tools no term appears in are left
+ * out. An empty query matches every tool with score 0, in catalog order.
+ */
+export function searchTools(tools: NamespacedTool[], query: string): ToolMatch[] {
+  const terms = tokenize(query);
+
+  const matches: ToolMatch[] = [];
+  for (const tool of tools) {
+    const score = terms.length === 0 ? 0 : scoreTool(tool, terms);
+    if (terms.length > 0 && score === 0) {
+      continue;
+    }
+    matches.push({
+      name: tool.namespacedName,
+      ...(tool.title !== undefined && { title: tool.title }),
+      ...(tool.description !== undefined && { description: tool.description }),
+      score,
+    });
+  }
+
+  // Stable sort keeps catalog order among equal scores
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Definition of a tool as returned by describe_tool (the tools/list entry)
+ */
+export function describeTool(tool: NamespacedTool): ToolDefinition {
+  return {
+    name: tool.namespacedName,
+    ...(tool.title !== undefined && { title: tool.title }),
+    description: tool.description,
+    inputSchema: tool.inputSchema,
+  };
+}
+
+function scoreTool(tool: NamespacedTool, terms: string[]): number {
+  const fields: Array<[string[], number]> = [
+    [tokenize(`${tool.namespacedName} ${tool.title ?? ''}`), NAME_WEIGHT],
+    [tokenize(tool.description ?? ''), DESCRIPTION_WEIGHT],
+    [tokenize(schemaText(tool)), SCHEMA_WEIGHT],
+  ];
+
+  let score = 0;
+  for (const term of terms) {
+    for (const [words, weight] of fields) {
+      if (words.includes(term)) {
+        score += weight;
+      } else if (words.some((word) => word.startsWith(term))) {
+        score += weight / 2;
+      }
+    }
+  }
+  return score;
+}
+
+/** Argument names and descriptions of a tool's input schema */
+function schemaText(tool: NamespacedTool): string {
+  const properties = tool.inputSchema?.properties ?? {};
+  return Object.entries(properties)
+    .map(([name, property]) => `${name} ${property.description ?? ''}`)
+    .join(' ');
+}
+
+/**
+ * Lowercase words, splitting snake_case, kebab-case and camelCase
+ */
+function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
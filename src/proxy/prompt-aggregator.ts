@@ -0,0 +1,161 @@
+/**
+ * Prompt Aggregator
+ *
+ * Aggregates prompts from backend connectors that declare the prompts
+ * capability, with the same connector__name prefixes as ToolAggregator.
+ */
+
+import type { Connector } from '../types/index.js';
+import { logger } from './logger.js';
+import type { BackendPool } from './backend-pool.js';
+import {
+  NAMESPACE_SEPARATOR,
+  type ProxyOptions,
+  type NamespacedPrompt,
+  type PromptInfo,
+} from './types.js';
+
+/**
+ * Aggregates prompts from multiple MCP connectors
+ */
+export class PromptAggregator {
+  private readonly connectors: Connector[];
+  private readonly pool: BackendPool;
+
+  /** Cached prompts from all connectors */
+  private cachedPrompts: NamespacedPrompt[] | null = null;
+
+  /** Whether loading is in progress */
+  private loadingPromise: Promise<NamespacedPrompt[]> | null = null;
+
+  constructor(options: ProxyOptions, pool: BackendPool) {
+    this.connectors = options.connectors;
+    this.pool = pool;
+  }
+
+  /**
+   * Preload prompts from all connectors (eager loading)
+   *
+   * Called during proxy startup so initialize can tell whether to
+   * advertise the prompts capability.
+   */
+  async preloadPrompts(): Promise<void> {
+    try {
+      await this.loadPromptsFromConnectors();
+      logger.info(`Preloaded ${this.cachedPrompts?.length ?? 0} prompt(s)`, 'aggregator');
+    } catch (error) {
+      logger.warn(`Prompt preload failed: ${error instanceof Error ? error.message : error}`, 'aggregator');
+    }
+  }
+
+  /**
+   * Invalidate cached prompts (force reload on next request)
+   */
+  invalidateCache(): void {
+    this.cachedPrompts = null;
+    this.loadingPromise = null;
+  }
+
+  /**
+   * Get all prompts from all connectors with namespace prefixes
+   *
+   * Uses cached prompts if available. Concurrent calls share one load.
+   */
+  async getAggregatedPrompts(): Promise<NamespacedPrompt[]> {
+    if (this.cachedPrompts !== null) {
+      return this.cachedPrompts;
+    }
+
+    if (this.loadingPromise !== null) {
+      return this.loadingPromise;
+    }
+
+    return this.loadPromptsFromConnectors();
+  }
+
+  /**
+   * Re-list one connector's prompts (after its notifications/prompts/list_changed)
+   *
+   * Only that connector's entries in the cache are replaced. Does nothing
+   * if nothing is cached yet. On failure the previous prompts are kept.
+   *
+   * @returns true if the cache was updated
+   */
+  async refreshConnector(connectorId: string): Promise<boolean> {
+    const connector = this.connectors.find((c) => c.id === connectorId);
+    if (!connector || this.cachedPrompts === null) {
+      return false;
+    }
+
+    const result = await this.pool.listPrompts(connector);
+    if (result.error) {
+      logger.warn(`Failed to re-list prompts from ${connectorId}: ${result.error}`);
+      return false;
+    }
+
+    const current = this.cachedPrompts;
+    if (current === null) {
+      return false;
+    }
+
+    const fresh = result.prompts.map((prompt) => this.addNamespace(connectorId, prompt));
+    this.cachedPrompts = this.connectors.flatMap((c) =>
+      c.id === connectorId ? fresh : current.filter((p) => p.connectorId === c.id)
+    );
+    return true;
+  }
+
+  private async loadPromptsFromConnectors(): Promise<NamespacedPrompt[]> {
+    this.loadingPromise = this.doLoadPrompts();
+
+    try {
+      const prompts = await this.loadingPromise;
+      this.cachedPrompts = prompts;
+      return prompts;
+    } finally {
+      this.loadingPromise = null;
+    }
+  }
+
+  /**
+   * Query all connectors in parallel; failed connectors are skipped
+   */
+  private async doLoadPrompts(): Promise<NamespacedPrompt[]> {
+    const allPrompts: NamespacedPrompt[] = [];
+
+    const results = await Promise.all(
+      this.connectors.map((connector) => this.pool.listPrompts(connector))
+    );
+
+    for (let i = 0; i < results.length; i++) {
+      const { prompts, error } = results[i];
+      const connectorId = this.connectors[i].id;
+
+      if (error) {
+        logger.warn(`Failed to list prompts from ${connectorId}: ${error}`);
+        continue;
+      }
+
+      if (prompts.length > 0) {
+        logger.info(`Listed ${prompts.length} prompt(s) from ${connectorId}`);
+      }
+      for (const prompt of prompts) {
+        allPrompts.push(this.addNamespace(connectorId, prompt));
+      }
+    }
+
+    return allPrompts;
+  }
+
+  private addNamespace(connectorId: string, prompt: PromptInfo): NamespacedPrompt {
+    if (prompt.name.includes(NAMESPACE_SEPARATOR)) {
+      logger.warn(`Prompt name contains separator '${NAMESPACE_SEPARATOR}': ${prompt.name} in ${connectorId}`);
+    }
+
+    return {
+      ...prompt,
+      connectorId,
+      namespacedName: `${connectorId}${NAMESPACE_SEPARATOR}${prompt.name}`,
+    };
+  }
+}
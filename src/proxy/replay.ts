@@ -0,0 +1,297 @@
+/**
+ * Replay Connection
+ *
+ * Stands in for a backend connection and answers from traffic proofscan
+ * already recorded in events.db, so agent tests get deterministic, offline
+ * fixtures. initialize is answered with the latest recorded result, other
+ * requests by method and canonicalized params. tools/call is matched by
+ * tool name and canonicalized arguments; when no recording has the same
+ * arguments, the `fallback` setting picks the closest recorded call of the
+ * tool or refuses.
+ *
+ * Sessions recorded while replaying are marked (see REPLAY_MARKER) and
+ * skipped, so replayed answers never become recordings themselves.
+ */
+
+import { EventEmitter } from 'events';
+import type { EventsStore } from '../db/events-store.js';
+import type { ProxyReplayConfig } from '../types/index.js';
+import type { JsonRpcRequest, JsonRpcResponse } from '../transports/stdio.js';
+import type { McpConnection } from '../transports/connection.js';
+import { cacheKey } from './response-cache.js';
+import { logger } from './logger.js';
+import { MCP_ERROR } from './types.js';
+
+/** Key of the 'connected' transport_event field that marks a replayed session */
+export const REPLAY_MARKER = 'replay';
+
+/** A recorded tools/call and its response */
+interface RecordedCall {
+  tool: string;
+  args: Record<string, unknown>;
+  response: Pick<JsonRpcResponse, 'result' | 'error'>;
+  sessionId: string;
+  rpcId: string;
+}
+
+/** Recorded traffic of one connector */
+export interface Recording {
+  /** Sessions the traffic was read from, oldest first */
+  sessionIds: string[];
+  initialize?: unknown;
+  /** Responses keyed by method + canonicalized params (later recordings win) */
+  responses: Map<string, Pick<JsonRpcResponse, 'result' | 'error'>>;
+  calls: RecordedCall[];
+}
+
+/**
+ * Read a connector's recorded traffic from events.db
+ *
+ * @param session - Session ID or prefix; every session of the connector if omitted
+ * @throws If the session does not exist or nothing was recorded
+ */
+export function loadRecording(eventsStore: EventsStore, connectorId: string, session?: string): Recording {
+  let sessionIds: string[];
+  if (session) {
+    const found = eventsStore.getSessionByPrefix(session, connectorId);
+    if (!found) {
+      throw new Error(`No recorded session ${session} for connector ${connectorId}`);
+    }
+    sessionIds = [found.session_id];
+  } else {
+    sessionIds = eventsStore.getSessionsByTarget(connectorId).map((s) => s.session_id).reverse();
+  }
+
+  const recording: Recording = { sessionIds: [], responses: new Map(), calls: [] };
+  for (const sessionId of sessionIds) {
+    readSession(eventsStore, sessionId, recording);
+  }
+
+  if (recording.initialize === undefined) {
+    throw new Error(`No recorded initialize for connector ${connectorId}${session ? ` in session ${session}` : ''}`);
+  }
+  return recording;
+}
+
+function readSession(eventsStore: EventsStore, sessionId: string, recording: Recording): void {
+  // Paired by rpc id rather than by position: a request and its response may share a timestamp
+  const requests: Array<{ rpcId: string; request: JsonRpcRequest }> = [];
+  const responses = new Map<string, JsonRpcResponse>();
+
+  for (const event of eventsStore.getEventsBySession(sessionId)) {
+    const message = parseJson(event.raw_json);
+    if (!message) {
+      continue;
+    }
+    if (event.kind === 'transport_event') {
+      if (message.type === 'connected' && message[REPLAY_MARKER]) {
+        return;
+      }
+    } else if (event.kind === 'request' && event.direction === 'client_to_server' && event.rpc_id) {
+      requests.push({ rpcId: event.rpc_id, request: message as unknown as JsonRpcRequest });
+    } else if (event.kind === 'response' && event.direction === 'server_to_client' && event.rpc_id) {
+      responses.set(event.rpc_id, message as unknown as JsonRpcResponse);
+    }
+  }
+
+  const pairs = requests.flatMap(({ rpcId, request }) => {
+    const response = responses.get(rpcId);
+    return response ? [{ request, response, rpcId }] : [];
+  });
+
+  for (const { request, response, rpcId } of pairs) {
+    const answer = { result: response.result, error: response.error };
+    if (request.method === 'initialize') {
+      if (!answer.error) {
+        recording.initialize = answer.result;
+      }
+    } else if (request.method === 'tools/call') {
+      const params = (request.params ?? {}) as { name?: unknown; arguments?: unknown };
+      if (typeof params.name === 'string') {
+        const args = isObject(params.arguments) ? params.arguments : {};
+        recording.calls.push({ tool: params.name, args, response: answer, sessionId, rpcId });
+      }
+    } else {
+      recording.responses.set(requestKey(request.method, request.params), answer);
+    }
+  }
+  if (pairs.length > 0) {
+    recording.sessionIds.push(sessionId);
+  }
+}
+
+/**
+ * Find the recorded response for a tools/call
+ *
+ * An exact match (same canonicalized arguments, latest recording) is
+ * preferred. With fallback 'nearest', the call of the same tool sharing
+ * the most argument values is used instead.
+ */
+export function findRecordedCall(
+  recording: Recording,
+  tool: string,
+  args: Record<string, unknown>,
+  fallback: ProxyReplayConfig['fallback'] = 'error'
+): { call: RecordedCall; exact: boolean } | undefined {
+  const candidates = recording.calls.filter((call) => call.tool === tool);
+  const key = cacheKey(tool, args);
+
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    if (cacheKey(tool, candidates[i].args) === key) {
+      return { call: candidates[i], exact: true };
+    }
+  }
+  if (fallback !== 'nearest' || candidates.length === 0) {
+    return undefined;
+  }
+
+  let best = candidates[candidates.length - 1];
+  let bestScore = -Infinity;
+  // Latest first, so ties go to the latest recording
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const score = similarity(args, candidates[i].args);
+    if (score > bestScore) {
+      best = candidates[i];
+      bestScore = score;
+    }
+  }
+  return { call: best, exact: false };
+}
+
+/**
+ * Arguments with the same value count for, differing or missing ones against
+ */
+function similarity(a: Record<string, unknown>, b: Record<string, unknown>): number {
+  const names = new Set([...Object.keys(a), ...Object.keys(b)]);
+  let score = 0;
+  for (const name of names) {
+    score += cacheKey('', { v: a[name] }) === cacheKey('', { v: b[name] }) ? 1 : -1;
+  }
+  return score;
+}
+
+function requestKey(method: string, params: unknown): string {
+  return cacheKey(method, isObject(params) ? withoutMeta(params) : {});
+}
+
+/** Drop params._meta (progress tokens differ between runs) */
+function withoutMeta(params: Record<string, unknown>): Record<string, unknown> {
+  const rest = { ...params };
+  delete rest._meta;
+  return rest;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseJson(raw: string | null): Record<string, unknown> | null {
+  if (!raw) {
+    return null;
+  }
+  try {
+    const value: unknown = JSON.parse(raw);
+    return isObject(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Connection that answers from a Recording instead of a backend
+ *
+ * Emits the same 'message' events as a real connection, so the replayed
+ * traffic is recorded like any other session.
+ */
+export class ReplayConnection extends EventEmitter implements McpConnection {
+  private readonly connectorId: string;
+  private readonly recording: Recording;
+  private readonly fallback: ProxyReplayConfig['fallback'];
+  private requestId: number;
+  private connected = false;
+
+  constructor(connectorId: string, recording: Recording, config: ProxyReplayConfig, firstRequestId = 1) {
+    super();
+    this.connectorId = connectorId;
+    this.recording = recording;
+    this.fallback = config.fallback;
+    this.requestId = firstRequestId;
+  }
+
+  async connect(): Promise<void> {
+    this.connected = true;
+  }
+
+  async sendRequest(method: string, params?: unknown): Promise<JsonRpcResponse> {
+    if (!this.connected) {
+      throw new Error('Connection not open');
+    }
+
+    const request: JsonRpcRequest = {
+      jsonrpc: '2.0',
+      id: this.requestId++,
+      method,
+      ...(params !== undefined && { params }),
+    };
+    this.emit('message', request, JSON.stringify(request), 'outgoing');
+
+    const response: JsonRpcResponse = { jsonrpc: '2.0', id: request.id, ...this.answer(method, params) };
+    this.emit('message', response, JSON.stringify(response), 'incoming');
+    return response;
+  }
+
+  sendNotification(method: string, params?: unknown): void {
+    const notification = { jsonrpc: '2.0' as const, method, ...(params !== undefined && { params }) };
+    this.emit('message', notification, JSON.stringify(notification), 'outgoing');
+  }
+
+  sendResponse(response: JsonRpcResponse): void {
+    this.emit('message', response, JSON.stringify(response), 'outgoing');
+  }
+
+  close(): void {
+    if (this.connected) {
+      this.connected = false;
+      this.emit('close', null, null);
+    }
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  private answer(method: string, params: unknown): Pick<JsonRpcResponse, 'result' | 'error'> {
+    if (method === 'initialize') {
+      return { result: this.recording.initialize };
+    }
+
+    if (method === 'tools/call') {
+      const { name, arguments: args } = (params ?? {}) as { name?: string; arguments?: unknown };
+      const toolArgs = isObject(args) ? args : {};
+      const match = findRecordedCall(this.recording, name ?? '', toolArgs, this.fallback);
+      if (!match) {
+        return {
+          error: {
+            code: MCP_ERROR.INTERNAL_ERROR,
+            message: `No recorded call to ${name} with these arguments (replay)`,
+          },
+        };
+      }
+      if (!match.exact) {
+        logger.warn(
+          `Replay ${this.connectorId}/${name}: no exact recording, using rpc ${match.call.rpcId} of session ${match.call.sessionId.slice(0, 8)}`,
+          'replay'
+        );
+      }
+      return match.call.response;
+    }
+
+    const recorded = this.recording.responses.get(requestKey(method, params));
+    if (recorded) {
+      return recorded;
+    }
+    return {
+      error: { code: MCP_ERROR.METHOD_NOT_FOUND, message: `No recorded response to ${method} (replay)` },
+    };
+  }
+}
@@ -1,27 +1,72 @@
 /**
  * Request Router (Phase 5.0)
  *
- * Routes tools/call requests to the appropriate backend connector
- * based on the namespace prefix.
+ * Routes tools/call and prompts/get requests to the appropriate backend
+ * connector based on the namespace prefix, and resources/read, subscribe and
+ * unsubscribe based on the namespaced resource URI. Calls go over the connector's pooled
+ * long-lived connection (see BackendPool). Connectors with proxy.validate_arguments
+ * have tool arguments checked against the tool's inputSchema first, and
+ * connectors with proxy.cache have repeated calls answered from a ResponseCache.
+ * Calls to tools covered by proxy.approval wait in the ApprovalGate, and
+ * proxy.faults rules (or rules set over IPC) have the FaultInjector make
+ * the backend look flaky.
+ *
+ * Session affinity: connectors with proxy.isolation mode 'client' get one
+ * backend per upstream client, so clients never share a stateful backend.
+ * Their tool calls, prompts/get, resources/read and resource subscriptions
+ * go to the calling client's backend; listings (shared by all clients)
+ * stay on the connector's shared backend.
  */
 
-import { callTool } from '../tools/adapter.js';
 import { logger } from './logger.js';
-import { DEFAULT_TIMEOUT, type ProxyOptions, type RouteResult } from './types.js';
+import {
+  MCP_ERROR,
+  type PromptRouteResult,
+  type PromptsGetResult,
+  type ResourceRouteResult,
+  type ResourcesReadResult,
+  type RouteResult,
+  type UpstreamClient,
+} from './types.js';
 import { ToolAggregator } from './tool-aggregator.js';
+import { namespaceResourceUri, parseResourceUri } from './resource-aggregator.js';
+import type { BackendPool } from './backend-pool.js';
+import { ResponseCache, cacheKey, isCachedTool, type CacheStats } from './response-cache.js';
+import { getApprovalReason, type ApprovalGate, type ApprovalRecord } from './approval-gate.js';
+import {
+  corruptContent,
+  oversizeContent,
+  toFaultRecord,
+  DEFAULT_FAULT_LATENCY_MS,
+  DEFAULT_FAULT_MESSAGE,
+  DEFAULT_FAULT_SIZE_BYTES,
+  type FaultInjector,
+} from './fault-injector.js';
+import {
+  formatArgumentViolations,
+  validateToolArguments,
+  type InvalidArgumentsRecord,
+} from '../tools/schema-validator.js';
+import type { RequestOptions } from '../transports/stdio.js';
+import type { Connector, ProxyFaultRule } from '../types/index.js';
 
 /**
  * Routes tool call requests to backend connectors
  */
 export class RequestRouter {
   private readonly aggregator: ToolAggregator;
-  private readonly configDir: string;
-  private readonly timeout: number;
+  private readonly pool: BackendPool;
+  private readonly approvals?: ApprovalGate;
+  private readonly faults?: FaultInjector;
+
+  /** Response caches by connector ID (connectors with proxy.cache) */
+  private readonly caches = new Map<string, ResponseCache<RouteResult>>();
 
-  constructor(options: ProxyOptions, aggregator: ToolAggregator) {
+  constructor(aggregator: ToolAggregator, pool: BackendPool, approvals?: ApprovalGate, faults?: FaultInjector) {
     this.aggregator = aggregator;
-    this.configDir = options.configDir;
-    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.pool = pool;
+    this.approvals = approvals;
+    this.faults = faults;
   }
 
   /**
@@ -29,14 +74,18 @@ export class RequestRouter {
    *
    * @param namespacedName - Tool name with namespace prefix (e.g., "time__get_current_time")
    * @param args - Tool arguments
+   * @param options - Progress callback and cancellation signal for the backend call
+   * @param client - Client making the call (picks its backend for isolated connectors)
    * @returns Route result with content or error
    */
   async routeToolCall(
     namespacedName: string,
-    args: Record<string, unknown>
+    args: Record<string, unknown>,
+    options: RequestOptions = {},
+    client?: UpstreamClient
   ): Promise<RouteResult> {
-    // Parse namespace
-    const parsed = this.aggregator.parseNamespace(namespacedName);
+    // Configured aliases first, then connector__tool
+    const parsed = this.aggregator.resolveAlias(namespacedName) ?? this.aggregator.parseNamespace(namespacedName);
 
     if (!parsed) {
       logger.error(`Invalid namespace format: ${namespacedName}`);
@@ -68,16 +117,58 @@ export class RequestRouter {
       };
     }
 
-    // Call the backend tool
-    const ctx = {
-      connectorId,
-      configDir: this.configDir,
-    };
+    const instance = this.affinity(connector, client);
+
+    // Hidden tools are refused even if the client knows their name
+    const blockReason = this.aggregator.getToolBlockReason(connectorId, toolName);
+    if (blockReason) {
+      logger.warn(`Blocked call to ${namespacedName}: ${blockReason}`, 'policy');
+      return {
+        success: false,
+        error: `Tool not exposed by proxy policy: ${namespacedName} (${blockReason})`,
+        errorCode: MCP_ERROR.INVALID_PARAMS,
+      };
+    }
 
+    // Arguments the client left out get the configured defaults
+    const defaults = connector.proxy?.tools?.[toolName]?.defaults;
+    const callArgs = defaults ? { ...defaults, ...args } : args;
+
+    if (connector.proxy?.validate_arguments) {
+      const refused = await this.checkArguments(connector, toolName, callArgs, instance);
+      if (refused) {
+        return refused;
+      }
+    }
+
+    if (connector.proxy?.approval && this.approvals) {
+      const refused = await this.checkApproval(this.approvals, connector, toolName, callArgs, options.signal, instance);
+      if (refused) {
+        return refused;
+      }
+    }
+
+    // Repeated calls to cached tools are answered without the backend
+    // (a client's own backend only answers that client)
+    const cache = await this.getCache(connector, toolName);
+    const key = instance ? `${instance.id}/${cacheKey(toolName, callArgs)}` : cacheKey(toolName, callArgs);
+    const cached = cache?.get(key);
+    if (cached) {
+      logger.info(`Cache hit ${connector.id}/${toolName}`, 'cache');
+      return { ...cached, cached: true };
+    }
+
+    const fault = this.faults?.pick(connector, toolName);
+    if (fault) {
+      const injected = await this.injectFault(fault, connector, toolName, options.signal, instance);
+      if (injected) {
+        return injected;
+      }
+    }
+
+    // Call the backend tool
     try {
-      const result = await callTool(ctx, connector, toolName, args, {
-        timeout: this.timeout,
-      });
+      const result = await this.pool.callTool(connector, toolName, callArgs, options, instance);
 
       if (result.success) {
         logger.info(`Result: success sessionId=${result.sessionId.slice(0, 8)}`);
@@ -85,13 +176,20 @@ export class RequestRouter {
         logger.error(`Result: failed sessionId=${result.sessionId.slice(0, 8)} error=${result.error}`);
       }
 
-      return {
+      const routeResult: RouteResult = {
         success: result.success,
         content: result.content,
         isError: result.isError,
         error: result.error,
         sessionId: result.sessionId,
       };
+
+      // Only successful results are reused
+      if (cache && result.success && !result.isError) {
+        cache.set(key, routeResult);
+      }
+
+      return fault ? this.applyFault(fault, routeResult) : routeResult;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       logger.error(`Backend call failed: ${errorMessage}`);
@@ -101,4 +199,350 @@ export class RequestRouter {
       };
     }
   }
+
+  /**
+   * The client whose own backend a request goes to, or undefined for the
+   * connector's shared backend
+   */
+  private affinity(connector: Connector, client?: UpstreamClient): UpstreamClient | undefined {
+    return connector.proxy?.isolation?.mode === 'client' ? client : undefined;
+  }
+
+  /**
+   * Inject a fault before the backend call
+   *
+   * @returns The result to answer with instead of calling the backend
+   *          (error and kill faults), or null to go on with the call
+   */
+  private async injectFault(
+    fault: ProxyFaultRule,
+    connector: Connector,
+    toolName: string,
+    signal?: AbortSignal,
+    instance?: UpstreamClient
+  ): Promise<RouteResult | null> {
+    logger.warn(`Injecting ${fault.kind} fault into ${connector.id}/${toolName}`, 'fault');
+    const sessionId = this.pool.recordEvent(connector, toFaultRecord(fault, toolName), instance);
+
+    switch (fault.kind) {
+      case 'latency':
+        await delay(fault.latency_ms ?? DEFAULT_FAULT_LATENCY_MS, signal);
+        return null;
+      case 'error':
+        return {
+          success: false,
+          error: fault.message ?? DEFAULT_FAULT_MESSAGE,
+          errorCode: fault.error_code ?? MCP_ERROR.INTERNAL_ERROR,
+          sessionId,
+        };
+      case 'kill':
+        this.pool.kill(connector.id, instance?.id);
+        return { success: false, error: `Backend ${connector.id} was killed (injected fault)`, sessionId };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Apply a fault to the backend's result (drop, corrupt and oversize faults)
+   */
+  private applyFault(fault: ProxyFaultRule, result: RouteResult): RouteResult {
+    switch (fault.kind) {
+      case 'drop':
+        return { ...result, dropped: true };
+      case 'corrupt':
+        return result.success ? { ...result, content: corruptContent(result.content) } : result;
+      case 'oversize':
+        return result.success
+          ? { ...result, content: oversizeContent(result.content, fault.size_bytes ?? DEFAULT_FAULT_SIZE_BYTES) }
+          : result;
+      default:
+        return result;
+    }
+  }
+
+  /**
+   * Response cache hit/miss counters, by connector ID
+   */
+  getCacheStats(): Record<string, CacheStats> {
+    return Object.fromEntries([...this.caches].map(([connectorId, cache]) => [connectorId, cache.getStats()]));
+  }
+
+  /**
+   * The connector's response cache, if it covers the tool
+   */
+  private async getCache(connector: Connector, toolName: string): Promise<ResponseCache<RouteResult> | null> {
+    const config = connector.proxy?.cache;
+    if (!config) {
+      return null;
+    }
+
+    const tool = await this.aggregator.getListedTool(connector.id, toolName);
+    if (!isCachedTool(config, toolName, tool?.description)) {
+      return null;
+    }
+
+    let cache = this.caches.get(connector.id);
+    if (!cache) {
+      cache = new ResponseCache(config);
+      this.caches.set(connector.id, cache);
+    }
+    return cache;
+  }
+
+  /**
+   * Hold a call that needs approval until it is decided
+   *
+   * Every decision (including timeouts and saved "always allow" rules) is
+   * recorded as an approval event in the connector's session.
+   *
+   * @returns The error to return, or null if the call may go ahead
+   */
+  private async checkApproval(
+    approvals: ApprovalGate,
+    connector: Connector,
+    toolName: string,
+    args: Record<string, unknown>,
+    signal?: AbortSignal,
+    instance?: UpstreamClient
+  ): Promise<RouteResult | null> {
+    const tool = await this.aggregator.getListedTool(connector.id, toolName);
+    const reason = getApprovalReason(connector.proxy?.approval, toolName, tool?.description);
+    if (!reason) {
+      return null;
+    }
+
+    if (approvals.isAlwaysAllowed(connector.id, toolName)) {
+      const record: ApprovalRecord = { type: 'approval', tool: toolName, reason, decision: 'allow', rule: 'always_allow' };
+      this.pool.recordEvent(connector, record, instance);
+      return null;
+    }
+
+    const outcome = await approvals.request(connector, toolName, args, reason, signal);
+    const record: ApprovalRecord = {
+      type: 'approval',
+      tool: toolName,
+      reason,
+      decision: outcome.decision,
+      ...(outcome.by && { by: outcome.by }),
+    };
+    const sessionId = this.pool.recordEvent(connector, record, instance);
+
+    if (outcome.approved) {
+      return null;
+    }
+
+    return {
+      success: false,
+      error: `Tool call not approved: ${toolName} (${outcome.decision === 'deny' ? 'denied' : outcome.decision})`,
+      errorCode: MCP_ERROR.INVALID_PARAMS,
+      sessionId,
+    };
+  }
+
+  /**
+   * Check arguments against the tool's inputSchema
+   *
+   * Refused calls are recorded as an invalid_arguments finding in the
+   * connector's session and never reach the backend.
+   *
+   * @returns The error to return, or null if the arguments are valid
+   */
+  private async checkArguments(
+    connector: Connector,
+    toolName: string,
+    args: Record<string, unknown>,
+    instance?: UpstreamClient
+  ): Promise<RouteResult | null> {
+    const tool = await this.aggregator.getListedTool(connector.id, toolName);
+    const violations = validateToolArguments(tool?.inputSchema, args);
+    if (violations.length === 0) {
+      return null;
+    }
+
+    const record: InvalidArgumentsRecord = { type: 'invalid_arguments', tool: toolName, violations };
+    const sessionId = this.pool.recordEvent(connector, record, instance);
+    logger.warn(`Refused arguments for ${connector.id}/${toolName}: ${violations.map((v) => v.path).join(', ')}`, 'validation');
+
+    return {
+      success: false,
+      error: `Invalid arguments for ${toolName}:\n${formatArgumentViolations(violations)}`,
+      errorCode: MCP_ERROR.INVALID_PARAMS,
+      errorData: { violations },
+      sessionId,
+    };
+  }
+
+  /**
+   * Route a prompts/get request to the backend that owns the prompt
+   *
+   * @param namespacedName - Prompt name with namespace prefix (e.g., "git__commit_message")
+   * @param args - Prompt arguments
+   * @param client - Client asking (picks its backend for isolated connectors)
+   */
+  async routePromptGet(
+    namespacedName: string,
+    args: Record<string, string>,
+    client?: UpstreamClient
+  ): Promise<PromptRouteResult> {
+    // Same connector__name scheme as tools
+    const parsed = this.aggregator.parseNamespace(namespacedName);
+
+    if (!parsed) {
+      return {
+        success: false,
+        error: `Invalid prompt name format. Expected: <connector>__<prompt>, got: ${namespacedName}`,
+        errorCode: MCP_ERROR.INVALID_PARAMS,
+      };
+    }
+
+    const { connectorId, toolName: promptName } = parsed;
+    logger.info(`Routing → connector=${connectorId} prompt=${promptName}`);
+
+    const connector = this.aggregator.findConnector(connectorId);
+
+    if (!connector || !connector.enabled) {
+      return {
+        success: false,
+        error: `Connector not found: ${connectorId}`,
+        errorCode: MCP_ERROR.INVALID_PARAMS,
+      };
+    }
+
+    const response = await this.pool.request(
+      connector,
+      'prompts/get',
+      { name: promptName, arguments: args },
+      this.affinity(connector, client)
+    );
+
+    if (response.error) {
+      logger.error(`prompts/get failed sessionId=${response.sessionId.slice(0, 8)} error=${response.error}`);
+      return { success: false, error: response.error, errorCode: response.errorCode, sessionId: response.sessionId };
+    }
+
+    return { success: true, result: response.result as PromptsGetResult, sessionId: response.sessionId };
+  }
+
+  /**
+   * Route a resources/read request to the backend that owns the resource
+   *
+   * URIs in the returned contents are rewritten back into namespaced form.
+   *
+   * @param namespacedUri - proofscan-backend://<connector>/<uri>
+   * @param client - Client reading (picks its backend for isolated connectors)
+   */
+  async routeResourceRead(namespacedUri: string, client?: UpstreamClient): Promise<ResourceRouteResult> {
+    const target = this.resolveResource(namespacedUri);
+    if ('error' in target) {
+      return target.error;
+    }
+
+    const { connector, uri } = target;
+    logger.info(`Routing → connector=${connector.id} resource=${uri}`);
+
+    const response = await this.pool.request(connector, 'resources/read', { uri }, this.affinity(connector, client));
+
+    if (response.error) {
+      logger.error(`resources/read failed sessionId=${response.sessionId.slice(0, 8)} error=${response.error}`);
+      return { success: false, error: response.error, errorCode: response.errorCode, sessionId: response.sessionId };
+    }
+
+    const result = response.result as ResourcesReadResult | undefined;
+    const contents = Array.isArray(result?.contents)
+      ? result.contents.map((content) =>
+          typeof content?.uri === 'string' ? { ...content, uri: namespaceResourceUri(connector.id, content.uri) } : content
+        )
+      : [];
+
+    return { success: true, result: { ...result, contents }, sessionId: response.sessionId };
+  }
+
+  /**
+   * Route resources/subscribe or resources/unsubscribe to the owning backend
+   *
+   * @param namespacedUri - proofscan-backend://<connector>/<uri>
+   * @param subscribed - true to subscribe, false to unsubscribe
+   * @param client - The subscribing client (isolated connectors subscribe its own backend)
+   */
+  async routeResourceSubscription(
+    namespacedUri: string,
+    subscribed: boolean,
+    client?: UpstreamClient
+  ): Promise<ResourceRouteResult> {
+    const target = this.resolveResource(namespacedUri);
+    if ('error' in target) {
+      return target.error;
+    }
+
+    const { connector, uri } = target;
+    const method = subscribed ? 'resources/subscribe' : 'resources/unsubscribe';
+    logger.info(`Routing → connector=${connector.id} ${method} ${uri}`);
+
+    const response = await this.pool.setSubscription(connector, uri, subscribed, this.affinity(connector, client));
+
+    if (response.error) {
+      logger.error(`${method} failed sessionId=${response.sessionId.slice(0, 8)} error=${response.error}`);
+      return { success: false, error: response.error, errorCode: response.errorCode, sessionId: response.sessionId };
+    }
+
+    return { success: true, result: response.result ?? {}, sessionId: response.sessionId };
+  }
+
+  /**
+   * Whether a namespaced resource URI is served by each client's own
+   * backend (isolated connector) rather than a shared one
+   */
+  isClientResource(namespacedUri: string): boolean {
+    const target = this.resolveResource(namespacedUri);
+    return !('error' in target) && target.connector.proxy?.isolation?.mode === 'client';
+  }
+
+  /**
+   * Find the connector and backend URI behind a namespaced resource URI
+   */
+  private resolveResource(
+    namespacedUri: string
+  ): { connector: Connector; uri: string } | { error: ResourceRouteResult } {
+    const parsed = parseResourceUri(namespacedUri);
+
+    if (!parsed) {
+      return {
+        error: {
+          success: false,
+          error: `Resource not found: ${namespacedUri}`,
+          errorCode: MCP_ERROR.INVALID_PARAMS,
+        },
+      };
+    }
+
+    const connector = this.aggregator.findConnector(parsed.connectorId);
+
+    if (!connector || !connector.enabled) {
+      return {
+        error: {
+          success: false,
+          error: `Connector not found: ${parsed.connectorId}`,
+          errorCode: MCP_ERROR.INVALID_PARAMS,
+        },
+      };
+    }
+
+    return { connector, uri: parsed.uri };
+  }
+}
+
+/**
+ * Wait, returning early if the signal aborts
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
 }
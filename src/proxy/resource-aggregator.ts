@@ -0,0 +1,260 @@
+/**
+ * Resource Aggregator
+ *
+ * Aggregates resources and resource templates from backend connectors that
+ * declare the resources capability. Backend URIs are rewritten into the
+ * reversible form proofscan-backend://<connectorId>/<uri> so resources/read
+ * and resources/subscribe can be routed back to the owning connector.
+ */
+
+import type { Connector } from '../types/index.js';
+import { logger } from './logger.js';
+import type { BackendPool } from './backend-pool.js';
+import {
+  BACKEND_RESOURCE_URI_PREFIX,
+  type ProxyOptions,
+  type ParsedResourceUri,
+  type ResourceInfo,
+  type ResourceTemplateInfo,
+} from './types.js';
+
+/** Connector IDs are limited to these characters, which keeps the URI form reversible */
+const CONNECTOR_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/**
+ * Rewrite a backend URI (or URI template) into its namespaced form
+ */
+export function namespaceResourceUri(connectorId: string, uri: string): string {
+  return `${BACKEND_RESOURCE_URI_PREFIX}${connectorId}/${uri}`;
+}
+
+/**
+ * Split a namespaced URI into connector ID and backend URI
+ *
+ * @returns null if the URI is not a namespaced backend URI
+ */
+export function parseResourceUri(uri: string): ParsedResourceUri | null {
+  if (!uri.startsWith(BACKEND_RESOURCE_URI_PREFIX)) {
+    return null;
+  }
+
+  const rest = uri.slice(BACKEND_RESOURCE_URI_PREFIX.length);
+  const slash = rest.indexOf('/');
+  if (slash <= 0 || slash === rest.length - 1) {
+    return null;
+  }
+
+  const connectorId = rest.slice(0, slash);
+  if (!CONNECTOR_ID_PATTERN.test(connectorId)) {
+    return null;
+  }
+
+  return { connectorId, uri: rest.slice(slash + 1) };
+}
+
+/** Resources and templates of all connectors, with namespaced URIs */
+export interface AggregatedResources {
+  resources: ResourceInfo[];
+  resourceTemplates: ResourceTemplateInfo[];
+  /** Whether any backend supports resources/subscribe */
+  subscribe: boolean;
+}
+
+/**
+ * Aggregates resources from multiple MCP connectors
+ */
+export class ResourceAggregator {
+  private readonly connectors: Connector[];
+  private readonly pool: BackendPool;
+
+  /** Cached resources, per connector (namespaced URIs) */
+  private cached: Map<string, AggregatedResources> | null = null;
+
+  /** Whether loading is in progress */
+  private loadingPromise: Promise<Map<string, AggregatedResources>> | null = null;
+
+  constructor(options: ProxyOptions, pool: BackendPool) {
+    this.connectors = options.connectors;
+    this.pool = pool;
+  }
+
+  /**
+   * Preload resources from all connectors (eager loading)
+   *
+   * Called during proxy startup so initialize can tell whether to
+   * advertise resource subscriptions.
+   */
+  async preloadResources(): Promise<void> {
+    try {
+      const loaded = await this.getAggregatedResources();
+      logger.info(
+        `Preloaded ${loaded.resources.length} resource(s), ${loaded.resourceTemplates.length} template(s)`,
+        'aggregator'
+      );
+    } catch (error) {
+      logger.warn(`Resource preload failed: ${error instanceof Error ? error.message : error}`, 'aggregator');
+    }
+  }
+
+  /**
+   * Invalidate cached resources (force reload on next request)
+   */
+  invalidateCache(): void {
+    this.cached = null;
+    this.loadingPromise = null;
+  }
+
+  /**
+   * Get all resources and templates with namespaced URIs
+   *
+   * Uses cached resources if available. Concurrent calls share one load.
+   */
+  async getAggregatedResources(): Promise<AggregatedResources> {
+    const byConnector = this.cached ?? (await (this.loadingPromise ?? this.loadResourcesFromConnectors()));
+
+    const aggregated: AggregatedResources = { resources: [], resourceTemplates: [], subscribe: false };
+    for (const connector of this.connectors) {
+      const loaded = byConnector.get(connector.id);
+      if (!loaded) {
+        continue;
+      }
+      aggregated.resources.push(...loaded.resources);
+      aggregated.resourceTemplates.push(...loaded.resourceTemplates);
+      aggregated.subscribe = aggregated.subscribe || loaded.subscribe;
+    }
+    return aggregated;
+  }
+
+  /**
+   * Re-list one connector's resources (after its notifications/resources/list_changed)
+   *
+   * Only that connector's entries in the cache are replaced. Does nothing
+   * if nothing is cached yet. On failure the previous resources are kept.
+   *
+   * @returns true if the cache was updated
+   */
+  async refreshConnector(connectorId: string): Promise<boolean> {
+    const connector = this.connectors.find((c) => c.id === connectorId);
+    if (!connector || this.cached === null) {
+      return false;
+    }
+
+    const loaded = await this.loadFromConnector(connector);
+    if (loaded.error) {
+      logger.warn(`Failed to re-list resources from ${connectorId}: ${loaded.error}`);
+      return false;
+    }
+
+    if (this.cached === null) {
+      return false;
+    }
+    this.cached.set(connectorId, loaded);
+    return true;
+  }
+
+  private async loadResourcesFromConnectors(): Promise<Map<string, AggregatedResources>> {
+    this.loadingPromise = this.doLoadResources();
+
+    try {
+      const loaded = await this.loadingPromise;
+      this.cached = loaded;
+      return loaded;
+    } finally {
+      this.loadingPromise = null;
+    }
+  }
+
+  /**
+   * Query all connectors in parallel; failed connectors are skipped
+   */
+  private async doLoadResources(): Promise<Map<string, AggregatedResources>> {
+    const byConnector = new Map<string, AggregatedResources>();
+
+    const results = await Promise.all(
+      this.connectors.map((connector) => this.loadFromConnector(connector))
+    );
+
+    for (let i = 0; i < results.length; i++) {
+      const { error, ...loaded } = results[i];
+      const connectorId = this.connectors[i].id;
+
+      if (error) {
+        logger.warn(`Failed to list resources from ${connectorId}: ${error}`);
+        continue;
+      }
+
+      if (loaded.resources.length > 0 || loaded.resourceTemplates.length > 0) {
+        logger.info(
+          `Listed ${loaded.resources.length} resource(s), ${loaded.resourceTemplates.length} template(s) from ${connectorId}`
+        );
+      }
+      byConnector.set(connectorId, loaded);
+    }
+
+    return byConnector;
+  }
+
+  /**
+   * List one connector's resources and templates, with namespaced URIs
+   *
+   * Backends that do not declare the resources capability are not asked.
+   */
+  private async loadFromConnector(connector: Connector): Promise<AggregatedResources & { error?: string }> {
+    const empty = { resources: [], resourceTemplates: [], subscribe: false };
+
+    let capabilities: Record<string, unknown>;
+    try {
+      capabilities = await this.pool.getCapabilities(connector);
+    } catch (error) {
+      return { ...empty, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const resourcesCapability = capabilities.resources as { subscribe?: boolean } | undefined;
+    if (!resourcesCapability) {
+      return empty;
+    }
+
+    const list = await this.pool.request(connector, 'resources/list', {});
+    if (list.error) {
+      return { ...empty, error: list.error };
+    }
+
+    // Templates are optional; a backend without them still lists its resources
+    const templates = await this.pool.request(connector, 'resources/templates/list', {});
+    if (templates.error) {
+      logger.info(`No resource templates from ${connector.id}: ${templates.error}`);
+    }
+
+    const resources = parseEntries<ResourceInfo>(list.result, 'resources', 'uri');
+    const resourceTemplates = templates.error
+      ? []
+      : parseEntries<ResourceTemplateInfo>(templates.result, 'resourceTemplates', 'uriTemplate');
+
+    return {
+      resources: resources.map((r) => ({ ...r, uri: namespaceResourceUri(connector.id, r.uri) })),
+      resourceTemplates: resourceTemplates.map((t) => ({
+        ...t,
+        uriTemplate: namespaceResourceUri(connector.id, t.uriTemplate),
+      })),
+      subscribe: resourcesCapability.subscribe === true,
+    };
+  }
+}
+
+/**
+ * Pick the well-formed entries (string name and URI field) out of a list result
+ */
+function parseEntries<T>(result: unknown, listKey: string, uriKey: string): T[] {
+  const list = (result as Record<string, unknown> | undefined)?.[listKey];
+  if (!Array.isArray(list)) {
+    return [];
+  }
+
+  return list.filter(
+    (entry): entry is T =>
+      entry !== null &&
+      typeof entry === 'object' &&
+      typeof (entry as Record<string, unknown>)[uriKey] === 'string' &&
+      typeof (entry as Record<string, unknown>).name === 'string'
+  );
+}
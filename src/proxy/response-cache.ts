@@ -0,0 +1,121 @@
+/**
+ * Response Cache
+ *
+ * Serves repeated calls to idempotent backend tools from memory, per the
+ * connector's `proxy.cache` section. Results are keyed by tool name and
+ * canonicalized arguments, expire after the configured TTL, and the least
+ * recently used result is dropped once max_entries is reached.
+ */
+
+import type { ProxyCacheConfig } from '../types/index.js';
+import { classifyTool } from '../db/tool-analysis.js';
+import { matchesToolPattern } from './tool-policy.js';
+
+/** Results kept per connector when max_entries is not set */
+export const DEFAULT_CACHE_MAX_ENTRIES = 100;
+
+/** Hit/miss counters for `pfscan proxy status` */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  /** Results currently cached */
+  entries: number;
+}
+
+/**
+ * Check whether the cache config covers a tool
+ *
+ * Tools are picked by name pattern and/or operation category; with
+ * neither set, `read` tools are cached.
+ *
+ * @param name - Tool name without the connector prefix
+ * @param description - Tool description, used for category classification
+ */
+export function isCachedTool(config: ProxyCacheConfig, name: string, description?: string): boolean {
+  if (config.tools && matchesToolPattern(name, config.tools)) {
+    return true;
+  }
+
+  const categories = config.categories ?? (config.tools ? [] : ['read']);
+  return categories.length > 0 && categories.includes(classifyTool(name, description));
+}
+
+/**
+ * Cache key for a tool call: tool name + arguments with sorted keys
+ */
+export function cacheKey(toolName: string, args: Record<string, unknown>): string {
+  return `${toolName}:${JSON.stringify(sortKeys(args))}`;
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value).sort().map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * TTL + LRU cache of tool results for one connector
+ */
+export class ResponseCache<T> {
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+
+  /** Map order is recency order: the first entry is the least recently used */
+  private readonly entries = new Map<string, { value: T; expiresAt: number }>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(config: ProxyCacheConfig, now: () => number = Date.now) {
+    this.ttlMs = config.ttl_seconds * 1000;
+    this.maxEntries = config.max_entries ?? DEFAULT_CACHE_MAX_ENTRIES;
+    this.now = now;
+  }
+
+  /**
+   * Look up a result, counting the hit or miss
+   */
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      this.misses++;
+      return undefined;
+    }
+
+    // Move to the most recently used end
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  /**
+   * Store a result, evicting the least recently used one if full
+   */
+  set(key: string, value: T): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: this.now() + this.ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  getStats(): CacheStats {
+    const now = this.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+    return { hits: this.hits, misses: this.misses, entries: this.entries.size };
+  }
+}
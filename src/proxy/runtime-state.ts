@@ -8,6 +8,8 @@
 import { writeFile, readFile, mkdir, rename, unlink } from 'fs/promises';
 import { join, dirname } from 'path';
 import { existsSync } from 'fs';
+import type { CacheStats } from './response-cache.js';
+import type { CallStats } from './call-stats.js';
 
 /** Client connection state */
 export type ClientState = 'active' | 'idle' | 'gone';
@@ -40,8 +42,17 @@ export interface ConnectorSummary {
   healthy: boolean;
   /** Error message if unhealthy */
   error?: string;
+  /** Turned off at runtime with `pfscan proxy connector disable` (until enabled or reloaded) */
+  disabled?: boolean;
+  /** Response cache counters (connectors with proxy.cache, once a cached tool was called) */
+  cache?: CacheStats;
+  /** Tool call counters (once the connector got a call) */
+  calls?: CallStats;
 }
 
+/** How clients reach the proxy (stdio, or Streamable HTTP with --listen) */
+export type ProxyMode = 'stdio' | 'http';
+
 /** Proxy runtime state persisted to JSON file */
 export interface ProxyRuntimeState {
   /** Schema version for forward compatibility */
@@ -52,7 +63,7 @@ export interface ProxyRuntimeState {
     /** Current state */
     state: 'RUNNING' | 'STOPPED';
     /** Communication mode */
-    mode: 'stdio';
+    mode: ProxyMode;
     /** When proxy started (ISO timestamp) */
     startedAt: string;
     /** Process ID for staleness detection */
@@ -115,6 +126,8 @@ export class RuntimeStateManager {
   private readonly statePath: string;
   private state: ProxyRuntimeState;
   private heartbeatTimer: NodeJS.Timeout | null = null;
+  private cacheStatsSource: (() => Record<string, CacheStats>) | null = null;
+  private callStatsSource: (() => Record<string, CallStats>) | null = null;
 
   constructor(configDir: string) {
     this.statePath = join(configDir, 'proxy-runtime-state.json');
@@ -126,7 +139,8 @@ export class RuntimeStateManager {
    */
   async initialize(
     connectors: ConnectorSummary[],
-    logLevel: 'INFO' | 'WARN' | 'ERROR'
+    logLevel: 'INFO' | 'WARN' | 'ERROR',
+    mode: ProxyMode = 'stdio'
   ): Promise<void> {
     const now = new Date().toISOString();
 
@@ -134,7 +148,7 @@ export class RuntimeStateManager {
       version: 1,
       proxy: {
         state: 'RUNNING',
-        mode: 'stdio',
+        mode,
         startedAt: now,
         pid: process.pid,
         heartbeat: now,
@@ -234,6 +248,19 @@ export class RuntimeStateManager {
     }
   }
 
+  /**
+   * Replace one connector's summary (after it was enabled, disabled or restarted)
+   */
+  async updateConnector(summary: ConnectorSummary): Promise<void> {
+    const index = this.state.connectors.findIndex((c) => c.id === summary.id);
+    if (index === -1) {
+      this.state.connectors.push(summary);
+    } else {
+      this.state.connectors[index] = summary;
+    }
+    await this.persist();
+  }
+
   /**
    * Mark proxy as stopped
    */
@@ -256,17 +283,49 @@ export class RuntimeStateManager {
     // Don't persist on every log - let heartbeat handle it
   }
 
+  /**
+   * Set where response cache counters come from
+   *
+   * They change on every cached call, so they are read when the state is
+   * written (heartbeat) or asked for rather than persisted on each call.
+   */
+  setCacheStatsSource(source: () => Record<string, CacheStats>): void {
+    this.cacheStatsSource = source;
+  }
+
+  /**
+   * Set where tool call counters come from (read like the cache counters)
+   */
+  setCallStatsSource(source: () => Record<string, CallStats>): void {
+    this.callStatsSource = source;
+  }
+
   /**
    * Get current state (for internal use)
    */
   getState(): ProxyRuntimeState {
+    this.applyStats();
     return this.state;
   }
 
+  private applyStats(): void {
+    const cache = this.cacheStatsSource?.() ?? {};
+    const calls = this.callStatsSource?.() ?? {};
+    for (const connector of this.state.connectors) {
+      if (cache[connector.id]) {
+        connector.cache = cache[connector.id];
+      }
+      if (calls[connector.id]) {
+        connector.calls = calls[connector.id];
+      }
+    }
+  }
+
   /**
    * Persist state to file (atomic write using rename)
    */
   private async persist(): Promise<void> {
+    this.applyStats();
     const json = JSON.stringify(this.state, null, 2);
     const tempPath = this.statePath + '.tmp';
 
@@ -2,15 +2,19 @@
  * Tool Aggregator (Phase 5.0)
  *
  * Aggregates tools from multiple backend connectors and provides
- * namespace-prefixed tool names for the proxy.
+ * namespace-prefixed tool names for the proxy. Tools hidden by a
+ * connector's proxy policy are left out (see tool-policy.ts), and the
+ * connector's per-tool overrides (alias, title, description, argument
+ * defaults) are applied.
  */
 
 import type { Connector } from '../types/index.js';
-import { listTools, type ToolInfo } from '../tools/adapter.js';
+import type { ToolInfo, ToolInputSchema } from '../tools/adapter.js';
 import { logger } from './logger.js';
+import type { BackendPool } from './backend-pool.js';
+import { getToolBlockReason } from './tool-policy.js';
 import {
   NAMESPACE_SEPARATOR,
-  DEFAULT_TIMEOUT,
   type ProxyOptions,
   type NamespacedTool,
   type ParsedNamespace,
@@ -21,8 +25,7 @@ import {
  */
 export class ToolAggregator {
   private readonly connectors: Connector[];
-  private readonly configDir: string;
-  private readonly timeout: number;
+  private readonly pool: BackendPool;
 
   /** Cached tools from all connectors */
   private cachedTools: NamespacedTool[] | null = null;
@@ -30,10 +33,12 @@ export class ToolAggregator {
   /** Whether initial loading is in progress */
   private loadingPromise: Promise<NamespacedTool[]> | null = null;
 
-  constructor(options: ProxyOptions) {
+  /** Tools hidden by policy at the last listing: connectorId -> tool name -> reason */
+  private readonly hiddenTools = new Map<string, Map<string, string>>();
+
+  constructor(options: ProxyOptions, pool: BackendPool) {
     this.connectors = options.connectors;
-    this.configDir = options.configDir;
-    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.pool = pool;
   }
 
   /**
@@ -82,6 +87,41 @@ export class ToolAggregator {
     return this.loadToolsFromConnectors();
   }
 
+  /**
+   * Re-list one connector's tools (after its notifications/tools/list_changed)
+   *
+   * Only that connector's entries in the cache are replaced. Does nothing
+   * if nothing is cached yet; the next tools/list loads every connector.
+   * On failure the connector's previous tools are kept.
+   *
+   * @returns true if the cache was updated
+   */
+  async refreshConnector(connectorId: string): Promise<boolean> {
+    const connector = this.findConnector(connectorId);
+    if (!connector || this.cachedTools === null) {
+      return false;
+    }
+
+    const result = await this.pool.listTools(connector);
+    if (result.error) {
+      logger.warn(`Failed to re-list tools from ${connectorId}: ${result.error}`);
+      return false;
+    }
+
+    const current = this.cachedTools;
+    if (current === null) {
+      return false;
+    }
+
+    logger.info(`Re-listed ${result.tools.length} tool(s) from ${connectorId}`);
+    const fresh = this.applyPolicy(connector, result.tools).map((tool) => this.addNamespace(connector, tool));
+    // Keep connector order so the list is the same as after a full load
+    this.cachedTools = this.connectors.flatMap((c) =>
+      c.id === connectorId ? fresh : current.filter((t) => t.connectorId === c.id)
+    );
+    return true;
+  }
+
   /**
    * Load tools from all connectors (internal)
    *
@@ -110,12 +150,7 @@ export class ToolAggregator {
     // Query all connectors in parallel
     const results = await Promise.allSettled(
       this.connectors.map(async (connector) => {
-        const ctx = {
-          connectorId: connector.id,
-          configDir: this.configDir,
-        };
-
-        const result = await listTools(ctx, connector, { timeout: this.timeout });
+        const result = await this.pool.listTools(connector);
 
         if (result.error) {
           throw new Error(result.error);
@@ -142,9 +177,9 @@ export class ToolAggregator {
       const { connectorId, tools, sessionId } = result.value;
       logger.info(`Listed ${tools.length} tool(s) from ${connectorId} (session=${sessionId.slice(0, 8)})`);
 
-      // Add namespace prefix to each tool
-      for (const tool of tools) {
-        allTools.push(this.addNamespace(connectorId, tool));
+      // Add namespace prefix to each exposed tool
+      for (const tool of this.applyPolicy(connector, tools)) {
+        allTools.push(this.addNamespace(connector, tool));
       }
     }
 
@@ -152,12 +187,61 @@ export class ToolAggregator {
   }
 
   /**
-   * Add namespace prefix to a tool
+   * Why a tool may not be called through the proxy (null if it may)
+   *
+   * Uses the description from the last listing for category checks;
+   * tools not listed yet are judged by name only.
+   */
+  getToolBlockReason(connectorId: string, toolName: string): string | null {
+    const hidden = this.hiddenTools.get(connectorId)?.get(toolName);
+    if (hidden) {
+      return hidden;
+    }
+
+    const listed = this.cachedTools?.find((t) => t.connectorId === connectorId && t.name === toolName);
+    return getToolBlockReason(this.findConnector(connectorId)?.proxy, toolName, listed?.description);
+  }
+
+  /**
+   * A backend tool as listed by the proxy (overrides applied)
+   *
+   * Loads the tool list if nothing is cached yet. Returns undefined if the
+   * tool is not listed.
+   */
+  async getListedTool(connectorId: string, toolName: string): Promise<NamespacedTool | undefined> {
+    const tools = await this.getAggregatedTools();
+    return tools.find((t) => t.connectorId === connectorId && t.name === toolName);
+  }
+
+  /**
+   * Drop the tools the connector's proxy policy hides, remembering why
+   */
+  private applyPolicy(connector: Connector, tools: ToolInfo[]): ToolInfo[] {
+    const hidden = new Map<string, string>();
+    const exposed = tools.filter((tool) => {
+      const reason = getToolBlockReason(connector.proxy, tool.name, tool.description);
+      if (reason) {
+        hidden.set(tool.name, reason);
+      }
+      return reason === null;
+    });
+
+    this.hiddenTools.set(connector.id, hidden);
+    if (hidden.size > 0) {
+      logger.info(`Hiding ${hidden.size} tool(s) from ${connector.id} by proxy policy: ${[...hidden.keys()].join(', ')}`, 'policy');
+    }
+    return exposed;
+  }
+
+  /**
+   * Add namespace prefix to a tool and apply the connector's overrides
    *
    * Warns if connector ID or tool name contains the namespace separator,
    * as this can cause ambiguous parsing.
    */
-  private addNamespace(connectorId: string, tool: ToolInfo): NamespacedTool {
+  private addNamespace(connector: Connector, tool: ToolInfo): NamespacedTool {
+    const connectorId = connector.id;
+
     // Warn about potential namespace collisions
     if (connectorId.includes(NAMESPACE_SEPARATOR)) {
       logger.warn(`Connector ID contains separator '${NAMESPACE_SEPARATOR}': ${connectorId}`);
@@ -166,13 +250,33 @@ export class ToolAggregator {
       logger.warn(`Tool name contains separator '${NAMESPACE_SEPARATOR}': ${tool.name} in ${connectorId}`);
     }
 
+    const override = connector.proxy?.tools?.[tool.name];
     return {
       ...tool,
+      ...(override?.title !== undefined && { title: override.title }),
+      ...(override?.description !== undefined && { description: override.description }),
+      ...(override?.defaults && { inputSchema: withArgumentDefaults(tool.inputSchema, override.defaults) }),
       connectorId,
-      namespacedName: `${connectorId}${NAMESPACE_SEPARATOR}${tool.name}`,
+      namespacedName: override?.alias ?? `${connectorId}${NAMESPACE_SEPARATOR}${tool.name}`,
     };
   }
 
+  /**
+   * Find the connector and backend tool behind a configured alias
+   *
+   * Returns null if no connector defines the alias.
+   */
+  resolveAlias(name: string): ParsedNamespace | null {
+    for (const connector of this.connectors) {
+      for (const [toolName, override] of Object.entries(connector.proxy?.tools ?? {})) {
+        if (override.alias === name) {
+          return { connectorId: connector.id, toolName };
+        }
+      }
+    }
+    return null;
+  }
+
   /**
    * Parse a namespaced tool name into connector ID and tool name
    *
@@ -207,3 +311,31 @@ export class ToolAggregator {
     return this.connectors.find((c) => c.id === connectorId);
   }
 }
+
+/**
+ * Mark defaulted arguments in a tool's input schema
+ *
+ * The proxy fills them in, so they are no longer required of the client.
+ */
+function withArgumentDefaults(
+  schema: ToolInputSchema | undefined,
+  defaults: Record<string, unknown>
+): ToolInputSchema | undefined {
+  if (!schema) {
+    return schema;
+  }
+
+  const properties = { ...schema.properties };
+  for (const [name, value] of Object.entries(defaults)) {
+    if (properties[name]) {
+      properties[name] = { ...properties[name], default: value };
+    }
+  }
+
+  const required = schema.required?.filter((name) => !(name in defaults));
+  return {
+    ...schema,
+    ...(schema.properties && { properties }),
+    ...(required && { required }),
+  };
+}
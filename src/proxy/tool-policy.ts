@@ -0,0 +1,67 @@
+/**
+ * Tool Exposure Policy
+ *
+ * Decides which backend tools the proxy exposes, from the connector's
+ * `proxy` section (allow/deny lists with * and ? wildcards, and denied
+ * operation categories).
+ */
+
+import type { ConnectorProxyPolicy } from '../types/index.js';
+import { classifyTool } from '../db/tool-analysis.js';
+
+/**
+ * Convert a tool name pattern (* and ? wildcards) into an anchored RegExp
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((ch) => {
+      if (ch === '*') return '.*';
+      if (ch === '?') return '.';
+      return ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a tool name matches any of the patterns
+ */
+export function matchesToolPattern(name: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => patternToRegExp(pattern).test(name));
+}
+
+/**
+ * Why the policy hides a tool
+ *
+ * @param policy - The connector's proxy policy (undefined exposes everything)
+ * @param name - Tool name without the connector prefix
+ * @param description - Tool description, used for category classification
+ * @returns null if the tool is exposed, otherwise a human-readable reason
+ */
+export function getToolBlockReason(
+  policy: ConnectorProxyPolicy | undefined,
+  name: string,
+  description?: string
+): string | null {
+  if (!policy) {
+    return null;
+  }
+
+  if (policy.allow_tools && !matchesToolPattern(name, policy.allow_tools)) {
+    return 'not in allow_tools';
+  }
+
+  if (policy.deny_tools && matchesToolPattern(name, policy.deny_tools)) {
+    return 'matched by deny_tools';
+  }
+
+  if (policy.deny_categories && policy.deny_categories.length > 0) {
+    const category = classifyTool(name, description);
+    if (policy.deny_categories.includes(category)) {
+      return `category '${category}' is denied`;
+    }
+  }
+
+  return null;
+}
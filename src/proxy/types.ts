@@ -2,15 +2,26 @@
  * Proxy Type Definitions (Phase 5.0)
  */
 
-import type { Connector } from '../types/index.js';
+import type { Connector, ProxyReplayConfig } from '../types/index.js';
 import type { ToolInfo } from '../tools/adapter.js';
 
 /** Namespace separator for tool names */
 export const NAMESPACE_SEPARATOR = '__';
 
+/**
+ * Prefix of namespaced backend resource URIs
+ *
+ * A backend URI is exposed as `proofscan-backend://<connectorId>/<uri>`,
+ * with the original URI appended as-is so templates stay expandable.
+ */
+export const BACKEND_RESOURCE_URI_PREFIX = 'proofscan-backend://';
+
 /** Default timeout in seconds for backend calls */
 export const DEFAULT_TIMEOUT = 30;
 
+/** Default idle timeout in seconds before a pooled backend is closed */
+export const DEFAULT_IDLE_TIMEOUT = 300;
+
 /** Proxy startup options */
 export interface ProxyOptions {
   /** Connectors to expose through the proxy */
@@ -21,6 +32,36 @@ export interface ProxyOptions {
   verbose?: boolean;
   /** Timeout in seconds for backend calls (default: 30) */
   timeout?: number;
+  /** Seconds a backend connection may sit idle before it is closed (default: 300, 0 = never) */
+  idleTimeout?: number;
+  /** Connectors to answer from recordings, by ID (overrides their proxy.replay) */
+  replay?: Record<string, ProxyReplayConfig>;
+  /** List only the search_tools/describe_tool/invoke_tool meta-tools instead of every proxied tool */
+  lazyTools?: boolean;
+}
+
+/** State of a pooled backend connection */
+export interface BackendStatus {
+  connectorId: string;
+  /** Upstream client the backend belongs to (connectors with proxy.isolation mode 'client') */
+  clientId?: string;
+  /** idle = not connected (yet, or closed after idling) */
+  state: 'idle' | 'connecting' | 'ready' | 'crashed';
+  /** Session recording this connector's traffic for the proxy run */
+  sessionId: string | null;
+  /** Number of restarts after unexpected exits */
+  restarts: number;
+  /** Requests currently waiting for a response */
+  inFlight: number;
+  lastError?: string;
+}
+
+/** Upstream client a request came from */
+export interface UpstreamClient {
+  /** 'stdio', or the Mcp-Session-Id of an HTTP session */
+  id: string;
+  /** clientInfo.name from initialize */
+  name?: string;
 }
 
 /** MCP JSON-RPC error codes */
@@ -47,19 +88,96 @@ export interface NamespacedTool extends ToolInfo {
   namespacedName: string;
 }
 
+/** Prompt as listed by a backend (prompts/list) */
+export interface PromptInfo {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: Array<{
+    name: string;
+    description?: string;
+    required?: boolean;
+  }>;
+}
+
+/** Resource as listed by a backend (resources/list); other fields pass through */
+export interface ResourceInfo {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  [key: string]: unknown;
+}
+
+/** Resource template as listed by a backend (resources/templates/list) */
+export interface ResourceTemplateInfo {
+  uriTemplate: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  [key: string]: unknown;
+}
+
+/** Parsed namespaced resource URI */
+export interface ParsedResourceUri {
+  connectorId: string;
+  /** URI as the backend knows it */
+  uri: string;
+}
+
+/** Prompt with namespace prefix */
+export interface NamespacedPrompt extends PromptInfo {
+  /** Original connector ID */
+  connectorId: string;
+  /** Namespaced name (connectorId__promptName) */
+  namespacedName: string;
+}
+
 /** Parsed namespace result */
 export interface ParsedNamespace {
   connectorId: string;
   toolName: string;
 }
 
+/** Result of routing a prompts/get request */
+export interface PromptRouteResult {
+  success: boolean;
+  /** Backend result, passed through unchanged */
+  result?: PromptsGetResult;
+  error?: string;
+  /** JSON-RPC error code (backend errors keep the backend's code) */
+  errorCode?: number;
+  sessionId?: string;
+}
+
+/** Result of routing a resources/read, subscribe or unsubscribe request */
+export interface ResourceRouteResult {
+  success: boolean;
+  /** Backend result (resources/read contents carry namespaced URIs) */
+  result?: unknown;
+  error?: string;
+  /** JSON-RPC error code (backend errors keep the backend's code) */
+  errorCode?: number;
+  sessionId?: string;
+}
+
 /** Result of routing a tool call */
 export interface RouteResult {
   success: boolean;
   content?: unknown[];
   isError?: boolean;
   error?: string;
+  /** JSON-RPC error code for errors the proxy raises itself (default: internal error) */
+  errorCode?: number;
+  /** JSON-RPC error data sent along with errorCode */
+  errorData?: unknown;
   sessionId?: string;
+  /** Served from the connector's response cache */
+  cached?: boolean;
+  /** Withheld from the client (injected drop fault) */
+  dropped?: boolean;
 }
 
 /** JSON-RPC 2.0 request */
@@ -105,6 +223,7 @@ export interface InitializeResult {
   capabilities: {
     tools?: Record<string, unknown>;
     resources?: Record<string, unknown>;
+    prompts?: Record<string, unknown>;
   };
   serverInfo: {
     name: string;
@@ -125,6 +244,7 @@ export interface ToolsListResult {
 export interface ToolsCallParams {
   name: string;
   arguments?: Record<string, unknown>;
+  _meta?: { progressToken?: string | number };
 }
 
 /** MCP tools/call result */
@@ -141,17 +261,34 @@ export interface ToolsCallResult {
   };
 }
 
+/** MCP prompts/list result */
+export interface PromptsListResult {
+  prompts: PromptInfo[];
+}
+
+/** MCP prompts/get params */
+export interface PromptsGetParams {
+  name: string;
+  arguments?: Record<string, string>;
+}
+
+/** MCP prompts/get result */
+export interface PromptsGetResult {
+  description?: string;
+  messages: unknown[];
+}
+
 /** MCP resources/list result */
 export interface ResourcesListResult {
-  resources: Array<{
-    uri: string;
-    name: string;
-    description?: string;
-    mimeType?: string;
-  }>;
+  resources: ResourceInfo[];
+}
+
+/** MCP resources/templates/list result */
+export interface ResourceTemplatesListResult {
+  resourceTemplates: ResourceTemplateInfo[];
 }
 
-/** MCP resources/read params */
+/** MCP resources/read params (also resources/subscribe and resources/unsubscribe) */
 export interface ResourcesReadParams {
   uri: string;
 }
@@ -0,0 +1,39 @@
+/**
+ * bunx Runner implementation
+ * Executes Node.js packages via Bun's bunx
+ */
+
+import type { Runner, RunnerStatus, PackageRef, MaterializedTransport } from './types.js';
+import { detectRunner } from './types.js';
+
+/**
+ * bunx Runner class
+ */
+export class BunxRunner implements Runner {
+  readonly name = 'bunx' as const;
+  readonly ecosystem = 'npm' as const;
+
+  /**
+   * Detect if bunx is available on the system
+   */
+  async detect(): Promise<RunnerStatus> {
+    return detectRunner(this.name);
+  }
+
+  /**
+   * Materialize a package reference into bunx command
+   */
+  materialize(pkg: PackageRef, env?: Record<string, string>): MaterializedTransport {
+    // bunx installs missing packages without prompting
+    const args = [pkg.version ? `${pkg.package}@${pkg.version}` : pkg.package];
+
+    return {
+      command: 'bunx',
+      args,
+      ...(env && Object.keys(env).length > 0 && { env }),
+    };
+  }
+}
+
+/** Singleton instance */
+export const bunxRunner = new BunxRunner();
@@ -0,0 +1,101 @@
+/**
+ * Container runner implementation (docker, podman)
+ * Runs MCP servers published as OCI images
+ */
+
+import { execSync } from 'child_process';
+import type { Runner, RunnerStatus, PackageRef, MaterializedTransport, ContainerRuntimeStatus } from './types.js';
+import { detectRunner } from './types.js';
+
+/** Container engines proofscan can drive */
+export type ContainerEngine = 'docker' | 'podman';
+
+/** `info --format` template that prints the engine's server version */
+const VERSION_FORMAT: Record<ContainerEngine, string> = {
+  docker: '{{.ServerVersion}}',
+  podman: '{{.Version.Version}}',
+};
+
+/** Timeout for the runtime check (`docker info` hangs while the daemon starts) */
+const RUNTIME_CHECK_TIMEOUT_MS = 5000;
+
+/**
+ * Whether an image reference already carries a tag or digest
+ * (a ":" in the last path segment, so "localhost:5000/img" has no tag)
+ */
+function hasTagOrDigest(image: string): boolean {
+  if (image.includes('@')) {
+    return true;
+  }
+  const lastSegment = image.slice(image.lastIndexOf('/') + 1);
+  return lastSegment.includes(':');
+}
+
+/**
+ * Container runner class
+ */
+export class ContainerRunner implements Runner {
+  readonly name: ContainerEngine;
+  readonly ecosystem = 'oci' as const;
+
+  constructor(engine: ContainerEngine) {
+    this.name = engine;
+  }
+
+  /**
+   * Detect the CLI, then check that the runtime (daemon / machine) answers
+   */
+  async detect(): Promise<RunnerStatus> {
+    const status = await detectRunner(this.name);
+    if (!status.available) {
+      return status;
+    }
+    return { ...status, runtime: this.checkRuntime() };
+  }
+
+  /**
+   * Materialize an image reference into `<engine> run -i --rm`
+   *
+   * Variables are passed with `-e NAME` (no value), so the engine reads
+   * them from its own environment: values from the connector env never
+   * appear on the command line.
+   */
+  materialize(pkg: PackageRef, env?: Record<string, string>): MaterializedTransport {
+    const args = ['run', '-i', '--rm'];
+
+    const names = new Set([...(pkg.envNames ?? []), ...Object.keys(env ?? {})]);
+    for (const name of names) {
+      args.push('-e', name);
+    }
+
+    if (pkg.version && !hasTagOrDigest(pkg.package)) {
+      args.push(`${pkg.package}:${pkg.version}`);
+    } else {
+      args.push(pkg.package);
+    }
+
+    return {
+      command: this.name,
+      args,
+      ...(env && Object.keys(env).length > 0 && { env }),
+    };
+  }
+
+  private checkRuntime(): ContainerRuntimeStatus {
+    try {
+      const version = execSync(`${this.name} info --format "${VERSION_FORMAT[this.name]}"`, {
+        encoding: 'utf-8',
+        stdio: ['pipe', 'pipe', 'pipe'],
+        timeout: RUNTIME_CHECK_TIMEOUT_MS,
+      }).trim();
+      return { reachable: true, ...(version && { version }) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+      return { reachable: false, error: message };
+    }
+  }
+}
+
+/** Singleton instances */
+export const dockerRunner = new ContainerRunner('docker');
+export const podmanRunner = new ContainerRunner('podman');
@@ -0,0 +1,41 @@
+/**
+ * deno Runner implementation
+ * Executes npm packages via `deno run npm:<package>`
+ */
+
+import type { Runner, RunnerStatus, PackageRef, MaterializedTransport } from './types.js';
+import { detectRunner } from './types.js';
+
+/**
+ * deno Runner class
+ */
+export class DenoRunner implements Runner {
+  readonly name = 'deno' as const;
+  readonly ecosystem = 'npm' as const;
+
+  /**
+   * Detect if deno is available on the system
+   */
+  async detect(): Promise<RunnerStatus> {
+    return detectRunner(this.name);
+  }
+
+  /**
+   * Materialize a package reference into `deno run` command
+   *
+   * Uses -A: MCP servers expect the same env, network and file access
+   * they get under npx.
+   */
+  materialize(pkg: PackageRef, env?: Record<string, string>): MaterializedTransport {
+    const specifier = pkg.version ? `npm:${pkg.package}@${pkg.version}` : `npm:${pkg.package}`;
+
+    return {
+      command: 'deno',
+      args: ['run', '-A', specifier],
+      ...(env && Object.keys(env).length > 0 && { env }),
+    };
+  }
+}
+
+/** Singleton instance */
+export const denoRunner = new DenoRunner();
@@ -1,24 +1,57 @@
 /**
  * Runner subsystem - package execution abstraction
  *
- * Provides a unified interface for executing packages via npx or uvx.
+ * Provides a unified interface for executing npm packages (npx, bunx,
+ * pnpm dlx, deno run), PyPI packages (uvx, pipx run) and OCI images
+ * (docker, podman).
  */
 
-import type { Runner, RunnerName, RunnerStatus, PackageRef, MaterializedTransport } from './types.js';
+import type {
+  Runner,
+  RunnerName,
+  RunnerStatus,
+  PackageRef,
+  MaterializedTransport,
+  ContainerRuntimeStatus,
+  PackageEcosystem,
+} from './types.js';
 import { sanitizeEnv } from './types.js';
 import { npxRunner } from './npx.js';
 import { uvxRunner } from './uvx.js';
+import { bunxRunner } from './bunx.js';
+import { pnpmRunner } from './pnpm.js';
+import { pipxRunner } from './pipx.js';
+import { denoRunner } from './deno.js';
+import { dockerRunner, podmanRunner } from './container.js';
 
 // Re-export types
-export type { Runner, RunnerName, RunnerStatus, PackageRef, MaterializedTransport };
+export type {
+  Runner,
+  RunnerName,
+  RunnerStatus,
+  PackageRef,
+  MaterializedTransport,
+  ContainerRuntimeStatus,
+  PackageEcosystem,
+};
 
 // Re-export utility functions
 export { sanitizeEnv };
 
 /**
- * All available runners in priority order (npx first, then uvx)
+ * Package runners in priority order (npx and uvx first, then the alternatives)
  */
-const RUNNERS: Runner[] = [npxRunner, uvxRunner];
+const PACKAGE_RUNNERS: Runner[] = [npxRunner, uvxRunner, bunxRunner, pnpmRunner, pipxRunner, denoRunner];
+
+/**
+ * Container runners in priority order (docker first, then podman)
+ */
+const CONTAINER_RUNNERS: Runner[] = [dockerRunner, podmanRunner];
+
+/**
+ * All runners, as reported by detectAll()
+ */
+const RUNNERS: Runner[] = [...PACKAGE_RUNNERS, ...CONTAINER_RUNNERS];
 
 /**
  * Cache for resolved runner paths (to avoid repeated detection)
@@ -32,14 +65,14 @@ const resolvedPaths: Map<string, string> = new Map();
  * they are in PATH, because the PATH resolution differs between shells.
  * This function detects the runner and returns the full executable path.
  *
- * @param command - The command to resolve (e.g., 'npx', 'uvx')
+ * @param command - The command to resolve (e.g., 'npx', 'uvx', 'pnpm')
  * @returns Full path if runner is detected, otherwise returns original command
  */
 export async function resolveRunnerCommand(command: string): Promise<string> {
   const cmd = command.toLowerCase();
 
-  // Check if it's a known runner
-  if (cmd !== 'npx' && cmd !== 'uvx') {
+  // Check if it's a known package runner
+  if (!PACKAGE_RUNNERS.some((r) => r.name === cmd)) {
     return command;
   }
 
@@ -80,6 +113,18 @@ export function getRunner(name: RunnerName): Runner {
       return npxRunner;
     case 'uvx':
       return uvxRunner;
+    case 'bunx':
+      return bunxRunner;
+    case 'pnpm':
+      return pnpmRunner;
+    case 'pipx':
+      return pipxRunner;
+    case 'deno':
+      return denoRunner;
+    case 'docker':
+      return dockerRunner;
+    case 'podman':
+      return podmanRunner;
     default:
       throw new Error(`Unknown runner: ${name}`);
   }
@@ -89,23 +134,62 @@ export function getRunner(name: RunnerName): Runner {
  * List all available runner names
  */
 export function listRunnerNames(): RunnerName[] {
-  return ['npx', 'uvx'];
+  return RUNNERS.map((r) => r.name);
+}
+
+/**
+ * Check if a name is a known runner
+ */
+export function isRunnerName(name: string): name is RunnerName {
+  return RUNNERS.some((r) => r.name === name);
+}
+
+/**
+ * Check if a runner runs container images rather than packages
+ */
+export function isContainerRunner(name: RunnerName): boolean {
+  return getRunner(name).ecosystem === 'oci';
 }
 
 /**
  * Detect all runners and return their status
- * Results are in priority order (npx first)
+ * Results are in priority order (package runners, then docker, podman)
  */
 export async function detectAll(): Promise<RunnerStatus[]> {
   return Promise.all(RUNNERS.map((r) => r.detect()));
 }
 
 /**
- * Find the first available runner (priority: npx > uvx)
+ * Find the first available package runner
+ * (priority: preferred, then npx > uvx > bunx > pnpm > pipx > deno)
+ * @param ecosystem - Only consider runners for npm or PyPI packages
+ * @param preferred - Runner to try first (e.g. the configured default)
  * @returns Runner if found, null if none available
  */
-export async function findAvailableRunner(): Promise<Runner | null> {
-  for (const runner of RUNNERS) {
+export async function findAvailableRunner(
+  ecosystem?: PackageEcosystem,
+  preferred?: RunnerName
+): Promise<Runner | null> {
+  let candidates = ecosystem
+    ? PACKAGE_RUNNERS.filter((r) => r.ecosystem === ecosystem)
+    : PACKAGE_RUNNERS;
+  const first = candidates.find((r) => r.name === preferred);
+  if (first) {
+    candidates = [first, ...candidates.filter((r) => r !== first)];
+  }
+  return findFirstAvailable(candidates);
+}
+
+/**
+ * Find the first available container runner (priority: docker > podman)
+ * @returns Runner if found, null if none available
+ */
+export async function findAvailableContainerRunner(): Promise<Runner | null> {
+  return findFirstAvailable(CONTAINER_RUNNERS);
+}
+
+async function findFirstAvailable(runners: Runner[]): Promise<Runner | null> {
+  for (const runner of runners) {
     const status = await runner.detect();
     if (status.available) {
       return runner;
@@ -122,6 +206,11 @@ export async function findAvailableRunner(): Promise<Runner | null> {
  * - { command: "npx", args: ["-y", "@pkg/name@1.0.0"] }
  * - { command: "uvx", args: ["mcp-server"] }
  * - { command: "uvx", args: ["mcp-server==1.0.0"] }
+ * - { command: "bunx", args: ["@pkg/name@1.0.0"] }
+ * - { command: "pnpm", args: ["dlx", "@pkg/name"] }
+ * - { command: "pipx", args: ["run", "--spec", "mcp-server==1.0.0", "mcp-server"] }
+ * - { command: "deno", args: ["run", "-A", "npm:@pkg/name@1.0.0"] }
+ * - { command: "docker", args: ["run", "-i", "--rm", "-e", "KEY", "image:tag"] }
  *
  * @returns PackageRef or null if cannot be parsed as a runner package
  */
@@ -153,6 +242,79 @@ export function parsePackageRef(transport: {
     }
   }
 
+  // Handle bunx format: bunx [flags] <package[@version]>
+  if (cmd === 'bunx') {
+    const pkgArg = args.find((a) => !a.startsWith('-'));
+    if (pkgArg) {
+      return parseNpmPackageRef(pkgArg);
+    }
+  }
+
+  // Handle pnpm format: pnpm dlx <package[@version]>
+  if (cmd === 'pnpm' && args[0] === 'dlx') {
+    const pkgArg = args.slice(1).find((a) => !a.startsWith('-'));
+    if (pkgArg) {
+      return parseNpmPackageRef(pkgArg);
+    }
+  }
+
+  // Handle pipx format: pipx run [--spec <package==version>] <app>
+  if (cmd === 'pipx' && args[0] === 'run') {
+    const specIndex = args.indexOf('--spec');
+    const pkgArg = specIndex !== -1
+      ? args[specIndex + 1]
+      : args.slice(1).find((a) => !a.startsWith('-'));
+    if (pkgArg) {
+      return parsePythonPackageRef(pkgArg);
+    }
+  }
+
+  // Handle deno format: deno run [flags] npm:<package[@version]>
+  if (cmd === 'deno' && args[0] === 'run') {
+    const specifier = args.find((a) => a.startsWith('npm:'));
+    if (specifier) {
+      return parseNpmPackageRef(specifier.slice('npm:'.length));
+    }
+  }
+
+  // Handle container format: docker|podman run [flags] <image>
+  if ((cmd === 'docker' || cmd === 'podman') && args[0] === 'run') {
+    return parseContainerRunArgs(args.slice(1));
+  }
+
+  return null;
+}
+
+/**
+ * `run` flags that take a value as the next argument
+ */
+const CONTAINER_FLAGS_WITH_VALUE = new Set([
+  '-e', '--env', '--env-file', '-v', '--volume', '-p', '--publish',
+  '--name', '--network', '--entrypoint', '-w', '--workdir', '-u', '--user',
+  '--platform', '--mount', '-l', '--label',
+]);
+
+/**
+ * Parse `run` arguments: the image is the first argument that is not a flag
+ * or a flag value; `-e NAME` flags become envNames
+ */
+function parseContainerRunArgs(args: string[]): PackageRef | null {
+  const envNames: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('-')) {
+      return { package: arg, ...(envNames.length > 0 && { envNames }) };
+    }
+    if (CONTAINER_FLAGS_WITH_VALUE.has(arg) && i + 1 < args.length) {
+      const value = args[++i];
+      // Only bare names are passthrough; NAME=value would put the value in args
+      if ((arg === '-e' || arg === '--env') && !value.includes('=')) {
+        envNames.push(value);
+      }
+    }
+  }
+
   return null;
 }
 
@@ -198,4 +360,4 @@ function parsePythonPackageRef(pkgArg: string): PackageRef {
 }
 
 // Re-export individual runners for direct access
-export { npxRunner, uvxRunner };
+export { npxRunner, uvxRunner, bunxRunner, pnpmRunner, pipxRunner, denoRunner, dockerRunner, podmanRunner };
@@ -11,6 +11,7 @@ import { detectRunner } from './types.js';
  */
 export class NpxRunner implements Runner {
   readonly name = 'npx' as const;
+  readonly ecosystem = 'npm' as const;
 
   /**
    * Detect if npx is available on the system
@@ -0,0 +1,48 @@
+/**
+ * pipx Runner implementation
+ * Executes Python packages via `pipx run`
+ */
+
+import type { Runner, RunnerStatus, PackageRef, MaterializedTransport } from './types.js';
+import { detectRunner } from './types.js';
+
+/**
+ * pipx Runner class
+ */
+export class PipxRunner implements Runner {
+  readonly name = 'pipx' as const;
+  readonly ecosystem = 'pypi' as const;
+
+  /**
+   * Detect if pipx is available on the system
+   */
+  async detect(): Promise<RunnerStatus> {
+    return detectRunner(this.name);
+  }
+
+  /**
+   * Materialize a package reference into `pipx run` command
+   *
+   * A pinned version goes through --spec, with the package name as the
+   * app to run (same assumption as uvx: the entry point is named after
+   * the package).
+   */
+  materialize(pkg: PackageRef, env?: Record<string, string>): MaterializedTransport {
+    const args = ['run'];
+
+    if (pkg.version) {
+      args.push('--spec', `${pkg.package}==${pkg.version}`, pkg.package);
+    } else {
+      args.push(pkg.package);
+    }
+
+    return {
+      command: 'pipx',
+      args,
+      ...(env && Object.keys(env).length > 0 && { env }),
+    };
+  }
+}
+
+/** Singleton instance */
+export const pipxRunner = new PipxRunner();
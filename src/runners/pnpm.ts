@@ -0,0 +1,45 @@
+/**
+ * pnpm Runner implementation
+ * Executes Node.js packages via `pnpm dlx`
+ */
+
+import type { Runner, RunnerStatus, PackageRef, MaterializedTransport } from './types.js';
+import { detectRunner } from './types.js';
+
+/**
+ * pnpm Runner class
+ */
+export class PnpmRunner implements Runner {
+  readonly name = 'pnpm' as const;
+  readonly ecosystem = 'npm' as const;
+
+  /**
+   * Detect if pnpm is available on the system
+   */
+  async detect(): Promise<RunnerStatus> {
+    return detectRunner(this.name);
+  }
+
+  /**
+   * Materialize a package reference into `pnpm dlx` command
+   */
+  materialize(pkg: PackageRef, env?: Record<string, string>): MaterializedTransport {
+    const args = ['dlx'];
+
+    // Add package with optional version
+    if (pkg.version) {
+      args.push(`${pkg.package}@${pkg.version}`);
+    } else {
+      args.push(pkg.package);
+    }
+
+    return {
+      command: 'pnpm',
+      args,
+      ...(env && Object.keys(env).length > 0 && { env }),
+    };
+  }
+}
+
+/** Singleton instance */
+export const pnpmRunner = new PnpmRunner();
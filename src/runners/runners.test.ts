@@ -169,6 +169,141 @@ describe('runners', () => {
     });
   });
 
+  describe('alternative package runners', () => {
+    it('should materialize npm packages for bunx, pnpm dlx and deno', async () => {
+      const { bunxRunner } = await import('./bunx.js');
+      const { pnpmRunner } = await import('./pnpm.js');
+      const { denoRunner } = await import('./deno.js');
+      const pkg = { package: '@org/server', version: '1.2.3' };
+
+      expect(bunxRunner.materialize(pkg)).toEqual({ command: 'bunx', args: ['@org/server@1.2.3'] });
+      expect(pnpmRunner.materialize(pkg)).toEqual({ command: 'pnpm', args: ['dlx', '@org/server@1.2.3'] });
+      expect(denoRunner.materialize(pkg)).toEqual({ command: 'deno', args: ['run', '-A', 'npm:@org/server@1.2.3'] });
+      expect(pnpmRunner.materialize({ package: 'server' }, { KEY: 'v' })).toEqual({
+        command: 'pnpm',
+        args: ['dlx', 'server'],
+        env: { KEY: 'v' },
+      });
+    });
+
+    it('should materialize PyPI packages for pipx run', async () => {
+      const { pipxRunner } = await import('./pipx.js');
+
+      expect(pipxRunner.materialize({ package: 'mcp-server' }).args).toEqual(['run', 'mcp-server']);
+      expect(pipxRunner.materialize({ package: 'mcp-server', version: '1.0.0' }).args)
+        .toEqual(['run', '--spec', 'mcp-server==1.0.0', 'mcp-server']);
+    });
+
+    it('should round-trip through parsePackageRef', async () => {
+      const { parsePackageRef, getRunner } = await import('./index.js');
+      const npmPkg = { package: '@org/server', version: '1.2.3' };
+      const pypiPkg = { package: 'mcp-server', version: '1.0.0' };
+
+      for (const name of ['bunx', 'pnpm', 'deno'] as const) {
+        expect(parsePackageRef(getRunner(name).materialize(npmPkg))).toEqual(npmPkg);
+      }
+      expect(parsePackageRef(getRunner('pipx').materialize(pypiPkg))).toEqual(pypiPkg);
+      expect(parsePackageRef(getRunner('pipx').materialize({ package: 'mcp-server' })))
+        .toEqual({ package: 'mcp-server' });
+    });
+
+    it('should report the ecosystem of each runner', async () => {
+      const { getRunner, listRunnerNames } = await import('./index.js');
+      expect(Object.fromEntries(listRunnerNames().map((n) => [n, getRunner(n).ecosystem]))).toEqual({
+        npx: 'npm',
+        uvx: 'pypi',
+        bunx: 'npm',
+        pnpm: 'npm',
+        pipx: 'pypi',
+        deno: 'npm',
+        docker: 'oci',
+        podman: 'oci',
+      });
+    });
+  });
+
+  describe('ContainerRunner', () => {
+    describe('detect', () => {
+      it('should report a reachable runtime with its server version', async () => {
+        mockedExecSync.mockImplementation((cmd) => {
+          if (String(cmd).startsWith('which')) return '/usr/bin/docker\n';
+          if (String(cmd).includes('--version')) return 'Docker version 27.1.1, build 6312585\n';
+          return '27.1.1\n'; // info --format
+        });
+
+        const { dockerRunner } = await import('./container.js');
+        const status = await dockerRunner.detect();
+
+        expect(status.available).toBe(true);
+        expect(status.runtime).toEqual({ reachable: true, version: '27.1.1' });
+        expect(mockedExecSync).toHaveBeenCalledWith(
+          'docker info --format "{{.ServerVersion}}"',
+          expect.objectContaining({ timeout: expect.any(Number) })
+        );
+      });
+
+      it('should report an unreachable runtime when the CLI is installed', async () => {
+        mockedExecSync.mockImplementation((cmd) => {
+          if (String(cmd).startsWith('which')) return '/usr/bin/podman\n';
+          if (String(cmd).includes('--version')) return 'podman version 5.2.0\n';
+          throw new Error('Cannot connect to Podman\nmore details');
+        });
+
+        const { podmanRunner } = await import('./container.js');
+        const status = await podmanRunner.detect();
+
+        expect(status.available).toBe(true);
+        expect(status.runtime).toEqual({ reachable: false, error: 'Cannot connect to Podman' });
+      });
+
+      it('should skip the runtime check when the CLI is not found', async () => {
+        mockedExecSync.mockImplementation(() => {
+          throw new Error('not found');
+        });
+
+        const { dockerRunner } = await import('./container.js');
+        const status = await dockerRunner.detect();
+
+        expect(status.available).toBe(false);
+        expect(status.runtime).toBeUndefined();
+      });
+    });
+
+    describe('materialize', () => {
+      it('should generate docker run -i --rm with env names only', async () => {
+        const { dockerRunner } = await import('./container.js');
+        const result = dockerRunner.materialize(
+          { package: 'ghcr.io/acme/mcp-server', version: '1.2.0', envNames: ['API_KEY'] },
+          { API_KEY: 'secret', REGION: 'eu' }
+        );
+
+        expect(result.command).toBe('docker');
+        expect(result.args).toEqual([
+          'run', '-i', '--rm', '-e', 'API_KEY', '-e', 'REGION', 'ghcr.io/acme/mcp-server:1.2.0',
+        ]);
+        expect(result.args).not.toContain('secret');
+        expect(result.env).toEqual({ API_KEY: 'secret', REGION: 'eu' });
+      });
+
+      it('should keep an existing tag or digest', async () => {
+        const { podmanRunner } = await import('./container.js');
+
+        expect(podmanRunner.materialize({ package: 'acme/server:latest', version: '1.0.0' }).args)
+          .toEqual(['run', '-i', '--rm', 'acme/server:latest']);
+        expect(podmanRunner.materialize({ package: 'acme/server@sha256:abc', version: '1.0.0' }).args)
+          .toEqual(['run', '-i', '--rm', 'acme/server@sha256:abc']);
+      });
+
+      it('should not mistake a registry port for a tag', async () => {
+        const { dockerRunner } = await import('./container.js');
+        const result = dockerRunner.materialize({ package: 'localhost:5000/img', version: '2.0.0' });
+
+        expect(result.args).toEqual(['run', '-i', '--rm', 'localhost:5000/img:2.0.0']);
+        expect(result.env).toBeUndefined();
+      });
+    });
+  });
+
   describe('parsePackageRef', () => {
     it('should parse npx format with -y flag', async () => {
       const { parsePackageRef } = await import('./index.js');
@@ -299,6 +434,31 @@ describe('runners', () => {
     });
   });
 
+  describe('parsePackageRef (containers)', () => {
+    it('should parse docker run with env names and flags', async () => {
+      const { parsePackageRef } = await import('./index.js');
+      const result = parsePackageRef({
+        command: 'docker',
+        args: ['run', '-i', '--rm', '-e', 'API_KEY', '--name', 'mcp', 'ghcr.io/acme/server:1.0.0'],
+      });
+
+      expect(result).toEqual({
+        package: 'ghcr.io/acme/server:1.0.0',
+        envNames: ['API_KEY'],
+      });
+    });
+
+    it('should parse podman run without env', async () => {
+      const { parsePackageRef } = await import('./index.js');
+      const result = parsePackageRef({
+        command: 'podman',
+        args: ['run', '-i', '--rm', 'acme/server'],
+      });
+
+      expect(result).toEqual({ package: 'acme/server' });
+    });
+  });
+
   describe('getRunner', () => {
     it('should return npx runner for "npx"', async () => {
       const { getRunner } = await import('./index.js');
@@ -312,6 +472,12 @@ describe('runners', () => {
       expect(runner.name).toBe('uvx');
     });
 
+    it('should return container runners for "docker" and "podman"', async () => {
+      const { getRunner } = await import('./index.js');
+      expect(getRunner('docker').name).toBe('docker');
+      expect(getRunner('podman').name).toBe('podman');
+    });
+
     it('should throw for unknown runner', async () => {
       const { getRunner } = await import('./index.js');
       expect(() => getRunner('unknown' as any)).toThrow('Unknown runner: unknown');
@@ -322,24 +488,32 @@ describe('runners', () => {
     it('should return all runner names', async () => {
       const { listRunnerNames } = await import('./index.js');
       const names = listRunnerNames();
-      expect(names).toEqual(['npx', 'uvx']);
+      expect(names).toEqual(['npx', 'uvx', 'bunx', 'pnpm', 'pipx', 'deno', 'docker', 'podman']);
     });
   });
 
   describe('detectAll', () => {
     it('should detect all runners', async () => {
-      mockedExecSync
-        .mockReturnValueOnce('/usr/bin/npx\n') // npx which
-        .mockReturnValueOnce('10.0.0\n') // npx version
-        .mockReturnValueOnce('/usr/bin/uvx\n') // uvx which
-        .mockReturnValueOnce('0.5.0\n'); // uvx version
+      mockedExecSync.mockImplementation((cmd) => {
+        if (String(cmd).includes('podman')) throw new Error('not found');
+        if (String(cmd).startsWith('which')) return `/usr/bin/${String(cmd).split(' ')[1]}\n`;
+        return '1.0.0\n';
+      });
 
       const { detectAll } = await import('./index.js');
       const results = await detectAll();
 
-      expect(results).toHaveLength(2);
-      expect(results[0].name).toBe('npx');
-      expect(results[1].name).toBe('uvx');
+      expect(results.map((r) => [r.name, r.available])).toEqual([
+        ['npx', true],
+        ['uvx', true],
+        ['bunx', true],
+        ['pnpm', true],
+        ['pipx', true],
+        ['deno', true],
+        ['docker', true],
+        ['podman', false],
+      ]);
+      expect(results[6].runtime).toEqual({ reachable: true, version: '1.0.0' });
     });
   });
 
@@ -371,6 +545,30 @@ describe('runners', () => {
       expect(runner?.name).toBe('uvx');
     });
 
+    it('should only consider runners for the given ecosystem', async () => {
+      mockedExecSync.mockImplementation((cmd) => {
+        if (String(cmd) === 'which pnpm' || String(cmd) === 'which uvx') return `/usr/bin/${String(cmd).split(' ')[1]}\n`;
+        if (String(cmd).startsWith('which')) throw new Error('not found');
+        return '1.0.0\n';
+      });
+
+      const { findAvailableRunner } = await import('./index.js');
+
+      expect((await findAvailableRunner('npm'))?.name).toBe('pnpm');
+      expect((await findAvailableRunner('pypi'))?.name).toBe('uvx');
+    });
+
+    it('should try the preferred runner first', async () => {
+      mockedExecSync.mockReturnValue('/usr/bin/runner\n');
+
+      const { findAvailableRunner } = await import('./index.js');
+
+      expect((await findAvailableRunner('npm', 'bunx'))?.name).toBe('bunx');
+      expect((await findAvailableRunner('pypi', 'pipx'))?.name).toBe('pipx');
+      // A preferred runner from another ecosystem is ignored
+      expect((await findAvailableRunner('npm', 'pipx'))?.name).toBe('npx');
+    });
+
     it('should return null if no runners available', async () => {
       mockedExecSync.mockImplementation(() => {
         throw new Error('not found');
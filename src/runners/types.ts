@@ -1,5 +1,6 @@
 /**
- * Runner types for package execution (npx, uvx)
+ * Runner types for package execution (npx, uvx, bunx, pnpm, pipx, deno)
+ * and container images (docker, podman)
  */
 
 import { execSync } from 'child_process';
@@ -7,7 +8,25 @@ import { execSync } from 'child_process';
 /**
  * Runner names supported by proofscan
  */
-export type RunnerName = 'npx' | 'uvx';
+export type RunnerName = 'npx' | 'uvx' | 'bunx' | 'pnpm' | 'pipx' | 'deno' | 'docker' | 'podman';
+
+/**
+ * What a runner executes: npm packages, PyPI packages or OCI images
+ */
+export type PackageEcosystem = 'npm' | 'pypi' | 'oci';
+
+/**
+ * Container runtime status (docker/podman only)
+ * The CLI can be installed while the daemon or machine is not running.
+ */
+export interface ContainerRuntimeStatus {
+  /** Whether `<engine> info` succeeded */
+  reachable: boolean;
+  /** Server/engine version if reachable */
+  version?: string;
+  /** Error message if not reachable */
+  error?: string;
+}
 
 /**
  * Runner status from detection
@@ -23,6 +42,8 @@ export interface RunnerStatus {
   path?: string;
   /** Error message if detection failed */
   error?: string;
+  /** Container runtime status (docker/podman only) */
+  runtime?: ContainerRuntimeStatus;
 }
 
 /**
@@ -46,15 +67,20 @@ export interface PackageRef {
   package: string;
   /** Optional version specifier (e.g., "1.0.0" or "latest") */
   version?: string;
+  /** Environment variable names the server expects (container runners pass these through) */
+  envNames?: string[];
 }
 
 /**
- * Runner interface - abstracts npx/uvx execution
+ * Runner interface - abstracts package and container execution
  */
 export interface Runner {
   /** Runner name identifier */
   readonly name: RunnerName;
 
+  /** Packages this runner can execute */
+  readonly ecosystem: PackageEcosystem;
+
   /**
    * Detect if runner is available on the system
    * Uses `which` (Unix) or `where` (Windows) to check
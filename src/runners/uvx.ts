@@ -11,6 +11,7 @@ import { detectRunner } from './types.js';
  */
 export class UvxRunner implements Runner {
   readonly name = 'uvx' as const;
+  readonly ecosystem = 'pypi' as const;
 
   /**
    * Detect if uvx is available on the system
@@ -3,10 +3,18 @@
  * Connects, performs handshake, calls tools/list, logs events to SQLite
  */
 
-import type { Connector, StdioTransport } from '../types/index.js';
-import { StdioConnection, JsonRpcMessage, JsonRpcResponse } from '../transports/stdio.js';
+import type { Connector } from '../types/index.js';
+import type { JsonRpcResponse } from '../transports/stdio.js';
+import {
+  createConnection,
+  describeTransport,
+  isSupportedTransport,
+  resolveTransportSecrets,
+} from '../transports/connection.js';
+import { ServerRequestHandler } from '../transports/server-requests.js';
+import { DEFAULT_PROTOCOL_VERSION } from '../transports/protocol-versions.js';
 import { EventsStore } from '../db/events-store.js';
-import type { EventDirection, EventKind } from '../db/types.js';
+import { attachEventRecorder } from '../tools/adapter.js';
 
 export interface ScanResult {
   success: boolean;
@@ -36,7 +44,7 @@ export class Scanner {
     const dryRun = options.dryRun || false;
     let eventCount = 0;
 
-    if (connector.transport.type !== 'stdio') {
+    if (!isSupportedTransport(connector.transport)) {
       if (!dryRun) {
         // Create a session even for unsupported transport to record the failure
         const session = this.eventsStore.createSession(connector.id);
@@ -63,17 +71,32 @@ export class Scanner {
       };
     }
 
-    const transport = connector.transport as StdioTransport;
-    const connection = new StdioConnection(transport);
-
     // Create new session (or use dummy for dry-run)
     const session = dryRun
       ? { session_id: `dry-run-${Date.now()}` }
       : this.eventsStore.createSession(connector.id);
     const sessionId = session.session_id;
 
-    // Track RPC calls
-    const rpcIdMap = new Map<string | number, string>(); // Maps JSON-RPC id to our rpc_id
+    // Resolve secret refs (env for stdio, headers for HTTP)
+    const resolved = await resolveTransportSecrets(connector, this.configDir);
+    if (resolved.error) {
+      if (!dryRun) {
+        this.eventsStore.saveEvent(sessionId, 'client_to_server', 'transport_event', {
+          rawJson: JSON.stringify({ type: 'error', message: resolved.error }),
+        });
+        this.eventsStore.endSession(sessionId, 'error');
+      }
+
+      return {
+        success: false,
+        connectorId: connector.id,
+        sessionId,
+        error: resolved.error,
+        eventCount: dryRun ? 0 : 1,
+      };
+    }
+
+    const connection = createConnection(resolved.transport);
 
     try {
       // Log connection attempt
@@ -81,68 +104,21 @@ export class Scanner {
         this.eventsStore.saveEvent(sessionId, 'client_to_server', 'transport_event', {
           rawJson: JSON.stringify({
             type: 'connect_attempt',
-            command: transport.command,
-            args: transport.args,
+            ...describeTransport(connector.transport),
           }),
         });
       }
       eventCount++;
 
-      // Set up message logging
-      connection.on('message', (msg: JsonRpcMessage, raw: string) => {
-        const isRequest = 'method' in msg && 'id' in msg && msg.id !== null;
-        const isNotification = 'method' in msg && !('id' in msg);
-        const isResponse = 'id' in msg && !('method' in msg);
-
-        // Determine direction based on message type
-        const direction: EventDirection = isResponse ? 'server_to_client' :
-                          (isRequest || isNotification) && !('id' in msg && 'result' in msg) ? 'client_to_server' : 'server_to_client';
-
-        let kind: EventKind;
-        if (isRequest) kind = 'request';
-        else if (isNotification) kind = 'notification';
-        else if (isResponse) kind = 'response';
-        else kind = 'transport_event';
-
-        let rpcId: string | undefined;
-
-        if (!dryRun) {
-          // Handle RPC tracking
-          if (isRequest && 'id' in msg && msg.id !== null && 'method' in msg) {
-            // New request - create RPC call record
-            const rpcCall = this.eventsStore.saveRpcCall(sessionId, String(msg.id), msg.method);
-            rpcIdMap.set(msg.id, rpcCall.rpc_id);
-            rpcId = rpcCall.rpc_id;
-          } else if (isResponse && 'id' in msg && msg.id !== null) {
-            // Response - complete RPC call
-            rpcId = rpcIdMap.get(msg.id);
-            if (rpcId) {
-              const resp = msg as JsonRpcResponse;
-              this.eventsStore.completeRpcCall(
-                sessionId,
-                String(msg.id),
-                !resp.error,
-                resp.error?.code
-              );
-            }
-          }
-
-          this.eventsStore.saveEvent(sessionId, direction, kind, {
-            rpcId: rpcId || (('id' in msg && msg.id !== null) ? String(msg.id) : undefined),
-            rawJson: raw,
-          });
-        }
-        eventCount++;
-      });
-
-      connection.on('stderr', (data: string) => {
-        if (!dryRun) {
-          this.eventsStore.saveEvent(sessionId, 'server_to_client', 'transport_event', {
-            rawJson: JSON.stringify({ type: 'stderr', data: data.trim() }),
-          });
-        }
+      // Set up message and stderr logging
+      if (!dryRun) {
+        attachEventRecorder(connection, this.eventsStore, sessionId);
+      }
+      connection.on('message', () => {
         eventCount++;
       });
+      const serverRequests = new ServerRequestHandler(connector.id, connector.server_requests);
+      serverRequests.attach(connection);
 
       connection.on('error', (error: Error) => {
         if (!dryRun) {
@@ -166,8 +142,8 @@ export class Scanner {
       // MCP handshake: initialize
       try {
         await connection.sendRequest('initialize', {
-          protocolVersion: '2024-11-05',
-          capabilities: {},
+          protocolVersion: DEFAULT_PROTOCOL_VERSION,
+          capabilities: serverRequests.getClientCapabilities(),
           clientInfo: {
             name: 'proofscan',
             version: '0.3.0',
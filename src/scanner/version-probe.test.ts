@@ -0,0 +1,148 @@
+/**
+ * Tests for protocol version probe
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { describeInitializeResult, probeProtocolVersions, toProtocolMatrix } from './version-probe.js';
+import { ProtocolProbesStore } from '../db/protocol-probes-store.js';
+import { EventsStore } from '../db/events-store.js';
+import { closeAllDbs } from '../db/connection.js';
+import { generateProtocolVersionsArtifact } from '../popl/artifacts.js';
+import type { Connector } from '../types/config.js';
+
+/**
+ * Server that supports 2024-11-05 and 2025-03-26, falls back to 2025-03-26
+ * for newer versions and rejects 2025-11-25 outright.
+ */
+const VERSIONED_SERVER = `
+let buf = '';
+const send = (msg) => process.stdout.write(JSON.stringify(msg) + '\\n');
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', (chunk) => {
+  buf += chunk;
+  let i;
+  while ((i = buf.indexOf('\\n')) !== -1) {
+    const msg = JSON.parse(buf.slice(0, i));
+    buf = buf.slice(i + 1);
+    if (msg.method !== 'initialize') continue;
+    const requested = msg.params.protocolVersion;
+    if (requested === '2025-11-25') {
+      send({ jsonrpc: '2.0', id: msg.id, error: { code: -32602, message: 'Unsupported protocol version' } });
+      continue;
+    }
+    const version = requested === '2024-11-05' ? requested : '2025-03-26';
+    const result = {
+      protocolVersion: version,
+      capabilities: { tools: { listChanged: true } },
+      serverInfo: { name: 'versioned', version: '1.0.0' },
+    };
+    if (version === '2025-03-26') {
+      result.capabilities.completions = {};
+      result.instructions = 'Use the tools';
+    }
+    send({ jsonrpc: '2.0', id: msg.id, result });
+  }
+});
+`;
+
+const connector: Connector = {
+  id: 'versioned',
+  enabled: true,
+  transport: { type: 'stdio', command: process.execPath, args: ['-e', VERSIONED_SERVER] },
+};
+
+describe('describeInitializeResult', () => {
+  it('should list capabilities, flags and result fields', () => {
+    expect(describeInitializeResult({
+      protocolVersion: '2025-06-18',
+      capabilities: { tools: { listChanged: true }, resources: { subscribe: false }, logging: {} },
+      serverInfo: { name: 'demo', version: '2.1.0', title: 'Demo' },
+      instructions: 'hi',
+    })).toEqual({
+      negotiatedVersion: '2025-06-18',
+      capabilities: ['logging', 'resources', 'tools', 'tools.listChanged'],
+      fields: ['capabilities', 'instructions', 'protocolVersion', 'serverInfo', 'serverInfo.name', 'serverInfo.title', 'serverInfo.version'],
+      serverName: 'demo',
+      serverVersion: '2.1.0',
+    });
+  });
+
+  it('should tolerate a missing or malformed result', () => {
+    expect(describeInitializeResult(undefined)).toEqual({ capabilities: [], fields: [] });
+    expect(describeInitializeResult({ capabilities: 'none' })).toEqual({ capabilities: [], fields: ['capabilities'] });
+  });
+});
+
+describe('probeProtocolVersions', () => {
+  let configDir: string | null = null;
+
+  afterEach(() => {
+    closeAllDbs();
+    if (configDir) {
+      rmSync(configDir, { recursive: true, force: true });
+      configDir = null;
+    }
+  });
+
+  it('should record what each version negotiates and store the matrix', async () => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+
+    const result = await probeProtocolVersions(connector, configDir, { timeout: 10 });
+
+    expect(toProtocolMatrix(result.results)).toEqual([
+      {
+        requested_version: '2024-11-05',
+        negotiated_version: '2024-11-05',
+        status: 'accepted',
+        capabilities: ['tools', 'tools.listChanged'],
+        fields: ['capabilities', 'protocolVersion', 'serverInfo', 'serverInfo.name', 'serverInfo.version'],
+      },
+      {
+        requested_version: '2025-03-26',
+        negotiated_version: '2025-03-26',
+        status: 'accepted',
+        capabilities: ['completions', 'tools', 'tools.listChanged'],
+        fields: ['capabilities', 'instructions', 'protocolVersion', 'serverInfo', 'serverInfo.name', 'serverInfo.version'],
+      },
+      expect.objectContaining({ requested_version: '2025-06-18', negotiated_version: '2025-03-26', status: 'negotiated' }),
+      expect.objectContaining({ requested_version: '2025-11-25', status: 'failed', error: 'Unsupported protocol version' }),
+    ]);
+
+    // One recorded session per version
+    const sessions = new EventsStore(configDir).getSessionsByTarget('versioned');
+    expect(sessions).toHaveLength(4);
+
+    const stored = new ProtocolProbesStore(configDir).getMatrix('versioned');
+    expect(stored.map((e) => [e.requestedVersion, e.status])).toEqual([
+      ['2024-11-05', 'accepted'],
+      ['2025-03-26', 'accepted'],
+      ['2025-06-18', 'negotiated'],
+      ['2025-11-25', 'failed'],
+    ]);
+    expect(stored[0]).toMatchObject({ serverName: 'versioned', serverVersion: '1.0.0' });
+
+    // POPL artifact leaves error text out
+    const artifact = JSON.parse(generateProtocolVersionsArtifact('versioned', configDir)!.content);
+    expect(artifact.versions[3]).toEqual({
+      requested_version: '2025-11-25',
+      negotiated_version: null,
+      status: 'failed',
+      capabilities: [],
+      fields: [],
+    });
+  });
+
+  it('should replace the previous matrix when probed again', async () => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+
+    await probeProtocolVersions(connector, configDir, { timeout: 10 });
+    await probeProtocolVersions(connector, configDir, { timeout: 10, versions: ['2025-06-18'] });
+
+    const stored = new ProtocolProbesStore(configDir).getMatrix('versioned');
+    expect(stored.map((e) => e.requestedVersion)).toEqual(['2025-06-18']);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Protocol version probe
+ *
+ * Runs the initialize handshake once per MCP protocol version, each in its
+ * own recorded session, and notes what the server negotiated and which
+ * capabilities and result fields it returned. The resulting compatibility
+ * matrix is saved to events.db (protocol_probes).
+ */
+
+import type { Connector } from '../types/index.js';
+import {
+  createConnection,
+  describeTransport,
+  isSupportedTransport,
+  resolveTransportSecrets,
+} from '../transports/connection.js';
+import { ServerRequestHandler } from '../transports/server-requests.js';
+import { MCP_PROTOCOL_VERSIONS } from '../transports/protocol-versions.js';
+import { EventsStore } from '../db/events-store.js';
+import { ProtocolProbesStore, type ProtocolProbeInput } from '../db/protocol-probes-store.js';
+import type { ProtocolProbeEntry, ProtocolProbeStatus } from '../db/types.js';
+import { attachEventRecorder } from '../tools/adapter.js';
+
+export interface VersionProbeOptions {
+  /** Versions to request (default: all known versions) */
+  versions?: readonly string[];
+  /** Per-version timeout in seconds */
+  timeout?: number;
+}
+
+export interface VersionProbeResult {
+  connectorId: string;
+  results: ProtocolProbeInput[];
+}
+
+/**
+ * What an initialize result says about the server
+ */
+export interface InitializeDescription {
+  negotiatedVersion?: string;
+  /** Capability names, plus "name.flag" for flags set to true */
+  capabilities: string[];
+  /** Result fields, plus "serverInfo.field" for serverInfo fields */
+  fields: string[];
+  serverName?: string;
+  serverVersion?: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Describe an initialize result
+ */
+export function describeInitializeResult(result: unknown): InitializeDescription {
+  if (!isRecord(result)) {
+    return { capabilities: [], fields: [] };
+  }
+
+  const capabilities: string[] = [];
+  if (isRecord(result.capabilities)) {
+    for (const [name, value] of Object.entries(result.capabilities)) {
+      capabilities.push(name);
+      if (isRecord(value)) {
+        for (const [flag, enabled] of Object.entries(value)) {
+          if (enabled === true) {
+            capabilities.push(`${name}.${flag}`);
+          }
+        }
+      }
+    }
+  }
+
+  const fields = Object.keys(result);
+  const serverInfo = isRecord(result.serverInfo) ? result.serverInfo : undefined;
+  if (serverInfo) {
+    fields.push(...Object.keys(serverInfo).map((key) => `serverInfo.${key}`));
+  }
+
+  return {
+    ...(typeof result.protocolVersion === 'string' && { negotiatedVersion: result.protocolVersion }),
+    capabilities: capabilities.sort(),
+    fields: fields.sort(),
+    ...(typeof serverInfo?.name === 'string' && { serverName: serverInfo.name }),
+    ...(typeof serverInfo?.version === 'string' && { serverVersion: serverInfo.version }),
+  };
+}
+
+/**
+ * Run initialize with one protocol version in a new session
+ */
+async function probeVersion(
+  connector: Connector,
+  configDir: string,
+  eventsStore: EventsStore,
+  version: string,
+  timeoutMs: number
+): Promise<ProtocolProbeInput> {
+  const session = eventsStore.createSession(connector.id);
+  const sessionId = session.session_id;
+
+  const fail = (error: string): ProtocolProbeInput => {
+    eventsStore.saveEvent(sessionId, 'client_to_server', 'transport_event', {
+      rawJson: JSON.stringify({ type: 'error', error }),
+    });
+    eventsStore.endSession(sessionId, 'error');
+    return { requestedVersion: version, status: 'failed', error, sessionId };
+  };
+
+  const resolved = await resolveTransportSecrets(connector, configDir);
+  if (resolved.error) {
+    return fail(resolved.error);
+  }
+
+  const connection = createConnection(resolved.transport);
+
+  try {
+    eventsStore.saveEvent(sessionId, 'client_to_server', 'transport_event', {
+      rawJson: JSON.stringify({ type: 'connect_attempt', ...describeTransport(connector.transport) }),
+    });
+
+    // Set up message and stderr logging
+    attachEventRecorder(connection, eventsStore, sessionId);
+    const serverRequests = new ServerRequestHandler(connector.id, connector.server_requests);
+    serverRequests.attach(connection);
+
+    await connection.connect();
+
+    eventsStore.saveEvent(sessionId, 'server_to_client', 'transport_event', {
+      rawJson: JSON.stringify({ type: 'connected' }),
+    });
+
+    const response = await connection.sendRequest('initialize', {
+      protocolVersion: version,
+      capabilities: serverRequests.getClientCapabilities(),
+      clientInfo: {
+        name: 'proofscan',
+        version: '0.7.0',
+      },
+    }, timeoutMs);
+
+    if (response.error) {
+      return fail(response.error.message);
+    }
+
+    const description = describeInitializeResult(response.result);
+    if (!description.negotiatedVersion) {
+      return fail('initialize result has no protocolVersion');
+    }
+
+    eventsStore.saveEvent(sessionId, 'client_to_server', 'transport_event', {
+      rawJson: JSON.stringify({ type: 'disconnected' }),
+    });
+    eventsStore.endSession(sessionId, 'normal');
+
+    return {
+      requestedVersion: version,
+      status: description.negotiatedVersion === version ? 'accepted' : 'negotiated',
+      ...description,
+      sessionId,
+    };
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : String(error));
+  } finally {
+    connection.close();
+  }
+}
+
+/**
+ * Probe a connector with each protocol version and save the matrix
+ */
+export async function probeProtocolVersions(
+  connector: Connector,
+  configDir: string,
+  options: VersionProbeOptions = {}
+): Promise<VersionProbeResult> {
+  if (!isSupportedTransport(connector.transport)) {
+    throw new Error(`Unsupported transport type: ${connector.transport.type}`);
+  }
+
+  const versions = options.versions ?? MCP_PROTOCOL_VERSIONS;
+  const timeoutMs = (options.timeout || 30) * 1000;
+  const eventsStore = new EventsStore(configDir);
+
+  // One at a time: stdio servers are started once per version
+  const results: ProtocolProbeInput[] = [];
+  for (const version of versions) {
+    results.push(await probeVersion(connector, configDir, eventsStore, version, timeoutMs));
+  }
+
+  new ProtocolProbesStore(configDir).saveMatrix(connector.id, results);
+
+  return { connectorId: connector.id, results };
+}
+
+/**
+ * One row of the compatibility matrix (JSON output, summary, POPL)
+ */
+export interface ProtocolMatrixRow {
+  requested_version: string;
+  negotiated_version: string | null;
+  status: ProtocolProbeStatus;
+  capabilities: string[];
+  fields: string[];
+  error?: string;
+}
+
+/**
+ * Convert probe results to matrix rows
+ */
+export function toProtocolMatrix(
+  results: Array<ProtocolProbeInput | ProtocolProbeEntry>
+): ProtocolMatrixRow[] {
+  return results.map((r) => ({
+    requested_version: r.requestedVersion,
+    negotiated_version: r.negotiatedVersion ?? null,
+    status: r.status,
+    capabilities: r.capabilities ?? [],
+    fields: r.fields ?? [],
+    ...(r.error !== undefined && { error: r.error }),
+  }));
+}
+
+/**
+ * Short outcome label, e.g. "✓ accepted" or "→ 2024-11-05"
+ */
+export function formatProbeOutcome(row: ProtocolMatrixRow): string {
+  switch (row.status) {
+    case 'accepted':
+      return '✓ accepted';
+    case 'negotiated':
+      return `→ ${row.negotiated_version}`;
+    case 'failed':
+      return row.error ? `✗ failed: ${row.error}` : '✗ failed';
+  }
+}
@@ -11,8 +11,9 @@
  * - exit
  */
 
-import type { Connector, StdioTransport, HttpTransport, SseTransport } from '../../types/config.js';
+import type { Connector, StdioTransport, HttpTransport, SseTransport, WsTransport } from '../../types/config.js';
 import type { SetOptions, ConnectorDiff } from './types.js';
+import { HEADER_PATH_PREFIX } from './types.js';
 import { ConfigureMode } from './mode.js';
 import { isSecretRef } from '../../secrets/types.js';
 
@@ -25,8 +26,8 @@ function getTransportDisplay(connector: Connector): string {
   if (transport.type === 'stdio') {
     return (transport as StdioTransport).command || '(not set)';
   } else {
-    // HTTP/SSE transports have url property
-    return (transport as HttpTransport | SseTransport).url || '(not set)';
+    // HTTP/SSE/WebSocket transports have url property
+    return (transport as HttpTransport | SseTransport | WsTransport).url || '(not set)';
   }
 }
 
@@ -595,6 +596,9 @@ function handleHelp(mode: ConfigureMode): CommandResult {
     output.push('  args                  Arguments (space-separated or quoted)');
     output.push('  args[N]               Single argument at index N');
     output.push('  env.KEY               Environment variable');
+    output.push('  transport.type        stdio, rpc-http, rpc-sse or ws');
+    output.push('  transport.url         Endpoint URL (rpc-http, rpc-sse, ws)');
+    output.push('  transport.headers.NAME  Request header (rpc-http, rpc-sse, ws)');
   } else {
     output.push('Configure Mode Commands:');
     output.push('');
@@ -620,10 +624,27 @@ function formatConnector(
   pendingSecrets: Map<string, string>
 ): string[] {
   const output: string[] = [];
-  const transport = connector.transport as StdioTransport;
 
   output.push(`Connector: ${connector.id}`);
   output.push(`  enabled: ${connector.enabled}`);
+
+  if (connector.transport.type !== 'stdio') {
+    const urlTransport = connector.transport;
+    output.push(`  transport: ${urlTransport.type}`);
+    output.push(`  url: ${urlTransport.url || '(not set)'}`);
+
+    if (urlTransport.headers && Object.keys(urlTransport.headers).length > 0) {
+      output.push(`  headers:`);
+      for (const [name, value] of Object.entries(urlTransport.headers)) {
+        const displayValue = formatEnvValue(`${HEADER_PATH_PREFIX}${name}`, value, pendingSecrets);
+        output.push(`    ${name}: ${displayValue}`);
+      }
+    }
+
+    return output;
+  }
+
+  const transport = connector.transport as StdioTransport;
   output.push(`  command: ${transport.command || '(not set)'}`);
 
   if (transport.cwd) {
@@ -649,7 +670,8 @@ function formatConnector(
 }
 
 /**
- * Format an env value, masking secrets
+ * Format an env/header value, masking secrets
+ * (key is the env name, or the full path for headers)
  */
 function formatEnvValue(
   key: string,
@@ -705,15 +727,22 @@ function formatConnectorJson(
       },
     };
   } else {
-    // HTTP/SSE transports
-    const httpTransport = transport as HttpTransport | SseTransport;
+    // HTTP/SSE/WebSocket transports
+    const httpTransport = transport as HttpTransport | SseTransport | WsTransport;
+    const maskedHeaders: Record<string, string> = {};
+    if (httpTransport.headers) {
+      for (const [name, value] of Object.entries(httpTransport.headers)) {
+        maskedHeaders[name] = formatEnvValue(`${HEADER_PATH_PREFIX}${name}`, value, pendingSecrets);
+      }
+    }
+
     return {
       id: connector.id,
       enabled: connector.enabled,
       transport: {
         type: httpTransport.type,
         url: httpTransport.url,
-        ...(httpTransport.headers && Object.keys(httpTransport.headers).length > 0 && { headers: httpTransport.headers }),
+        ...(Object.keys(maskedHeaders).length > 0 && { headers: maskedHeaders }),
       },
     };
   }
@@ -754,8 +783,9 @@ function formatDiff(
 
   // Pending secrets (not yet in diff as they're marked as placeholders)
   for (const key of pendingSecrets.keys()) {
-    if (!diff.modified.has(`env.${key}`) && !diff.added.has(`env.${key}`)) {
-      output.push(`+ env.${key}: [secret pending]`);
+    const path = key.startsWith(HEADER_PATH_PREFIX) ? key : `env.${key}`;
+    if (!diff.modified.has(path) && !diff.added.has(path)) {
+      output.push(`+ ${path}: [secret pending]`);
     }
   }
 
@@ -782,6 +812,16 @@ function formatDiffValue(
     }
   }
 
+  if (path.startsWith(HEADER_PATH_PREFIX)) {
+    if (pendingSecrets.has(path)) {
+      return '[secret pending]';
+    }
+
+    if (typeof value === 'string' && isSecretRef(value)) {
+      return '[secret]';
+    }
+  }
+
   if (typeof value === 'string') {
     return value;
   }
@@ -5,6 +5,7 @@
  */
 
 import type { ConfigureMode } from './mode.js';
+import { TRANSPORT_TYPES, HEADER_PATH_PREFIX } from './types.js';
 import type { Connector, StdioTransport, HttpTransport, SseTransport } from '../../types/config.js';
 
 /**
@@ -46,9 +47,21 @@ const FIELD_PATHS = [
   'args[0]',
   'args[1]',
   'args[2]',
+  'transport.type',
   // env.* is dynamic, handled separately
 ];
 
+/**
+ * Field paths available for URL-based transports (rpc-http, rpc-sse, ws)
+ */
+const URL_FIELD_PATHS = [
+  'enabled',
+  'transport.type',
+  'transport.url',
+  'transport.headers.Authorization',
+  // other transport.headers.* are dynamic, handled separately
+];
+
 /**
  * Common environment variable names for suggestions
  */
@@ -291,13 +304,26 @@ function getLsCompletions(completedTokens: string[]): string[] {
  * Get field path completions for set command
  */
 function getFieldPathCompletions(currentToken: string, mode: ConfigureMode): string[] {
+  const connector = mode.getCurrentConnector();
+
+  // URL-based transports: no stdio fields, suggest existing header names
+  if (connector && connector.transport.type !== 'stdio') {
+    const candidates: string[] = [...URL_FIELD_PATHS];
+    for (const name of Object.keys(connector.transport.headers || {})) {
+      const headerPath = `${HEADER_PATH_PREFIX}${name}`;
+      if (!candidates.includes(headerPath)) {
+        candidates.push(headerPath);
+      }
+    }
+    return candidates;
+  }
+
   const candidates: string[] = [...FIELD_PATHS];
 
   // Add common env vars
   candidates.push(...COMMON_ENV_VARS);
 
   // If editing, add current connector's env keys
-  const connector = mode.getCurrentConnector();
   if (connector) {
     const transport = connector.transport as StdioTransport;
     if (transport.env) {
@@ -358,6 +384,11 @@ function getValueCompletions(path: string, mode: ConfigureMode): string[] {
     ];
   }
 
+  // transport.type: supported transports
+  if (lowerPath === 'transport.type') {
+    return [...TRANSPORT_TYPES];
+  }
+
   // cwd: suggest some common patterns
   if (lowerPath === 'cwd') {
     return [
@@ -368,9 +399,10 @@ function getValueCompletions(path: string, mode: ConfigureMode): string[] {
     ];
   }
 
-  // For env.* paths, suggest --secret if it looks like a secret key
-  if (lowerPath.startsWith('env.')) {
-    const key = path.slice(4).toUpperCase();
+  // For env.* / transport.headers.* paths, suggest --secret if it looks like a secret key
+  if (lowerPath.startsWith('env.') || lowerPath.startsWith(HEADER_PATH_PREFIX)) {
+    const prefixLength = lowerPath.startsWith('env.') ? 'env.'.length : HEADER_PATH_PREFIX.length;
+    const key = path.slice(prefixLength).toUpperCase();
     const secretPatterns = ['KEY', 'SECRET', 'TOKEN', 'PASSWORD', 'CREDENTIAL', 'AUTH'];
     if (secretPatterns.some(p => key.includes(p))) {
       return ['--secret']; // Hint to use --secret
@@ -390,6 +422,15 @@ function getSetFieldPaths(mode: ConfigureMode): string[] {
   }
 
   const paths: string[] = [];
+
+  // URL-based transports: only headers can be unset
+  if (connector.transport.type !== 'stdio') {
+    for (const name of Object.keys(connector.transport.headers || {})) {
+      paths.push(`${HEADER_PATH_PREFIX}${name}`);
+    }
+    return paths;
+  }
+
   const transport = connector.transport as StdioTransport;
 
   // Always-set fields that can't be unset
@@ -5,16 +5,22 @@
  * Handles set/unset operations and tracks pending secrets.
  */
 
-import type { Connector, StdioTransport } from '../../types/config.js';
+import type {
+  Connector,
+  StdioTransport,
+  HttpTransport,
+  SseTransport,
+  WsTransport,
+  TransportType,
+} from '../../types/config.js';
 import type {
   EditSession,
   SetOptions,
   SetResult,
   UnsetResult,
   ConnectorDiff,
-  ParsedPath,
 } from './types.js';
-import { parseFieldPath, isSecretPath } from './types.js';
+import { parseFieldPath, TRANSPORT_TYPES, STDIO_FIELDS, HEADER_PATH_PREFIX } from './types.js';
 import { detectSecret } from '../../secrets/detection.js';
 import { SqliteSecretStore } from '../../secrets/store.js';
 import { isSecretRef } from '../../secrets/types.js';
@@ -69,11 +75,14 @@ export class EditSessionManager {
       return {
         success: false,
         isSecret: false,
-        error: `Invalid path: ${path}. Valid paths: enabled, command, cwd, args, args[N], env.KEY`,
+        error: `Invalid path: ${path}. Valid paths: enabled, command, cwd, args, args[N], env.KEY, transport.type, transport.url, transport.headers.NAME`,
       };
     }
 
-    const transport = this.session.candidate.transport as StdioTransport;
+    const fieldError = this.checkFieldForTransport(parsed.field);
+    if (fieldError) {
+      return { success: false, isSecret: false, error: fieldError };
+    }
 
     switch (parsed.field) {
       case 'enabled':
@@ -101,6 +110,15 @@ export class EditSessionManager {
         }
         return this.setEnv(parsed.key, value, options);
 
+      case 'type':
+        return this.setTransportType(value);
+
+      case 'url':
+        return this.setUrl(value);
+
+      case 'headers':
+        return this.setHeader(parsed.key!, value, options);
+
       default:
         return {
           success: false,
@@ -124,6 +142,11 @@ export class EditSessionManager {
       };
     }
 
+    const fieldError = this.checkFieldForTransport(parsed.field);
+    if (fieldError) {
+      return { success: false, wasSecret: false, error: fieldError };
+    }
+
     const transport = this.session.candidate.transport as StdioTransport;
 
     switch (parsed.field) {
@@ -164,6 +187,23 @@ export class EditSessionManager {
         }
         return this.unsetEnv(parsed.key);
 
+      case 'type':
+        return {
+          success: false,
+          wasSecret: false,
+          error: 'Cannot unset transport.type (use "set transport.type <type>" instead)',
+        };
+
+      case 'url':
+        return {
+          success: false,
+          wasSecret: false,
+          error: 'Cannot unset transport.url (use "set transport.url <url>" instead)',
+        };
+
+      case 'headers':
+        return this.unsetHeader(parsed.key!);
+
       default:
         return {
           success: false,
@@ -193,7 +233,24 @@ export class EditSessionManager {
       diff.hasChanges = true;
     }
 
-    // Compare transport fields
+    if (original.transport.type !== candidate.transport.type) {
+      diff.modified.set('transport.type', { old: original.transport.type, new: candidate.transport.type });
+      diff.hasChanges = true;
+    }
+
+    // Compare URL-based transport fields (undefined on stdio)
+    const origUrl = original.transport.type === 'stdio' ? undefined : original.transport.url;
+    const candUrl = candidate.transport.type === 'stdio' ? undefined : candidate.transport.url;
+    if (origUrl !== candUrl) {
+      diff.modified.set('transport.url', { old: origUrl, new: candUrl });
+      diff.hasChanges = true;
+    }
+
+    const origHeaders = (original.transport.type === 'stdio' ? undefined : original.transport.headers) || {};
+    const candHeaders = (candidate.transport.type === 'stdio' ? undefined : candidate.transport.headers) || {};
+    this.diffRecord(diff, HEADER_PATH_PREFIX, origHeaders, candHeaders);
+
+    // Compare stdio transport fields (undefined on URL-based transports)
     const origTransport = original.transport as StdioTransport;
     const candTransport = candidate.transport as StdioTransport;
 
@@ -222,25 +279,7 @@ export class EditSessionManager {
     }
 
     // Compare env
-    const origEnv = origTransport.env || {};
-    const candEnv = candTransport.env || {};
-
-    for (const key of Object.keys(candEnv)) {
-      if (!(key in origEnv)) {
-        diff.added.set(`env.${key}`, candEnv[key]);
-        diff.hasChanges = true;
-      } else if (origEnv[key] !== candEnv[key]) {
-        diff.modified.set(`env.${key}`, { old: origEnv[key], new: candEnv[key] });
-        diff.hasChanges = true;
-      }
-    }
-
-    for (const key of Object.keys(origEnv)) {
-      if (!(key in candEnv)) {
-        diff.removed.set(`env.${key}`, origEnv[key]);
-        diff.hasChanges = true;
-      }
-    }
+    this.diffRecord(diff, 'env.', origTransport.env || {}, candTransport.env || {});
 
     return diff;
   }
@@ -254,21 +293,31 @@ export class EditSessionManager {
     }
 
     const store = new SqliteSecretStore(configDir);
-    const transport = this.session.candidate.transport as StdioTransport;
+    const transport = this.session.candidate.transport;
 
     try {
       for (const [key, plaintext] of this.session.pendingSecrets) {
+        const isHeader = key.startsWith(HEADER_PATH_PREFIX);
+        const name = isHeader ? key.slice(HEADER_PATH_PREFIX.length) : key;
+
         // Store the secret and get reference
         const result = await store.store(plaintext, {
           connectorId: this.session.candidate.id,
-          keyName: key,
+          keyName: name,
         });
 
-        // Replace in env with reference
-        if (!transport.env) {
-          transport.env = {};
+        // Replace in env/headers with reference
+        if (transport.type === 'stdio') {
+          if (!transport.env) {
+            transport.env = {};
+          }
+          transport.env[name] = result.reference;
+        } else {
+          if (!transport.headers) {
+            transport.headers = {};
+          }
+          transport.headers[name] = result.reference;
         }
-        transport.env[key] = result.reference;
       }
 
       // Clear pending secrets
@@ -282,6 +331,159 @@ export class EditSessionManager {
 
   // Private helpers
 
+  /**
+   * Reject fields that do not exist on the candidate's transport type
+   */
+  private checkFieldForTransport(field: string): string | null {
+    const type = this.session.candidate.transport.type;
+
+    if (STDIO_FIELDS.includes(field as (typeof STDIO_FIELDS)[number]) && type !== 'stdio') {
+      return `${field} is only valid for stdio transport (current: ${type})`;
+    }
+
+    if ((field === 'url' || field === 'headers') && type === 'stdio') {
+      return `transport.${field} is not valid for stdio transport (set transport.type first)`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Add added/modified/removed entries for a string record (env, headers)
+   */
+  private diffRecord(
+    diff: ConnectorDiff,
+    prefix: string,
+    orig: Record<string, string>,
+    cand: Record<string, string>
+  ): void {
+    for (const key of Object.keys(cand)) {
+      if (!(key in orig)) {
+        diff.added.set(`${prefix}${key}`, cand[key]);
+        diff.hasChanges = true;
+      } else if (orig[key] !== cand[key]) {
+        diff.modified.set(`${prefix}${key}`, { old: orig[key], new: cand[key] });
+        diff.hasChanges = true;
+      }
+    }
+
+    for (const key of Object.keys(orig)) {
+      if (!(key in cand)) {
+        diff.removed.set(`${prefix}${key}`, orig[key]);
+        diff.hasChanges = true;
+      }
+    }
+  }
+
+  private setTransportType(value: string): SetResult {
+    if (!TRANSPORT_TYPES.includes(value as TransportType)) {
+      return {
+        success: false,
+        isSecret: false,
+        error: `transport.type must be one of: ${TRANSPORT_TYPES.join(', ')}`,
+      };
+    }
+
+    const type = value as TransportType;
+    const current = this.session.candidate.transport;
+
+    if (current.type !== type) {
+      if (type === 'stdio') {
+        this.session.candidate.transport = { type: 'stdio', command: '', args: [], env: {} };
+      } else {
+        // Keep url/headers when switching between URL-based transports
+        // (the url only if its scheme still fits)
+        const url = current.type !== 'stdio' && isValidUrlForType(type, current.url) ? current.url : '';
+        const headers = current.type !== 'stdio' ? current.headers : undefined;
+        this.session.candidate.transport = {
+          type,
+          url,
+          ...(headers && { headers }),
+        } as HttpTransport | SseTransport | WsTransport;
+      }
+
+      // Pending env secrets do not carry over to headers (and vice versa)
+      if (current.type === 'stdio' || type === 'stdio') {
+        this.session.pendingSecrets.clear();
+      }
+    }
+
+    this.session.modifiedFields.add('transport.type');
+
+    return { success: true, isSecret: false, path: 'transport.type' };
+  }
+
+  private setUrl(value: string): SetResult {
+    const transport = this.session.candidate.transport as HttpTransport | SseTransport | WsTransport;
+
+    if (!isValidUrlForType(transport.type, value)) {
+      return {
+        success: false,
+        isSecret: false,
+        error: transport.type === 'ws'
+          ? 'transport.url must be a ws:// or wss:// URL'
+          : 'transport.url must be an http:// or https:// URL',
+      };
+    }
+
+    transport.url = value;
+    this.session.modifiedFields.add('transport.url');
+
+    return { success: true, isSecret: false, path: 'transport.url' };
+  }
+
+  private setHeader(name: string, value: string, options: SetOptions): SetResult {
+    const transport = this.session.candidate.transport as HttpTransport | SseTransport | WsTransport;
+    const path = `${HEADER_PATH_PREFIX}${name}`;
+
+    if (!transport.headers) {
+      transport.headers = {};
+    }
+
+    let isSecret = options.forceSecret ?? false;
+
+    if (!isSecret && !options.interactive) {
+      const detection = detectSecret(name, value);
+      isSecret = detection.action === 'store';
+    }
+
+    if (isSecret) {
+      this.session.pendingSecrets.set(path, value);
+      transport.headers[name] = `[secret pending: ${name}]`;
+    } else {
+      this.session.pendingSecrets.delete(path);
+      transport.headers[name] = value;
+    }
+
+    this.session.modifiedFields.add(path);
+
+    return { success: true, isSecret, path };
+  }
+
+  private unsetHeader(name: string): UnsetResult {
+    const transport = this.session.candidate.transport as HttpTransport | SseTransport | WsTransport;
+    const path = `${HEADER_PATH_PREFIX}${name}`;
+
+    if (!transport.headers || !(name in transport.headers)) {
+      return {
+        success: false,
+        wasSecret: false,
+        error: `${path} does not exist`,
+      };
+    }
+
+    const wasSecret = isSecretRef(transport.headers[name]) || this.session.pendingSecrets.has(path);
+
+    delete transport.headers[name];
+    if (Object.keys(transport.headers).length === 0) {
+      delete transport.headers;
+    }
+    this.session.pendingSecrets.delete(path);
+    this.session.modifiedFields.add(path);
+
+    return { success: true, wasSecret, path };
+  }
+
   private setEnabled(value: string): SetResult {
     const lower = value.toLowerCase();
     if (lower !== 'true' && lower !== 'false') {
@@ -461,3 +663,20 @@ export class EditSessionManager {
     return args;
   }
 }
+
+/**
+ * Check that a URL parses and uses a scheme the transport type accepts
+ */
+function isValidUrlForType(type: TransportType, value: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(value);
+  } catch {
+    return false;
+  }
+
+  if (type === 'ws') {
+    return parsed.protocol === 'ws:' || parsed.protocol === 'wss:';
+  }
+  return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+}
@@ -5,7 +5,7 @@
  * interactive editing of connector configurations.
  */
 
-import type { Connector, StdioTransport } from '../../types/config.js';
+import type { Connector, StdioTransport, TransportType } from '../../types/config.js';
 
 /**
  * Edit session for a single connector
@@ -149,22 +149,39 @@ export type FieldPath =
   | 'cwd'
   | `args[${number}]`
   | `args`
-  | `env.${string}`;
+  | `env.${string}`
+  | 'transport.type'
+  | 'transport.url'
+  | `transport.headers.${string}`;
 
 /**
  * Parse a field path into its components
  */
 export interface ParsedPath {
-  /** Top-level field (enabled, command, args, env, cwd) */
-  field: 'enabled' | 'command' | 'cwd' | 'args' | 'env';
+  /** Top-level field (enabled, command, args, env, cwd, type, url, headers) */
+  field: 'enabled' | 'command' | 'cwd' | 'args' | 'env' | 'type' | 'url' | 'headers';
 
   /** Index for array fields (args[0]) */
   index?: number;
 
-  /** Key for map fields (env.KEY) */
+  /** Key for map fields (env.KEY, transport.headers.NAME) */
   key?: string;
 }
 
+/** Transport types selectable with "set transport.type" */
+export const TRANSPORT_TYPES: readonly TransportType[] = ['stdio', 'rpc-http', 'rpc-sse', 'ws'];
+
+/** Fields that only exist on stdio transports */
+export const STDIO_FIELDS: readonly ParsedPath['field'][] = ['command', 'cwd', 'args', 'env'];
+
+/**
+ * Prefix for pending header secrets
+ *
+ * Env secrets are keyed by env name; header secrets by their full path
+ * (transport.headers.NAME) so the two never collide.
+ */
+export const HEADER_PATH_PREFIX = 'transport.headers.';
+
 /**
  * Create a deep copy of a connector
  */
@@ -192,6 +209,26 @@ export function createEmptyConnector(id: string): Connector {
  * Parse a field path string into components
  */
 export function parseFieldPath(path: string): ParsedPath | null {
+  // transport.type / transport.url
+  if (path === 'transport.type') {
+    return { field: 'type' };
+  }
+  if (path === 'transport.url') {
+    return { field: 'url' };
+  }
+
+  // transport.headers.NAME (HTTP header token characters)
+  const headerMatch = path.match(/^transport\.headers\.([A-Za-z0-9!#$%&'*+.^_`|~-]+)$/);
+  if (headerMatch) {
+    return { field: 'headers', key: headerMatch[1] };
+  }
+
+  // transport.command, transport.args[0], transport.env.KEY, ... (stdio aliases)
+  if (path.startsWith('transport.')) {
+    const parsed = parseFieldPath(path.slice('transport.'.length));
+    return parsed && STDIO_FIELDS.includes(parsed.field) ? parsed : null;
+  }
+
   // enabled
   if (path === 'enabled') {
     return { field: 'enabled' };
@@ -231,5 +268,5 @@ export function parseFieldPath(path: string): ParsedPath | null {
  * Check if a path represents a secret field
  */
 export function isSecretPath(path: string): boolean {
-  return path.startsWith('env.');
+  return path.startsWith('env.') || path.startsWith('transport.env.') || path.startsWith(HEADER_PATH_PREFIX);
 }
@@ -1627,6 +1627,13 @@ Usage:
   proxy status            Show proxy runtime status
   proxy reload            Reload proxy configuration
   proxy stop              Stop the running proxy
+  proxy approvals         List tool calls waiting for approval
+  proxy approve <id> [allow|deny|always]
+                          Answer a held tool call (default: allow)
+  proxy connector enable|disable|restart <id>
+                          Control one connector without a reload
+  proxy connector stats [id]
+                          Show tool call counters per connector
 
 Note: "proxy start" requires stdio and should be run outside the shell.
       Run: pfscan proxy start --all
@@ -1671,7 +1678,7 @@ Note: "proxy start" requires stdio and should be run outside the shell.
       console.log(`  PID: ${state.proxy.pid}`);
       console.log(`  Connectors: ${state.connectors.length}`);
       for (const conn of state.connectors) {
-        const status = conn.healthy ? 'healthy' : 'unhealthy';
+        const status = conn.disabled ? 'disabled' : conn.healthy ? 'healthy' : 'unhealthy';
         const tools = conn.toolCount > 0 ? `${conn.toolCount} tools` : 'pending';
         console.log(`    - ${conn.id}: ${status} (${tools})`);
       }
@@ -1720,8 +1727,97 @@ Note: "proxy start" requires stdio and should be run outside the shell.
       return;
     }
 
+    if (subcommand === 'approvals' || subcommand === 'approve') {
+      const isRunning = await client.isRunning();
+      if (!isRunning) {
+        printError('Proxy is not running.');
+        return;
+      }
+
+      if (subcommand === 'approvals') {
+        const result = await client.approvals();
+        if (!result.success) {
+          printError(`Failed to list approvals: ${result.error}`);
+          return;
+        }
+        if (result.data!.length === 0) {
+          printInfo('No tool calls waiting for approval.');
+          return;
+        }
+        console.log();
+        for (const approval of result.data!) {
+          console.log(`  [${approval.id}] ${approval.connectorId}/${approval.tool} (${approval.reason})`);
+          console.log(`      Arguments: ${JSON.stringify(approval.arguments)}`);
+          console.log(`      Expires: ${approval.expiresAt}`);
+        }
+        console.log();
+        return;
+      }
+
+      const [, id, decision = 'allow'] = args;
+      if (!id || (decision !== 'allow' && decision !== 'deny' && decision !== 'always')) {
+        printError('Usage: proxy approve <id> [allow|deny|always]');
+        return;
+      }
+      const result = await client.approve(id, decision, 'psh');
+      if (result.success) {
+        printSuccess(`${decision}: ${id}`);
+      } else {
+        printError(result.error ?? 'Approval failed');
+      }
+      return;
+    }
+
+    if (subcommand === 'connector') {
+      const isRunning = await client.isRunning();
+      if (!isRunning) {
+        printError('Proxy is not running.');
+        return;
+      }
+
+      const [, action, connectorId] = args;
+
+      if (action === 'stats') {
+        const result = await client.status();
+        if (!result.success) {
+          printError(`Failed to get proxy status: ${result.error}`);
+          return;
+        }
+        console.log();
+        for (const conn of result.data!.connectors.filter((c) => !connectorId || c.id === connectorId)) {
+          const state = conn.disabled ? 'disabled' : conn.healthy ? 'healthy' : 'unhealthy';
+          console.log(`  ${conn.id} (${state})`);
+          if (conn.calls) {
+            const { calls, errors, p50Ms, p95Ms, lastError } = conn.calls;
+            console.log(`      Calls: ${calls}, Errors: ${errors}, p50: ${p50Ms}ms, p95: ${p95Ms}ms`);
+            if (lastError) {
+              console.log(`      Last error: ${lastError.message}`);
+            }
+          }
+        }
+        console.log();
+        return;
+      }
+
+      if ((action !== 'enable' && action !== 'disable' && action !== 'restart') || !connectorId) {
+        printError('Usage: proxy connector enable|disable|restart <id> | proxy connector stats [id]');
+        return;
+      }
+      const result = action === 'enable'
+        ? await client.enableConnector(connectorId)
+        : action === 'disable'
+          ? await client.disableConnector(connectorId)
+          : await client.restartConnector(connectorId);
+      if (result.success) {
+        printSuccess(`${action === 'enable' ? 'Enabled' : action === 'disable' ? 'Disabled' : 'Restarted'} ${connectorId}`);
+      } else {
+        printError(result.error ?? `Failed to ${action} ${connectorId}`);
+      }
+      return;
+    }
+
     printError(`Unknown proxy subcommand: ${subcommand}`);
-    printInfo('Available: status, reload, stop');
+    printInfo('Available: status, reload, stop, approvals, approve, connector');
   }
 
   /**
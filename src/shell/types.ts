@@ -88,7 +88,8 @@ export const COMMAND_SUBCOMMANDS: Record<string, string[]> = {
   'cat sources': ['list', 'set'],
   runners: ['list', 'ls', 'doctor'],
   plans: ['ls', 'list', 'show', 'add', 'delete', 'import', 'export', 'run', 'runs', 'run-show'],
-  proxy: ['start', 'status', 'reload', 'stop'],
+  proxy: ['start', 'status', 'reload', 'stop', 'approvals', 'approve', 'connector'],
+  'proxy connector': ['enable', 'disable', 'restart', 'stats'],
   configure: ['terminal'],
 };
 
@@ -8,21 +8,40 @@
  *
  * Design notes:
  * - Currently MCP-only, but interface is generic for future A2A support
- * - Spawns a fresh MCP server connection for each operation
+ * - Opens a fresh MCP server connection (stdio or HTTP) for each operation
  * - Records all RPC calls to events.db for observability
- * - Resolves secret refs (dpapi:xxx) before spawning
+ * - Resolves secret refs (dpapi:xxx) in env/headers before connecting
  */
 
-import type { Connector, StdioTransport } from '../types/index.js';
-import { StdioConnection, JsonRpcResponse } from '../transports/stdio.js';
+import type { Connector } from '../types/index.js';
+import type {
+  JsonRpcMessage,
+  JsonRpcNotification,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  MessageDirection,
+  ProgressUpdate,
+} from '../transports/stdio.js';
+import {
+  SERVER_RPC_ID_PREFIX,
+  classifyMessage,
+  createConnection,
+  isSupportedTransport,
+  resolveTransportSecrets,
+  type McpConnection,
+} from '../transports/connection.js';
+import { ServerRequestHandler } from '../transports/server-requests.js';
+import { getProgressToken } from '../transports/progress.js';
+import { StderrCapture } from '../transports/stderr.js';
+import { DEFAULT_PROTOCOL_VERSION } from '../transports/protocol-versions.js';
 import { EventsStore } from '../db/events-store.js';
+import type { ServerOutputRecord } from '../db/types.js';
 import { ConfigManager } from '../config/index.js';
-import { resolveEnvSecrets } from '../secrets/resolve.js';
-import type { EventDirection, EventKind } from '../db/types.js';
 
 /** Tool information from tools/list */
 export interface ToolInfo {
   name: string;
+  title?: string;
   description?: string;
   inputSchema?: ToolInputSchema;
 }
@@ -54,14 +73,140 @@ export interface ToolCallResult {
   error?: string;
   /** Session ID for the call (for events.db lookup) */
   sessionId: string;
+  /** The call was cancelled (notifications/cancelled was sent) */
+  cancelled?: boolean;
 }
 
+/** Options for callTool */
+export interface CallToolOptions {
+  /** Timeout in seconds (default: 30); on expiry the call is cancelled */
+  timeout?: number;
+  /** Receive notifications/progress updates for the call */
+  onProgress?: (update: ProgressUpdate) => void;
+  /** Abort to cancel the call (e.g. on Ctrl-C) */
+  signal?: AbortSignal;
+}
+
+/** Time given to a cancellation notification to reach the server before closing */
+const CANCEL_FLUSH_MS = 100;
+
 /** Context for tool operations */
 export interface ToolContext {
   connectorId: string;
   configDir: string;
 }
 
+/**
+ * Record every message on a connection into a session in events.db
+ *
+ * Requests are tracked in rpc_calls and completed when the matching
+ * response arrives - in both directions, so server-initiated requests
+ * (sampling/createMessage, roots/list, ...) and our answers are kept too.
+ * Progress and cancellation notifications are linked to the request they
+ * refer to, giving each RPC a timeline. Server stderr (stdio) is stored as
+ * rate-limited transport_event rows, followed by the exit code/signal if
+ * the server exits on its own.
+ */
+export function attachEventRecorder(
+  connection: McpConnection,
+  eventsStore: EventsStore,
+  sessionId: string
+): void {
+  const rpcIds = new Set<string>();
+  /** progressToken -> rpc id of the request that asked for progress */
+  const progressTokens = new Map<string, string>();
+
+  connection.on('message', (msg: JsonRpcMessage, raw: string, direction: MessageDirection) => {
+    const classified = classifyMessage(msg, direction);
+    const { direction: eventDirection, kind, isRequest, isResponse } = classified;
+    let rpcId = classified.rpcId;
+
+    if (isRequest && rpcId) {
+      eventsStore.saveRpcCall(sessionId, rpcId, (msg as JsonRpcRequest).method);
+      rpcIds.add(rpcId);
+      const token = getProgressToken((msg as JsonRpcRequest).params);
+      if (token !== undefined) {
+        progressTokens.set(String(token), rpcId);
+      }
+    } else if (kind === 'notification') {
+      rpcId = notificationRpcId(msg as JsonRpcNotification, direction, progressTokens);
+    } else if (isResponse && rpcId && rpcIds.has(rpcId)) {
+      const resp = msg as JsonRpcResponse;
+      eventsStore.completeRpcCall(sessionId, rpcId, !resp.error, resp.error?.code);
+    }
+
+    eventsStore.saveEvent(sessionId, eventDirection, kind, { rpcId, rawJson: raw });
+  });
+
+  const saveServerOutput = (record: ServerOutputRecord): void => {
+    eventsStore.saveEvent(sessionId, 'server_to_client', 'transport_event', {
+      rawJson: JSON.stringify(record),
+    });
+  };
+  const stderr = new StderrCapture(saveServerOutput);
+
+  connection.on('stderr', (data: string) => {
+    // Output after we closed the connection belongs to nobody
+    if (connection.isConnected()) {
+      stderr.push(data);
+    }
+  });
+  connection.on('exit', (code: number | null, signal: string | null) => {
+    stderr.flush();
+    saveServerOutput({ type: 'exit', code, signal });
+  });
+}
+
+/**
+ * rpc id a progress / cancellation notification refers to
+ */
+function notificationRpcId(
+  msg: JsonRpcNotification,
+  direction: MessageDirection,
+  progressTokens: Map<string, string>
+): string | undefined {
+  const params = msg.params as { progressToken?: unknown; requestId?: unknown } | undefined;
+
+  if (msg.method === 'notifications/progress' && params?.progressToken !== undefined) {
+    return progressTokens.get(String(params.progressToken));
+  }
+
+  if (msg.method === 'notifications/cancelled' && params?.requestId !== undefined) {
+    // Cancelling our own request (outgoing) or one the server sent us (incoming)
+    const requestId = String(params.requestId);
+    return direction === 'outgoing' ? requestId : `${SERVER_RPC_ID_PREFIX}${requestId}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract tool definitions from a tools/list result
+ */
+export function parseToolsListResult(result: unknown): ToolInfo[] {
+  const tools: ToolInfo[] = [];
+  if (result && typeof result === 'object') {
+    const list = (result as { tools?: unknown[] }).tools;
+    if (Array.isArray(list)) {
+      for (const t of list) {
+        if (typeof t === 'object' && t !== null && 'name' in t) {
+          tools.push({
+            name: String((t as Record<string, unknown>).name),
+            ...(typeof (t as Record<string, unknown>).title === 'string' && {
+              title: (t as Record<string, unknown>).title as string,
+            }),
+            description: (t as Record<string, unknown>).description
+              ? String((t as Record<string, unknown>).description)
+              : undefined,
+            inputSchema: (t as Record<string, unknown>).inputSchema as ToolInputSchema | undefined,
+          });
+        }
+      }
+    }
+  }
+  return tools;
+}
+
 /**
  * Get connector config by ID
  */
@@ -74,7 +219,7 @@ export async function getConnector(configPath: string, connectorId: string): Pro
 /**
  * List tools available on a connector
  *
- * Spawns MCP server, performs handshake, calls tools/list, then closes.
+ * Connects to the MCP server, performs handshake, calls tools/list, then closes.
  * All RPC calls are recorded to events.db.
  */
 export async function listTools(
@@ -84,7 +229,7 @@ export async function listTools(
 ): Promise<{ tools: ToolInfo[]; sessionId: string; error?: string }> {
   const timeout = (options.timeout || 30) * 1000;
 
-  if (connector.transport.type !== 'stdio') {
+  if (!isSupportedTransport(connector.transport)) {
     return {
       tools: [],
       sessionId: '',
@@ -92,70 +237,28 @@ export async function listTools(
     };
   }
 
-  const transport = connector.transport as StdioTransport;
   const eventsStore = new EventsStore(ctx.configDir);
 
-  // Resolve secret refs in env vars
-  const resolveResult = await resolveEnvSecrets(
-    transport.env,
-    connector.id,
-    ctx.configDir
-  );
+  // Resolve secret refs in env vars / headers
+  const resolved = await resolveTransportSecrets(connector, ctx.configDir);
 
-  if (!resolveResult.success) {
-    const errMsgs = resolveResult.errors.map(e => `${e.key}: ${e.message}`).join('; ');
+  if (resolved.error) {
     return {
       tools: [],
       sessionId: '',
-      error: `Failed to resolve secrets: ${errMsgs}`,
+      error: resolved.error,
     };
   }
 
-  // Create transport with resolved env
-  const resolvedTransport: StdioTransport = {
-    ...transport,
-    env: { ...transport.env, ...resolveResult.envResolved },
-  };
-
-  const connection = new StdioConnection(resolvedTransport);
+  const connection = createConnection(resolved.transport);
   const session = eventsStore.createSession(connector.id);
   const sessionId = session.session_id;
 
-  // Track RPC calls for event correlation
-  const rpcIdMap = new Map<string | number, string>();
-
   try {
-    // Set up message logging
-    connection.on('message', (msg, raw) => {
-      const isRequest = 'method' in msg && 'id' in msg && msg.id !== null;
-      const isResponse = 'id' in msg && !('method' in msg);
-
-      const direction: EventDirection = isResponse ? 'server_to_client' : 'client_to_server';
-      let kind: EventKind;
-      if (isRequest) kind = 'request';
-      else if ('method' in msg) kind = 'notification';
-      else if (isResponse) kind = 'response';
-      else kind = 'transport_event';
-
-      let rpcId: string | undefined;
-
-      if (isRequest && 'method' in msg) {
-        const rpcCall = eventsStore.saveRpcCall(sessionId, String(msg.id), msg.method);
-        rpcIdMap.set(msg.id as string | number, rpcCall.rpc_id);
-        rpcId = rpcCall.rpc_id;
-      } else if (isResponse && 'id' in msg && msg.id !== null) {
-        rpcId = rpcIdMap.get(msg.id as string | number);
-        if (rpcId) {
-          const resp = msg as JsonRpcResponse;
-          eventsStore.completeRpcCall(sessionId, String(msg.id), !resp.error, resp.error?.code);
-        }
-      }
-
-      eventsStore.saveEvent(sessionId, direction, kind, {
-        rpcId: rpcId || (('id' in msg && msg.id !== null) ? String(msg.id) : undefined),
-        rawJson: raw,
-      });
-    });
+    // Set up message logging and answer server-initiated requests
+    attachEventRecorder(connection, eventsStore, sessionId);
+    const serverRequests = new ServerRequestHandler(connector.id, connector.server_requests);
+    serverRequests.attach(connection);
 
     // Connect
     await connection.connect();
@@ -166,8 +269,8 @@ export async function listTools(
 
     // MCP handshake
     await connection.sendRequest('initialize', {
-      protocolVersion: '2024-11-05',
-      capabilities: {},
+      protocolVersion: DEFAULT_PROTOCOL_VERSION,
+      capabilities: serverRequests.getClientCapabilities(),
       clientInfo: {
         name: 'proofscan',
         version: '0.7.0',
@@ -184,26 +287,7 @@ export async function listTools(
     });
     eventsStore.endSession(sessionId, 'normal');
 
-    // Extract tools
-    const tools: ToolInfo[] = [];
-    if (toolsListResponse.result && typeof toolsListResponse.result === 'object') {
-      const result = toolsListResponse.result as { tools?: unknown[] };
-      if (Array.isArray(result.tools)) {
-        for (const t of result.tools) {
-          if (typeof t === 'object' && t !== null && 'name' in t) {
-            tools.push({
-              name: String((t as Record<string, unknown>).name),
-              description: (t as Record<string, unknown>).description
-                ? String((t as Record<string, unknown>).description)
-                : undefined,
-              inputSchema: (t as Record<string, unknown>).inputSchema as ToolInputSchema | undefined,
-            });
-          }
-        }
-      }
-    }
-
-    return { tools, sessionId };
+    return { tools: parseToolsListResult(toolsListResponse.result), sessionId };
 
   } catch (error) {
     const errMsg = error instanceof Error ? error.message : String(error);
@@ -253,19 +337,20 @@ export async function getTool(
 /**
  * Call a tool with arguments
  *
- * Spawns MCP server, performs handshake, calls tools/call, then closes.
- * All RPC calls are recorded to events.db.
+ * Connects to the MCP server, performs handshake, calls tools/call, then closes.
+ * All RPC calls are recorded to events.db, including progress updates and
+ * the notifications/cancelled sent on timeout or abort.
  */
 export async function callTool(
   ctx: ToolContext,
   connector: Connector,
   toolName: string,
   args: Record<string, unknown>,
-  options: { timeout?: number } = {}
+  options: CallToolOptions = {}
 ): Promise<ToolCallResult> {
   const timeout = (options.timeout || 30) * 1000;
 
-  if (connector.transport.type !== 'stdio') {
+  if (!isSupportedTransport(connector.transport)) {
     return {
       success: false,
       sessionId: '',
@@ -273,70 +358,28 @@ export async function callTool(
     };
   }
 
-  const transport = connector.transport as StdioTransport;
   const eventsStore = new EventsStore(ctx.configDir);
 
-  // Resolve secret refs in env vars
-  const resolveResult = await resolveEnvSecrets(
-    transport.env,
-    connector.id,
-    ctx.configDir
-  );
+  // Resolve secret refs in env vars / headers
+  const resolved = await resolveTransportSecrets(connector, ctx.configDir);
 
-  if (!resolveResult.success) {
-    const errMsgs = resolveResult.errors.map(e => `${e.key}: ${e.message}`).join('; ');
+  if (resolved.error) {
     return {
       success: false,
       sessionId: '',
-      error: `Failed to resolve secrets: ${errMsgs}`,
+      error: resolved.error,
     };
   }
 
-  // Create transport with resolved env
-  const resolvedTransport: StdioTransport = {
-    ...transport,
-    env: { ...transport.env, ...resolveResult.envResolved },
-  };
-
-  const connection = new StdioConnection(resolvedTransport);
+  const connection = createConnection(resolved.transport);
   const session = eventsStore.createSession(connector.id);
   const sessionId = session.session_id;
 
-  // Track RPC calls
-  const rpcIdMap = new Map<string | number, string>();
-
   try {
-    // Set up message logging
-    connection.on('message', (msg, raw) => {
-      const isRequest = 'method' in msg && 'id' in msg && msg.id !== null;
-      const isResponse = 'id' in msg && !('method' in msg);
-
-      const direction: EventDirection = isResponse ? 'server_to_client' : 'client_to_server';
-      let kind: EventKind;
-      if (isRequest) kind = 'request';
-      else if ('method' in msg) kind = 'notification';
-      else if (isResponse) kind = 'response';
-      else kind = 'transport_event';
-
-      let rpcId: string | undefined;
-
-      if (isRequest && 'method' in msg) {
-        const rpcCall = eventsStore.saveRpcCall(sessionId, String(msg.id), msg.method);
-        rpcIdMap.set(msg.id as string | number, rpcCall.rpc_id);
-        rpcId = rpcCall.rpc_id;
-      } else if (isResponse && 'id' in msg && msg.id !== null) {
-        rpcId = rpcIdMap.get(msg.id as string | number);
-        if (rpcId) {
-          const resp = msg as JsonRpcResponse;
-          eventsStore.completeRpcCall(sessionId, String(msg.id), !resp.error, resp.error?.code);
-        }
-      }
-
-      eventsStore.saveEvent(sessionId, direction, kind, {
-        rpcId: rpcId || (('id' in msg && msg.id !== null) ? String(msg.id) : undefined),
-        rawJson: raw,
-      });
-    });
+    // Set up message logging and answer server-initiated requests
+    attachEventRecorder(connection, eventsStore, sessionId);
+    const serverRequests = new ServerRequestHandler(connector.id, connector.server_requests);
+    serverRequests.attach(connection);
 
     // Connect
     await connection.connect();
@@ -347,8 +390,8 @@ export async function callTool(
 
     // MCP handshake
     await connection.sendRequest('initialize', {
-      protocolVersion: '2024-11-05',
-      capabilities: {},
+      protocolVersion: DEFAULT_PROTOCOL_VERSION,
+      capabilities: serverRequests.getClientCapabilities(),
       clientInfo: {
         name: 'proofscan',
         version: '0.7.0',
@@ -361,7 +404,7 @@ export async function callTool(
     const callResponse = await connection.sendRequest('tools/call', {
       name: toolName,
       arguments: args,
-    }, timeout);
+    }, timeout, { signal: options.signal, onProgress: options.onProgress });
 
     eventsStore.saveEvent(sessionId, 'client_to_server', 'transport_event', {
       rawJson: JSON.stringify({ type: 'disconnected' }),
@@ -393,10 +436,16 @@ export async function callTool(
     });
     eventsStore.endSession(sessionId, 'error');
 
+    const cancelled = options.signal?.aborted === true;
+    if (cancelled) {
+      await new Promise((resolve) => setTimeout(resolve, CANCEL_FLUSH_MS));
+    }
+
     return {
       success: false,
       sessionId,
       error: errMsg,
+      ...(cancelled && { cancelled }),
     };
   } finally {
     // Guarantee connection cleanup to prevent zombie processes
@@ -0,0 +1,100 @@
+/**
+ * Tests for Tool Argument Validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatArgumentViolations, validateToolArguments } from './schema-validator.js';
+
+const SCHEMA = {
+  type: 'object',
+  properties: {
+    query: { type: 'string' },
+    limit: { type: 'integer' },
+    order: { type: 'string', enum: ['asc', 'desc'] },
+    cursor: { type: ['string', 'null'] },
+    filters: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { field: { type: 'string' }, value: { type: 'number' } },
+        required: ['field'],
+        additionalProperties: false,
+      },
+    },
+    labels: { type: 'object', additionalProperties: { type: 'string' } },
+  },
+  required: ['query'],
+  additionalProperties: false,
+};
+
+describe('validateToolArguments', () => {
+  it('should accept valid arguments', () => {
+    expect(validateToolArguments(SCHEMA, {
+      query: 'x',
+      limit: 10,
+      order: 'asc',
+      cursor: null,
+      filters: [{ field: 'a', value: 1.5 }],
+      labels: { env: 'prod' },
+    })).toEqual([]);
+  });
+
+  it('should check nothing without a schema', () => {
+    expect(validateToolArguments(undefined, { anything: true })).toEqual([]);
+  });
+
+  it('should report missing required and unknown parameters', () => {
+    expect(validateToolArguments(SCHEMA, { limt: 10 })).toEqual([
+      { path: 'arguments.query', message: 'is required' },
+      { path: 'arguments.limt', message: 'is not a known parameter' },
+    ]);
+  });
+
+  it('should report type and enum mismatches', () => {
+    expect(validateToolArguments(SCHEMA, { query: 1, limit: 1.5, order: 'up', cursor: 3 })).toEqual([
+      { path: 'arguments.query', message: 'expected string, got number' },
+      { path: 'arguments.limit', message: 'expected integer, got number' },
+      { path: 'arguments.order', message: 'must be one of "asc", "desc"' },
+      { path: 'arguments.cursor', message: 'expected string or null, got number' },
+    ]);
+  });
+
+  it('should give paths into arrays and nested objects', () => {
+    expect(validateToolArguments(SCHEMA, {
+      query: 'x',
+      filters: [{ field: 'a' }, { value: '1', extra: true }],
+      labels: { env: 1 },
+    })).toEqual([
+      { path: 'arguments.filters[1].field', message: 'is required' },
+      { path: 'arguments.filters[1].value', message: 'expected number, got string' },
+      { path: 'arguments.filters[1].extra', message: 'is not a known parameter' },
+      { path: 'arguments.labels.env', message: 'expected string, got number' },
+    ]);
+  });
+
+  it('should allow unknown parameters unless additionalProperties is false', () => {
+    const open = { type: 'object', properties: { a: { type: 'string' } } };
+    expect(validateToolArguments(open, { a: 'x', b: 1 })).toEqual([]);
+  });
+
+  it('should not match parameters against the prototype chain', () => {
+    const closed = { type: 'object', properties: { a: { type: 'string' } }, additionalProperties: false };
+    expect(validateToolArguments(closed, JSON.parse('{"a":"x","__proto__":{"b":1}}'))).toEqual([
+      { path: 'arguments.__proto__', message: 'is not a known parameter' },
+    ]);
+
+    const required = { type: 'object', required: ['toString'] };
+    expect(validateToolArguments(required, {})).toEqual([
+      { path: 'arguments.toString', message: 'is required' },
+    ]);
+  });
+});
+
+describe('formatArgumentViolations', () => {
+  it('should put one violation per line', () => {
+    expect(formatArgumentViolations([
+      { path: 'arguments.query', message: 'is required' },
+      { path: 'arguments.limt', message: 'is not a known parameter' },
+    ])).toBe('arguments.query: is required\narguments.limt: is not a known parameter');
+  });
+});
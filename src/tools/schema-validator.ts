@@ -0,0 +1,138 @@
+/**
+ * Tool Argument Validation
+ *
+ * Checks tools/call arguments against the tool's inputSchema before they
+ * are sent, so hallucinated or mistyped parameters are refused with a
+ * precise path instead of reaching the server. Covers the JSON Schema
+ * keywords tool schemas rely on: type, required, enum, properties,
+ * additionalProperties and items. Unknown keywords are ignored.
+ */
+
+/** One problem with the arguments */
+export interface ArgumentViolation {
+  /** Where the problem is, e.g. "arguments.filters[0].field" */
+  path: string;
+  message: string;
+}
+
+/** transport_event payload recording arguments refused before they reached the server */
+export interface InvalidArgumentsRecord {
+  type: 'invalid_arguments';
+  tool: string;
+  violations: ArgumentViolation[];
+}
+
+/** The subset of a JSON Schema node that is checked */
+interface SchemaNode {
+  type?: string | string[];
+  enum?: unknown[];
+  properties?: Record<string, SchemaNode>;
+  required?: string[];
+  additionalProperties?: boolean | SchemaNode;
+  items?: SchemaNode;
+}
+
+/**
+ * Validate tool arguments against an inputSchema
+ *
+ * @param inputSchema - The tool's inputSchema (nothing is checked if missing)
+ * @param args - The arguments object of the tools/call request
+ * @returns Violations, empty if the arguments are valid
+ */
+export function validateToolArguments(inputSchema: unknown, args: unknown): ArgumentViolation[] {
+  const violations: ArgumentViolation[] = [];
+  if (isSchemaNode(inputSchema)) {
+    validateNode(inputSchema, args, 'arguments', violations);
+  }
+  return violations;
+}
+
+/**
+ * Format violations one per line, for error messages
+ */
+export function formatArgumentViolations(violations: ArgumentViolation[]): string {
+  return violations.map((v) => `${v.path}: ${v.message}`).join('\n');
+}
+
+function isSchemaNode(value: unknown): value is SchemaNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateNode(schema: SchemaNode, value: unknown, path: string, violations: ArgumentViolation[]): void {
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.length > 0 && !types.some((type) => matchesType(type, value))) {
+    violations.push({ path, message: `expected ${types.join(' or ')}, got ${getJsonType(value)}` });
+    // Nested checks would only repeat the type mismatch
+    return;
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((allowed) => isEqual(allowed, value))) {
+    violations.push({
+      path,
+      message: `must be one of ${schema.enum.map((allowed) => JSON.stringify(allowed)).join(', ')}`,
+    });
+  }
+
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    validateObject(schema, value as Record<string, unknown>, path, violations);
+  } else if (Array.isArray(value) && isSchemaNode(schema.items)) {
+    value.forEach((item, i) => validateNode(schema.items as SchemaNode, item, `${path}[${i}]`, violations));
+  }
+}
+
+function validateObject(
+  schema: SchemaNode,
+  value: Record<string, unknown>,
+  path: string,
+  violations: ArgumentViolation[]
+): void {
+  const properties = isSchemaNode(schema.properties) ? schema.properties : {};
+
+  if (Array.isArray(schema.required)) {
+    for (const name of schema.required) {
+      if (!Object.hasOwn(value, name) || value[name] === undefined) {
+        violations.push({ path: `${path}.${name}`, message: 'is required' });
+      }
+    }
+  }
+
+  for (const [name, item] of Object.entries(value)) {
+    if (item === undefined) {
+      continue;
+    }
+    const itemPath = `${path}.${name}`;
+    // Own properties only: names like __proto__ or toString must not match the prototype
+    const property = Object.hasOwn(properties, name) ? properties[name] : undefined;
+    if (isSchemaNode(property)) {
+      validateNode(property, item, itemPath, violations);
+    } else if (schema.additionalProperties === false) {
+      violations.push({ path: itemPath, message: 'is not a known parameter' });
+    } else if (isSchemaNode(schema.additionalProperties)) {
+      validateNode(schema.additionalProperties, item, itemPath, violations);
+    }
+  }
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return getJsonType(value) === type;
+  }
+}
+
+/**
+ * Get JSON type of a value
+ */
+function getJsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,168 @@
+/**
+ * Transport-agnostic MCP connection factory
+ *
+ * All connection classes share the StdioConnection surface
+ * (connect / sendRequest / sendNotification / sendResponse / close /
+ * isConnected) and emit the same message / error / close events, so
+ * capture paths can record any transport into events.db without
+ * special-casing it.
+ */
+
+import type { EventEmitter } from 'events';
+import type { Connector, Transport } from '../types/index.js';
+import type { EventDirection, EventKind } from '../db/types.js';
+import {
+  StdioConnection,
+  type ConnectionOptions,
+  type JsonRpcMessage,
+  type JsonRpcResponse,
+  type MessageDirection,
+  type RequestOptions,
+} from './stdio.js';
+import { HttpConnection } from './http.js';
+import { SseConnection } from './sse.js';
+import { WsConnection } from './ws.js';
+import { resolveEnvSecrets } from '../secrets/resolve.js';
+
+/**
+ * Common interface implemented by every transport connection
+ */
+export interface McpConnection extends EventEmitter {
+  connect(): Promise<void>;
+  sendRequest(method: string, params?: unknown, timeoutMs?: number, options?: RequestOptions): Promise<JsonRpcResponse>;
+  sendNotification(method: string, params?: unknown): void;
+  sendResponse(response: JsonRpcResponse): void;
+  close(): void;
+  isConnected(): boolean;
+}
+
+/** Transport types that have a connection implementation */
+const SUPPORTED_TRANSPORTS: ReadonlySet<Transport['type']> = new Set(['stdio', 'rpc-http', 'rpc-sse', 'ws']);
+
+/**
+ * Check whether a transport type can be connected to
+ */
+export function isSupportedTransport(transport: Transport): boolean {
+  return SUPPORTED_TRANSPORTS.has(transport.type);
+}
+
+/**
+ * Create a connection for the given transport
+ *
+ * The transport should already have its secret refs resolved
+ * (see resolveTransportSecrets).
+ */
+export function createConnection(transport: Transport, options: ConnectionOptions = {}): McpConnection {
+  switch (transport.type) {
+    case 'stdio':
+      return new StdioConnection(transport, options);
+    case 'rpc-http':
+      return new HttpConnection(transport, options);
+    case 'rpc-sse':
+      return new SseConnection(transport, options);
+    case 'ws':
+      return new WsConnection(transport, options);
+    default:
+      throw new Error(`Unsupported transport type: ${(transport as { type: string }).type}`);
+  }
+}
+
+/**
+ * Describe a transport for connect_attempt events (never includes env/headers)
+ */
+export function describeTransport(transport: Transport): Record<string, unknown> {
+  if (transport.type === 'stdio') {
+    return { command: transport.command, args: transport.args };
+  }
+  return { transport: transport.type, url: transport.url };
+}
+
+/**
+ * Prefix for rpc_calls ids of requests the server sent to us
+ *
+ * Keeps server-chosen ids from colliding with our own request ids
+ * within the same session.
+ */
+export const SERVER_RPC_ID_PREFIX = 'srv-';
+
+/** How a message is recorded in events.db */
+export interface ClassifiedMessage {
+  direction: EventDirection;
+  kind: EventKind;
+  /** rpc_calls id for requests and responses */
+  rpcId?: string;
+  isRequest: boolean;
+  isResponse: boolean;
+}
+
+/**
+ * Classify a message emitted by a connection for recording
+ *
+ * Direction comes from the connection, not from the message shape:
+ * an incoming request is server-initiated and our outgoing response
+ * completes it.
+ */
+export function classifyMessage(msg: JsonRpcMessage, direction: MessageDirection): ClassifiedMessage {
+  const hasId = 'id' in msg && msg.id !== null && msg.id !== undefined;
+  const isRequest = 'method' in msg && hasId;
+  const isResponse = 'id' in msg && !('method' in msg);
+
+  let kind: EventKind;
+  if (isRequest) kind = 'request';
+  else if ('method' in msg) kind = 'notification';
+  else if (isResponse) kind = 'response';
+  else kind = 'transport_event';
+
+  let rpcId: string | undefined;
+  if (hasId) {
+    const id = String((msg as { id: string | number }).id);
+    const serverInitiated = isRequest ? direction === 'incoming' : direction === 'outgoing';
+    rpcId = serverInitiated ? `${SERVER_RPC_ID_PREFIX}${id}` : id;
+  }
+
+  return {
+    direction: direction === 'outgoing' ? 'client_to_server' : 'server_to_client',
+    kind,
+    rpcId,
+    isRequest,
+    isResponse,
+  };
+}
+
+/** Result of resolving secret refs in a transport */
+export interface ResolveTransportResult {
+  /** Transport with plaintext secrets - SENSITIVE, in-memory only */
+  transport: Transport;
+  /** Error message if any secret failed to resolve */
+  error?: string;
+}
+
+/**
+ * Resolve secret refs (dpapi:xxx etc.) in a connector's transport
+ *
+ * stdio: env values; HTTP/SSE/WebSocket transports: header values.
+ */
+export async function resolveTransportSecrets(
+  connector: Connector,
+  configDir: string
+): Promise<ResolveTransportResult> {
+  const transport = connector.transport;
+  const values = transport.type === 'stdio' ? transport.env : transport.headers;
+
+  const resolveResult = await resolveEnvSecrets(values, connector.id, configDir);
+
+  if (!resolveResult.success) {
+    const errMsgs = resolveResult.errors.map(e => `${e.key}: ${e.message}`).join('; ');
+    return { transport, error: `Failed to resolve secrets: ${errMsgs}` };
+  }
+
+  if (transport.type === 'stdio') {
+    return {
+      transport: { ...transport, env: { ...transport.env, ...resolveResult.envResolved } },
+    };
+  }
+
+  return {
+    transport: { ...transport, headers: { ...transport.headers, ...resolveResult.envResolved } },
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * Tests for Streamable HTTP transport
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { getEventListeners } from 'events';
+import { createServer, type Server, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { HttpConnection } from './http.js';
+import type { JsonRpcMessage } from './stdio.js';
+
+interface RecordedRequest {
+  method: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+/**
+ * Minimal Streamable HTTP MCP server for tests
+ */
+function startServer(
+  handler: (msg: Record<string, unknown>, req: IncomingMessage, res: ServerResponse) => void
+): Promise<{ server: Server; url: string; requests: RecordedRequest[] }> {
+  const requests: RecordedRequest[] = [];
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      requests.push({ method: req.method || '', headers: req.headers, body });
+      if (req.method !== 'POST') {
+        res.writeHead(200).end();
+        return;
+      }
+      handler(JSON.parse(body), req, res);
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}/mcp`, requests });
+    });
+  });
+}
+
+function jsonResponse(res: ServerResponse, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(200, { 'content-type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+describe('HttpConnection', () => {
+  let server: Server | null = null;
+
+  beforeEach(() => {
+    server = null;
+  });
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise<void>((resolve) => server!.close(() => resolve()));
+    }
+  });
+
+  it('should reject invalid URLs on connect', async () => {
+    const conn = new HttpConnection({ type: 'rpc-http', url: 'not a url' });
+    await expect(conn.connect()).rejects.toThrow('Invalid URL');
+  });
+
+  it('should handle JSON responses and track the session id', async () => {
+    const started = await startServer((msg, _req, res) => {
+      if (msg.method === 'initialize') {
+        jsonResponse(
+          res,
+          { jsonrpc: '2.0', id: msg.id, result: { protocolVersion: '2025-03-26', capabilities: {} } },
+          { 'mcp-session-id': 'sess-123' }
+        );
+      } else if (!('id' in msg)) {
+        res.writeHead(202).end();
+      } else {
+        jsonResponse(res, { jsonrpc: '2.0', id: msg.id, result: { tools: [] } });
+      }
+    });
+    server = started.server;
+
+    const conn = new HttpConnection({
+      type: 'rpc-http',
+      url: started.url,
+      headers: { authorization: 'Bearer t' },
+    });
+    const messages: JsonRpcMessage[] = [];
+    conn.on('message', (msg: JsonRpcMessage) => messages.push(msg));
+
+    await conn.connect();
+    await conn.sendRequest('initialize', { protocolVersion: '2025-03-26' });
+    conn.sendNotification('notifications/initialized', {});
+    const resp = await conn.sendRequest('tools/list', {});
+
+    expect(resp.result).toEqual({ tools: [] });
+    expect(conn.getSessionId()).toBe('sess-123');
+
+    // initialize, response, notification, tools/list, response
+    expect(messages).toHaveLength(5);
+
+    const toolsListReq = started.requests[2];
+    expect(JSON.parse(toolsListReq.body).method).toBe('tools/list');
+    expect(toolsListReq.headers['mcp-session-id']).toBe('sess-123');
+    expect(toolsListReq.headers['mcp-protocol-version']).toBe('2025-03-26');
+    expect(toolsListReq.headers['authorization']).toBe('Bearer t');
+
+    conn.close();
+    await new Promise((r) => setTimeout(r, 50));
+    expect(started.requests.some((r) => r.method === 'DELETE')).toBe(true);
+  });
+
+  it('should remove its abort listener from a shared signal once a request settles', async () => {
+    const started = await startServer((msg, _req, res) => {
+      if (msg.method === 'fail') {
+        res.writeHead(500).end();
+      } else {
+        jsonResponse(res, { jsonrpc: '2.0', id: msg.id, result: {} });
+      }
+    });
+    server = started.server;
+
+    const conn = new HttpConnection({ type: 'rpc-http', url: started.url });
+    await conn.connect();
+
+    const shared = new AbortController();
+    await conn.sendRequest('tools/list', {}, 5000, { signal: shared.signal });
+    await conn.sendRequest('tools/list', {}, 5000, { signal: shared.signal });
+    await expect(conn.sendRequest('fail', {}, 5000, { signal: shared.signal })).rejects.toThrow();
+    expect(getEventListeners(shared.signal, 'abort')).toHaveLength(0);
+
+    shared.abort();
+    await expect(conn.sendRequest('tools/list', {}, 5000, { signal: shared.signal })).rejects.toThrow('Request cancelled');
+    conn.close();
+  });
+
+  it('should dispatch messages from an SSE response stream', async () => {
+    const started = await startServer((msg, _req, res) => {
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      res.write(`data: ${JSON.stringify({ jsonrpc: '2.0', method: 'notifications/progress', params: { progress: 1 } })}\n\n`);
+      res.write(`event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', id: msg.id, result: { ok: true } })}\n\n`);
+      res.end();
+    });
+    server = started.server;
+
+    const conn = new HttpConnection({ type: 'rpc-http', url: started.url });
+    const methods: string[] = [];
+    conn.on('message', (msg: JsonRpcMessage) => {
+      if ('method' in msg) methods.push(msg.method);
+    });
+
+    await conn.connect();
+    const resp = await conn.sendRequest('tools/call', { name: 'x' });
+
+    expect(resp.result).toEqual({ ok: true });
+    expect(methods).toEqual(['tools/call', 'notifications/progress']);
+    conn.close();
+  });
+
+  it('should report messages that are not JSON-RPC objects and still answer the request', async () => {
+    const started = await startServer((msg, _req, res) => {
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      res.write('data: null\n\n');
+      res.write('data: [42]\n\n');
+      res.write(`data: ${JSON.stringify({ jsonrpc: '2.0', id: msg.id, result: { ok: true } })}\n\n`);
+      res.end();
+    });
+    server = started.server;
+
+    const conn = new HttpConnection({ type: 'rpc-http', url: started.url });
+    const errors: string[] = [];
+    conn.on('error', (error: Error) => errors.push(error.message));
+
+    await conn.connect();
+    const resp = await conn.sendRequest('tools/call', { name: 'x' });
+
+    expect(resp.result).toEqual({ ok: true });
+    expect(errors).toEqual(['Invalid JSON-RPC message: null', 'Invalid JSON-RPC message: 42']);
+    conn.close();
+  });
+
+  it('should reject with HTTP status on error responses', async () => {
+    const started = await startServer((_msg, _req, res) => {
+      res.writeHead(401).end('unauthorized');
+    });
+    server = started.server;
+
+    const conn = new HttpConnection({ type: 'rpc-http', url: started.url });
+    await conn.connect();
+    await expect(conn.sendRequest('initialize', {})).rejects.toThrow('HTTP 401: unauthorized');
+    conn.close();
+  });
+
+  it('should emit close and reject pending requests on close', async () => {
+    const started = await startServer(() => {
+      // Never respond
+    });
+    server = started.server;
+
+    const conn = new HttpConnection({ type: 'rpc-http', url: started.url });
+    let closed = false;
+    conn.on('close', () => (closed = true));
+
+    await conn.connect();
+    const pending = conn.sendRequest('tools/list', {}, 5000);
+    await new Promise((r) => setTimeout(r, 50));
+    conn.close();
+
+    await expect(pending).rejects.toThrow('Connection closed');
+    expect(closed).toBe(true);
+    expect(conn.isConnected()).toBe(false);
+    server.closeAllConnections();
+  });
+});
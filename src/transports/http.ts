@@ -0,0 +1,408 @@
+/**
+ * Streamable HTTP transport for MCP servers
+ *
+ * Each JSON-RPC message is POSTed to the server URL. The server answers
+ * with either a single JSON body or a text/event-stream carrying one or
+ * more JSON-RPC messages. The Mcp-Session-Id header returned by
+ * initialize is echoed on every subsequent request, and the session is
+ * terminated with DELETE on close.
+ *
+ * Emits the same events as StdioConnection (message / error / close) so
+ * every capture path can record remote servers unchanged.
+ */
+
+import { EventEmitter } from 'events';
+import type { HttpTransport } from '../types/index.js';
+import type {
+  ConnectionOptions,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  JsonRpcNotification,
+  JsonRpcMessage,
+  ProgressUpdate,
+  RequestOptions,
+} from './stdio.js';
+import {
+  CANCEL_REASON_ABORTED,
+  CANCEL_REASON_TIMEOUT,
+  parseProgressNotification,
+  withProgressToken,
+} from './progress.js';
+import { readSseStream } from './sse-parser.js';
+
+/** Session header defined by the Streamable HTTP transport */
+export const MCP_SESSION_HEADER = 'mcp-session-id';
+
+/** Protocol version header sent after initialization */
+export const MCP_PROTOCOL_VERSION_HEADER = 'mcp-protocol-version';
+
+/** Timeout for notification POSTs (no response is expected) */
+const NOTIFICATION_TIMEOUT_MS = 30000;
+
+export class HttpConnection extends EventEmitter {
+  private transport: HttpTransport;
+  private requestId: number = 1;
+  private connected = false;
+  private sessionId: string | null = null;
+  private protocolVersion: string | null = null;
+  /** In-flight notification POSTs (awaited before the next request to keep ordering) */
+  private notificationChain: Promise<void> = Promise.resolve();
+  /** Abort controllers for in-flight HTTP requests */
+  private controllers: Set<AbortController> = new Set();
+  private pendingRequests: Map<string | number, {
+    resolve: (value: JsonRpcResponse) => void;
+    reject: (error: Error) => void;
+    timeout: NodeJS.Timeout;
+    /** Aborts the POST whose response stream carries this request's answer */
+    controller: AbortController;
+    onProgress?: (update: ProgressUpdate) => void;
+  }> = new Map();
+
+  constructor(transport: HttpTransport, options: ConnectionOptions = {}) {
+    super();
+    this.transport = transport;
+    this.requestId = options.firstRequestId ?? 1;
+  }
+
+  async connect(): Promise<void> {
+    let url: URL;
+    try {
+      url = new URL(this.transport.url);
+    } catch {
+      throw new Error(`Invalid URL: ${this.transport.url}`);
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new Error(`Unsupported URL protocol: ${url.protocol}`);
+    }
+
+    // Streamable HTTP is connectionless until the first POST
+    this.connected = true;
+  }
+
+  /**
+   * Session ID assigned by the server (null until initialize completes)
+   */
+  getSessionId(): string | null {
+    return this.sessionId;
+  }
+
+  async sendRequest(
+    method: string,
+    params?: unknown,
+    timeoutMs: number = 30000,
+    options: RequestOptions = {}
+  ): Promise<JsonRpcResponse> {
+    if (!this.connected) {
+      throw new Error('Connection not open');
+    }
+
+    // Preserve ordering with notifications sent just before (e.g. notifications/initialized)
+    await this.notificationChain;
+
+    if (options.signal?.aborted) {
+      throw new Error(`Request cancelled: ${method}`);
+    }
+
+    const id = this.requestId++;
+    if (options.onProgress) {
+      params = withProgressToken(params, id);
+    }
+    const request: JsonRpcRequest = {
+      jsonrpc: '2.0',
+      id,
+      method,
+      ...(params !== undefined && { params }),
+    };
+
+    const raw = JSON.stringify(request);
+
+    return new Promise((resolve, reject) => {
+      const controller = new AbortController();
+      const onAbort = () => {
+        this.abandonRequest(id, new Error(`Request cancelled: ${method}`), CANCEL_REASON_ABORTED);
+      };
+      // The signal may outlive the request (e.g. a client session's), so drop the listener once settled
+      const settled = () => options.signal?.removeEventListener('abort', onAbort);
+      const timeout = setTimeout(() => {
+        this.abandonRequest(id, new Error(`Request timeout for method: ${method}`), CANCEL_REASON_TIMEOUT);
+      }, timeoutMs);
+
+      this.pendingRequests.set(id, {
+        resolve: (response) => {
+          settled();
+          resolve(response);
+        },
+        reject: (error) => {
+          settled();
+          reject(error);
+        },
+        timeout,
+        controller,
+        onProgress: options.onProgress,
+      });
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      // Emit event for the sent request
+      this.emit('message', request, raw, 'outgoing');
+
+      this.post(raw, controller)
+        .then(() => {
+          // Stream ended without answering this request
+          const pending = this.pendingRequests.get(id);
+          if (pending) {
+            clearTimeout(pending.timeout);
+            this.pendingRequests.delete(id);
+            pending.reject(new Error(`No response received for method: ${method}`));
+          }
+        })
+        .catch((err: Error) => {
+          const pending = this.pendingRequests.get(id);
+          if (pending) {
+            clearTimeout(pending.timeout);
+            this.pendingRequests.delete(id);
+            pending.reject(err);
+          }
+        });
+    });
+  }
+
+  sendNotification(method: string, params?: unknown): void {
+    if (!this.connected) {
+      throw new Error('Connection not open');
+    }
+
+    const notification: JsonRpcNotification = {
+      jsonrpc: '2.0',
+      method,
+      ...(params !== undefined && { params }),
+    };
+
+    const raw = JSON.stringify(notification);
+    this.emit('message', notification, raw, 'outgoing');
+
+    this.notificationChain = this.notificationChain
+      .then(() => {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), NOTIFICATION_TIMEOUT_MS);
+        return this.post(raw, controller).finally(() => clearTimeout(timer));
+      })
+      .catch((err: Error) => {
+        this.emitError(err);
+      });
+  }
+
+  /**
+   * Answer a request the server sent to us (the server acknowledges with 202)
+   */
+  sendResponse(response: JsonRpcResponse): void {
+    if (!this.connected) {
+      throw new Error('Connection not open');
+    }
+
+    const raw = JSON.stringify(response);
+    this.emit('message', response, raw, 'outgoing');
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), NOTIFICATION_TIMEOUT_MS);
+    this.post(raw, controller)
+      .catch((err: Error) => {
+        this.emitError(err);
+      })
+      .finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Give up on a pending request and tell the server (notifications/cancelled)
+   */
+  private abandonRequest(id: string | number, error: Error, reason: string): void {
+    const pending = this.pendingRequests.get(id);
+    if (!pending) {
+      return;
+    }
+    clearTimeout(pending.timeout);
+    this.pendingRequests.delete(id);
+    pending.controller.abort();
+    if (this.connected) {
+      this.sendNotification('notifications/cancelled', { requestId: id, reason });
+    }
+    pending.reject(error);
+  }
+
+  close(): void {
+    if (!this.connected) {
+      return;
+    }
+    this.connected = false;
+
+    for (const controller of this.controllers) {
+      controller.abort();
+    }
+    this.controllers.clear();
+
+    for (const [, pending] of this.pendingRequests) {
+      clearTimeout(pending.timeout);
+      pending.reject(new Error('Connection closed'));
+    }
+    this.pendingRequests.clear();
+
+    // Explicitly terminate the server-side session (best effort)
+    if (this.sessionId) {
+      fetch(this.transport.url, {
+        method: 'DELETE',
+        headers: this.buildHeaders(),
+        signal: AbortSignal.timeout(5000),
+      }).catch(() => {
+        // Servers may not support explicit termination (405) or be gone already
+      });
+      this.sessionId = null;
+    }
+
+    this.emit('close', null, null);
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Build request headers (configured headers + session/protocol headers)
+   */
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      ...this.transport.headers,
+    };
+    if (this.sessionId) {
+      headers[MCP_SESSION_HEADER] = this.sessionId;
+    }
+    if (this.protocolVersion) {
+      headers[MCP_PROTOCOL_VERSION_HEADER] = this.protocolVersion;
+    }
+    return headers;
+  }
+
+  /**
+   * POST a single JSON-RPC message and dispatch whatever comes back
+   */
+  private async post(body: string, controller: AbortController): Promise<void> {
+    this.controllers.add(controller);
+
+    try {
+      const response = await fetch(this.transport.url, {
+        method: 'POST',
+        headers: {
+          ...this.buildHeaders(),
+          'content-type': 'application/json',
+          accept: 'application/json, text/event-stream',
+        },
+        body,
+        signal: controller.signal,
+      });
+
+      const sessionId = response.headers.get(MCP_SESSION_HEADER);
+      if (sessionId) {
+        this.sessionId = sessionId;
+      }
+
+      if (response.status === 404 && this.sessionId) {
+        throw new Error('HTTP 404: session expired or not found');
+      }
+
+      if (!response.ok) {
+        const text = await response.text().catch(() => '');
+        throw new Error(`HTTP ${response.status}: ${text || response.statusText}`);
+      }
+
+      // 202 Accepted: notification/response acknowledged, no body
+      if (response.status === 202 || !response.body) {
+        return;
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+
+      if (contentType.includes('text/event-stream')) {
+        await readSseStream(response.body, (event) => {
+          if (event.event === 'message' && event.data) {
+            this.handlePayload(event.data);
+          }
+        });
+        return;
+      }
+
+      const text = await response.text();
+      if (text.trim()) {
+        this.handlePayload(text);
+      }
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        // Aborted by close() or timeout - pending entries are handled there
+        return;
+      }
+      throw err;
+    } finally {
+      this.controllers.delete(controller);
+    }
+  }
+
+  /**
+   * Parse a JSON (or JSON batch) payload and dispatch each message
+   */
+  private handlePayload(payload: string): void {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(payload);
+    } catch {
+      this.emitError(new Error(`Failed to parse JSON-RPC message: ${payload}`));
+      return;
+    }
+
+    const messages = Array.isArray(parsed) ? parsed : [parsed];
+    for (const msg of messages) {
+      const raw = Array.isArray(parsed) ? JSON.stringify(msg) : payload;
+      if (typeof msg !== 'object' || msg === null || Array.isArray(msg)) {
+        this.emitError(new Error(`Invalid JSON-RPC message: ${raw}`));
+        continue;
+      }
+      this.processMessage(msg as JsonRpcMessage, raw);
+    }
+  }
+
+  /**
+   * Emit an error event only when someone is listening
+   *
+   * Background POST/stream failures must not crash callers that only
+   * care about request results (an unhandled 'error' event throws).
+   */
+  private emitError(error: Error): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+  }
+
+  private processMessage(msg: JsonRpcMessage, raw: string): void {
+    this.emit('message', msg, raw, 'incoming');
+
+    // Route progress updates to the request that asked for them
+    const progress = parseProgressNotification(msg);
+    if (progress) {
+      this.pendingRequests.get(progress.token)?.onProgress?.(progress.update);
+    }
+
+    // Handle responses to pending requests
+    if ('id' in msg && msg.id !== null && !('method' in msg)) {
+      const pending = this.pendingRequests.get(msg.id);
+      if (pending) {
+        clearTimeout(pending.timeout);
+        this.pendingRequests.delete(msg.id);
+
+        // Remember negotiated protocol version for subsequent requests
+        const result = (msg as JsonRpcResponse).result as { protocolVersion?: unknown } | undefined;
+        if (result && typeof result.protocolVersion === 'string' && !this.protocolVersion) {
+          this.protocolVersion = result.protocolVersion;
+        }
+
+        pending.resolve(msg as JsonRpcResponse);
+      }
+    }
+  }
+}
@@ -1 +1,10 @@
 export * from './stdio.js';
+export * from './http.js';
+export * from './sse.js';
+export * from './ws.js';
+export * from './sse-parser.js';
+export * from './connection.js';
+export * from './server-requests.js';
+export * from './progress.js';
+export * from './stderr.js';
+export * from './protocol-versions.js';
@@ -0,0 +1,127 @@
+/**
+ * Tests for progress notifications and cancellation
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { withProgressToken, getProgressToken, parseProgressNotification } from './progress.js';
+import type { ProgressUpdate } from './stdio.js';
+import { callTool } from '../tools/adapter.js';
+import { EventsStore } from '../db/events-store.js';
+import { closeAllDbs } from '../db/connection.js';
+import type { Connector } from '../types/config.js';
+
+/**
+ * Server whose tools/call reports two progress steps; "finish" then
+ * answers, any other tool waits until it is cancelled.
+ */
+const PROGRESS_SERVER = `
+let buf = '';
+const send = (msg) => process.stdout.write(JSON.stringify(msg) + '\\n');
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', (chunk) => {
+  buf += chunk;
+  let i;
+  while ((i = buf.indexOf('\\n')) !== -1) {
+    const msg = JSON.parse(buf.slice(0, i));
+    buf = buf.slice(i + 1);
+    if (msg.method === 'initialize') {
+      send({ jsonrpc: '2.0', id: msg.id, result: { protocolVersion: '2024-11-05', capabilities: { tools: {} } } });
+    } else if (msg.method === 'tools/call') {
+      const progressToken = msg.params._meta.progressToken;
+      send({ jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken, progress: 1, total: 2, message: 'step 1' } });
+      send({ jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken, progress: 2, total: 2 } });
+      if (msg.params.name === 'finish') {
+        send({ jsonrpc: '2.0', id: msg.id, result: { content: [{ type: 'text', text: 'done' }] } });
+      }
+    }
+  }
+});
+`;
+
+const connector: Connector = {
+  id: 'slow',
+  enabled: true,
+  transport: { type: 'stdio', command: process.execPath, args: ['-e', PROGRESS_SERVER] },
+};
+
+describe('progress helpers', () => {
+  it('should add the progress token without dropping existing _meta', () => {
+    const params = withProgressToken({ name: 'x', _meta: { trace: 'a' } }, 3);
+
+    expect(params).toEqual({ name: 'x', _meta: { trace: 'a', progressToken: 3 } });
+    expect(getProgressToken(params)).toBe(3);
+    expect(getProgressToken({ name: 'x' })).toBeUndefined();
+  });
+
+  it('should parse only well-formed progress notifications', () => {
+    expect(parseProgressNotification({
+      jsonrpc: '2.0',
+      method: 'notifications/progress',
+      params: { progressToken: 'p', progress: 4, message: 'half' },
+    })).toEqual({ token: 'p', update: { progress: 4, message: 'half' } });
+
+    expect(parseProgressNotification({
+      jsonrpc: '2.0',
+      method: 'notifications/progress',
+      params: { progress: 4 },
+    })).toBeNull();
+  });
+});
+
+describe('progress and cancellation over a connection', () => {
+  let configDir: string | null = null;
+
+  afterEach(() => {
+    closeAllDbs();
+    if (configDir) {
+      rmSync(configDir, { recursive: true, force: true });
+      configDir = null;
+    }
+  });
+
+  it('should stream progress and link it to the tools/call rpc', async () => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+    const updates: ProgressUpdate[] = [];
+
+    const result = await callTool({ connectorId: 'slow', configDir }, connector, 'finish', {}, {
+      timeout: 10,
+      onProgress: (update) => updates.push(update),
+    });
+
+    expect(result.success).toBe(true);
+    expect(updates).toEqual([
+      { progress: 1, total: 2, message: 'step 1' },
+      { progress: 2, total: 2 },
+    ]);
+
+    const store = new EventsStore(configDir);
+    const call = store.getRpcCallsBySession(result.sessionId).find((r) => r.method === 'tools/call');
+    const linked = store.getEventsBySession(result.sessionId).filter((e) => e.rpc_id === call!.rpc_id);
+    expect(linked.map((e) => e.kind)).toEqual(['request', 'notification', 'notification', 'response']);
+  });
+
+  it('should send notifications/cancelled when the call is aborted', async () => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+    const controller = new AbortController();
+
+    const result = await callTool({ connectorId: 'slow', configDir }, connector, 'hang', {}, {
+      timeout: 10,
+      signal: controller.signal,
+      onProgress: (update) => {
+        if (update.progress === 2) controller.abort();
+      },
+    });
+
+    expect(result).toMatchObject({ success: false, cancelled: true, error: 'Request cancelled: tools/call' });
+
+    const store = new EventsStore(configDir);
+    const call = store.getRpcCallsBySession(result.sessionId).find((r) => r.method === 'tools/call');
+    const cancel = store.getEventsBySession(result.sessionId)
+      .find((e) => e.rpc_id === call!.rpc_id && e.direction === 'client_to_server' && e.kind === 'notification');
+    expect(JSON.parse(cancel!.raw_json!).params).toEqual({ requestId: Number(call!.rpc_id), reason: 'Cancelled by client' });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Progress and cancellation helpers shared by all connection classes
+ *
+ * A request asks for progress by carrying params._meta.progressToken; the
+ * server then sends notifications/progress with that token. Connections
+ * use the request id as the token, so updates map straight back to the
+ * pending request.
+ */
+
+import type { JsonRpcMessage, ProgressUpdate } from './stdio.js';
+
+/** Reasons sent in notifications/cancelled */
+export const CANCEL_REASON_TIMEOUT = 'Request timed out';
+export const CANCEL_REASON_ABORTED = 'Cancelled by client';
+
+/**
+ * Add _meta.progressToken to request params (keeping any existing _meta)
+ */
+export function withProgressToken(params: unknown, token: string | number): Record<string, unknown> {
+  const base = params && typeof params === 'object' && !Array.isArray(params)
+    ? params as Record<string, unknown>
+    : {};
+  const meta = base._meta && typeof base._meta === 'object'
+    ? base._meta as Record<string, unknown>
+    : {};
+  return { ...base, _meta: { ...meta, progressToken: token } };
+}
+
+/**
+ * Read the progress token from request params, if any
+ */
+export function getProgressToken(params: unknown): string | number | undefined {
+  if (!params || typeof params !== 'object') {
+    return undefined;
+  }
+  const meta = (params as { _meta?: { progressToken?: unknown } })._meta;
+  const token = meta?.progressToken;
+  return typeof token === 'string' || typeof token === 'number' ? token : undefined;
+}
+
+/**
+ * Parse a notifications/progress message
+ */
+export function parseProgressNotification(
+  msg: JsonRpcMessage
+): { token: string | number; update: ProgressUpdate } | null {
+  if (!('method' in msg) || msg.method !== 'notifications/progress' || ('id' in msg && msg.id !== undefined)) {
+    return null;
+  }
+
+  const params = msg.params as Record<string, unknown> | undefined;
+  const token = params?.progressToken;
+  if ((typeof token !== 'string' && typeof token !== 'number') || typeof params?.progress !== 'number') {
+    return null;
+  }
+
+  return {
+    token,
+    update: {
+      progress: params.progress,
+      ...(typeof params.total === 'number' && { total: params.total }),
+      ...(typeof params.message === 'string' && { message: params.message }),
+    },
+  };
+}
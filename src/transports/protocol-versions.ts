@@ -0,0 +1,27 @@
+/**
+ * MCP protocol versions
+ *
+ * The client proposes a version in initialize; the server answers with the
+ * same version if it supports it, or with another version it does support.
+ */
+
+/** Known MCP protocol versions, oldest first */
+export const MCP_PROTOCOL_VERSIONS = [
+  '2024-11-05',
+  '2025-03-26',
+  '2025-06-18',
+  '2025-11-25',
+] as const;
+
+/** Version proofscan proposes in its own initialize requests */
+export const DEFAULT_PROTOCOL_VERSION = '2024-11-05';
+
+/** Latest known protocol version */
+export const LATEST_PROTOCOL_VERSION = MCP_PROTOCOL_VERSIONS[MCP_PROTOCOL_VERSIONS.length - 1];
+
+/**
+ * Check whether a string is a protocol version date (YYYY-MM-DD)
+ */
+export function isProtocolVersion(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
@@ -0,0 +1,169 @@
+/**
+ * Tests for server-initiated request handling
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { ServerRequestHandler, type UpstreamForwarder } from './server-requests.js';
+import type { JsonRpcRequest } from './stdio.js';
+import { callTool } from '../tools/adapter.js';
+import { EventsStore } from '../db/events-store.js';
+import { closeAllDbs } from '../db/connection.js';
+import type { Connector } from '../types/config.js';
+
+function request(method: string, params?: unknown): JsonRpcRequest {
+  return { jsonrpc: '2.0', id: 7, method, ...(params !== undefined && { params }) };
+}
+
+/** Upstream stub that declares the given capabilities and records forwards */
+function createUpstream(capabilities: Record<string, unknown>): UpstreamForwarder & { forwarded: string[] } {
+  const forwarded: string[] = [];
+  return {
+    forwarded,
+    getClientCapabilities: () => capabilities,
+    forward: async (connectorId, method) => {
+      forwarded.push(`${connectorId}:${method}`);
+      return { result: { from: 'upstream' } };
+    },
+  };
+}
+
+/**
+ * Server that asks the client for roots/list while handling tools/call
+ * and returns the number of roots it was given.
+ */
+const ROOTS_SERVER = `
+let buf = '';
+let pendingCall = null;
+const send = (msg) => process.stdout.write(JSON.stringify(msg) + '\\n');
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', (chunk) => {
+  buf += chunk;
+  let i;
+  while ((i = buf.indexOf('\\n')) !== -1) {
+    const msg = JSON.parse(buf.slice(0, i));
+    buf = buf.slice(i + 1);
+    if (msg.method === 'initialize') {
+      send({ jsonrpc: '2.0', id: msg.id, result: { protocolVersion: '2024-11-05', capabilities: { tools: {} }, echoCaps: msg.params.capabilities } });
+    } else if (msg.method === 'tools/call') {
+      pendingCall = msg.id;
+      send({ jsonrpc: '2.0', id: 1, method: 'roots/list' });
+    } else if (msg.id === 1 && !msg.method) {
+      const count = msg.result ? msg.result.roots.length : -1;
+      send({ jsonrpc: '2.0', id: pendingCall, result: { content: [{ type: 'text', text: String(count) }] } });
+    }
+  }
+});
+`;
+
+describe('ServerRequestHandler', () => {
+  it('should answer with canned responses first', async () => {
+    const upstream = createUpstream({ roots: {} });
+    const handler = new ServerRequestHandler('fs', { responses: { 'roots/list': { roots: [] } } }, upstream);
+
+    const response = await handler.handle(request('roots/list'));
+
+    expect(response).toEqual({ jsonrpc: '2.0', id: 7, result: { roots: [] } });
+    expect(upstream.forwarded).toEqual([]);
+  });
+
+  it('should answer unknown methods with method not found', async () => {
+    const handler = new ServerRequestHandler('fs');
+
+    const response = await handler.handle(request('sampling/createMessage'));
+
+    expect(response.error?.code).toBe(-32601);
+    expect((await handler.handle(request('ping'))).result).toEqual({});
+  });
+
+  it('should forward only capabilities the upstream client declared', async () => {
+    const upstream = createUpstream({ sampling: {} });
+    const handler = new ServerRequestHandler('llm', {}, upstream);
+
+    expect((await handler.handle(request('sampling/createMessage'))).result).toEqual({ from: 'upstream' });
+    expect((await handler.handle(request('elicitation/create'))).error?.code).toBe(-32601);
+    expect(upstream.forwarded).toEqual(['llm:sampling/createMessage']);
+    expect(handler.getClientCapabilities()).toEqual({ sampling: {} });
+
+    const disabled = new ServerRequestHandler('llm', { forward: false }, upstream);
+    expect(disabled.getClientCapabilities()).toEqual({});
+  });
+
+  it('should run the responder with the request on stdin', async () => {
+    const handler = new ServerRequestHandler('llm', {
+      responder: {
+        command: process.execPath,
+        args: ['-e', `
+          let input = '';
+          process.stdin.on('data', (d) => { input += d; });
+          process.stdin.on('end', () => {
+            const req = JSON.parse(input);
+            if (req.method === 'elicitation/create') return;
+            console.log(JSON.stringify({ result: { echoed: req.params } }));
+          });
+        `],
+      },
+    });
+
+    const answered = await handler.handle(request('sampling/createMessage', { maxTokens: 5 }));
+    expect(answered.result).toEqual({ echoed: { maxTokens: 5 } });
+
+    // Empty output declines the request
+    const declined = await handler.handle(request('elicitation/create'));
+    expect(declined.error?.code).toBe(-32601);
+  });
+
+  it('should report responder failures as internal errors', async () => {
+    const handler = new ServerRequestHandler('llm', {
+      responder: { command: process.execPath, args: ['-e', 'console.log("not json")'] },
+    });
+
+    const response = await handler.handle(request('sampling/createMessage'));
+
+    expect(response.error).toEqual({ code: -32603, message: 'Responder output is not valid JSON' });
+  });
+});
+
+describe('server requests over a connection', () => {
+  let configDir: string | null = null;
+
+  afterEach(() => {
+    closeAllDbs();
+    if (configDir) {
+      rmSync(configDir, { recursive: true, force: true });
+      configDir = null;
+    }
+  });
+
+  it('should answer a server request mid-call and record it with the right direction', async () => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+    const connector: Connector = {
+      id: 'roots',
+      enabled: true,
+      transport: { type: 'stdio', command: process.execPath, args: ['-e', ROOTS_SERVER] },
+      server_requests: { responses: { 'roots/list': { roots: [{ uri: 'file:///tmp', name: 'tmp' }] } } },
+    };
+
+    const result = await callTool({ connectorId: 'roots', configDir }, connector, 'count_roots', {}, { timeout: 10 });
+
+    expect(result.success).toBe(true);
+    expect(result.content).toEqual([{ type: 'text', text: '1' }]);
+
+    const store = new EventsStore(configDir);
+    const rpcs = store.getRpcCallsBySession(result.sessionId);
+    expect(rpcs.find((r) => r.method === 'roots/list')).toMatchObject({ rpc_id: 'srv-1', success: 1 });
+
+    const events = store.getEventsBySession(result.sessionId).filter((e) => e.rpc_id === 'srv-1');
+    expect(events.map((e) => [e.direction, e.kind])).toEqual([
+      ['server_to_client', 'request'],
+      ['client_to_server', 'response'],
+    ]);
+
+    // roots capability is declared because a canned answer exists
+    const init = store.getEventsBySession(result.sessionId).find((e) => e.kind === 'request' && e.rpc_id === '1');
+    expect(JSON.parse(init!.raw_json!).params.capabilities).toEqual({ roots: {} });
+  });
+});
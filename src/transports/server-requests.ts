@@ -0,0 +1,246 @@
+/**
+ * Server-initiated request handling
+ *
+ * MCP servers may send requests to the client (sampling/createMessage,
+ * roots/list, elicitation/create, ping). Connections only correlate
+ * responses to our own requests, so unanswered server requests leave the
+ * server waiting forever. The handler answers them from, in order:
+ *
+ * 1. canned results (connector server_requests.responses)
+ * 2. a local responder program (connector server_requests.responder)
+ * 3. the upstream MCP client, when running inside `pfscan proxy`
+ *
+ * Anything left unanswered gets "method not found" so the server can
+ * carry on.
+ */
+
+import { spawn } from 'child_process';
+import type { ServerRequestsConfig, ServerRequestResponder } from '../types/index.js';
+import type { JsonRpcMessage, JsonRpcRequest, JsonRpcResponse, MessageDirection } from './stdio.js';
+import type { McpConnection } from './connection.js';
+
+/** JSON-RPC error codes used in answers */
+const METHOD_NOT_FOUND = -32601;
+const INTERNAL_ERROR = -32603;
+
+/** Default responder timeout */
+const DEFAULT_RESPONDER_TIMEOUT_MS = 30000;
+
+/**
+ * Client capability that announces support for each server request method
+ */
+export const SERVER_REQUEST_CAPABILITIES: Readonly<Record<string, string>> = {
+  'sampling/createMessage': 'sampling',
+  'roots/list': 'roots',
+  'elicitation/create': 'elicitation',
+};
+
+/** Answer to a server request (exactly one of result / error) */
+export type ServerRequestAnswer =
+  | { result: unknown }
+  | { error: { code: number; message: string; data?: unknown } };
+
+/**
+ * Upstream MCP client that server requests can be forwarded to
+ *
+ * Implemented by the proxy server; the upstream client must have
+ * declared the matching capability in its initialize request.
+ */
+export interface UpstreamForwarder {
+  /**
+   * Client capabilities the upstream client declared
+   *
+   * @param clientId - The client whose own backend asks (isolated connectors)
+   */
+  getClientCapabilities(clientId?: string): Record<string, unknown>;
+  /**
+   * Send the request upstream and relay the answer
+   *
+   * @param clientId - Send it to this client only (isolated connectors)
+   */
+  forward(connectorId: string, method: string, params: unknown, clientId?: string): Promise<ServerRequestAnswer>;
+}
+
+/**
+ * Answers requests a server sends to us
+ */
+export class ServerRequestHandler {
+  private readonly connectorId: string;
+  private readonly config: ServerRequestsConfig;
+  private readonly upstream?: UpstreamForwarder;
+
+  constructor(connectorId: string, config: ServerRequestsConfig = {}, upstream?: UpstreamForwarder) {
+    this.connectorId = connectorId;
+    this.config = config;
+    this.upstream = this.config.forward === false ? undefined : upstream;
+  }
+
+  /**
+   * Client capabilities to declare in initialize
+   *
+   * Only capabilities we can actually serve are declared, so servers
+   * don't send requests that would be refused anyway.
+   */
+  getClientCapabilities(): Record<string, unknown> {
+    const capabilities: Record<string, unknown> = {};
+    const upstreamCapabilities = this.upstream?.getClientCapabilities() ?? {};
+
+    for (const [method, capability] of Object.entries(SERVER_REQUEST_CAPABILITIES)) {
+      if (this.config.responder || this.hasCannedResponse(method) || capability in upstreamCapabilities) {
+        capabilities[capability] = {};
+      }
+    }
+    return capabilities;
+  }
+
+  /**
+   * Produce the response for a server request (never throws)
+   */
+  async handle(request: JsonRpcRequest): Promise<JsonRpcResponse> {
+    let answer: ServerRequestAnswer;
+    try {
+      answer = await this.answer(request);
+    } catch (error) {
+      answer = {
+        error: {
+          code: INTERNAL_ERROR,
+          message: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+    return { jsonrpc: '2.0', id: request.id, ...answer };
+  }
+
+  /**
+   * Answer every incoming request on a connection
+   */
+  attach(connection: McpConnection): void {
+    connection.on('message', (msg: JsonRpcMessage, _raw: string, direction: MessageDirection) => {
+      if (direction !== 'incoming' || !('method' in msg) || !('id' in msg) || msg.id === null) {
+        return;
+      }
+
+      void this.handle(msg as JsonRpcRequest).then((response) => {
+        // The connection may have gone away while we were waiting
+        if (connection.isConnected()) {
+          connection.sendResponse(response);
+        }
+      });
+    });
+  }
+
+  private async answer(request: JsonRpcRequest): Promise<ServerRequestAnswer> {
+    const { method, params } = request;
+
+    if (this.hasCannedResponse(method)) {
+      return { result: this.config.responses![method] };
+    }
+
+    if (this.config.responder) {
+      const answer = await runResponder(this.config.responder, request);
+      if (answer) {
+        return answer;
+      }
+    }
+
+    // Either side may ping; answering locally keeps keepalives working
+    if (method === 'ping') {
+      return { result: {} };
+    }
+
+    const capability = SERVER_REQUEST_CAPABILITIES[method];
+    if (this.upstream && capability && capability in this.upstream.getClientCapabilities()) {
+      return this.upstream.forward(this.connectorId, method, params);
+    }
+
+    return { error: { code: METHOD_NOT_FOUND, message: `Method not found: ${method}` } };
+  }
+
+  private hasCannedResponse(method: string): boolean {
+    return !!this.config.responses && Object.prototype.hasOwnProperty.call(this.config.responses, method);
+  }
+}
+
+/**
+ * Run the responder program for one request
+ *
+ * The request JSON is written to stdin. The program prints {"result": ...}
+ * or {"error": {...}} on stdout; empty output declines the request so the
+ * next answer source is tried.
+ */
+export async function runResponder(
+  responder: ServerRequestResponder,
+  request: JsonRpcRequest
+): Promise<ServerRequestAnswer | null> {
+  const timeoutMs = responder.timeout_ms ?? DEFAULT_RESPONDER_TIMEOUT_MS;
+
+  const { stdout, stderr, code } = await new Promise<{ stdout: string; stderr: string; code: number | null }>(
+    (resolve, reject) => {
+      const child = spawn(responder.command, responder.args ?? [], {
+        stdio: ['pipe', 'pipe', 'pipe'],
+        shell: false,
+      });
+
+      let out = '';
+      let err = '';
+      child.stdout.setEncoding('utf8');
+      child.stderr.setEncoding('utf8');
+      child.stdout.on('data', (data: string) => { out += data; });
+      child.stderr.on('data', (data: string) => { err += data; });
+
+      const timer = setTimeout(() => {
+        child.kill();
+        reject(new Error(`Responder timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(new Error(`Responder failed to start: ${error.message}`));
+      });
+      child.on('close', (exitCode) => {
+        clearTimeout(timer);
+        resolve({ stdout: out, stderr: err, code: exitCode });
+      });
+
+      child.stdin.on('error', () => {
+        // The responder may exit without reading stdin (EPIPE)
+      });
+      child.stdin.end(JSON.stringify(request));
+    }
+  );
+
+  if (code !== 0) {
+    throw new Error(`Responder exited with code ${code}${stderr.trim() ? `: ${stderr.trim()}` : ''}`);
+  }
+
+  const text = stdout.trim();
+  if (!text) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Responder output is not valid JSON');
+  }
+
+  if (parsed && typeof parsed === 'object') {
+    const obj = parsed as Record<string, unknown>;
+    const error = obj.error as { code?: unknown; message?: unknown; data?: unknown } | undefined;
+    if (error && typeof error === 'object') {
+      return {
+        error: {
+          code: typeof error.code === 'number' ? error.code : INTERNAL_ERROR,
+          message: typeof error.message === 'string' ? error.message : 'Responder error',
+          ...(error.data !== undefined && { data: error.data }),
+        },
+      };
+    }
+    if ('result' in obj) {
+      return { result: obj.result };
+    }
+  }
+
+  throw new Error('Responder output must contain "result" or "error"');
+}
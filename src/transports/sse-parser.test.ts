@@ -0,0 +1,75 @@
+/**
+ * Tests for SSE parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SseParser, readSseStream, type SseEvent } from './sse-parser.js';
+
+describe('SseParser', () => {
+  it('should parse a single data event', () => {
+    const parser = new SseParser();
+    const events = parser.push('data: {"a":1}\n\n');
+    expect(events).toEqual([{ event: 'message', data: '{"a":1}' }]);
+  });
+
+  it('should keep event type and id', () => {
+    const parser = new SseParser();
+    const events = parser.push('event: endpoint\nid: 7\ndata: /messages?s=1\n\n');
+    expect(events).toEqual([{ event: 'endpoint', data: '/messages?s=1', id: '7' }]);
+  });
+
+  it('should join multi-line data', () => {
+    const parser = new SseParser();
+    const events = parser.push('data: line1\ndata: line2\n\n');
+    expect(events[0].data).toBe('line1\nline2');
+  });
+
+  it('should handle events split across chunks', () => {
+    const parser = new SseParser();
+    expect(parser.push('data: {"par')).toEqual([]);
+    expect(parser.push('tial":true}\n')).toEqual([]);
+    expect(parser.push('\n')).toEqual([{ event: 'message', data: '{"partial":true}' }]);
+  });
+
+  it('should ignore comments and CRLF line endings', () => {
+    const parser = new SseParser();
+    const events = parser.push(': keep-alive\r\n\r\ndata: x\r\n\r\n');
+    expect(events).toEqual([{ event: 'message', data: 'x' }]);
+  });
+
+  it('should not split an event on a CRLF divided between chunks', () => {
+    const parser = new SseParser();
+    expect(parser.push('data: a\r')).toEqual([]);
+    expect(parser.push('\ndata: b\r')).toEqual([]);
+    expect(parser.push('\n\r')).toEqual([]);
+    expect(parser.push('\n')).toEqual([{ event: 'message', data: 'a\nb' }]);
+
+    // A lone CR is still a line ending once the next chunk shows it
+    expect(parser.push('data: c\r')).toEqual([]);
+    expect(parser.push('\rdata: d')).toEqual([{ event: 'message', data: 'c' }]);
+    expect(parser.flush()).toEqual([{ event: 'message', data: 'd' }]);
+  });
+
+  it('should flush an unterminated trailing event', () => {
+    const parser = new SseParser();
+    expect(parser.push('data: tail')).toEqual([]);
+    expect(parser.flush()).toEqual([{ event: 'message', data: 'tail' }]);
+  });
+});
+
+describe('readSseStream', () => {
+  it('should read all events from a stream', async () => {
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode('data: 1\n\nda'));
+        controller.enqueue(encoder.encode('ta: 2\n\n'));
+        controller.close();
+      },
+    });
+
+    const events: SseEvent[] = [];
+    await readSseStream(stream, (e) => events.push(e));
+    expect(events.map((e) => e.data)).toEqual(['1', '2']);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Server-Sent Events parser for MCP HTTP transports
+ *
+ * Incrementally parses a text/event-stream body into discrete events.
+ * Only the fields used by MCP are kept (event, data, id, retry).
+ */
+
+/** A single parsed SSE event */
+export interface SseEvent {
+  /** Event type (defaults to "message") */
+  event: string;
+  /** Event data (multiple data lines joined with "\n") */
+  data: string;
+  /** Last event ID, if provided */
+  id?: string;
+  /** Reconnection time in milliseconds, if provided */
+  retry?: number;
+}
+
+/**
+ * Incremental SSE parser
+ *
+ * Feed decoded text chunks with push(); complete events are returned
+ * as soon as their terminating blank line has been seen.
+ */
+export class SseParser {
+  private buffer = '';
+  private eventType = '';
+  private dataLines: string[] = [];
+  private lastEventId: string | undefined;
+  private retry: number | undefined;
+
+  /**
+   * Push a chunk of text and return any events it completes
+   */
+  push(chunk: string): SseEvent[] {
+    this.buffer += chunk;
+    const events: SseEvent[] = [];
+
+    let newlineIndex: number;
+    while ((newlineIndex = this.buffer.search(/\r\n|\r|\n/)) !== -1) {
+      // A trailing "\r" may be the first half of a "\r\n" split across chunks
+      if (newlineIndex === this.buffer.length - 1 && this.buffer.endsWith('\r')) {
+        break;
+      }
+
+      const line = this.buffer.slice(0, newlineIndex);
+      const newlineLength = this.buffer.startsWith('\r\n', newlineIndex) ? 2 : 1;
+      this.buffer = this.buffer.slice(newlineIndex + newlineLength);
+
+      const event = this.processLine(line);
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Flush a trailing event that was not terminated by a blank line
+   */
+  flush(): SseEvent[] {
+    const events: SseEvent[] = [];
+    if (this.buffer) {
+      const event = this.processLine(this.buffer.replace(/\r$/, ''));
+      this.buffer = '';
+      if (event) events.push(event);
+    }
+    const last = this.dispatch();
+    if (last) events.push(last);
+    return events;
+  }
+
+  private processLine(line: string): SseEvent | null {
+    // Blank line dispatches the current event
+    if (line === '') {
+      return this.dispatch();
+    }
+
+    // Comment line (used as keep-alive)
+    if (line.startsWith(':')) {
+      return null;
+    }
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this.lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = parseInt(value, 10);
+        }
+        break;
+      default:
+        // Unknown fields are ignored per spec
+        break;
+    }
+
+    return null;
+  }
+
+  private dispatch(): SseEvent | null {
+    if (this.dataLines.length === 0) {
+      this.eventType = '';
+      return null;
+    }
+
+    const event: SseEvent = {
+      event: this.eventType || 'message',
+      data: this.dataLines.join('\n'),
+      ...(this.lastEventId !== undefined && { id: this.lastEventId }),
+      ...(this.retry !== undefined && { retry: this.retry }),
+    };
+
+    this.eventType = '';
+    this.dataLines = [];
+    return event;
+  }
+}
+
+/**
+ * Read an SSE response body to completion, invoking onEvent per event
+ *
+ * Resolves when the stream ends (or is aborted by the caller).
+ */
+export async function readSseStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: SseEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new SseParser();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      for (const event of parser.push(decoder.decode(value, { stream: true }))) {
+        onEvent(event);
+      }
+    }
+
+    for (const event of parser.flush()) {
+      onEvent(event);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Tests for legacy HTTP+SSE transport
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, type Server, type ServerResponse, type IncomingHttpHeaders } from 'http';
+import type { AddressInfo } from 'net';
+import { SseConnection } from './sse.js';
+import type { JsonRpcMessage } from './stdio.js';
+
+interface LegacyServer {
+  server: Server;
+  url: string;
+  posts: Array<{ headers: IncomingHttpHeaders; body: Record<string, unknown> }>;
+  /** Send a message event with raw data on the SSE stream */
+  push(data: string): void;
+}
+
+/**
+ * Minimal 2024-11-05 HTTP+SSE MCP server: GET /sse announces /messages,
+ * POST /messages answers on the SSE stream.
+ */
+function startLegacyServer(endpoint = '/messages?sessionId=abc'): Promise<LegacyServer> {
+  const posts: LegacyServer['posts'] = [];
+  let stream: ServerResponse | null = null;
+
+  const server = createServer((req, res) => {
+    if (req.method === 'GET' && req.url === '/sse') {
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      res.write(`event: endpoint\ndata: ${endpoint}\n\n`);
+      stream = res;
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      res.writeHead(404).end();
+      return;
+    }
+
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const msg = JSON.parse(body);
+      posts.push({ headers: req.headers, body: msg });
+      res.writeHead(202).end('Accepted');
+
+      if ('id' in msg && stream) {
+        const result = msg.method === 'initialize'
+          ? { protocolVersion: '2024-11-05', capabilities: {} }
+          : { echo: msg.method };
+        stream.write(`event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', id: msg.id, result })}\n\n`);
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      const push = (data: string) => stream?.write(`event: message\ndata: ${data}\n\n`);
+      resolve({ server, url: `http://127.0.0.1:${port}/sse`, posts, push });
+    });
+  });
+}
+
+describe('SseConnection', () => {
+  let legacy: LegacyServer | null = null;
+
+  afterEach(async () => {
+    if (legacy) {
+      legacy.server.closeAllConnections();
+      await new Promise<void>((resolve) => legacy!.server.close(() => resolve()));
+      legacy = null;
+    }
+  });
+
+  it('should connect, resolve the endpoint and correlate responses', async () => {
+    legacy = await startLegacyServer();
+    const conn = new SseConnection({
+      type: 'rpc-sse',
+      url: legacy.url,
+      headers: { 'x-api-key': 'k1' },
+    });
+    const messages: JsonRpcMessage[] = [];
+    conn.on('message', (msg: JsonRpcMessage) => messages.push(msg));
+
+    await conn.connect();
+    expect(conn.getEndpoint()).toBe(legacy.url.replace('/sse', '/messages?sessionId=abc'));
+
+    const init = await conn.sendRequest('initialize', { protocolVersion: '2024-11-05' });
+    expect(init.result).toEqual({ protocolVersion: '2024-11-05', capabilities: {} });
+
+    const list = await conn.sendRequest('tools/list', {});
+    expect(list.result).toEqual({ echo: 'tools/list' });
+
+    expect(messages).toHaveLength(4);
+    expect(legacy.posts[0].headers['x-api-key']).toBe('k1');
+
+    conn.close();
+    expect(conn.isConnected()).toBe(false);
+  });
+
+  it('should reject endpoints on a different origin', async () => {
+    legacy = await startLegacyServer('http://evil.example.com/messages');
+    const conn = new SseConnection({ type: 'rpc-sse', url: legacy.url });
+    await expect(conn.connect()).rejects.toThrow('Endpoint origin mismatch');
+  });
+
+  it('should fail when the server does not speak SSE', async () => {
+    legacy = await startLegacyServer();
+    const conn = new SseConnection({ type: 'rpc-sse', url: legacy.url.replace('/sse', '/other') });
+    await expect(conn.connect()).rejects.toThrow();
+  });
+
+  it('should emit close when the server ends the stream', async () => {
+    legacy = await startLegacyServer();
+    const conn = new SseConnection({ type: 'rpc-sse', url: legacy.url });
+    await conn.connect();
+
+    const closed = new Promise<void>((resolve) => conn.on('close', () => resolve()));
+    legacy.server.closeAllConnections();
+    await closed;
+    expect(conn.isConnected()).toBe(false);
+  });
+
+  it('should report messages that are not JSON-RPC objects without dropping the stream', async () => {
+    legacy = await startLegacyServer();
+    const conn = new SseConnection({ type: 'rpc-sse', url: legacy.url });
+    const errors: string[] = [];
+    conn.on('error', (error: Error) => errors.push(error.message));
+    await conn.connect();
+
+    legacy.push('null');
+    legacy.push('[42,{"jsonrpc":"2.0","method":"notifications/message"}]');
+    const list = await conn.sendRequest('tools/list', {});
+
+    expect(list.result).toEqual({ echo: 'tools/list' });
+    expect(errors).toEqual(['Invalid JSON-RPC message: null', 'Invalid JSON-RPC message: 42']);
+    expect(conn.isConnected()).toBe(true);
+
+    conn.close();
+  });
+});
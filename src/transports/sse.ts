@@ -0,0 +1,400 @@
+/**
+ * Legacy HTTP+SSE transport for MCP servers (protocol 2024-11-05)
+ *
+ * The client opens a long-lived GET request to the SSE URL. The server
+ * first sends an `endpoint` event announcing the URL that client messages
+ * must be POSTed to, then delivers every server message (responses,
+ * notifications, server requests) as `message` events on the same stream.
+ *
+ * Emits the same events as StdioConnection (message / error / close).
+ */
+
+import { EventEmitter } from 'events';
+import type { SseTransport } from '../types/index.js';
+import type {
+  ConnectionOptions,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  JsonRpcNotification,
+  JsonRpcMessage,
+  ProgressUpdate,
+  RequestOptions,
+} from './stdio.js';
+import {
+  CANCEL_REASON_ABORTED,
+  CANCEL_REASON_TIMEOUT,
+  parseProgressNotification,
+  withProgressToken,
+} from './progress.js';
+import { readSseStream, type SseEvent } from './sse-parser.js';
+
+/** How long to wait for the server's endpoint event */
+const ENDPOINT_TIMEOUT_MS = 10000;
+
+/** Timeout for POSTing a single message */
+const POST_TIMEOUT_MS = 30000;
+
+export class SseConnection extends EventEmitter {
+  private transport: SseTransport;
+  private requestId: number = 1;
+  private connected = false;
+  private endpoint: string | null = null;
+  private streamController: AbortController | null = null;
+  private pendingRequests: Map<string | number, {
+    resolve: (value: JsonRpcResponse) => void;
+    reject: (error: Error) => void;
+    timeout: NodeJS.Timeout;
+    onProgress?: (update: ProgressUpdate) => void;
+  }> = new Map();
+
+  constructor(transport: SseTransport, options: ConnectionOptions = {}) {
+    super();
+    this.transport = transport;
+    this.requestId = options.firstRequestId ?? 1;
+  }
+
+  async connect(): Promise<void> {
+    let baseUrl: URL;
+    try {
+      baseUrl = new URL(this.transport.url);
+    } catch {
+      throw new Error(`Invalid URL: ${this.transport.url}`);
+    }
+
+    if (baseUrl.protocol !== 'http:' && baseUrl.protocol !== 'https:') {
+      throw new Error(`Unsupported URL protocol: ${baseUrl.protocol}`);
+    }
+
+    const controller = new AbortController();
+    this.streamController = controller;
+
+    const connectTimer = setTimeout(() => controller.abort(), ENDPOINT_TIMEOUT_MS);
+
+    let response: Response;
+    try {
+      response = await fetch(baseUrl, {
+        method: 'GET',
+        headers: {
+          ...this.transport.headers,
+          accept: 'text/event-stream',
+        },
+        signal: controller.signal,
+      });
+    } catch (err) {
+      clearTimeout(connectTimer);
+      this.streamController = null;
+      if (err instanceof Error && err.name === 'AbortError') {
+        throw new Error(`Timed out connecting to ${this.transport.url}`);
+      }
+      throw err;
+    }
+
+    if (!response.ok || !response.body) {
+      clearTimeout(connectTimer);
+      controller.abort();
+      this.streamController = null;
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!contentType.includes('text/event-stream')) {
+      clearTimeout(connectTimer);
+      controller.abort();
+      this.streamController = null;
+      throw new Error(`Expected SSE, got ${contentType || 'no content-type'}`);
+    }
+
+    // Wait for the endpoint event while the stream keeps running in the background
+    await new Promise<void>((resolve, reject) => {
+      let settled = false;
+
+      const onEvent = (event: SseEvent) => {
+        if (event.event === 'endpoint') {
+          if (settled) return;
+          settled = true;
+          clearTimeout(connectTimer);
+          try {
+            this.endpoint = this.resolveEndpoint(baseUrl, event.data);
+            this.connected = true;
+            resolve();
+          } catch (err) {
+            controller.abort();
+            reject(err);
+          }
+          return;
+        }
+
+        if (event.event === 'message' && event.data) {
+          this.handlePayload(event.data);
+        }
+      };
+
+      readSseStream(response.body!, onEvent)
+        .then(() => this.handleStreamEnd(null))
+        .catch((err: Error) => this.handleStreamEnd(err))
+        .finally(() => {
+          if (!settled) {
+            settled = true;
+            clearTimeout(connectTimer);
+            reject(new Error('SSE stream closed before endpoint event'));
+          }
+        });
+    });
+  }
+
+  /**
+   * POST endpoint announced by the server (null until connected)
+   */
+  getEndpoint(): string | null {
+    return this.endpoint;
+  }
+
+  async sendRequest(
+    method: string,
+    params?: unknown,
+    timeoutMs: number = 30000,
+    options: RequestOptions = {}
+  ): Promise<JsonRpcResponse> {
+    if (!this.connected) {
+      throw new Error('Connection not open');
+    }
+    if (options.signal?.aborted) {
+      throw new Error(`Request cancelled: ${method}`);
+    }
+
+    const id = this.requestId++;
+    if (options.onProgress) {
+      params = withProgressToken(params, id);
+    }
+    const request: JsonRpcRequest = {
+      jsonrpc: '2.0',
+      id,
+      method,
+      ...(params !== undefined && { params }),
+    };
+
+    const raw = JSON.stringify(request);
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.abandonRequest(id, new Error(`Request cancelled: ${method}`), CANCEL_REASON_ABORTED);
+      };
+      // The signal may outlive the request (e.g. a client session's), so drop the listener once settled
+      const settled = () => options.signal?.removeEventListener('abort', onAbort);
+      const timeout = setTimeout(() => {
+        this.abandonRequest(id, new Error(`Request timeout for method: ${method}`), CANCEL_REASON_TIMEOUT);
+      }, timeoutMs);
+
+      this.pendingRequests.set(id, {
+        resolve: (response) => {
+          settled();
+          resolve(response);
+        },
+        reject: (error) => {
+          settled();
+          reject(error);
+        },
+        timeout,
+        onProgress: options.onProgress,
+      });
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      // Emit event for the sent request
+      this.emit('message', request, raw, 'outgoing');
+
+      this.post(raw).catch((err: Error) => {
+        const pending = this.pendingRequests.get(id);
+        if (pending) {
+          clearTimeout(pending.timeout);
+          this.pendingRequests.delete(id);
+          pending.reject(err);
+        }
+      });
+    });
+  }
+
+  sendNotification(method: string, params?: unknown): void {
+    if (!this.connected) {
+      throw new Error('Connection not open');
+    }
+
+    const notification: JsonRpcNotification = {
+      jsonrpc: '2.0',
+      method,
+      ...(params !== undefined && { params }),
+    };
+
+    const raw = JSON.stringify(notification);
+    this.emit('message', notification, raw, 'outgoing');
+
+    this.post(raw).catch((err: Error) => {
+      this.emitError(err);
+    });
+  }
+
+  /**
+   * Answer a request the server sent to us (POSTed to the endpoint)
+   */
+  sendResponse(response: JsonRpcResponse): void {
+    if (!this.connected) {
+      throw new Error('Connection not open');
+    }
+
+    const raw = JSON.stringify(response);
+    this.emit('message', response, raw, 'outgoing');
+
+    this.post(raw).catch((err: Error) => {
+      this.emitError(err);
+    });
+  }
+
+  /**
+   * Give up on a pending request and tell the server (notifications/cancelled)
+   */
+  private abandonRequest(id: string | number, error: Error, reason: string): void {
+    const pending = this.pendingRequests.get(id);
+    if (!pending) {
+      return;
+    }
+    clearTimeout(pending.timeout);
+    this.pendingRequests.delete(id);
+    if (this.connected) {
+      this.sendNotification('notifications/cancelled', { requestId: id, reason });
+    }
+    pending.reject(error);
+  }
+
+  close(): void {
+    if (this.streamController) {
+      this.streamController.abort();
+      this.streamController = null;
+    }
+    if (!this.connected) {
+      return;
+    }
+    this.connected = false;
+    this.rejectPending(new Error('Connection closed'));
+    this.emit('close', null, null);
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Resolve the endpoint event data against the SSE URL
+   *
+   * The endpoint must share the SSE URL's origin so configured headers
+   * (which may carry credentials) are never sent to another host.
+   */
+  private resolveEndpoint(baseUrl: URL, data: string): string {
+    const endpoint = new URL(data.trim(), baseUrl);
+    if (endpoint.origin !== baseUrl.origin) {
+      throw new Error(`Endpoint origin mismatch: ${endpoint.origin} (expected ${baseUrl.origin})`);
+    }
+    return endpoint.toString();
+  }
+
+  /**
+   * POST a message to the announced endpoint (responses arrive on the stream)
+   */
+  private async post(body: string): Promise<void> {
+    const response = await fetch(this.endpoint!, {
+      method: 'POST',
+      headers: {
+        ...this.transport.headers,
+        'content-type': 'application/json',
+      },
+      body,
+      signal: AbortSignal.timeout(POST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`HTTP ${response.status}: ${text || response.statusText}`);
+    }
+
+    // Body is normally "Accepted" - drain it so the socket can be reused
+    await response.text().catch(() => '');
+  }
+
+  /**
+   * Handle the SSE stream ending (server closed it or we aborted it)
+   */
+  private handleStreamEnd(err: Error | null): void {
+    if (!this.connected) {
+      return;
+    }
+    this.connected = false;
+    this.streamController = null;
+
+    if (err && err.name !== 'AbortError') {
+      this.emitError(err);
+    }
+    this.rejectPending(new Error('SSE stream closed'));
+    this.emit('close', null, null);
+  }
+
+  private rejectPending(error: Error): void {
+    for (const [, pending] of this.pendingRequests) {
+      clearTimeout(pending.timeout);
+      pending.reject(error);
+    }
+    this.pendingRequests.clear();
+  }
+
+  /**
+   * Parse a JSON (or JSON batch) payload and dispatch each message
+   */
+  private handlePayload(payload: string): void {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(payload);
+    } catch {
+      this.emitError(new Error(`Failed to parse JSON-RPC message: ${payload}`));
+      return;
+    }
+
+    const messages = Array.isArray(parsed) ? parsed : [parsed];
+    for (const msg of messages) {
+      const raw = Array.isArray(parsed) ? JSON.stringify(msg) : payload;
+      if (typeof msg !== 'object' || msg === null || Array.isArray(msg)) {
+        this.emitError(new Error(`Invalid JSON-RPC message: ${raw}`));
+        continue;
+      }
+      this.processMessage(msg as JsonRpcMessage, raw);
+    }
+  }
+
+  /**
+   * Emit an error event only when someone is listening
+   *
+   * Background POST/stream failures must not crash callers that only
+   * care about request results (an unhandled 'error' event throws).
+   */
+  private emitError(error: Error): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+  }
+
+  private processMessage(msg: JsonRpcMessage, raw: string): void {
+    this.emit('message', msg, raw, 'incoming');
+
+    // Route progress updates to the request that asked for them
+    const progress = parseProgressNotification(msg);
+    if (progress) {
+      this.pendingRequests.get(progress.token)?.onProgress?.(progress.update);
+    }
+
+    // Handle responses to pending requests
+    if ('id' in msg && msg.id !== null && !('method' in msg)) {
+      const pending = this.pendingRequests.get(msg.id);
+      if (pending) {
+        clearTimeout(pending.timeout);
+        this.pendingRequests.delete(msg.id);
+        pending.resolve(msg as JsonRpcResponse);
+      }
+    }
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Tests for server stderr capture
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { StderrCapture, parseServerOutput, describeServerOutput } from './stderr.js';
+import { callTool } from '../tools/adapter.js';
+import { EventsStore } from '../db/events-store.js';
+import { closeAllDbs } from '../db/connection.js';
+import type { ServerOutputRecord } from '../db/types.js';
+import type { Connector } from '../types/config.js';
+
+function createCapture(limits = {}) {
+  const records: ServerOutputRecord[] = [];
+  let now = 0;
+  const capture = new StderrCapture((r) => records.push(r), limits, () => now);
+  return {
+    records,
+    capture,
+    advance: (ms: number) => { now += ms; },
+  };
+}
+
+describe('StderrCapture', () => {
+  it('should split chunks into lines and skip blank ones', () => {
+    const { records, capture } = createCapture();
+
+    capture.push('starting\r\nlisten');
+    capture.push('ing on stdio\n\n');
+    capture.push('partial');
+    capture.flush();
+
+    expect(records).toEqual([
+      { type: 'stderr', line: 'starting' },
+      { type: 'stderr', line: 'listening on stdio' },
+      { type: 'stderr', line: 'partial' },
+    ]);
+  });
+
+  it('should truncate long lines', () => {
+    const { records, capture } = createCapture({ maxLineLength: 5 });
+
+    capture.push('0123456789\n');
+
+    expect(records).toEqual([{ type: 'stderr', line: '01234', truncated: true }]);
+  });
+
+  it('should drop lines over the rate limit and report the count', () => {
+    const { records, capture, advance } = createCapture({ maxLinesPerSecond: 2 });
+
+    capture.push('a\nb\nc\nd\n');
+    advance(1000);
+    capture.push('e\n');
+
+    expect(records).toEqual([
+      { type: 'stderr', line: 'a' },
+      { type: 'stderr', line: 'b' },
+      { type: 'stderr_dropped', count: 2 },
+      { type: 'stderr', line: 'e' },
+    ]);
+  });
+
+  it('should stop after the line limit', () => {
+    const { records, capture } = createCapture({ maxLines: 2 });
+
+    capture.push('a\nb\nc\nd\n');
+
+    expect(records).toEqual([
+      { type: 'stderr', line: 'a' },
+      { type: 'stderr', line: 'b' },
+      { type: 'stderr_limit', max_lines: 2 },
+    ]);
+  });
+});
+
+describe('parseServerOutput', () => {
+  it('should read current and legacy stderr payloads', () => {
+    expect(parseServerOutput('{"type":"stderr","line":"boom"}')).toEqual({ type: 'stderr', line: 'boom' });
+    expect(parseServerOutput('{"type":"stderr","data":"old chunk"}')).toEqual({ type: 'stderr', line: 'old chunk' });
+    expect(parseServerOutput('{"type":"connected"}')).toBeNull();
+    expect(parseServerOutput('not json')).toBeNull();
+  });
+
+  it('should describe exit status', () => {
+    expect(describeServerOutput({ type: 'exit', code: 3, signal: null })).toBe('process exited (code 3)');
+    expect(describeServerOutput({ type: 'exit', code: null, signal: 'SIGKILL' })).toBe('process exited (signal SIGKILL)');
+  });
+});
+
+describe('stderr capture over a connection', () => {
+  let configDir: string | null = null;
+
+  afterEach(() => {
+    closeAllDbs();
+    if (configDir) {
+      rmSync(configDir, { recursive: true, force: true });
+      configDir = null;
+    }
+  });
+
+  it('should record why a server failed at startup', async () => {
+    configDir = join(tmpdir(), `proofscan-test-${randomUUID()}`);
+    const connector: Connector = {
+      id: 'broken',
+      enabled: true,
+      transport: {
+        type: 'stdio',
+        command: process.execPath,
+        args: ['-e', 'console.error("Error: API_KEY is not set"); process.exit(3);'],
+      },
+    };
+
+    const started = Date.now();
+    const result = await callTool({ connectorId: 'broken', configDir }, connector, 'anything', {}, { timeout: 10 });
+
+    // Fails as soon as the process is gone rather than at the timeout
+    expect(result.success).toBe(false);
+    expect(Date.now() - started).toBeLessThan(5000);
+
+    const store = new EventsStore(configDir);
+    const output = store.getServerOutputEvents(result.sessionId).map((e) => JSON.parse(e.raw_json!));
+    expect(output).toEqual([
+      { type: 'stderr', line: 'Error: API_KEY is not set' },
+      { type: 'exit', code: 3, signal: null },
+    ]);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Server stderr capture
+ *
+ * stdio servers log to stderr, and a server that fails at startup usually
+ * says why there. StderrCapture splits the stream into lines and keeps a
+ * chatty server from flooding events.db:
+ *
+ * - lines longer than maxLineLength are truncated
+ * - lines beyond maxLinesPerSecond are dropped and reported as a count
+ * - capture stops after maxLines lines per connection
+ */
+
+import type { ServerOutputRecord } from '../db/types.js';
+
+/** Default limits */
+export const STDERR_MAX_LINE_LENGTH = 2000;
+export const STDERR_MAX_LINES_PER_SECOND = 20;
+export const STDERR_MAX_LINES = 500;
+
+/** Rate limit window */
+const WINDOW_MS = 1000;
+
+export interface StderrLimits {
+  maxLineLength?: number;
+  maxLinesPerSecond?: number;
+  maxLines?: number;
+}
+
+/**
+ * Turns stderr chunks into rate-limited, size-capped records
+ */
+export class StderrCapture {
+  private readonly onRecord: (record: ServerOutputRecord) => void;
+  private readonly maxLineLength: number;
+  private readonly maxLinesPerSecond: number;
+  private readonly maxLines: number;
+  private readonly now: () => number;
+
+  private partial = '';
+  private windowStart = 0;
+  private windowLines = 0;
+  private dropped = 0;
+  private total = 0;
+  private stopped = false;
+
+  constructor(
+    onRecord: (record: ServerOutputRecord) => void,
+    limits: StderrLimits = {},
+    now: () => number = Date.now
+  ) {
+    this.onRecord = onRecord;
+    this.maxLineLength = limits.maxLineLength ?? STDERR_MAX_LINE_LENGTH;
+    this.maxLinesPerSecond = limits.maxLinesPerSecond ?? STDERR_MAX_LINES_PER_SECOND;
+    this.maxLines = limits.maxLines ?? STDERR_MAX_LINES;
+    this.now = now;
+  }
+
+  /**
+   * Add a chunk of stderr output
+   */
+  push(chunk: string): void {
+    this.partial += chunk;
+
+    let newline: number;
+    while ((newline = this.partial.indexOf('\n')) !== -1) {
+      const line = this.partial.slice(0, newline).replace(/\r$/, '');
+      this.partial = this.partial.slice(newline + 1);
+      this.addLine(line);
+    }
+
+    // A line that never ends is emitted (truncated) rather than buffered forever
+    if (this.partial.length > this.maxLineLength) {
+      const line = this.partial;
+      this.partial = '';
+      this.addLine(line);
+    }
+  }
+
+  /**
+   * Emit any unterminated line and the pending drop count (on process exit)
+   */
+  flush(): void {
+    if (this.partial) {
+      const line = this.partial;
+      this.partial = '';
+      this.addLine(line);
+    }
+    this.reportDropped();
+  }
+
+  private addLine(line: string): void {
+    if (this.stopped || line.trim() === '') {
+      return;
+    }
+
+    const now = this.now();
+    if (now - this.windowStart >= WINDOW_MS) {
+      this.reportDropped();
+      this.windowStart = now;
+      this.windowLines = 0;
+    }
+
+    if (this.windowLines >= this.maxLinesPerSecond) {
+      this.dropped++;
+      return;
+    }
+
+    if (this.total >= this.maxLines) {
+      this.reportDropped();
+      this.stopped = true;
+      this.onRecord({ type: 'stderr_limit', max_lines: this.maxLines });
+      return;
+    }
+
+    this.windowLines++;
+    this.total++;
+    if (line.length > this.maxLineLength) {
+      this.onRecord({ type: 'stderr', line: line.slice(0, this.maxLineLength), truncated: true });
+    } else {
+      this.onRecord({ type: 'stderr', line });
+    }
+  }
+
+  private reportDropped(): void {
+    if (this.dropped > 0) {
+      this.onRecord({ type: 'stderr_dropped', count: this.dropped });
+      this.dropped = 0;
+    }
+  }
+}
+
+/**
+ * Parse a transport_event payload as server output, if it is one
+ */
+export function parseServerOutput(rawJson: string | null | undefined): ServerOutputRecord | null {
+  if (!rawJson) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(rawJson) as { type?: unknown; line?: unknown; data?: unknown };
+    switch (parsed.type) {
+      case 'stderr':
+        // Older sessions stored whole chunks as { type, data }
+        if (typeof parsed.line !== 'string') {
+          return typeof parsed.data === 'string' ? { type: 'stderr', line: parsed.data } : null;
+        }
+        return parsed as ServerOutputRecord;
+      case 'stderr_dropped':
+      case 'stderr_limit':
+      case 'exit':
+        return parsed as ServerOutputRecord;
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * One-line description of a server output record
+ */
+export function describeServerOutput(record: ServerOutputRecord): string {
+  switch (record.type) {
+    case 'stderr':
+      return record.truncated ? `${record.line}…` : record.line;
+    case 'stderr_dropped':
+      return `(${record.count} line(s) dropped by rate limit)`;
+    case 'stderr_limit':
+      return `(capture stopped after ${record.max_lines} lines)`;
+    case 'exit':
+      return record.signal
+        ? `process exited (signal ${record.signal})`
+        : `process exited (code ${record.code})`;
+  }
+}
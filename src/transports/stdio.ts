@@ -7,6 +7,12 @@ import { spawn, ChildProcess } from 'child_process';
 import { EventEmitter } from 'events';
 import type { StdioTransport } from '../types/index.js';
 import { resolveRunnerCommand } from '../runners/index.js';
+import {
+  CANCEL_REASON_ABORTED,
+  CANCEL_REASON_TIMEOUT,
+  parseProgressNotification,
+  withProgressToken,
+} from './progress.js';
 
 export interface JsonRpcRequest {
   jsonrpc: '2.0';
@@ -34,11 +40,48 @@ export interface JsonRpcNotification {
 
 export type JsonRpcMessage = JsonRpcRequest | JsonRpcResponse | JsonRpcNotification;
 
+/**
+ * Which way a message travelled, from proofscan's (the client's) point of view
+ *
+ * Passed as the third argument of 'message' events. Message shape alone is
+ * not enough: servers may send requests (sampling/createMessage, roots/list)
+ * and we send responses to them.
+ */
+export type MessageDirection = 'outgoing' | 'incoming';
+
+/** Options shared by all connection classes */
+export interface ConnectionOptions {
+  /**
+   * First JSON-RPC request id to use (default: 1)
+   *
+   * Lets a reconnect continue the id sequence of an earlier connection
+   * so ids stay unique within one recorded session.
+   */
+  firstRequestId?: number;
+}
+
+/** Progress reported by the server for a request (notifications/progress) */
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/** Per-request options shared by all connection classes */
+export interface RequestOptions {
+  /** Aborting sends notifications/cancelled and rejects the request */
+  signal?: AbortSignal;
+  /** Ask for progress (adds params._meta.progressToken) and receive the updates */
+  onProgress?: (update: ProgressUpdate) => void;
+}
+
 export interface StdioConnectionEvents {
-  message: (msg: JsonRpcMessage, raw: string) => void;
+  message: (msg: JsonRpcMessage, raw: string, direction: MessageDirection) => void;
   error: (error: Error) => void;
   close: (code: number | null, signal: string | null) => void;
   stderr: (data: string) => void;
+  /** The server process exited on its own (not through close()) */
+  exit: (code: number | null, signal: string | null) => void;
 }
 
 export class StdioConnection extends EventEmitter {
@@ -46,15 +89,21 @@ export class StdioConnection extends EventEmitter {
   private buffer: string = '';
   private transport: StdioTransport;
   private requestId: number = 1;
+  /** close() was called; the process exit that follows is expected */
+  private closing = false;
+  /** How the process ended, once it has */
+  private exitStatus: { code: number | null; signal: string | null } | null = null;
   private pendingRequests: Map<string | number, {
     resolve: (value: JsonRpcResponse) => void;
     reject: (error: Error) => void;
     timeout: NodeJS.Timeout;
+    onProgress?: (update: ProgressUpdate) => void;
   }> = new Map();
 
-  constructor(transport: StdioTransport) {
+  constructor(transport: StdioTransport, options: ConnectionOptions = {}) {
     super();
     this.transport = transport;
+    this.requestId = options.firstRequestId ?? 1;
   }
 
   async connect(): Promise<void> {
@@ -86,12 +135,17 @@ export class StdioConnection extends EventEmitter {
     });
 
     this.process.on('close', (code, signal) => {
+      this.exitStatus = { code, signal };
+
       // Reject all pending requests
       for (const [, pending] of this.pendingRequests) {
         clearTimeout(pending.timeout);
         pending.reject(new Error(`Process exited with code ${code}`));
       }
       this.pendingRequests.clear();
+      if (!this.closing) {
+        this.emit('exit', code, signal);
+      }
       this.emit('close', code, signal);
     });
 
@@ -130,7 +184,13 @@ export class StdioConnection extends EventEmitter {
   private processLine(line: string): void {
     try {
       const msg = JSON.parse(line) as JsonRpcMessage;
-      this.emit('message', msg, line);
+      this.emit('message', msg, line, 'incoming');
+
+      // Route progress updates to the request that asked for them
+      const progress = parseProgressNotification(msg);
+      if (progress) {
+        this.pendingRequests.get(progress.token)?.onProgress?.(progress.update);
+      }
 
       // Handle responses to pending requests
       if ('id' in msg && msg.id !== null && !('method' in msg)) {
@@ -146,12 +206,27 @@ export class StdioConnection extends EventEmitter {
     }
   }
 
-  async sendRequest(method: string, params?: unknown, timeoutMs: number = 30000): Promise<JsonRpcResponse> {
+  async sendRequest(
+    method: string,
+    params?: unknown,
+    timeoutMs: number = 30000,
+    options: RequestOptions = {}
+  ): Promise<JsonRpcResponse> {
     if (!this.process || this.process.killed) {
       throw new Error('Connection not open');
     }
+    // Fail fast instead of timing out when the server already exited
+    if (this.exitStatus) {
+      throw new Error(`Process exited with code ${this.exitStatus.code}`);
+    }
+    if (options.signal?.aborted) {
+      throw new Error(`Request cancelled: ${method}`);
+    }
 
     const id = this.requestId++;
+    if (options.onProgress) {
+      params = withProgressToken(params, id);
+    }
     const request: JsonRpcRequest = {
       jsonrpc: '2.0',
       id,
@@ -162,23 +237,40 @@ export class StdioConnection extends EventEmitter {
     const raw = JSON.stringify(request) + '\n';
 
     return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.abandonRequest(id, new Error(`Request cancelled: ${method}`), CANCEL_REASON_ABORTED);
+      };
+      // The signal may outlive the request (e.g. a client session's), so drop the listener once settled
+      const settled = () => options.signal?.removeEventListener('abort', onAbort);
       const timeout = setTimeout(() => {
-        this.pendingRequests.delete(id);
-        reject(new Error(`Request timeout for method: ${method}`));
+        this.abandonRequest(id, new Error(`Request timeout for method: ${method}`), CANCEL_REASON_TIMEOUT);
       }, timeoutMs);
 
-      this.pendingRequests.set(id, { resolve, reject, timeout });
+      this.pendingRequests.set(id, {
+        resolve: (response) => {
+          settled();
+          resolve(response);
+        },
+        reject: (error) => {
+          settled();
+          reject(error);
+        },
+        timeout,
+        onProgress: options.onProgress,
+      });
+      options.signal?.addEventListener('abort', onAbort, { once: true });
 
       this.process!.stdin?.write(raw, (err) => {
         if (err) {
           clearTimeout(timeout);
           this.pendingRequests.delete(id);
+          settled();
           reject(err);
         }
       });
 
       // Emit event for the sent request
-      this.emit('message', request, raw.trim());
+      this.emit('message', request, raw.trim(), 'outgoing');
     });
   }
 
@@ -195,16 +287,47 @@ export class StdioConnection extends EventEmitter {
 
     const raw = JSON.stringify(notification) + '\n';
     this.process.stdin?.write(raw);
-    this.emit('message', notification, raw.trim());
+    this.emit('message', notification, raw.trim(), 'outgoing');
+  }
+
+  /**
+   * Answer a request the server sent to us
+   */
+  sendResponse(response: JsonRpcResponse): void {
+    if (!this.process || this.process.killed) {
+      throw new Error('Connection not open');
+    }
+
+    const raw = JSON.stringify(response) + '\n';
+    this.process.stdin?.write(raw);
+    this.emit('message', response, raw.trim(), 'outgoing');
+  }
+
+  /**
+   * Give up on a pending request and tell the server (notifications/cancelled)
+   */
+  private abandonRequest(id: string | number, error: Error, reason: string): void {
+    const pending = this.pendingRequests.get(id);
+    if (!pending) {
+      return;
+    }
+    clearTimeout(pending.timeout);
+    this.pendingRequests.delete(id);
+    if (this.isConnected()) {
+      this.sendNotification('notifications/cancelled', { requestId: id, reason });
+    }
+    pending.reject(error);
   }
 
   close(): void {
-    if (this.process && !this.process.killed) {
+    // A process that already exited on its own still reports its exit
+    if (this.process && !this.process.killed && this.process.exitCode === null && this.process.signalCode === null) {
+      this.closing = true;
       this.process.kill();
     }
   }
 
   isConnected(): boolean {
-    return this.process !== null && !this.process.killed;
+    return this.process !== null && !this.process.killed && this.exitStatus === null;
   }
 }
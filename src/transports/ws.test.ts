@@ -0,0 +1,141 @@
+/**
+ * Tests for WebSocket transport
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { IncomingHttpHeaders } from 'http';
+import type { AddressInfo } from 'net';
+import { WsConnection } from './ws.js';
+import type { JsonRpcMessage } from './stdio.js';
+
+interface WsServer {
+  wss: WebSocketServer;
+  url: string;
+  upgradeHeaders: IncomingHttpHeaders[];
+  sockets: WebSocket[];
+}
+
+/**
+ * Minimal JSON-RPC over WebSocket server: answers every request with
+ * { echo: method } and sends a notification before the initialize response.
+ */
+function startWsServer(): Promise<WsServer> {
+  const upgradeHeaders: IncomingHttpHeaders[] = [];
+  const sockets: WebSocket[] = [];
+  const wss = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+
+  wss.on('connection', (socket, req) => {
+    upgradeHeaders.push(req.headers);
+    sockets.push(socket);
+    socket.on('message', (data) => {
+      const msg = JSON.parse(data.toString());
+      if (!('id' in msg)) return;
+
+      if (msg.method === 'initialize') {
+        socket.send(JSON.stringify({ jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info' } }));
+      }
+      socket.send(JSON.stringify({ jsonrpc: '2.0', id: msg.id, result: { echo: msg.method } }));
+    });
+  });
+
+  return new Promise((resolve) => {
+    wss.on('listening', () => {
+      const { port } = wss.address() as AddressInfo;
+      resolve({ wss, url: `ws://127.0.0.1:${port}/mcp`, upgradeHeaders, sockets });
+    });
+  });
+}
+
+describe('WsConnection', () => {
+  let server: WsServer | null = null;
+
+  afterEach(async () => {
+    if (server) {
+      for (const socket of server.sockets) socket.terminate();
+      await new Promise<void>((resolve) => server!.wss.close(() => resolve()));
+      server = null;
+    }
+  });
+
+  it('should reject non-WebSocket URLs on connect', async () => {
+    const conn = new WsConnection({ type: 'ws', url: 'http://127.0.0.1/mcp' });
+    await expect(conn.connect()).rejects.toThrow('Unsupported URL protocol');
+  });
+
+  it('should send headers, correlate responses and emit all messages', async () => {
+    server = await startWsServer();
+    const conn = new WsConnection({
+      type: 'ws',
+      url: server.url,
+      headers: { authorization: 'Bearer t' },
+    });
+    const methods: string[] = [];
+    conn.on('message', (msg: JsonRpcMessage) => {
+      methods.push('method' in msg ? msg.method : 'response');
+    });
+
+    await conn.connect();
+    expect(conn.isConnected()).toBe(true);
+
+    const init = await conn.sendRequest('initialize', { protocolVersion: '2024-11-05' });
+    expect(init.result).toEqual({ echo: 'initialize' });
+
+    conn.sendNotification('notifications/initialized', {});
+    const list = await conn.sendRequest('tools/list', {});
+    expect(list.result).toEqual({ echo: 'tools/list' });
+
+    expect(methods).toEqual([
+      'initialize',
+      'notifications/message',
+      'response',
+      'notifications/initialized',
+      'tools/list',
+      'response',
+    ]);
+    expect(server.upgradeHeaders[0]['authorization']).toBe('Bearer t');
+
+    conn.close();
+  });
+
+  it('should reject pending requests and emit close when the server disconnects', async () => {
+    server = await startWsServer();
+    server.wss.removeAllListeners('connection');
+    server.wss.on('connection', (socket) => server!.sockets.push(socket));
+
+    const conn = new WsConnection({ type: 'ws', url: server.url });
+    await conn.connect();
+
+    const closed = new Promise<number>((resolve) => conn.on('close', (code: number) => resolve(code)));
+    const pending = conn.sendRequest('tools/list', {}, 5000);
+    await new Promise((r) => setTimeout(r, 50));
+    server.sockets[0].close(1011, 'boom');
+
+    await expect(pending).rejects.toThrow('WebSocket closed with code 1011');
+    expect(await closed).toBe(1011);
+    expect(conn.isConnected()).toBe(false);
+  });
+
+  it('should report frames that are not JSON-RPC objects and keep going', async () => {
+    server = await startWsServer();
+    const conn = new WsConnection({ type: 'ws', url: server.url });
+    const errors: string[] = [];
+    conn.on('error', (error: Error) => errors.push(error.message));
+    await conn.connect();
+
+    for (const frame of ['null', '42', '"x"', '[null,{"jsonrpc":"2.0","method":"notifications/message"}]']) {
+      server.sockets[0].send(frame);
+    }
+    const list = await conn.sendRequest('tools/list', {});
+
+    expect(list.result).toEqual({ echo: 'tools/list' });
+    expect(errors).toEqual([
+      'Invalid JSON-RPC message: null',
+      'Invalid JSON-RPC message: 42',
+      'Invalid JSON-RPC message: "x"',
+      'Invalid JSON-RPC message: null',
+    ]);
+
+    conn.close();
+  });
+});
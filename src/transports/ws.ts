@@ -0,0 +1,277 @@
+/**
+ * WebSocket transport for MCP / JSON-RPC servers
+ *
+ * Each WebSocket text frame carries one JSON-RPC message (or batch).
+ * Configured headers are sent with the upgrade request.
+ *
+ * Emits the same events as StdioConnection (message / error / close).
+ */
+
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import type { WsTransport } from '../types/index.js';
+import type {
+  ConnectionOptions,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  JsonRpcNotification,
+  JsonRpcMessage,
+  ProgressUpdate,
+  RequestOptions,
+} from './stdio.js';
+import {
+  CANCEL_REASON_ABORTED,
+  CANCEL_REASON_TIMEOUT,
+  parseProgressNotification,
+  withProgressToken,
+} from './progress.js';
+
+/** How long to wait for the WebSocket handshake */
+const HANDSHAKE_TIMEOUT_MS = 10000;
+
+export class WsConnection extends EventEmitter {
+  private socket: WebSocket | null = null;
+  private transport: WsTransport;
+  private requestId: number = 1;
+  private pendingRequests: Map<string | number, {
+    resolve: (value: JsonRpcResponse) => void;
+    reject: (error: Error) => void;
+    timeout: NodeJS.Timeout;
+    onProgress?: (update: ProgressUpdate) => void;
+  }> = new Map();
+
+  constructor(transport: WsTransport, options: ConnectionOptions = {}) {
+    super();
+    this.transport = transport;
+    this.requestId = options.firstRequestId ?? 1;
+  }
+
+  async connect(): Promise<void> {
+    let url: URL;
+    try {
+      url = new URL(this.transport.url);
+    } catch {
+      throw new Error(`Invalid URL: ${this.transport.url}`);
+    }
+
+    if (url.protocol !== 'ws:' && url.protocol !== 'wss:') {
+      throw new Error(`Unsupported URL protocol: ${url.protocol}`);
+    }
+
+    const socket = new WebSocket(url, {
+      headers: this.transport.headers,
+      handshakeTimeout: HANDSHAKE_TIMEOUT_MS,
+    });
+    this.socket = socket;
+
+    await new Promise<void>((resolve, reject) => {
+      const onOpen = () => {
+        socket.off('error', onError);
+        resolve();
+      };
+      const onError = (err: Error) => {
+        socket.off('open', onOpen);
+        this.socket = null;
+        reject(err);
+      };
+      socket.once('open', onOpen);
+      socket.once('error', onError);
+    });
+
+    socket.on('message', (data, isBinary) => {
+      if (isBinary) {
+        this.emitError(new Error('Unexpected binary WebSocket frame'));
+        return;
+      }
+      this.handlePayload(data.toString());
+    });
+
+    socket.on('error', (error: Error) => {
+      this.emitError(error);
+    });
+
+    socket.on('close', (code: number, reason: Buffer) => {
+      // Reject all pending requests
+      for (const [, pending] of this.pendingRequests) {
+        clearTimeout(pending.timeout);
+        pending.reject(new Error(`WebSocket closed with code ${code}`));
+      }
+      this.pendingRequests.clear();
+      this.socket = null;
+      this.emit('close', code, reason.toString() || null);
+    });
+  }
+
+  private handlePayload(payload: string): void {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(payload);
+    } catch {
+      this.emitError(new Error(`Failed to parse JSON-RPC message: ${payload}`));
+      return;
+    }
+
+    const messages = Array.isArray(parsed) ? parsed : [parsed];
+    for (const msg of messages) {
+      const raw = Array.isArray(parsed) ? JSON.stringify(msg) : payload;
+      if (typeof msg !== 'object' || msg === null || Array.isArray(msg)) {
+        this.emitError(new Error(`Invalid JSON-RPC message: ${raw}`));
+        continue;
+      }
+      this.processMessage(msg as JsonRpcMessage, raw);
+    }
+  }
+
+  /**
+   * Emit an error event only when someone is listening
+   *
+   * Socket errors are followed by a close event, which already rejects
+   * pending requests (an unhandled 'error' event would throw).
+   */
+  private emitError(error: Error): void {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+  }
+
+  private processMessage(msg: JsonRpcMessage, raw: string): void {
+    this.emit('message', msg, raw, 'incoming');
+
+    // Route progress updates to the request that asked for them
+    const progress = parseProgressNotification(msg);
+    if (progress) {
+      this.pendingRequests.get(progress.token)?.onProgress?.(progress.update);
+    }
+
+    // Handle responses to pending requests
+    if ('id' in msg && msg.id !== null && !('method' in msg)) {
+      const pending = this.pendingRequests.get(msg.id);
+      if (pending) {
+        clearTimeout(pending.timeout);
+        this.pendingRequests.delete(msg.id);
+        pending.resolve(msg as JsonRpcResponse);
+      }
+    }
+  }
+
+  async sendRequest(
+    method: string,
+    params?: unknown,
+    timeoutMs: number = 30000,
+    options: RequestOptions = {}
+  ): Promise<JsonRpcResponse> {
+    if (!this.isConnected()) {
+      throw new Error('Connection not open');
+    }
+    if (options.signal?.aborted) {
+      throw new Error(`Request cancelled: ${method}`);
+    }
+
+    const id = this.requestId++;
+    if (options.onProgress) {
+      params = withProgressToken(params, id);
+    }
+    const request: JsonRpcRequest = {
+      jsonrpc: '2.0',
+      id,
+      method,
+      ...(params !== undefined && { params }),
+    };
+
+    const raw = JSON.stringify(request);
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.abandonRequest(id, new Error(`Request cancelled: ${method}`), CANCEL_REASON_ABORTED);
+      };
+      // The signal may outlive the request (e.g. a client session's), so drop the listener once settled
+      const settled = () => options.signal?.removeEventListener('abort', onAbort);
+      const timeout = setTimeout(() => {
+        this.abandonRequest(id, new Error(`Request timeout for method: ${method}`), CANCEL_REASON_TIMEOUT);
+      }, timeoutMs);
+
+      this.pendingRequests.set(id, {
+        resolve: (response) => {
+          settled();
+          resolve(response);
+        },
+        reject: (error) => {
+          settled();
+          reject(error);
+        },
+        timeout,
+        onProgress: options.onProgress,
+      });
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.socket!.send(raw, (err) => {
+        if (err) {
+          clearTimeout(timeout);
+          this.pendingRequests.delete(id);
+          settled();
+          reject(err);
+        }
+      });
+
+      // Emit event for the sent request
+      this.emit('message', request, raw, 'outgoing');
+    });
+  }
+
+  sendNotification(method: string, params?: unknown): void {
+    if (!this.isConnected()) {
+      throw new Error('Connection not open');
+    }
+
+    const notification: JsonRpcNotification = {
+      jsonrpc: '2.0',
+      method,
+      ...(params !== undefined && { params }),
+    };
+
+    const raw = JSON.stringify(notification);
+    this.socket!.send(raw);
+    this.emit('message', notification, raw, 'outgoing');
+  }
+
+  /**
+   * Answer a request the server sent to us
+   */
+  sendResponse(response: JsonRpcResponse): void {
+    if (!this.isConnected()) {
+      throw new Error('Connection not open');
+    }
+
+    const raw = JSON.stringify(response);
+    this.socket!.send(raw);
+    this.emit('message', response, raw, 'outgoing');
+  }
+
+  /**
+   * Give up on a pending request and tell the server (notifications/cancelled)
+   */
+  private abandonRequest(id: string | number, error: Error, reason: string): void {
+    const pending = this.pendingRequests.get(id);
+    if (!pending) {
+      return;
+    }
+    clearTimeout(pending.timeout);
+    this.pendingRequests.delete(id);
+    if (this.isConnected()) {
+      this.sendNotification('notifications/cancelled', { requestId: id, reason });
+    }
+    pending.reject(error);
+  }
+
+  close(): void {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.close(1000);
+    } else if (this.socket && this.socket.readyState === WebSocket.CONNECTING) {
+      this.socket.terminate();
+    }
+  }
+
+  isConnected(): boolean {
+    return this.socket !== null && this.socket.readyState === WebSocket.OPEN;
+  }
+}
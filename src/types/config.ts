@@ -2,7 +2,10 @@
  * Configuration types for proofscan
  */
 
-export type TransportType = 'stdio' | 'rpc-http' | 'rpc-sse';
+import type { RunnerName } from '../runners/types.js';
+import type { OperationCategory } from '../db/tool-analysis.js';
+
+export type TransportType = 'stdio' | 'rpc-http' | 'rpc-sse' | 'ws';
 
 export interface StdioTransport {
   type: 'stdio';
@@ -24,18 +27,162 @@ export interface SseTransport {
   headers?: Record<string, string>;
 }
 
-export type Transport = StdioTransport | HttpTransport | SseTransport;
+export interface WsTransport {
+  type: 'ws';
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export type Transport = StdioTransport | HttpTransport | SseTransport | WsTransport;
 
 export interface ConnectorPlugins {
   debug_monitor?: boolean;
   inscribe?: boolean;
 }
 
+/**
+ * Local program that answers server-initiated requests
+ *
+ * Receives the JSON-RPC request on stdin and prints either
+ * {"result": ...} or {"error": {"code": ..., "message": ...}} on stdout.
+ */
+export interface ServerRequestResponder {
+  command: string;
+  args?: string[];
+  /** Responder timeout in milliseconds (default: 30000) */
+  timeout_ms?: number;
+}
+
+/**
+ * How to answer requests the server sends to us
+ * (sampling/createMessage, roots/list, elicitation/create, ...)
+ *
+ * Tried in order: canned responses, responder, upstream client (proxy only).
+ * Requests nobody handles are answered with "method not found".
+ */
+export interface ServerRequestsConfig {
+  /** Canned results keyed by method, e.g. { "roots/list": { "roots": [] } } */
+  responses?: Record<string, unknown>;
+  responder?: ServerRequestResponder;
+  /** Forward to the upstream MCP client when running in proxy mode (default: true) */
+  forward?: boolean;
+}
+
+/**
+ * Which of a connector's tools `pfscan proxy` exposes
+ *
+ * Patterns are tool names (without the connector prefix) and may use
+ * `*` and `?` wildcards. A tool is exposed when it matches allow_tools
+ * (or allow_tools is unset) and matches neither deny_tools nor
+ * deny_categories. Hidden tools are left out of tools/list and calls
+ * to them are refused.
+ */
+export interface ConnectorProxyPolicy {
+  allow_tools?: string[];
+  deny_tools?: string[];
+  /** Hide tools by operation category, as classified by `pfscan analyze` */
+  deny_categories?: OperationCategory[];
+}
+
+/** How `pfscan proxy` presents one backend tool */
+export interface ProxyToolOverride {
+  /** Name exposed instead of <connector>__<tool>; must be unique across connectors */
+  alias?: string;
+  title?: string;
+  description?: string;
+  /** Arguments filled in when the client leaves them out (no longer required in the schema) */
+  defaults?: Record<string, unknown>;
+}
+
+/** Which tool results `pfscan proxy` serves from memory, and for how long */
+export interface ProxyCacheConfig {
+  /** Seconds a result is served from the cache */
+  ttl_seconds: number;
+  /** Results kept for the connector (default: 100); the least recently used go first */
+  max_entries?: number;
+  /** Tools to cache, by name pattern (* and ?) */
+  tools?: string[];
+  /** Tools to cache, by operation category (default: ["read"] unless tools is set) */
+  categories?: OperationCategory[];
+}
+
+/** Which tool calls `pfscan proxy` holds until someone approves them */
+export interface ProxyApprovalConfig {
+  /** Tools needing approval, by name pattern (* and ?) */
+  tools?: string[];
+  /** Tools needing approval, by operation category (default: ["exec", "write"] unless tools is set) */
+  categories?: OperationCategory[];
+  /** Seconds to wait for a decision before denying (default: 60) */
+  timeout_seconds?: number;
+}
+
+/** Fault `pfscan proxy` can inject into tools/call */
+export type FaultKind = 'latency' | 'drop' | 'error' | 'corrupt' | 'oversize' | 'kill';
+
+/** A fault injected into some of a connector's tool calls (chaos testing) */
+export interface ProxyFaultRule {
+  kind: FaultKind;
+  /** Tools affected, by name pattern (* and ?) (default: all) */
+  tools?: string[];
+  /** Share of matching calls that get the fault, 0-1 (default: 1) */
+  rate?: number;
+  /** latency: delay in milliseconds (default: 1000) */
+  latency_ms?: number;
+  /** error: JSON-RPC error code (default: -32603) */
+  error_code?: number;
+  /** error: JSON-RPC error message (default: "Injected fault") */
+  message?: string;
+  /** oversize: bytes of padding added to the result (default: 1 MiB) */
+  size_bytes?: number;
+}
+
+/** What a replayed tools/call gets when no recording has the same arguments */
+export type ReplayFallback = 'nearest' | 'error';
+
+/** Answer `pfscan proxy` requests from recorded sessions instead of the backend */
+export interface ProxyReplayConfig {
+  /** Session ID (or prefix) to replay (default: every recorded session of the connector) */
+  session?: string;
+  /** nearest = closest recorded call of the same tool; error = refuse (default) */
+  fallback?: ReplayFallback;
+}
+
+/** How `pfscan proxy` shares a connector's backend between upstream clients */
+export type ProxyIsolationMode = 'shared' | 'client';
+
+/** Backend instances per upstream client, for stateful backends */
+export interface ProxyIsolationConfig {
+  /** shared = one backend for every client (default); client = one backend per upstream client session */
+  mode: ProxyIsolationMode;
+  /** Client backends kept at once (default: 8); the least recently used idle one is closed to make room */
+  max_instances?: number;
+}
+
+/** Connector settings used by `pfscan proxy` */
+export interface ConnectorProxyConfig extends ConnectorProxyPolicy {
+  /** Per-tool overrides, keyed by the backend's tool name */
+  tools?: Record<string, ProxyToolOverride>;
+  /** Refuse tools/call arguments that do not match the tool's inputSchema (proxy and gateway) */
+  validate_arguments?: boolean;
+  /** Response cache for idempotent tools */
+  cache?: ProxyCacheConfig;
+  /** Human approval for risky tools */
+  approval?: ProxyApprovalConfig;
+  /** Serve the connector from events.db recordings (no backend is launched) */
+  replay?: ProxyReplayConfig;
+  /** Faults injected into tool calls; the first matching rule applies */
+  faults?: ProxyFaultRule[];
+  /** Give each upstream client its own backend instead of sharing one */
+  isolation?: ProxyIsolationConfig;
+}
+
 export interface Connector {
   id: string;
   enabled: boolean;
   transport: Transport;
   plugins?: ConnectorPlugins;
+  server_requests?: ServerRequestsConfig;
+  proxy?: ConnectorProxyConfig;
 }
 
 export interface RetentionConfig {
@@ -95,6 +242,17 @@ export interface CatalogConfig {
   security?: CatalogSecurityConfig;
 }
 
+/**
+ * Default package runners per ecosystem
+ * Used by `catalog install` when --runner is not given.
+ */
+export interface RunnersConfig {
+  /** Runner for npm packages: npx, bunx, pnpm or deno (default: first available) */
+  npm?: RunnerName;
+  /** Runner for PyPI packages: uvx or pipx (default: first available) */
+  pypi?: RunnerName;
+}
+
 export interface Config {
   version: 1;
   connectors: Connector[];
@@ -103,6 +261,8 @@ export interface Config {
   inscriber?: InscriberConfig;
   /** Catalog configuration for registry source */
   catalog?: CatalogConfig;
+  /** Default package runners */
+  runners?: RunnersConfig;
 }
 
 export const DEFAULT_CONFIG: Config = {
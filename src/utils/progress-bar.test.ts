@@ -0,0 +1,34 @@
+/**
+ * Tests for progress bar utility
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { formatProgressBar, createProgressBar } from './progress-bar.js';
+import { setOutputOptions } from './output.js';
+
+describe('formatProgressBar', () => {
+  it('should draw a bar when the total is known', () => {
+    expect(formatProgressBar({ progress: 5, total: 10, message: 'indexing' }, 10))
+      .toBe('[#####-----]  50% (5/10) indexing');
+  });
+
+  it('should clamp progress beyond the total', () => {
+    expect(formatProgressBar({ progress: 12, total: 10 }, 4)).toBe('[####] 100% (12/10)');
+  });
+
+  it('should show the raw value without a total', () => {
+    expect(formatProgressBar({ progress: 3 })).toBe('3');
+    expect(formatProgressBar({ progress: 3, message: 'files' })).toBe('3 files');
+  });
+});
+
+describe('createProgressBar', () => {
+  afterEach(() => {
+    setOutputOptions({ json: false });
+  });
+
+  it('should be disabled in --json mode', () => {
+    setOutputOptions({ json: true });
+    expect(createProgressBar()).toBeNull();
+  });
+});
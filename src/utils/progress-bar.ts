@@ -0,0 +1,71 @@
+/**
+ * Progress bar for long-running tool calls
+ *
+ * Renders notifications/progress updates on a single stderr line.
+ * Disabled in --json mode and when not running in an interactive TTY,
+ * like the spinner.
+ */
+
+import { getOutputOptions } from './output.js';
+import { isInteractiveTTY } from './platform.js';
+import type { ProgressUpdate } from '../transports/stdio.js';
+
+/** Default bar width in characters */
+const DEFAULT_WIDTH = 24;
+
+/**
+ * Progress bar handle
+ */
+export interface ProgressBar {
+  /** Redraw with a new update */
+  update(update: ProgressUpdate): void;
+  /** Clear the line */
+  stop(): void;
+}
+
+/**
+ * Format a progress update as one line
+ *
+ * With a total: "[#####-----]  50% (5/10) message".
+ * Without one only the raw progress value is known: "5 message".
+ */
+export function formatProgressBar(update: ProgressUpdate, width: number = DEFAULT_WIDTH): string {
+  const message = update.message ? ` ${update.message}` : '';
+
+  if (update.total === undefined || update.total <= 0) {
+    return `${update.progress}${message}`;
+  }
+
+  const ratio = Math.min(Math.max(update.progress / update.total, 0), 1);
+  const filled = Math.round(ratio * width);
+  const bar = '#'.repeat(filled) + '-'.repeat(width - filled);
+  const percent = `${Math.round(ratio * 100)}%`.padStart(4);
+  return `[${bar}] ${percent} (${update.progress}/${update.total})${message}`;
+}
+
+/**
+ * Create a progress bar, or null if it should not be shown
+ *
+ * @param stream - Stream to draw on (default: stderr)
+ */
+export function createProgressBar(stream: NodeJS.WriteStream = process.stderr): ProgressBar | null {
+  if (getOutputOptions().json || !isInteractiveTTY()) {
+    return null;
+  }
+
+  let drawn = false;
+  return {
+    update(update: ProgressUpdate): void {
+      const columns = stream.columns ?? 80;
+      const line = formatProgressBar(update).slice(0, columns - 1);
+      stream.write(`\r\x1b[K${line}`);
+      drawn = true;
+    },
+    stop(): void {
+      if (drawn) {
+        stream.write('\r\x1b[K');
+        drawn = false;
+      }
+    },
+  };
+}